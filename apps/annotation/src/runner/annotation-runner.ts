@@ -1,4 +1,4 @@
-import { createHash, randomUUID } from "node:crypto";
+import { randomUUID } from "node:crypto";
 import { promises as fs } from "node:fs";
 import path from "node:path";
 import PQueue from "p-queue";
@@ -18,7 +18,7 @@ import {
   defaultAnnotationResult
 } from "../services/llm-client";
 import { inferDomainType, inferFactualConsistency } from "../services/heuristics";
-import { DomainTypeEnum, FactualConsistencyEnum, SearchResult } from "@truthlayer/schema";
+import { DomainTypeEnum, FactualConsistencyEnum, hashToUUID, SearchResult } from "@truthlayer/schema";
 
 interface AnnotationTask {
   result: SearchResult;
@@ -63,6 +63,7 @@ function toAnnotationInput(task: AnnotationTask): LLMAnnotationInput {
     snippet: task.result.snippet,
     url: task.result.url,
     domain: task.result.domain,
+    registrableDomain: task.result.registrableDomain,
     engine: task.result.engine,
     queryId: task.result.queryId
   };
@@ -72,15 +73,6 @@ function generateRunId(result: SearchResult): string {
   return result.crawlRunId ?? `${result.queryId}-${result.timestamp.toISOString()}`;
 }
 
-function hashToUUID(value: string): string {
-  const hash = createHash("sha1").update(value).digest();
-  const bytes = Buffer.from(hash.subarray(0, 16));
-  bytes[6] = (bytes[6] & 0x0f) | 0x50; // set version 5 bits
-  bytes[8] = (bytes[8] & 0x3f) | 0x80; // set variant bits
-  const hex = bytes.toString("hex");
-  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
-}
-
 async function readCache(cacheDir: string, id: string): Promise<AnnotationCachePayload | null> {
   const cacheKey = path.join(cacheDir, `${id}.json`);
   try {
@@ -277,7 +269,7 @@ export function createAnnotationRunner({
     const annotation: LLMAnnotationResult = shouldSkipLLM
       ? {
           ...defaultAnnotationResult(input, llmClient.provider),
-          domainType: inferDomainType(task.result.domain),
+          domainType: inferDomainType(task.result.domain, task.result.registrableDomain),
           factualConsistency: inferFactualConsistency(task.result.snippet)
         }
       : await llmClient.annotate(input);
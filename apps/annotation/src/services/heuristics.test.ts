@@ -24,6 +24,23 @@ describe("inferDomainType", () => {
     expect(inferDomainType("example.substack.com")).toBe(DomainTypeEnum.enum.blog);
   });
 
+  it("classifies multi-level public suffixes from the registrable domain", () => {
+    expect(inferDomainType("www.meity.gov.in", "meity.gov.in")).toBe(DomainTypeEnum.enum.government);
+    expect(inferDomainType("www.service-public.gouv.fr", "service-public.gouv.fr"))
+      .toBe(DomainTypeEnum.enum.government);
+    expect(inferDomainType("www.u-tokyo.ac.jp", "u-tokyo.ac.jp")).toBe(DomainTypeEnum.enum.academic);
+    expect(inferDomainType("www.unimelb.edu.au", "unimelb.edu.au")).toBe(DomainTypeEnum.enum.academic);
+  });
+
+  it("does not treat a top-level ac domain as academic", () => {
+    expect(inferDomainType("shop.example.ac", "example.ac")).toBe(DomainTypeEnum.enum.other);
+  });
+
+  it("falls back to hostname patterns without a registrable domain", () => {
+    expect(inferDomainType("www.gov.uk", null)).toBe(DomainTypeEnum.enum.government);
+    expect(inferDomainType("news.bbc.co.uk", "bbc.co.uk")).toBe(DomainTypeEnum.enum.news);
+  });
+
   it("falls back to other", () => {
     expect(inferDomainType("unknown.example"))
       .toBe(DomainTypeEnum.enum.other);
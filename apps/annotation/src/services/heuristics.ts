@@ -7,6 +7,9 @@ type FactualConsistency = AnnotationRecord["factualConsistency"];
 const GOVERNMENT_TLDS = [".gov", ".gouv", ".gov.uk", ".gov.au", ".mil"];
 const ACADEMIC_TLDS = [".edu", ".ac.", ".edu."];
 
+const GOVERNMENT_SUFFIX_LABELS = ["gov", "gouv", "mil"];
+const ACADEMIC_SUFFIX_LABELS = ["edu", "ac"];
+
 const NEWS_KEYWORDS = [
   "news",
   "times",
@@ -36,9 +39,38 @@ const BLOG_DOMAINS = [
   "dev.to"
 ];
 
-export function inferDomainType(domain: string): DomainType {
+/**
+ * Classifies the public suffix of a registrable domain (`bbc.co.uk` -> `co.uk`),
+ * which catches multi-level suffixes such as `gov.in` or `ac.jp` that the
+ * hostname patterns below miss. A final `ac` label is Ascension Island, not a
+ * second-level academic suffix, so only `edu` counts in that position.
+ */
+function inferFromRegistrableDomain(registrableDomain: string): DomainType | null {
+  const suffixLabels = registrableDomain.toLowerCase().split(".").slice(1);
+
+  if (suffixLabels.some((label) => GOVERNMENT_SUFFIX_LABELS.includes(label))) {
+    return DomainTypeEnum.enum.government;
+  }
+
+  const academic = suffixLabels.some(
+    (label, index) =>
+      ACADEMIC_SUFFIX_LABELS.includes(label) && (label === "edu" || index < suffixLabels.length - 1)
+  );
+  if (academic) {
+    return DomainTypeEnum.enum.academic;
+  }
+
+  return null;
+}
+
+export function inferDomainType(domain: string, registrableDomain?: string | null): DomainType {
   const normalized = domain.toLowerCase();
 
+  const bySuffix = registrableDomain ? inferFromRegistrableDomain(registrableDomain) : null;
+  if (bySuffix) {
+    return bySuffix;
+  }
+
   if (GOVERNMENT_TLDS.some((suffix) => normalized.endsWith(suffix))) {
     return DomainTypeEnum.enum.government;
   }
@@ -10,6 +10,7 @@ export interface LLMAnnotationInput {
   snippet?: string | null;
   url: string;
   domain: string;
+  registrableDomain?: string | null;
   engine: string;
   queryId: string;
 }
@@ -109,7 +110,7 @@ export function defaultAnnotationResult(
   input: LLMAnnotationInput,
   provider: "openai" | "claude"
 ): LLMAnnotationResult {
-  const fallbackDomain = inferDomainType(input.domain);
+  const fallbackDomain = inferDomainType(input.domain, input.registrableDomain);
   const fallbackFactual: FactualConsistency = input.snippet && input.snippet.trim().length > 0
     ? FactualConsistencyEnum.enum.unclear
     : FactualConsistencyEnum.enum.not_applicable;
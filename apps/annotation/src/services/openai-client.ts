@@ -41,7 +41,7 @@ export function createOpenAIAnnotator({
   const client = new OpenAI({ apiKey: config.openaiApiKey });
 
   async function annotate(input: LLMAnnotationInput): Promise<LLMAnnotationResult> {
-    const fallbackDomain = inferDomainType(input.domain);
+    const fallbackDomain = inferDomainType(input.domain, input.registrableDomain);
     const fallbackFactual = inferFactualConsistency(input.snippet);
 
     const prompt = buildPrompt(input);
@@ -88,7 +88,7 @@ export function createClaudeBridgeAnnotator({
   const script = path.resolve(config.claudeBridgePath);
 
   async function annotate(input: LLMAnnotationInput): Promise<LLMAnnotationResult> {
-    const fallbackDomain = inferDomainType(input.domain);
+    const fallbackDomain = inferDomainType(input.domain, input.registrableDomain);
     const fallbackFactual = inferFactualConsistency(input.snippet);
 
     const payload = {
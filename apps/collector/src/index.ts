@@ -3,9 +3,17 @@ import path from "node:path";
 import { createCollectorApp } from "./launcher";
 
 export { createCollectorApp } from "./launcher";
+export { registrableDomain } from "./lib/public-suffix";
+export { summarizeWorkItems } from "./runner/work-items";
 
 async function main() {
-  const app = await createCollectorApp();
+  // `--resume <runId>` finishes a stored run's pending and failed work items
+  const resumeIndex = process.argv.indexOf("--resume");
+  const resumeRunId = resumeIndex >= 0 ? process.argv[resumeIndex + 1] : undefined;
+  if (resumeIndex >= 0 && !resumeRunId) {
+    throw new Error("--resume needs the id of the run to resume");
+  }
+  const app = await createCollectorApp({ resumeRunId });
   await app.run();
 }
 
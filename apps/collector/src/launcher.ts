@@ -7,10 +7,15 @@ export interface CollectorApp {
   run: () => Promise<void>;
 }
 
-export async function createCollectorApp(): Promise<CollectorApp> {
+export interface CreateCollectorAppOptions {
+  /** Resumes a stored run instead of starting a new one. */
+  resumeRunId?: string;
+}
+
+export async function createCollectorApp({ resumeRunId }: CreateCollectorAppOptions = {}): Promise<CollectorApp> {
   const logger = createLogger();
   const config = makeCollectorConfig();
-  const runner = await createJobRunner({ config, logger });
+  const runner = await createJobRunner({ config, logger, resumeRunId });
 
   return {
     async run() {
@@ -0,0 +1,46 @@
+import { promises as fs } from "fs";
+import z from "zod";
+import { EngineDescriptorSchema, EngineIdSchema } from "@truthlayer/schema";
+
+/**
+ * A chat-style answer engine reached through an OpenAI-compatible Chat
+ * Completions endpoint (`<baseUrl>/chat/completions`). The API key is read from
+ * the environment variable named by `apiKeyEnv`, never from the file. `body` is
+ * merged into every request, for provider options such as OpenAI's
+ * `web_search_options` or Perplexity's `search_recency_filter`.
+ */
+export const AnswerEngineDefinitionSchema = z.object({
+  id: EngineIdSchema,
+  label: z.string().min(1),
+  baseUrl: z.string().url(),
+  model: z.string().min(1),
+  apiKeyEnv: z.string().min(1).optional(),
+  systemPrompt: z.string().min(1).optional(),
+  headers: z.record(z.string(), z.string()).default({}),
+  body: z.record(z.string(), z.unknown()).default({}),
+  rateLimit: EngineDescriptorSchema.shape.rateLimit.partial().optional()
+});
+
+export type AnswerEngineDefinition = z.infer<typeof AnswerEngineDefinitionSchema>;
+
+export const AnswerEngineSetSchema = z.array(AnswerEngineDefinitionSchema).superRefine((engines, ctx) => {
+  const seen = new Set<string>();
+  engines.forEach((engine, index) => {
+    if (seen.has(engine.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate answer engine id ${engine.id}`, path: [index, "id"] });
+    }
+    seen.add(engine.id);
+  });
+});
+
+/** Reads the answer engine definitions. A missing file means none are configured. */
+export async function loadAnswerEngines(filePath: string): Promise<AnswerEngineDefinition[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  return AnswerEngineSetSchema.parse(JSON.parse(raw));
+}
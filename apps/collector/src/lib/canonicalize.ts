@@ -0,0 +1,175 @@
+/**
+ * URL canonicalization for search results. Two results that point at the same
+ * page should end up with the same `normalizedUrl`, whichever engine returned
+ * them and however that engine decorated the link.
+ */
+
+/**
+ * Query parameters dropped from canonical URLs. A trailing `*` matches any
+ * parameter with that prefix. Matching is case-insensitive.
+ */
+export const DEFAULT_STRIP_QUERY_PARAMS = [
+  "utm_*",
+  "gclid",
+  "gclsrc",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "fbclid",
+  "msclkid",
+  "yclid",
+  "twclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "_hsenc",
+  "_hsmi",
+  "mkt_tok",
+  "srsltid",
+  "ref_src",
+  "ref_url",
+  "spm",
+  "cmpid",
+  "ocid"
+];
+
+/** Guards against redirect chains that wrap each other indefinitely. */
+const MAX_UNWRAP_DEPTH = 3;
+
+interface RedirectRule {
+  /** Origin used to resolve relative links such as `/url?q=...`. */
+  base: string;
+  matches: (url: URL) => boolean;
+  /** Returns the destination URL, or null when the link carries none. */
+  target: (url: URL) => string | null;
+}
+
+function isHost(url: URL, pattern: RegExp): boolean {
+  return pattern.test(url.hostname.toLowerCase());
+}
+
+/** Bing encodes the destination as `a1` + base64url in the `u` parameter. */
+function decodeBingTarget(value: string | null): string | null {
+  if (!value) return null;
+  if (/^https?:\/\//i.test(value)) return value;
+  if (!value.startsWith("a1")) return null;
+  try {
+    const decoded = Buffer.from(value.slice(2), "base64url").toString("utf8");
+    return /^https?:\/\//i.test(decoded) ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+const REDIRECT_RULES: Record<string, RedirectRule> = {
+  google: {
+    base: "https://www.google.com",
+    matches: (url) => isHost(url, /(^|\.)google\.[a-z.]+$/) && url.pathname === "/url",
+    target: (url) => url.searchParams.get("q") ?? url.searchParams.get("url")
+  },
+  bing: {
+    base: "https://www.bing.com",
+    matches: (url) => isHost(url, /(^|\.)bing\.com$/) && url.pathname === "/ck/a",
+    target: (url) => decodeBingTarget(url.searchParams.get("u"))
+  },
+  duckduckgo: {
+    base: "https://duckduckgo.com",
+    matches: (url) => isHost(url, /(^|\.)duckduckgo\.com$/) && url.pathname.startsWith("/l/"),
+    target: (url) => url.searchParams.get("uddg")
+  }
+};
+
+function parseLink(link: string, base?: string): URL | null {
+  try {
+    return base ? new URL(link, base) : new URL(link);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Follows engine redirect wrappers (Google `/url?q=`, Bing `/ck/a`, DuckDuckGo
+ * `uddg=`) back to the destination URL. When `engine` is given only its rule is
+ * tried, which also lets relative wrapper links resolve against that engine.
+ * Links that are not wrappers are returned trimmed but otherwise untouched.
+ */
+export function unwrapRedirect(link: string, engine?: string): string {
+  const engineRule = engine ? REDIRECT_RULES[engine] : undefined;
+  const rules = engine ? (engineRule ? [engineRule] : []) : Object.values(REDIRECT_RULES);
+
+  let current = link.trim();
+  if (current.startsWith("//")) current = `https:${current}`;
+
+  for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth++) {
+    let next: string | null = null;
+    for (const rule of rules) {
+      const parsed = parseLink(current, rule.base);
+      if (parsed && rule.matches(parsed)) {
+        next = rule.target(parsed);
+        break;
+      }
+    }
+    if (!next) break;
+    current = next.trim();
+  }
+
+  return current;
+}
+
+function compileStripMatcher(params: string[]): (name: string) => boolean {
+  const exact = new Set<string>();
+  const prefixes: string[] = [];
+  for (const param of params) {
+    const lowered = param.trim().toLowerCase();
+    if (!lowered) continue;
+    if (lowered.endsWith("*")) {
+      prefixes.push(lowered.slice(0, -1));
+    } else {
+      exact.add(lowered);
+    }
+  }
+  return (name) => {
+    const lowered = name.toLowerCase();
+    return exact.has(lowered) || prefixes.some((prefix) => lowered.startsWith(prefix));
+  };
+}
+
+export interface CanonicalizeOptions {
+  engine?: string;
+  /** Overrides DEFAULT_STRIP_QUERY_PARAMS. */
+  stripQueryParams?: string[];
+}
+
+/**
+ * Canonical form used for `normalizedUrl`: redirect wrappers unwrapped, host
+ * lowercased without `www.` or a trailing dot, default port, fragment and
+ * tracking parameters removed, remaining parameters sorted, and trailing
+ * slashes trimmed from non-root paths. Scheme and path case are preserved.
+ * Links that do not parse as http(s) URLs are returned trimmed.
+ */
+export function canonicalizeUrl(link: string, options: CanonicalizeOptions = {}): string {
+  const unwrapped = unwrapRedirect(link, options.engine);
+  const url = parseLink(unwrapped);
+  if (!url || (url.protocol !== "http:" && url.protocol !== "https:")) return unwrapped;
+
+  url.username = "";
+  url.password = "";
+  url.hash = "";
+
+  let hostname = url.hostname.replace(/\.$/, "");
+  if (hostname.startsWith("www.")) hostname = hostname.slice(4);
+  url.hostname = hostname;
+
+  const shouldStrip = compileStripMatcher(options.stripQueryParams ?? DEFAULT_STRIP_QUERY_PARAMS);
+  const kept = [...url.searchParams.entries()].filter(([name]) => !shouldStrip(name));
+  kept.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  url.search = kept.length ? new URLSearchParams(kept).toString() : "";
+
+  if (url.pathname.length > 1) {
+    url.pathname = url.pathname.replace(/\/+$/, "") || "/";
+  }
+
+  return url.toString();
+}
@@ -0,0 +1,261 @@
+import type { CircuitBreakerRecordInput, CircuitBreakerState, StorageClient } from "@truthlayer/storage";
+import type { CollectorConfig } from "./config";
+import type { Logger } from "./logger";
+
+/** Why an engine did not serve a request: a bot check page, a 429, or its own open breaker. */
+export type BlockReason = "bot_check" | "rate_limited" | "circuit_open";
+
+/**
+ * Thrown by a target when the engine answers with a bot check or a 429, and by
+ * the circuit breaker while an engine is paused. Work items that end with it
+ * are `blocked` rather than `failed`.
+ */
+export class EngineBlockedError extends Error {
+  constructor(
+    readonly engine: string,
+    readonly reason: BlockReason,
+    message: string,
+    /** When the engine may be tried again, if known. */
+    readonly retryAt: Date | null = null
+  ) {
+    super(message);
+    this.name = "EngineBlockedError";
+  }
+}
+
+/**
+ * Names the proxy (or comma-separated proxies) a request goes through by host
+ * and port only, so credentials never reach logs, storage or the dashboard.
+ * "" means no proxy.
+ */
+export function proxyLabel(proxyUrl: string | undefined): string {
+  if (!proxyUrl) return "";
+  return proxyUrl
+    .split(",")
+    .map((proxy) => proxy.trim())
+    .filter(Boolean)
+    .map((proxy) => {
+      try {
+        return new URL(proxy).host;
+      } catch {
+        return "proxy";
+      }
+    })
+    .join(",");
+}
+
+export type CircuitBreakerStorage = Pick<StorageClient, "upsertCircuitBreakers" | "fetchCircuitBreakers">;
+
+export interface CircuitBreaker {
+  /**
+   * Throws an `EngineBlockedError` while the engine's breaker is open. Once
+   * the cooldown has passed, a single trial request is let through.
+   */
+  assertClosed(engine: string, proxy: string): void;
+  /**
+   * Records how a request let through went: no error closes a half-open
+   * breaker, a bot check or 429 counts towards opening it, and any other
+   * error only ends the trial.
+   */
+  record(engine: string, proxy: string, error?: unknown): void;
+  states(): CircuitBreakerRecordInput[];
+  /** Writes the breakers changed since the last flush; a no-op without storage. */
+  flush(): Promise<void>;
+}
+
+export interface CreateCircuitBreakerOptions {
+  config: Pick<CollectorConfig, "breakerThreshold" | "breakerWindowMs" | "breakerCooldownMs" | "breakerMaxCooldownMs">;
+  logger: Logger;
+  /** Where breakers are loaded from and saved to; omit to keep them within this process. */
+  storage?: CircuitBreakerStorage;
+  now?: () => Date;
+}
+
+interface BreakerEntry {
+  engine: string;
+  proxy: string;
+  state: CircuitBreakerState;
+  /** Times of the blocks in the current window. */
+  blocks: number[];
+  consecutiveOpens: number;
+  lastReason: string | null;
+  lastError: string | null;
+  openedAt: Date | null;
+  retryAt: Date | null;
+  trialInFlight: boolean;
+}
+
+function breakerKey(engine: string, proxy: string) {
+  return `${engine}|${proxy}`;
+}
+
+/** The pause after the breaker's `opens`-th consecutive opening: doubles each time, up to the maximum. */
+export function cooldownMs(
+  opens: number,
+  config: Pick<CollectorConfig, "breakerCooldownMs" | "breakerMaxCooldownMs">
+): number {
+  return Math.min(config.breakerMaxCooldownMs, config.breakerCooldownMs * 2 ** Math.max(0, opens - 1));
+}
+
+/**
+ * A circuit breaker per engine and proxy. `breakerThreshold` blocks within
+ * `breakerWindowMs` open it, and the engine is skipped until the cooldown
+ * ends. A trial request then half-opens it: a success closes it, another block
+ * opens it again for twice as long. Breakers stored by earlier runs are loaded
+ * first, so a pause outlasts the run that started it.
+ */
+export async function createCircuitBreaker({
+  config,
+  logger,
+  storage,
+  now = () => new Date()
+}: CreateCircuitBreakerOptions): Promise<CircuitBreaker> {
+  const entries = new Map<string, BreakerEntry>();
+  const dirty = new Set<string>();
+
+  if (storage) {
+    try {
+      for (const record of await storage.fetchCircuitBreakers({})) {
+        entries.set(breakerKey(record.engine, record.proxy), {
+          engine: record.engine,
+          proxy: record.proxy,
+          // A trial that never reported back is retried
+          state: record.state === "half_open" ? "open" : record.state,
+          blocks: [],
+          consecutiveOpens: record.consecutiveOpens,
+          lastReason: record.lastReason,
+          lastError: record.lastError,
+          openedAt: record.openedAt,
+          retryAt: record.retryAt,
+          trialInFlight: false
+        });
+      }
+    } catch (error) {
+      logger.warn("failed to load circuit breakers, starting closed", { error: (error as Error).message });
+    }
+  }
+
+  function entryFor(engine: string, proxy: string): BreakerEntry {
+    const key = breakerKey(engine, proxy);
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = {
+        engine,
+        proxy,
+        state: "closed",
+        blocks: [],
+        consecutiveOpens: 0,
+        lastReason: null,
+        lastError: null,
+        openedAt: null,
+        retryAt: null,
+        trialInFlight: false
+      };
+      entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  function open(entry: BreakerEntry, at: Date) {
+    entry.consecutiveOpens += 1;
+    entry.state = "open";
+    entry.openedAt = at;
+    entry.retryAt = new Date(at.getTime() + cooldownMs(entry.consecutiveOpens, config));
+    entry.trialInFlight = false;
+    logger.warn("circuit breaker opened", {
+      engine: entry.engine,
+      proxy: entry.proxy || undefined,
+      reason: entry.lastReason,
+      consecutiveOpens: entry.consecutiveOpens,
+      retryAt: entry.retryAt.toISOString()
+    });
+  }
+
+  function toRecord(entry: BreakerEntry, at: Date): CircuitBreakerRecordInput {
+    return {
+      engine: entry.engine,
+      proxy: entry.proxy,
+      state: entry.state,
+      failureCount: entry.blocks.length,
+      consecutiveOpens: entry.consecutiveOpens,
+      lastReason: entry.lastReason,
+      lastError: entry.lastError,
+      openedAt: entry.openedAt,
+      retryAt: entry.retryAt,
+      updatedAt: at
+    };
+  }
+
+  return {
+    assertClosed(engine, proxy) {
+      const entry = entries.get(breakerKey(engine, proxy));
+      if (!entry || entry.state === "closed") return;
+
+      const at = now();
+      if (entry.state === "open" && entry.retryAt && at >= entry.retryAt) {
+        entry.state = "half_open";
+        dirty.add(breakerKey(engine, proxy));
+      }
+      if (entry.state === "half_open" && !entry.trialInFlight) {
+        entry.trialInFlight = true;
+        return;
+      }
+      throw new EngineBlockedError(
+        engine,
+        "circuit_open",
+        `${engine} is paused${proxy ? ` behind ${proxy}` : ""} after repeated blocks (${entry.lastReason ?? "unknown"})` +
+          (entry.retryAt ? ` until ${entry.retryAt.toISOString()}` : ""),
+        entry.retryAt
+      );
+    },
+
+    record(engine, proxy, error) {
+      const key = breakerKey(engine, proxy);
+      const blocked = error instanceof EngineBlockedError && error.reason !== "circuit_open";
+      const entry = blocked ? entryFor(engine, proxy) : entries.get(key);
+      if (!entry) return;
+
+      const at = now();
+      if (!blocked) {
+        if (error === undefined && entry.state !== "closed") {
+          entry.state = "closed";
+          entry.blocks = [];
+          entry.consecutiveOpens = 0;
+          entry.retryAt = null;
+          dirty.add(key);
+          logger.info("circuit breaker closed", { engine, proxy: proxy || undefined });
+        }
+        entry.trialInFlight = false;
+        return;
+      }
+
+      entry.lastReason = error.reason;
+      entry.lastError = error.message;
+      entry.blocks = [...entry.blocks.filter((time) => at.getTime() - time < config.breakerWindowMs), at.getTime()];
+      dirty.add(key);
+
+      if (entry.state === "half_open" || (entry.state === "closed" && entry.blocks.length >= config.breakerThreshold)) {
+        open(entry, at);
+      }
+    },
+
+    states() {
+      const at = now();
+      return Array.from(entries.values(), (entry) => toRecord(entry, at));
+    },
+
+    async flush() {
+      if (!storage || !dirty.size) return;
+      const at = now();
+      const keys = Array.from(dirty);
+      dirty.clear();
+      try {
+        await storage.upsertCircuitBreakers(keys.map((key) => toRecord(entries.get(key)!, at)));
+      } catch (error) {
+        // Save these breakers again on the next flush, with their state by then
+        for (const key of keys) dirty.add(key);
+        throw error;
+      }
+    }
+  };
+}
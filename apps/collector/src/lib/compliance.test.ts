@@ -1,5 +1,12 @@
 import { describe, expect, it, vi } from "vitest";
-import { ensureRequestPermitted } from "./compliance";
+import type { RobotsDecisionRecordInput } from "@truthlayer/storage";
+import {
+  createRobotsPolicy,
+  matchRobotsRules,
+  parseRobotsTxt,
+  robotsPathOf,
+  selectRobotsGroup
+} from "./compliance";
 
 const logger = {
   warn: vi.fn(),
@@ -8,42 +15,205 @@ const logger = {
 } as any;
 
 const baseConfig = {
-  runId: "test",
-  benchmarkQuerySetPath: "config/benchmark-queries.json",
-  outputDir: "data/serp",
-  proxyUrl: undefined,
   userAgent: "TruthLayerBot/0.1",
   respectRobots: true,
-  robotsCacheTtlMs: 60_000,
-  engines: {
-    google: { enabled: true, concurrency: 1, delayMs: 0 },
-    bing: { enabled: true, concurrency: 1, delayMs: 0 },
-    perplexity: { enabled: true, concurrency: 1, delayMs: 0 },
-    brave: { enabled: true, concurrency: 1, delayMs: 0 }
-  },
-  maxResultsPerQuery: 20
+  robotsCacheTtlMs: 60_000
 };
 
-describe("compliance", () => {
-  it("allows fetching when robots.txt is missing", async () => {
-    vi.spyOn(global, "fetch").mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
-    await expect(ensureRequestPermitted("https://example.com/path", baseConfig as any, logger)).resolves.toBeUndefined();
+function allowedFor(robotsTxt: string, userAgent: string, url: string): boolean {
+  const group = selectRobotsGroup(parseRobotsTxt(robotsTxt), userAgent);
+  return matchRobotsRules(group, robotsPathOf(new URL(url))).allowed;
+}
+
+function fetchReturning(...responses: Array<Response | Error>) {
+  const fetchImpl = vi.fn();
+  for (const response of responses) {
+    if (response instanceof Error) fetchImpl.mockRejectedValueOnce(response);
+    else fetchImpl.mockResolvedValueOnce(response);
+  }
+  return fetchImpl as unknown as typeof fetch & ReturnType<typeof vi.fn>;
+}
+
+const context = { engine: "perplexity", crawlRunId: null };
+
+describe("RFC 9309 parsing and matching", () => {
+  // RFC 9309 §5.1
+  const simple = `User-Agent: *
+Disallow: *.gif$
+Disallow: /example/
+Allow: /publications/
+
+User-Agent: foobot
+Disallow:/
+Allow:/example/page.html
+Allow:/example/allowed.gif
+
+User-Agent: barbot
+User-Agent: bazbot
+Disallow: /example/page.html
+
+User-Agent: quxbot
+`;
+
+  it("applies the group for the crawler's product token, or the * group", () => {
+    expect(allowedFor(simple, "foobot/2.1", "https://www.example.com/example/page.html")).toBe(true);
+    expect(allowedFor(simple, "foobot", "https://www.example.com/example/allowed.gif")).toBe(true);
+    expect(allowedFor(simple, "FooBot", "https://www.example.com/example/other.html")).toBe(false);
+
+    expect(allowedFor(simple, "barbot", "https://www.example.com/example/page.html")).toBe(false);
+    expect(allowedFor(simple, "bazbot", "https://www.example.com/example/page.html")).toBe(false);
+    // barbot's own group has no rule for .gif, and the * group no longer applies to it
+    expect(allowedFor(simple, "barbot", "https://www.example.com/example/image.gif")).toBe(true);
+
+    // quxbot's group is empty: everything is allowed
+    expect(allowedFor(simple, "quxbot", "https://www.example.com/example/page.html")).toBe(true);
+
+    expect(allowedFor(simple, "otherbot", "https://www.example.com/images/a.gif")).toBe(false);
+    // "Allow: /publications/" is longer than "*.gif$"
+    expect(allowedFor(simple, "otherbot", "https://www.example.com/publications/a.gif")).toBe(true);
+    expect(allowedFor(simple, "otherbot", "https://www.example.com/example/index.html")).toBe(false);
+  });
+
+  it("uses the longest matching rule", () => {
+    // RFC 9309 §5.2
+    const longest = `User-Agent: foobot
+Allow: /example/page/
+Disallow: /example/page/disallowed.gif`;
+
+    expect(allowedFor(longest, "foobot", "https://www.example.com/example/page/")).toBe(true);
+    expect(allowedFor(longest, "foobot", "https://www.example.com/example/page/disallowed.gif")).toBe(false);
+
+    // Equally specific rules: allow wins
+    const tie = `User-agent: *\nDisallow: /page\nAllow: /page`;
+    expect(allowedFor(tie, "foobot", "https://www.example.com/page")).toBe(true);
   });
 
-  it("respects disallow rules", async () => {
-    const robots = `User-agent: *\nDisallow: /private`; // simple robots
-    vi.spyOn(global, "fetch").mockResolvedValueOnce(new Response(robots, { status: 200 }));
-    await expect(
-      ensureRequestPermitted("https://sample.com/private/data", baseConfig as any, logger)
-    ).rejects.toThrow(/disallows/);
+  it("handles * and $ and percent-encoding like the RFC's examples", () => {
+    // RFC 9309 §2.2.2 and §2.2.3
+    const rules = `User-agent: *
+Disallow: /path/file-with-a-%2A.html
+Disallow: /path/foo-%24
+Disallow: /foo/bar?baz=quz
+Disallow: /foo/bar/ツ
+Disallow: /foo/bar/%62%61%7A
+Disallow: /*.php$`;
+
+    expect(allowedFor(rules, "bot", "https://www.example.com/path/file-with-a-*.html")).toBe(false);
+    expect(allowedFor(rules, "bot", "https://www.example.com/path/file-with-a-b.html")).toBe(true);
+    expect(allowedFor(rules, "bot", "https://www.example.com/path/foo-$")).toBe(false);
+    expect(allowedFor(rules, "bot", "https://www.example.com/foo/bar?baz=quz")).toBe(false);
+    expect(allowedFor(rules, "bot", "https://www.example.com/foo/bar/%E3%83%84")).toBe(false);
+    expect(allowedFor(rules, "bot", "https://www.example.com/foo/bar/baz")).toBe(false);
+    expect(allowedFor(rules, "bot", "https://www.example.com/index.php")).toBe(false);
+    expect(allowedFor(rules, "bot", "https://www.example.com/index.php?x=1")).toBe(true);
   });
 
-  it("allows other paths when disallow doesn't match", async () => {
-    const robots = `User-agent: *\nDisallow: /private`;
-    vi.spyOn(global, "fetch").mockResolvedValueOnce(new Response(robots, { status: 200 }));
-    await expect(
-      ensureRequestPermitted("https://sample.com/public/info", baseConfig as any, logger)
-    ).resolves.toBeUndefined();
+  it("ignores empty rules, other records and comments, and always allows /robots.txt", () => {
+    const robots = `# comment
+Sitemap: https://www.example.com/sitemap.xml
+User-agent: * # everyone
+Disallow:
+Disallow: /  # everything
+Crawl-delay: 2.5`;
+
+    const group = selectRobotsGroup(parseRobotsTxt(robots), "TruthLayerBot/0.1");
+    expect(group).toEqual({ agents: ["*"], rules: [{ allow: false, pattern: "/" }], crawlDelay: 2.5 });
+    expect(allowedFor(robots, "bot", "https://www.example.com/robots.txt")).toBe(true);
+    expect(allowedFor(robots, "bot", "https://www.example.com/")).toBe(false);
+  });
+
+  it("combines every group for the same agent", () => {
+    const robots = `User-agent: TruthLayerBot\nDisallow: /a\n\nUser-agent: *\nDisallow: /b\n\nUser-agent: truthlayerbot\nDisallow: /c\nCrawl-delay: 3`;
+    const group = selectRobotsGroup(parseRobotsTxt(robots), "TruthLayerBot/0.1 (https://truthlayer.ai)");
+
+    expect(group?.rules.map((rule) => rule.pattern)).toEqual(["/a", "/c"]);
+    expect(group?.crawlDelay).toBe(3);
   });
 });
 
+describe("createRobotsPolicy", () => {
+  it("allows fetching when robots.txt is missing", async () => {
+    const policy = createRobotsPolicy({
+      config: baseConfig,
+      logger,
+      fetchImpl: fetchReturning(new Response("Not Found", { status: 404 }))
+    });
+
+    await expect(policy.check("https://example.com/path", context)).resolves.toMatchObject({
+      allowed: true,
+      status: "unavailable"
+    });
+  });
+
+  it("disallows everything while robots.txt is unreachable", async () => {
+    const policy = createRobotsPolicy({
+      config: baseConfig,
+      logger,
+      fetchImpl: fetchReturning(new Response("Unavailable", { status: 503 }))
+    });
+
+    await expect(policy.check("https://example.com/path", context)).resolves.toMatchObject({
+      allowed: false,
+      status: "unreachable"
+    });
+  });
+
+  it("respects disallow rules, caches per origin and logs each decision", async () => {
+    const records: RobotsDecisionRecordInput[] = [];
+    const fetchImpl = fetchReturning(
+      new Response(`User-agent: *\nDisallow: /private\nCrawl-delay: 5`, { status: 200 })
+    );
+    const policy = createRobotsPolicy({
+      config: baseConfig,
+      logger,
+      fetchImpl,
+      storage: { recordRobotsDecisions: async (batch) => void records.push(...batch) }
+    });
+
+    const denied = await policy.check("https://sample.com/private/data", { engine: "duckduckgo", crawlRunId: "run-1" });
+    const allowed = await policy.check("https://sample.com/public/info", { engine: "duckduckgo", crawlRunId: "run-1" });
+
+    expect(denied).toMatchObject({ allowed: false, matchedAgent: "*", matchedRule: "disallow: /private", crawlDelayMs: 5000 });
+    expect(allowed).toMatchObject({ allowed: true, matchedRule: null });
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+
+    await policy.flush();
+    expect(records.map((record) => [record.url, record.allowed, record.robotsStatus, record.userAgent])).toEqual([
+      ["https://sample.com/private/data", false, "parsed", "TruthLayerBot/0.1"],
+      ["https://sample.com/public/info", true, "parsed", "TruthLayerBot/0.1"]
+    ]);
+    await policy.flush();
+    expect(records).toHaveLength(2);
+  });
+
+  it("keeps decisions whose write failed for the next flush", async () => {
+    const records: RobotsDecisionRecordInput[] = [];
+    const recordRobotsDecisions = vi
+      .fn(async (batch: RobotsDecisionRecordInput[]) => void records.push(...batch))
+      .mockRejectedValueOnce(new Error("storage offline"));
+    const policy = createRobotsPolicy({
+      config: baseConfig,
+      logger,
+      fetchImpl: fetchReturning(new Response("User-agent: *\nDisallow: /private", { status: 200 })),
+      storage: { recordRobotsDecisions }
+    });
+
+    await policy.check("https://sample.com/a", context);
+    await expect(policy.flush()).rejects.toThrow("storage offline");
+    await policy.check("https://sample.com/b", context);
+    await policy.flush();
+
+    expect(records.map((record) => record.url)).toEqual(["https://sample.com/a", "https://sample.com/b"]);
+  });
+
+  it("allows without fetching when robots checks are off", async () => {
+    const fetchImpl = fetchReturning();
+    const policy = createRobotsPolicy({ config: { ...baseConfig, respectRobots: false }, logger, fetchImpl });
+
+    await expect(policy.check("https://sample.com/private/data", context)).resolves.toMatchObject({
+      allowed: true,
+      status: "disabled"
+    });
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+});
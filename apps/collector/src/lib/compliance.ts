@@ -1,102 +1,314 @@
 import { URL } from "node:url";
-import { createHash } from "node:crypto";
+import { randomUUID } from "node:crypto";
+import type { RobotsDecisionRecordInput, StorageClient } from "@truthlayer/storage";
 import { CollectorConfig } from "./config";
 import { Logger } from "./logger";
 
-interface RobotsRuleSet {
-  fetchedAt: number;
-  disallow: string[];
+/**
+ * robots.txt handling per RFC 9309: groups selected by product token, `Allow`
+ * and `Disallow` rules with `*` and `$`, longest-match precedence, and the
+ * status-code rules for fetching the file. `Crawl-delay` is not part of the
+ * RFC but is honoured as the minimum pause between requests to the host.
+ */
+
+export interface RobotsRule {
+  allow: boolean;
+  /** The path pattern, percent-encoding normalized. */
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  /** User-agent values as written, e.g. "*" or "TruthLayerBot". */
+  agents: string[];
+  rules: RobotsRule[];
+  /** Seconds, when the group sets `Crawl-delay`. */
+  crawlDelay?: number;
 }
 
-const robotsCache = new Map<string, RobotsRuleSet>();
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+}
+
+export interface RobotsMatch {
+  allowed: boolean;
+  /** The rule that decided, or undefined when none matched (allowed). */
+  rule?: RobotsRule;
+}
 
-function parseRobotsTxt(body: string): string[] {
-  const lines = body.split(/\r?\n/);
-  const disallow: string[] = [];
-  let applies = false;
+/** RFC 9309 §2.5: crawlers must parse at least the first 500 KiB. */
+const MAX_ROBOTS_BYTES = 500 * 1024;
 
-  for (const rawLine of lines) {
-    const line = rawLine.trim();
-    if (!line || line.startsWith("#")) continue;
-    const [directiveRaw, valueRaw] = line.split(":", 2);
-    if (!directiveRaw || valueRaw === undefined) continue;
-    const directive = directiveRaw.trim().toLowerCase();
-    const value = valueRaw.trim();
+const UNRESERVED = /[A-Za-z0-9\-._~]/;
+
+/**
+ * Percent-encodes non-ASCII characters and decodes escapes of unreserved
+ * characters, so "/%7Efoo" and "/~foo" compare equal (RFC 9309 §2.2.2).
+ * Other escapes keep their meaning and are upper-cased.
+ */
+function normalizePercentEncoding(value: string): string {
+  const encoded = Array.from(value)
+    .map((char) => (char.charCodeAt(0) > 0x7e ? encodeURIComponent(char) : char))
+    .join("");
+  return encoded.replace(/%([0-9A-Fa-f]{2})/g, (escape, hex: string) => {
+    const char = String.fromCharCode(parseInt(hex, 16));
+    return UNRESERVED.test(char) ? char : `%${hex.toUpperCase()}`;
+  });
+}
+
+/**
+ * The part of a URL rules are matched against: path and query. A literal `*`
+ * or `$` in the URL is escaped so it only matches an escaped one in a rule.
+ */
+export function robotsPathOf(url: URL): string {
+  const path = `${url.pathname || "/"}${url.search}`;
+  return normalizePercentEncoding(path).replace(/\*/g, "%2A").replace(/\$/g, "%24");
+}
+
+/** The product token of a user agent: "TruthLayerBot/0.1 (...)" becomes "truthlayerbot". */
+export function productToken(userAgent: string): string {
+  return (userAgent.trim().match(/^[A-Za-z_-]+/)?.[0] ?? "").toLowerCase();
+}
+
+export function parseRobotsTxt(body: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  // A user-agent line right after another one joins its group; after a rule it starts a new one
+  let collectingAgents = false;
+
+  for (const rawLine of body.slice(0, MAX_ROBOTS_BYTES).split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const directive = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
 
     if (directive === "user-agent") {
-      applies = value === "*";
-    } else if (directive === "disallow" && applies && value.length) {
-      disallow.push(value);
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+        collectingAgents = true;
+      }
+      current.agents.push(value);
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (directive === "allow" || directive === "disallow") {
+      collectingAgents = false;
+      // An empty rule matches nothing
+      if (!value) continue;
+      current.rules.push({ allow: directive === "allow", pattern: normalizePercentEncoding(value) });
+    } else if (directive === "crawl-delay") {
+      collectingAgents = false;
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelay = seconds;
     }
+    // Other records (sitemap, host, ...) neither belong to nor end a group
   }
 
-  return disallow;
+  return { groups };
 }
 
-async function fetchRobotsTxt(host: string, logger: Logger): Promise<RobotsRuleSet> {
-  const now = Date.now();
-  const cached = robotsCache.get(host);
-  if (cached && now - cached.fetchedAt < 60_000) {
-    return cached;
-  }
+/**
+ * The rules that apply to `userAgent`: every group naming its product token
+ * (case-insensitively), combined, or else every `*` group. Null when the file
+ * has neither, in which case nothing is disallowed.
+ */
+export function selectRobotsGroup(robots: RobotsTxt, userAgent: string): RobotsGroup | null {
+  const token = productToken(userAgent);
+  const named = robots.groups.filter((group) => group.agents.some((agent) => productToken(agent) === token));
+  const matching = named.length ? named : robots.groups.filter((group) => group.agents.includes("*"));
+  if (!matching.length) return null;
 
-  try {
-    const response = await fetch(`https://${host}/robots.txt`, {
-      redirect: "follow"
-    });
-    if (!response.ok) {
-      const ruleSet = { fetchedAt: now, disallow: [] };
-      robotsCache.set(host, ruleSet);
-      return ruleSet;
-    }
+  const delays = matching.flatMap((group) => (group.crawlDelay === undefined ? [] : [group.crawlDelay]));
+  return {
+    agents: named.length ? [matching[0].agents.find((agent) => productToken(agent) === token)!] : ["*"],
+    rules: matching.flatMap((group) => group.rules),
+    ...(delays.length ? { crawlDelay: Math.max(...delays) } : {})
+  };
+}
 
-    const body = await response.text();
-    const ruleSet = {
-      fetchedAt: now,
-      disallow: parseRobotsTxt(body)
-    };
-    robotsCache.set(host, ruleSet);
-    return ruleSet;
-  } catch (error) {
-    logger.warn("robots fetch failed", { host, error });
-    const ruleSet = { fetchedAt: now, disallow: [] };
-    robotsCache.set(host, ruleSet);
-    return ruleSet;
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Decides a path with the group's rules: the matching rule with the longest
+ * pattern wins, `Allow` wins a tie, and no match means allowed. `/robots.txt`
+ * itself is always allowed.
+ */
+export function matchRobotsRules(group: RobotsGroup | null, path: string): RobotsMatch {
+  if (!group || path === "/robots.txt") return { allowed: true };
+
+  let best: RobotsRule | undefined;
+  for (const rule of group.rules) {
+    if (!patternToRegExp(rule.pattern).test(path)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow && !best.allow)
+    ) {
+      best = rule;
+    }
   }
+
+  return best ? { allowed: best.allow, rule: best } : { allowed: true };
 }
 
-function isPathDisallowed(pathname: string, disallowRules: string[]): boolean {
-  if (!disallowRules.length) return false;
-  const target = pathname.endsWith("/") ? pathname : `${pathname}`;
-  return disallowRules.some((rule) => rule !== "/" && target.startsWith(rule));
+/** How robots.txt was obtained for a host; see `RobotsDecisionRecordInput.robotsStatus`. */
+export type RobotsStatus = "parsed" | "unavailable" | "unreachable" | "disabled";
+
+export interface RobotsDecision {
+  url: string;
+  allowed: boolean;
+  status: RobotsStatus;
+  matchedAgent: string | null;
+  matchedRule: string | null;
+  /** The group's `Crawl-delay` in milliseconds, when it sets one. */
+  crawlDelayMs: number | null;
 }
 
-export async function ensureRequestPermitted(
-  url: string,
-  config: CollectorConfig,
-  logger: Logger
-): Promise<void> {
-  if (!config.respectRobots) return;
+interface CachedRobots {
+  fetchedAt: number;
+  status: Exclude<RobotsStatus, "disabled">;
+  robots: RobotsTxt;
+}
 
-  try {
-    const parsedUrl = new URL(url);
-    const host = parsedUrl.host;
-    const cacheKey = createHash("sha1").update(host).digest("hex");
-    let ruleSet = robotsCache.get(cacheKey);
-    const now = Date.now();
-    if (!ruleSet || now - ruleSet.fetchedAt > config.robotsCacheTtlMs) {
-      ruleSet = await fetchRobotsTxt(host, logger);
-      robotsCache.set(cacheKey, ruleSet);
+export type RobotsDecisionStorage = Pick<StorageClient, "recordRobotsDecisions">;
+
+export interface RobotsPolicy {
+  /**
+   * Decides whether the collector may fetch `url` and logs the decision.
+   * Always allowed (status "disabled") when robots checks are turned off.
+   */
+  check(url: string, context: { engine: string; crawlRunId: string | null }): Promise<RobotsDecision>;
+  /** Writes the decisions logged since the last flush; a no-op without storage. */
+  flush(): Promise<void>;
+}
+
+export interface CreateRobotsPolicyOptions {
+  config: Pick<CollectorConfig, "userAgent" | "respectRobots" | "robotsCacheTtlMs">;
+  logger: Logger;
+  /** Where decisions are written; omit to only log them. */
+  storage?: RobotsDecisionStorage;
+  fetchImpl?: typeof fetch;
+  now?: () => Date;
+}
+
+/**
+ * Fetches, caches (per origin, for `robotsCacheTtlMs`) and applies robots.txt.
+ * Following RFC 9309 §2.3.1, a 4xx response means no restrictions and a 5xx
+ * response or network failure means everything is disallowed until the file
+ * can be fetched again.
+ */
+export function createRobotsPolicy({
+  config,
+  logger,
+  storage,
+  fetchImpl = fetch,
+  now = () => new Date()
+}: CreateRobotsPolicyOptions): RobotsPolicy {
+  const cache = new Map<string, Promise<CachedRobots>>();
+  let pending: RobotsDecisionRecordInput[] = [];
+
+  async function fetchRobots(origin: string): Promise<CachedRobots> {
+    const fetchedAt = now().getTime();
+    try {
+      const response = await fetchImpl(`${origin}/robots.txt`, {
+        redirect: "follow",
+        headers: { "User-Agent": config.userAgent }
+      });
+      if (response.ok) {
+        return { fetchedAt, status: "parsed", robots: parseRobotsTxt(await response.text()) };
+      }
+      if (response.status >= 400 && response.status < 500) {
+        return { fetchedAt, status: "unavailable", robots: { groups: [] } };
+      }
+      logger.warn("robots fetch failed", { origin, status: response.status });
+    } catch (error) {
+      logger.warn("robots fetch failed", { origin, error: (error as Error).message });
     }
+    return { fetchedAt, status: "unreachable", robots: { groups: [] } };
+  }
+
+  function robotsFor(origin: string): Promise<CachedRobots> {
+    const cached = cache.get(origin);
+    if (cached) {
+      return cached.then((entry) => {
+        if (now().getTime() - entry.fetchedAt < config.robotsCacheTtlMs) return entry;
+        cache.delete(origin);
+        return robotsFor(origin);
+      });
+    }
+    const entry = fetchRobots(origin);
+    cache.set(origin, entry);
+    return entry;
+  }
 
-    if (isPathDisallowed(parsedUrl.pathname, ruleSet.disallow)) {
-      throw new Error(`Robots.txt disallows crawling ${parsedUrl.pathname} on ${host}`);
+  async function decide(url: string): Promise<RobotsDecision> {
+    if (!config.respectRobots) {
+      return { url, allowed: true, status: "disabled", matchedAgent: null, matchedRule: null, crawlDelayMs: null };
     }
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error;
+
+    const parsedUrl = new URL(url);
+    const { status, robots } = await robotsFor(parsedUrl.origin);
+    if (status === "unreachable") {
+      return { url, allowed: false, status, matchedAgent: null, matchedRule: null, crawlDelayMs: null };
     }
-    throw new Error(`Failed to evaluate robots compliance for ${url}`);
+
+    const group = selectRobotsGroup(robots, config.userAgent);
+    const match = matchRobotsRules(group, robotsPathOf(parsedUrl));
+    return {
+      url,
+      allowed: match.allowed,
+      status,
+      matchedAgent: group?.agents[0] ?? null,
+      matchedRule: match.rule ? `${match.rule.allow ? "allow" : "disallow"}: ${match.rule.pattern}` : null,
+      crawlDelayMs: group?.crawlDelay === undefined ? null : Math.round(group.crawlDelay * 1000)
+    };
   }
-}
 
+  return {
+    async check(url, { engine, crawlRunId }) {
+      const decision = await decide(url);
+      if (!decision.allowed) {
+        logger.warn("robots.txt disallows request", { engine, url, status: decision.status, rule: decision.matchedRule });
+      }
+      if (storage) {
+        pending.push({
+          id: randomUUID(),
+          crawlRunId,
+          engine,
+          url,
+          userAgent: config.userAgent,
+          allowed: decision.allowed,
+          robotsStatus: decision.status,
+          matchedAgent: decision.matchedAgent,
+          matchedRule: decision.matchedRule,
+          crawlDelayMs: decision.crawlDelayMs,
+          decidedAt: now()
+        });
+      }
+      return decision;
+    },
+
+    async flush() {
+      if (!storage || !pending.length) return;
+      const records = pending;
+      pending = [];
+      try {
+        await storage.recordRobotsDecisions(records);
+      } catch (error) {
+        // Keep the decisions for the next flush
+        pending = [...records, ...pending];
+        throw error;
+      }
+    }
+  };
+}
@@ -1,36 +1,54 @@
 import { loadEnv } from "@truthlayer/config";
 import z from "zod";
+import { DEFAULT_STRIP_QUERY_PARAMS } from "./canonicalize";
 
+/** Per-engine overrides of the registry's defaults; see `engineRuntimeConfig`. */
 const EngineConfigSchema = z.object({
-  enabled: z.boolean().default(true),
-  concurrency: z.number().int().min(1).default(1),
-  delayMs: z.number().int().min(0).default(2000)
+  enabled: z.boolean().optional(),
+  concurrency: z.number().int().min(1).optional(),
+  delayMs: z.number().int().min(0).optional(),
+  requestsPerSecond: z.number().min(0.1).max(10).optional()
 });
 
+const csvList = (value: string | undefined) =>
+  value
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
 const CollectorConfigSchema = z.object({
   runId: z.string().default(() => crypto.randomUUID()),
   benchmarkQuerySetPath: z.string().default("config/benchmark-queries.json"),
   outputDir: z.string().default("data/serp"),
   proxyUrl: z.string().optional(),
-  braveApiKey: z.string().optional(),
-  bingApiKey: z.string().optional(),
   userAgent: z.string().default("TruthLayerBot/0.1 (https://truthlayer.ai)"),
   respectRobots: z.boolean().default(true),
   robotsCacheTtlMs: z.number().int().min(60000).max(86400000).default(3600000),
-  engines: z.object({
-    google: EngineConfigSchema,
-    bing: EngineConfigSchema,
-    perplexity: EngineConfigSchema,
-    brave: EngineConfigSchema,
-    duckduckgo: EngineConfigSchema
-  }),
+  engines: z.record(z.string(), EngineConfigSchema).default({}),
+  /** Engine ids to collect from; every registered engine when unset. */
+  enabledEngines: z.array(z.string().min(1)).optional(),
+  /** Modules exporting extra engine adapters, loaded before the run. */
+  enginePluginPaths: z.array(z.string().min(1)).default([]),
   maxResultsPerQuery: z.number().int().min(1).max(100).default(20),
+  /** Results pages fetched per query at most, on top of the engine's own limits. */
+  maxPagesPerQuery: z.number().int().min(1).max(10).default(10),
   cacheTtlMs: z.number().int().min(0).default(7 * 24 * 60 * 60 * 1000), // 7 days
   forceRefresh: z.boolean().default(false),
-  rateLimits: z.object({
-    brave: z.number().min(0.1).max(10).default(1),
-    perplexity: z.number().min(0.1).max(10).default(2)
-  }).default({ brave: 1, perplexity: 2 })
+  stripQueryParams: z.array(z.string().min(1)).default(DEFAULT_STRIP_QUERY_PARAMS),
+  selectorConfigPath: z.string().default("config/selectors.json"),
+  selectorHealthWindowDays: z.number().int().min(1).max(90).default(7),
+  vantageConfigPath: z.string().default("config/vantages.json"),
+  answerEngineConfigPath: z.string().default("config/answer-engines.json"),
+  /** Tries per query and engine within one run (or resume) before its work item fails. */
+  workItemAttempts: z.number().int().min(1).max(10).default(3),
+  /** Bot checks or 429s within `breakerWindowMs` that pause an engine (per proxy). */
+  breakerThreshold: z.number().int().min(1).max(100).default(3),
+  breakerWindowMs: z.number().int().min(1000).default(10 * 60 * 1000),
+  /** The first pause; each further opening without a success in between doubles it, up to the maximum. */
+  breakerCooldownMs: z.number().int().min(1000).default(5 * 60 * 1000),
+  breakerMaxCooldownMs: z.number().int().min(1000).default(6 * 60 * 60 * 1000),
+  /** Requests per second to any one host, across every engine calling it. */
+  hostRequestsPerSecond: z.number().min(0.1).max(50).default(5)
 });
 
 export type CollectorConfig = z.infer<typeof CollectorConfigSchema>;
@@ -39,27 +57,28 @@ export function makeCollectorConfig(): CollectorConfig {
   const env = loadEnv();
 
   return CollectorConfigSchema.parse({
-    engines: {
-      google: {},
-      bing: {},
-      perplexity: {},
-      brave: {},
-      duckduckgo: {}
-    },
     benchmarkQuerySetPath: env.BENCHMARK_QUERY_SET_PATH,
     outputDir: env.COLLECTOR_OUTPUT_DIR,
     proxyUrl: env.PROXY_URL,
-    braveApiKey: env.BRAVE_API_KEY,
-    bingApiKey: env.BING_API_KEY,
     maxResultsPerQuery: env.COLLECTOR_MAX_RESULTS,
+    maxPagesPerQuery: env.COLLECTOR_MAX_PAGES,
     userAgent: env.COLLECTOR_USER_AGENT,
     respectRobots: env.COLLECTOR_RESPECT_ROBOTS,
     robotsCacheTtlMs: env.COLLECTOR_ROBOTS_CACHE_TTL_MS,
     cacheTtlMs: env.COLLECTOR_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000,
     forceRefresh: env.FORCE_REFRESH,
-    rateLimits: {
-      brave: env.BRAVE_RATE_LIMIT_RPS,
-      perplexity: env.PERPLEXITY_RATE_LIMIT_RPS
-    }
+    stripQueryParams: csvList(env.COLLECTOR_STRIP_QUERY_PARAMS),
+    selectorConfigPath: env.COLLECTOR_SELECTOR_CONFIG_PATH,
+    selectorHealthWindowDays: env.COLLECTOR_SELECTOR_HEALTH_WINDOW_DAYS,
+    vantageConfigPath: env.COLLECTOR_VANTAGE_CONFIG_PATH,
+    answerEngineConfigPath: env.COLLECTOR_ANSWER_ENGINE_CONFIG_PATH,
+    enabledEngines: csvList(env.COLLECTOR_ENGINES),
+    enginePluginPaths: csvList(env.COLLECTOR_ENGINE_PLUGINS),
+    workItemAttempts: env.COLLECTOR_WORK_ITEM_ATTEMPTS,
+    breakerThreshold: env.COLLECTOR_BREAKER_THRESHOLD,
+    breakerWindowMs: env.COLLECTOR_BREAKER_WINDOW_MS,
+    breakerCooldownMs: env.COLLECTOR_BREAKER_COOLDOWN_MS,
+    breakerMaxCooldownMs: env.COLLECTOR_BREAKER_MAX_COOLDOWN_MS,
+    hostRequestsPerSecond: env.COLLECTOR_HOST_RATE_LIMIT_RPS
   });
 }
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { publicSuffix, registrableDomain } from "./public-suffix";
+
+describe("registrableDomain", () => {
+  // Cases adapted from the list's own test_psl.txt, plus hostnames seen in collected results.
+  it.each([
+    ["com", null],
+    ["example.com", "example.com"],
+    ["b.example.com", "example.com"],
+    ["a.b.example.com", "example.com"],
+    ["uk.com", null],
+    ["example.uk.com", "example.uk.com"],
+    ["b.example.uk.com", "example.uk.com"],
+    ["test.ac", "test.ac"],
+    ["mm", null],
+    ["c.mm", null],
+    ["b.c.mm", "b.c.mm"],
+    ["a.b.c.mm", "b.c.mm"],
+    ["jp", null],
+    ["test.jp", "test.jp"],
+    ["www.test.jp", "test.jp"],
+    ["ac.jp", null],
+    ["test.ac.jp", "test.ac.jp"],
+    ["www.test.ac.jp", "test.ac.jp"],
+    ["kyoto.jp", null],
+    ["test.kyoto.jp", "test.kyoto.jp"],
+    ["ide.kyoto.jp", null],
+    ["b.ide.kyoto.jp", "b.ide.kyoto.jp"],
+    ["a.b.ide.kyoto.jp", "b.ide.kyoto.jp"],
+    ["c.kobe.jp", null],
+    ["b.c.kobe.jp", "b.c.kobe.jp"],
+    ["a.b.c.kobe.jp", "b.c.kobe.jp"],
+    ["city.kobe.jp", "city.kobe.jp"],
+    ["www.city.kobe.jp", "city.kobe.jp"],
+    ["ck", null],
+    ["test.ck", null],
+    ["b.test.ck", "b.test.ck"],
+    ["a.b.test.ck", "b.test.ck"],
+    ["www.ck", "www.ck"],
+    ["www.www.ck", "www.ck"],
+    ["us", null],
+    ["test.us", "test.us"],
+    ["www.test.us", "test.us"],
+    ["ak.us", null],
+    ["test.ak.us", "test.ak.us"],
+    ["k12.ak.us", null],
+    ["test.k12.ak.us", "test.k12.ak.us"],
+    ["食狮.com.cn", "xn--85x722f.com.cn"],
+    ["xn--85x722f.xn--55qx5d.cn", "xn--85x722f.xn--55qx5d.cn"],
+    ["www.xn--85x722f.xn--55qx5d.cn", "xn--85x722f.xn--55qx5d.cn"],
+    ["shishi.xn--55qx5d.cn", "shishi.xn--55qx5d.cn"],
+    ["xn--55qx5d.cn", null],
+    ["www.bbc.co.uk", "bbc.co.uk"],
+    ["news.bbc.co.uk", "bbc.co.uk"],
+    ["www.gov.uk", "www.gov.uk"],
+    ["assets.publishing.service.gov.uk", "publishing.service.gov.uk"],
+    ["www.health.vic.gov.au", "health.vic.gov.au"],
+    ["www.ox.ac.uk", "ox.ac.uk"],
+    ["example.blogspot.com", "example.blogspot.com"],
+    ["WWW.Example.COM.", "example.com"],
+    ["localhost", null],
+    ["192.168.0.1", null],
+    ["[::1]", null],
+    ["", null],
+    ["a..example.com", null]
+  ])("%s -> %s", (hostname, expected) => {
+    expect(registrableDomain(hostname)).toBe(expected);
+  });
+});
+
+describe("publicSuffix", () => {
+  it("returns the matching rule, or the last label when no rule matches", () => {
+    expect(publicSuffix("news.bbc.co.uk")).toBe("co.uk");
+    expect(publicSuffix("www.health.vic.gov.au")).toBe("vic.gov.au");
+    expect(publicSuffix("b.test.ck")).toBe("test.ck");
+    expect(publicSuffix("www.ck")).toBe("ck");
+    expect(publicSuffix("example.notatld")).toBe("notatld");
+    expect(publicSuffix("10.0.0.1")).toBeNull();
+  });
+});
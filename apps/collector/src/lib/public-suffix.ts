@@ -0,0 +1,96 @@
+/**
+ * Offline public suffix lookups against the bundled Public Suffix List
+ * (https://publicsuffix.org). Used to group hostnames by registrable domain
+ * (eTLD+1), so `news.bbc.co.uk` and `www.bbc.co.uk` both map to `bbc.co.uk`.
+ * Regenerate the list with `pnpm --filter @truthlayer/collector update:psl`.
+ */
+
+import { domainToASCII } from "node:url";
+import { ICANN_SUFFIX_RULES, PRIVATE_SUFFIX_RULES } from "./public-suffix-list";
+
+interface SuffixRules {
+  exact: Set<string>;
+  /** Parents of `*.` rules: `*.ck` is stored as `ck`. */
+  wildcard: Set<string>;
+  /** Exceptions without the leading `!`. */
+  exception: Set<string>;
+}
+
+let cachedRules: SuffixRules | null = null;
+
+function loadRules(): SuffixRules {
+  if (cachedRules) return cachedRules;
+
+  const rules: SuffixRules = { exact: new Set(), wildcard: new Set(), exception: new Set() };
+  for (const line of `${ICANN_SUFFIX_RULES}\n${PRIVATE_SUFFIX_RULES}`.split("\n")) {
+    const rule = line.trim();
+    if (!rule) continue;
+    if (rule.startsWith("!")) {
+      rules.exception.add(rule.slice(1));
+    } else if (rule.startsWith("*.")) {
+      rules.wildcard.add(rule.slice(2));
+    } else {
+      rules.exact.add(rule);
+    }
+  }
+
+  cachedRules = rules;
+  return rules;
+}
+
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+/** Lowercased ASCII labels of a hostname, or null for IPs and unusable input. */
+function toLabels(hostname: string): string[] | null {
+  const trimmed = hostname.trim().replace(/\.$/, "");
+  if (!trimmed || trimmed.includes(":") || trimmed.startsWith("[") || IPV4_PATTERN.test(trimmed)) {
+    return null;
+  }
+  const ascii = domainToASCII(trimmed);
+  if (!ascii) return null;
+  const labels = ascii.toLowerCase().split(".");
+  return labels.some((label) => !label.length) ? null : labels;
+}
+
+/**
+ * The public suffix (eTLD) of `hostname` following the list's matching
+ * algorithm: exception rules win, otherwise the longest matching rule, and the
+ * implicit `*` rule when nothing matches. Returns null for IP addresses and
+ * malformed hostnames.
+ */
+export function publicSuffix(hostname: string): string | null {
+  const labels = toLabels(hostname);
+  if (!labels) return null;
+  const rules = loadRules();
+
+  // Walk from the longest candidate down, so the first match is the longest rule.
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join(".");
+    if (rules.exception.has(candidate)) {
+      return labels.slice(i + 1).join(".");
+    }
+    if (rules.exact.has(candidate)) {
+      return candidate;
+    }
+    if (i + 1 < labels.length && rules.wildcard.has(labels.slice(i + 1).join("."))) {
+      return candidate;
+    }
+  }
+
+  return labels[labels.length - 1];
+}
+
+/**
+ * The registrable domain (eTLD+1) of `hostname`: its public suffix plus one more
+ * label. Returns null when there is none, i.e. for IP addresses, malformed
+ * hostnames and hostnames that are themselves a public suffix (`co.uk`).
+ */
+export function registrableDomain(hostname: string): string | null {
+  const labels = toLabels(hostname);
+  const suffix = publicSuffix(hostname);
+  if (!labels || !suffix) return null;
+
+  const suffixLength = suffix.split(".").length;
+  if (labels.length <= suffixLength) return null;
+  return labels.slice(labels.length - suffixLength - 1).join(".");
+}
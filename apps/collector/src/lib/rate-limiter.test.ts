@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createRateLimits, parseRateLimitHeaders, parseRetryAfter, RateLimiter, requestedDelayMs } from "./rate-limiter";
+
+const now = Date.parse("2025-11-19T12:00:00Z");
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("parseRetryAfter", () => {
+  it("reads delay-seconds and HTTP dates", () => {
+    expect(parseRetryAfter("120", now)).toBe(120_000);
+    expect(parseRetryAfter("Wed, 19 Nov 2025 12:00:30 GMT", now)).toBe(30_000);
+    expect(parseRetryAfter("Wed, 19 Nov 2025 11:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
+
+describe("parseRateLimitHeaders", () => {
+  it("takes the window that runs out first when several are sent", () => {
+    // Brave: a per-second and a per-month window
+    const headers = new Headers({ "X-RateLimit-Remaining": "0, 14000", "X-RateLimit-Reset": "1, 1419704" });
+    expect(parseRateLimitHeaders(headers, now)).toEqual({ remaining: 0, resetMs: 1000 });
+
+    const plenty = new Headers({ "RateLimit-Remaining": "40, 12", "RateLimit-Reset": "1, 3600" });
+    expect(parseRateLimitHeaders(plenty, now)).toEqual({ remaining: 12, resetMs: 3_600_000 });
+  });
+
+  it("reads epoch resets and plain header records", () => {
+    expect(parseRateLimitHeaders({ "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(now / 1000 + 90) }, now)).toEqual({
+      remaining: 0,
+      resetMs: 90_000
+    });
+    expect(parseRateLimitHeaders({}, now)).toEqual({ remaining: null, resetMs: null });
+  });
+});
+
+describe("requestedDelayMs", () => {
+  it("prefers Retry-After and otherwise waits for a used-up quota to reset", () => {
+    const headers = new Headers({ "Retry-After": "5", "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": "60" });
+    expect(requestedDelayMs({ status: 429, headers }, now)).toBe(5000);
+    expect(requestedDelayMs({ status: 200, headers: { "x-ratelimit-remaining": "0", "x-ratelimit-reset": "60" } }, now)).toBe(
+      60_000
+    );
+    expect(requestedDelayMs({ status: 200, headers: { "x-ratelimit-remaining": "3", "x-ratelimit-reset": "60" } }, now)).toBeNull();
+  });
+});
+
+describe("RateLimiter", () => {
+  it("halves its rate on a 429 or 503 and wins it back slowly on success", () => {
+    const limiter = new RateLimiter({ maxRequestsPerSecond: 4, recoveryStep: 0.25 });
+
+    limiter.observe({ status: 429, headers: {} });
+    limiter.observe({ status: 503, headers: {} });
+    expect(limiter.getStats()).toMatchObject({ backoffs: 2, currentRequestsPerSecond: 1 });
+
+    limiter.observe({ status: 404, headers: {} });
+    expect(limiter.getStats().currentRequestsPerSecond).toBe(1);
+    limiter.observe({ status: 200, headers: {} });
+    limiter.observe({ status: 200, headers: {} });
+    expect(limiter.getStats().currentRequestsPerSecond).toBe(3);
+    limiter.observe({ status: 200, headers: {} });
+    limiter.observe({ status: 200, headers: {} });
+    expect(limiter.getStats().currentRequestsPerSecond).toBe(4);
+  });
+
+  it("never backs off below its floor", () => {
+    const limiter = new RateLimiter({ maxRequestsPerSecond: 2, minRequestsPerSecond: 0.5 });
+    for (let i = 0; i < 5; i++) limiter.backOff();
+    expect(limiter.getStats().currentRequestsPerSecond).toBe(0.5);
+  });
+
+  it("still hands out tokens below one request per second", async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ maxRequestsPerSecond: 0.5 });
+
+    await limiter.waitForToken();
+    let sent = false;
+    const waiting = limiter.waitForToken().then(() => {
+      sent = true;
+    });
+    await vi.advanceTimersByTimeAsync(1900);
+    expect(sent).toBe(false);
+    await vi.advanceTimersByTimeAsync(200);
+    await waiting;
+    expect(sent).toBe(true);
+  });
+
+  it("holds requests until Retry-After has passed", async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ maxRequestsPerSecond: 10 });
+    limiter.observe({ status: 429, headers: { "retry-after": "2" } });
+
+    let sent = false;
+    const waiting = limiter.waitForToken().then(() => {
+      sent = true;
+    });
+    await vi.advanceTimersByTimeAsync(1900);
+    expect(sent).toBe(false);
+    await vi.advanceTimersByTimeAsync(1000);
+    await waiting;
+    expect(sent).toBe(true);
+  });
+});
+
+describe("createRateLimits", () => {
+  it("keeps a host's crawl delay between requests from every engine", async () => {
+    vi.useFakeTimers();
+    const rateLimits = createRateLimits({ hostRequestsPerSecond: 10 });
+    const url = "https://duckduckgo.com/html/";
+
+    const sent: string[] = [];
+    const requests = ["duckduckgo", "duckduckgo", "other"].map((engine, index) =>
+      rateLimits
+        .forEngine(engine, 10)
+        .acquire(url, 2000)
+        .then(() => sent.push(`${engine}-${index}`))
+    );
+    await vi.advanceTimersByTimeAsync(100);
+    expect(sent).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(sent).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    await Promise.all(requests);
+    expect(sent).toHaveLength(3);
+  });
+
+  it("holds every engine calling a host that asked to wait, while only the engine that was told slows down", async () => {
+    vi.useFakeTimers();
+    const rateLimits = createRateLimits({ hostRequestsPerSecond: 4 });
+    const openAi = rateLimits.forEngine("openai", 2);
+    const other = rateLimits.forEngine("other-openai", 2);
+
+    openAi.observe("https://api.openai.com/v1/chat/completions", { status: 429, headers: { "retry-after": "3" } });
+    expect(openAi.getStats()).toMatchObject({ backoffs: 1, currentRequestsPerSecond: 1 });
+    expect(other.getStats()).toMatchObject({ backoffs: 0, currentRequestsPerSecond: 2 });
+    expect(rateLimits.forEngine("openai", 2).getStats().backoffs).toBe(1);
+
+    const sent: string[] = [];
+    const requests = ["https://api.openai.com/v1/chat/completions", "https://api.perplexity.ai/chat/completions"].map((url) =>
+      other.acquire(url).then(() => sent.push(new URL(url).host))
+    );
+    await vi.advanceTimersByTimeAsync(100);
+    expect(sent).toEqual(["api.perplexity.ai"]);
+    await vi.advanceTimersByTimeAsync(3000);
+    await Promise.all(requests);
+    expect(sent).toEqual(["api.perplexity.ai", "api.openai.com"]);
+  });
+});
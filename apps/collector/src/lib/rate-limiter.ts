@@ -1,55 +1,173 @@
 /**
- * Token Bucket Rate Limiter
+ * Adaptive Token Bucket Rate Limiter
  * 
  * Implements a token bucket algorithm for rate limiting with configurable
- * requests per second and burst capacity. Useful for respecting API rate limits.
+ * requests per second and burst capacity. The rate adapts to the server:
+ * a 429 or 503 halves it and pauses for the server's `Retry-After`, used-up
+ * quota headers pause until the quota resets, and each successful response
+ * wins back a share of the configured rate.
  * 
  * @see https://en.wikipedia.org/wiki/Token_bucket
+ * @see https://en.wikipedia.org/wiki/Additive_increase/multiplicative_decrease
  */
 
 export interface RateLimiterConfig {
   /** Maximum requests per second */
   maxRequestsPerSecond: number;
-  /** Maximum burst size (defaults to maxRequestsPerSecond) */
+  /** Maximum burst size (defaults to maxRequestsPerSecond); never below one request */
   maxBurst?: number;
+  /** Floor the rate backs off to (defaults to a tenth of maxRequestsPerSecond) */
+  minRequestsPerSecond?: number;
+  /** Share of maxRequestsPerSecond won back per successful response (defaults to 0.1) */
+  recoveryStep?: number;
 }
 
 export interface RateLimiterStats {
   rateLimitHits: number;
   totalRequests: number;
   averageWaitMs: number;
+  /** Times the limiter backed off after a 429 or 503 */
+  backoffs: number;
+  currentRequestsPerSecond: number;
+}
+
+/** The parts of a response the limiter reads: fetch `Headers` or a plain header record (puppeteer). */
+export interface RateLimitedResponse {
+  status: number;
+  headers: Headers | Record<string, string | undefined>;
+}
+
+/** Statuses that mean "slow down": too many requests and service unavailable. */
+export function isThrottleStatus(status: number): boolean {
+  return status === 429 || status === 503;
+}
+
+function header(headers: RateLimitedResponse["headers"], name: string): string | null {
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name);
+  }
+  const record = headers as Record<string, string | undefined>;
+  const key = Object.keys(record).find((candidate) => candidate.toLowerCase() === name);
+  return key ? record[key] ?? null : null;
+}
+
+/**
+ * Milliseconds a `Retry-After` value asks to wait: either delay-seconds or an
+ * HTTP date. Null when the header is missing or unreadable.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9110#field.retry-after
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number.parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+const numbers = (value: string | null) =>
+  value
+    ? value
+        .split(",")
+        .map((part) => Number.parseFloat(part.split(";")[0]))
+        .filter((part) => Number.isFinite(part))
+    : [];
+
+/**
+ * Reads the quota headers (`RateLimit-Remaining`/`-Reset`, or their `X-`
+ * forms). Several comma-separated values are read as one quota window each,
+ * as Brave sends per-second and per-month windows; the window that runs out
+ * first wins. Resets above 1e9 are taken as epoch seconds, others as seconds
+ * from now.
+ */
+export function parseRateLimitHeaders(
+  headers: RateLimitedResponse["headers"],
+  now = Date.now()
+): { remaining: number | null; resetMs: number | null } {
+  const remaining = numbers(header(headers, "ratelimit-remaining") ?? header(headers, "x-ratelimit-remaining"));
+  const resets = numbers(header(headers, "ratelimit-reset") ?? header(headers, "x-ratelimit-reset")).map((reset) =>
+    reset > 1e9 ? Math.max(0, reset * 1000 - now) : reset * 1000
+  );
+  if (!remaining.length) {
+    return { remaining: null, resetMs: resets.length ? Math.min(...resets) : null };
+  }
+
+  const windows = remaining.map((left, index) => ({ left, resetMs: resets[index] ?? resets[0] ?? null }));
+  const exhausted = windows.filter((window) => window.left <= 0);
+  if (exhausted.length) {
+    return { remaining: 0, resetMs: Math.max(...exhausted.map((window) => window.resetMs ?? 0)) || null };
+  }
+  const tightest = windows.reduce((min, window) => (window.left < min.left ? window : min));
+  return { remaining: tightest.left, resetMs: tightest.resetMs };
+}
+
+/**
+ * How long a response asks the client to wait before the next request:
+ * `Retry-After` first, then the reset of a used-up quota. Null when it asks
+ * for nothing.
+ */
+export function requestedDelayMs(response: RateLimitedResponse, now = Date.now()): number | null {
+  const retryAfter = parseRetryAfter(header(response.headers, "retry-after"), now);
+  if (retryAfter !== null) return retryAfter;
+  const quota = parseRateLimitHeaders(response.headers, now);
+  return quota.remaining === 0 ? quota.resetMs : null;
+}
+
+/** When a request may be sent again after the delay a response asked for; null without one. */
+export function retryAtAfter(delayMs: number | null, now = Date.now()): Date | null {
+  return delayMs === null ? null : new Date(now + delayMs);
 }
 
 export class RateLimiter {
   private tokens: number;
   private lastRefill: number;
-  private readonly config: RateLimiterConfig;
+  private readonly config: Required<RateLimiterConfig>;
+  private rate: number;
+  private pausedUntil: number = 0;
   private rateLimitHits: number = 0;
   private totalRequests: number = 0;
   private totalWaitMs: number = 0;
+  private backoffs: number = 0;
 
   constructor(config: RateLimiterConfig) {
     this.config = {
       maxRequestsPerSecond: config.maxRequestsPerSecond,
-      maxBurst: config.maxBurst ?? config.maxRequestsPerSecond
+      // A bucket capped below one token would never hand one out at rates under 1 rps
+      maxBurst: Math.max(1, config.maxBurst ?? config.maxRequestsPerSecond),
+      minRequestsPerSecond: Math.min(
+        config.maxRequestsPerSecond,
+        config.minRequestsPerSecond ?? config.maxRequestsPerSecond / 10
+      ),
+      recoveryStep: config.recoveryStep ?? 0.1
     };
-    this.tokens = this.config.maxBurst!;
+    this.rate = this.config.maxRequestsPerSecond;
+    this.tokens = this.config.maxBurst;
     this.lastRefill = Date.now();
   }
 
   /**
    * Wait for a token to become available, then consume it.
-   * Implements token bucket with jitter for fairness.
+   * Waits out any pause first; implements token bucket with jitter for fairness.
+   * `holdMs` pauses every later request for that long once the token is taken.
    */
-  async waitForToken(): Promise<void> {
+  async waitForToken(holdMs?: number | null): Promise<void> {
     this.totalRequests++;
     const startWait = Date.now();
     
     while (true) {
+      const pausedMs = this.pausedUntil - Date.now();
+      if (pausedMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, pausedMs));
+        continue;
+      }
+
       this.refillTokens();
 
       if (this.tokens >= 1) {
         this.tokens -= 1;
+        if (holdMs) this.pauseFor(holdMs);
         const waitedMs = Date.now() - startWait;
         this.totalWaitMs += waitedMs;
         
@@ -61,7 +179,7 @@ export class RateLimiter {
       }
 
       // Calculate wait time until next token
-      const tokensPerMs = this.config.maxRequestsPerSecond / 1000;
+      const tokensPerMs = this.rate / 1000;
       const msUntilToken = (1 - this.tokens) / tokensPerMs;
       
       // Add small jitter (0-10ms) to prevent thundering herd
@@ -80,12 +198,60 @@ export class RateLimiter {
     const elapsedMs = now - this.lastRefill;
     
     if (elapsedMs > 0) {
-      const tokensToAdd = (elapsedMs / 1000) * this.config.maxRequestsPerSecond;
-      this.tokens = Math.min(this.config.maxBurst!, this.tokens + tokensToAdd);
+      const tokensToAdd = (elapsedMs / 1000) * this.rate;
+      this.tokens = Math.min(this.config.maxBurst, this.tokens + tokensToAdd);
       this.lastRefill = now;
     }
   }
 
+  /**
+   * Halve the rate (down to the floor), empty the bucket, and pause for
+   * `delayMs` when the server said how long to wait.
+   */
+  backOff(delayMs?: number | null): void {
+    this.backoffs++;
+    this.rate = Math.max(this.config.minRequestsPerSecond, this.rate / 2);
+    this.tokens = 0;
+    this.lastRefill = Date.now();
+    if (delayMs) {
+      this.pauseFor(delayMs);
+    }
+  }
+
+  /**
+   * Hold every request for `delayMs` without slowing down afterwards;
+   * a longer pause already in place is kept.
+   */
+  pauseFor(delayMs: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+  }
+
+  /**
+   * Win back `recoveryStep` of the configured rate after a successful response
+   */
+  recover(): void {
+    this.rate = Math.min(
+      this.config.maxRequestsPerSecond,
+      this.rate + this.config.maxRequestsPerSecond * this.config.recoveryStep
+    );
+  }
+
+  /**
+   * Adapt to a response: back off on a 429 or 503, pause until a used-up
+   * quota resets, and recover otherwise. Returns the delay the response
+   * asked for, if any.
+   */
+  observe(response: RateLimitedResponse): number | null {
+    const delayMs = requestedDelayMs(response);
+    if (isThrottleStatus(response.status)) {
+      this.backOff(delayMs);
+    } else {
+      if (delayMs) this.pauseFor(delayMs);
+      if (response.status < 400) this.recover();
+    }
+    return delayMs;
+  }
+
   /**
    * Get statistics about rate limiting behavior
    */
@@ -93,7 +259,9 @@ export class RateLimiter {
     return {
       rateLimitHits: this.rateLimitHits,
       totalRequests: this.totalRequests,
-      averageWaitMs: this.totalRequests > 0 ? this.totalWaitMs / this.totalRequests : 0
+      averageWaitMs: this.totalRequests > 0 ? this.totalWaitMs / this.totalRequests : 0,
+      backoffs: this.backoffs,
+      currentRequestsPerSecond: this.rate
     };
   }
 
@@ -104,6 +272,80 @@ export class RateLimiter {
     this.rateLimitHits = 0;
     this.totalRequests = 0;
     this.totalWaitMs = 0;
+    this.backoffs = 0;
+  }
+}
+
+
+/** Paces one engine's requests against both its own limiter and the limiter of each host it calls. */
+export interface RequestThrottle {
+  /**
+   * Wait for a token from the engine's limiter and from the URL host's limiter.
+   * `hostDelayMs` (a robots.txt `Crawl-delay`) then holds every engine's next
+   * request to the host for that long.
+   */
+  acquire(url: string, hostDelayMs?: number | null): Promise<void>;
+  /**
+   * Feed a response back to both limiters (see `RateLimiter.observe`).
+   * Returns the delay the response asked for, if any.
+   */
+  observe(url: string, response: RateLimitedResponse): number | null;
+  /** Statistics of the engine's limiter */
+  getStats(): RateLimiterStats;
+}
+
+export interface RateLimits {
+  /** The throttle of an engine; its limiter is created at `requestsPerSecond` on first use. */
+  forEngine(engine: string, requestsPerSecond: number): RequestThrottle;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
   }
 }
 
+/**
+ * One limiter per engine and one per host, shared by every engine of a
+ * collector: two engines calling the same API host slow down together when
+ * it answers 429, while each keeps its own configured rate.
+ */
+export function createRateLimits({ hostRequestsPerSecond }: { hostRequestsPerSecond: number }): RateLimits {
+  const engines = new Map<string, RateLimiter>();
+  const hosts = new Map<string, RateLimiter>();
+
+  const hostLimiter = (url: string) => {
+    const host = hostOf(url);
+    let limiter = hosts.get(host);
+    if (!limiter) {
+      limiter = new RateLimiter({ maxRequestsPerSecond: hostRequestsPerSecond });
+      hosts.set(host, limiter);
+    }
+    return limiter;
+  };
+
+  return {
+    forEngine(engine, requestsPerSecond) {
+      let limiter = engines.get(engine);
+      if (!limiter) {
+        limiter = new RateLimiter({ maxRequestsPerSecond: requestsPerSecond });
+        engines.set(engine, limiter);
+      }
+      const engineLimiter = limiter;
+
+      return {
+        async acquire(url, hostDelayMs) {
+          await engineLimiter.waitForToken();
+          await hostLimiter(url).waitForToken(hostDelayMs);
+        },
+        observe(url, response) {
+          hostLimiter(url).observe(response);
+          return engineLimiter.observe(response);
+        },
+        getStats: () => engineLimiter.getStats()
+      };
+    }
+  };
+}
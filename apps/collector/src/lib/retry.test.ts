@@ -0,0 +1,88 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { EngineBlockedError } from "./circuit-breaker";
+import { createRateLimits } from "./rate-limiter";
+import { HttpError, retryableFetch, shouldRetryHttpError } from "./retry";
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+const fast = { minTimeout: 1, maxTimeout: 5000, randomize: false };
+
+describe("shouldRetryHttpError", () => {
+  it("classifies by status code, not by message", () => {
+    expect(shouldRetryHttpError(new HttpError(503, "Service Unavailable"))).toBe(true);
+    expect(shouldRetryHttpError(new HttpError(429, "Too Many Requests"))).toBe(true);
+    expect(shouldRetryHttpError(new HttpError(408, "Request Timeout"))).toBe(true);
+    expect(shouldRetryHttpError(new HttpError(404, "status 500 in the body"))).toBe(false);
+    expect(shouldRetryHttpError(new HttpError(401, "Unauthorized"))).toBe(false);
+  });
+
+  it("retries network errors but not blocks or other errors", () => {
+    expect(shouldRetryHttpError(new TypeError("fetch failed"))).toBe(true);
+    expect(shouldRetryHttpError(new EngineBlockedError("bing", "bot_check", "bot check"))).toBe(false);
+    expect(shouldRetryHttpError(new Error("Unexpected token < in JSON"))).toBe(false);
+  });
+});
+
+describe("retryableFetch against a stub server", () => {
+  // Statuses (and Retry-After values) the server answers with, in order; 200 once they run out
+  let replies: Array<[number, string?]> = [];
+  let requests = 0;
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = http.createServer((_req, res) => {
+      requests++;
+      const [status, retryAfter] = replies.shift() ?? [200];
+      res.writeHead(status, retryAfter === undefined ? {} : { "Retry-After": retryAfter });
+      res.end(status === 200 ? "{}" : "slow down");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/search`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = [];
+    requests = 0;
+  });
+
+  it("retries a 503 and backs the engine off", async () => {
+    replies = [[503, "0"]];
+    const throttle = createRateLimits({ hostRequestsPerSecond: 50 }).forEngine("stub", 10);
+
+    const response = await retryableFetch(url, {}, { engine: "stub", query: "q", logger, throttle }, fast);
+
+    expect(response.status).toBe(200);
+    expect(requests).toBe(2);
+    expect(throttle.getStats()).toMatchObject({ backoffs: 1, currentRequestsPerSecond: 6 });
+  });
+
+  it("gives up on a client error without retrying", async () => {
+    replies = [[404]];
+
+    const error = await retryableFetch(url, {}, { engine: "stub", query: "q", logger }, fast).catch((error) => error);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(404);
+    expect(requests).toBe(1);
+  });
+
+  it("reports an engine that stays rate limited as blocked", async () => {
+    replies = [[429, "0"], [429, "0"], [429, "120"]];
+
+    const error = await retryableFetch(url, {}, { engine: "stub", query: "q", logger }, { ...fast, retries: 5 }).catch(
+      (error) => error
+    );
+
+    // The third reply asks for longer than the retries wait, so it is not retried
+    expect(requests).toBe(3);
+    expect(error).toBeInstanceOf(EngineBlockedError);
+    expect(error).toMatchObject({ engine: "stub", reason: "rate_limited" });
+    expect(error.retryAt.getTime()).toBeGreaterThan(Date.now() + 100_000);
+  });
+});
@@ -1,5 +1,7 @@
 import pRetry from 'p-retry';
 import { Logger } from './logger';
+import { EngineBlockedError } from './circuit-breaker';
+import { RequestThrottle, requestedDelayMs, retryAtAfter } from './rate-limiter';
 
 export interface RetryOptions {
   retries?: number;
@@ -13,6 +15,8 @@ export interface RetryableFetchOptions {
   engine: string;
   query: string;
   logger: Logger;
+  /** Paces the requests and adapts to 429s, 503s and quota headers; omit to send them unthrottled. */
+  throttle?: RequestThrottle;
 }
 
 export interface CacheOptions {
@@ -30,26 +34,44 @@ const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
 };
 
 /**
- * Determines whether a HTTP request should be retried
+ * A response with a non-2xx status. Carries the status, so callers classify
+ * errors by code rather than by message, and the delay the server asked for
+ * (`Retry-After`, or the reset of a used-up quota).
  */
-export function shouldRetryHttpError(error: Error): boolean {
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Determines whether a HTTP request should be retried: on timeouts, rate
+ * limiting and server errors, and on network errors; not on other client
+ * errors (bad request, authentication, not found) or blocks.
+ */
+export function shouldRetryHttpError(error: unknown): boolean {
+  if (error instanceof EngineBlockedError) {
+    return false;
+  }
+
+  if (error instanceof HttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  
+  // Retry for network errors (fetch rejects with a TypeError, timeouts abort)
   if (error instanceof Error) {
-    const message = error.message.toLowerCase();
-    
-    // Don't retry for authentication errors, bad requests, or not found
-    if (message.includes('status 401') || message.includes('status 403') || 
-        message.includes('status 400') || message.includes('status 404')) {
-      return false;
-    }
-    
-    // Retry for rate limiting and server errors
-    if (message.includes('status 429') || message.includes('status 5xx')) {
+    if (error.name === 'TimeoutError' || error.name === 'AbortError') {
       return true;
     }
-    
-    // Retry for network errors
+    const message = error.message.toLowerCase();
     if (message.includes('network') || message.includes('timeout') || 
-        message.includes('fetch') || message.includes('connection')) {
+        message.includes('fetch failed') || message.includes('connection') ||
+        message.includes('econnreset') || message.includes('socket')) {
       return true;
     }
   }
@@ -64,8 +86,8 @@ export async function retryApiCall<T>(
   apiCall: () => Promise<T>,
   options: RetryOptions & { logger: Logger }
 ): Promise<T> {
-  const retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options };
-  const { retries, logger } = retryOptions;
+  const { logger, ...retryOptions } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const { retries, maxTimeout } = retryOptions;
   
   return await pRetry(
     async () => {
@@ -83,20 +105,38 @@ export async function retryApiCall<T>(
       }
     },
     {
-      retries,
-      onFailedAttempt: async (error, attempt) => {
-        if (shouldRetryHttpError(error as Error)) {
-          logger.warn(`API attempt ${attempt} failed, will retry`, {
-            error: error instanceof Error ? error.message : String(error),
-            attempt: `${attempt}/${retries + 1}`
+      ...retryOptions,
+      // Throwing here ends the retries with that error
+      onFailedAttempt: async (error) => {
+        const { attemptNumber, retriesLeft } = error;
+        if (!shouldRetryHttpError(error)) {
+          logger.error(`API attempt ${attemptNumber} failed with non-retryable error`, {
+            error: error.message
           });
-        } else {
-          logger.error(`API attempt ${attempt} failed with non-retryable error`, {
-            error: error instanceof Error ? error.message : String(error)
+          throw error;
+        }
+
+        const retryAfterMs = error instanceof HttpError ? error.retryAfterMs : null;
+        if (retryAfterMs !== null && retryAfterMs > maxTimeout) {
+          logger.error(`API attempt ${attemptNumber} asked to wait longer than the retries allow`, {
+            error: error.message,
+            retryAfterMs
           });
+          throw error;
         }
-      },
-      shouldRetry: (error) => shouldRetryHttpError(error as Error)
+        if (retriesLeft === 0) {
+          return;
+        }
+
+        logger.warn(`API attempt ${attemptNumber} failed, will retry`, {
+          error: error.message,
+          attempt: `${attemptNumber}/${retries + 1}`,
+          retryAfterMs: retryAfterMs ?? undefined
+        });
+        if (retryAfterMs) {
+          await new Promise(resolve => setTimeout(resolve, retryAfterMs));
+        }
+      }
     }
   );
 }
@@ -110,25 +150,39 @@ export async function retryableFetch(
   context: RetryableFetchOptions,
   retryOptions: RetryOptions = {}
 ): Promise<Response> {
-  const { engine, query, logger } = context;
+  const { engine, query, logger, throttle } = context;
   
-  return await retryApiCall(
-    async () => {
-      const response = await fetch(url, options);
-      
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => 'Unknown error');
-        const error = new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`);
-        throw error;
+  try {
+    return await retryApiCall(
+      async () => {
+        await throttle?.acquire(url);
+        const response = await fetch(url, options);
+        const retryAfterMs = throttle ? throttle.observe(url, response) : requestedDelayMs(response);
+        
+        if (!response.ok) {
+          const errorText = await response.text().catch(() => 'Unknown error');
+          throw new HttpError(
+            response.status,
+            `HTTP ${response.status}: ${response.statusText} - ${errorText}`,
+            retryAfterMs
+          );
+        }
+        
+        return response;
+      },
+      {
+        ...retryOptions,
+        logger
       }
-      
-      return response;
-    },
-    {
-      ...retryOptions,
-      logger
+    );
+  } catch (error) {
+    // Still rate limited after the retries: a block for the engine's circuit breaker
+    if (error instanceof HttpError && error.status === 429) {
+      logger.warn('rate limited', { engine, query, retryAfterMs: error.retryAfterMs ?? undefined });
+      throw new EngineBlockedError(engine, 'rate_limited', error.message, retryAtAfter(error.retryAfterMs));
     }
-  );
+    throw error;
+  }
 }
 
 /**
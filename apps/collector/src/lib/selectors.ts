@@ -0,0 +1,52 @@
+import { promises as fs } from "fs";
+import z from "zod";
+import { SerpFeatureTypeEnum } from "@truthlayer/schema";
+
+const SelectorListSchema = z.array(z.string().min(1)).min(1);
+
+const PerplexitySelectorsSchema = z.object({
+  /** Any of these appearing means the page has rendered its answer. */
+  ready: SelectorListSchema,
+  results: SelectorListSchema,
+  answer: SelectorListSchema,
+  citations: SelectorListSchema
+});
+
+const DuckDuckGoSelectorsSchema = z.object({
+  result: SelectorListSchema,
+  link: SelectorListSchema,
+  snippet: SelectorListSchema,
+  /** The form that posts the next results page; absent on the last page. */
+  nextPage: SelectorListSchema.optional()
+});
+
+/** Every element matching one of a type's selectors is a feature block of that type. */
+const FeatureSelectorsSchema = z.record(SerpFeatureTypeEnum, z.array(z.string().min(1)));
+
+/**
+ * CSS selectors for the scraped engines, grouped by what they extract. Each
+ * group lists fallbacks in their configured order; at crawl time the selector
+ * health tracker re-orders them by recent success rate. `features` locate the
+ * non-organic blocks (ads, "People also ask", ...) and are all applied.
+ */
+export const SelectorConfigSchema = z.object({
+  version: z.string().min(1),
+  engines: z.object({
+    perplexity: PerplexitySelectorsSchema,
+    duckduckgo: DuckDuckGoSelectorsSchema
+  }),
+  features: z.object({
+    perplexity: FeatureSelectorsSchema,
+    duckduckgo: FeatureSelectorsSchema
+  })
+});
+
+export type SelectorConfig = z.infer<typeof SelectorConfigSchema>;
+export type PerplexitySelectors = SelectorConfig["engines"]["perplexity"];
+export type DuckDuckGoSelectors = SelectorConfig["engines"]["duckduckgo"];
+export type FeatureSelectors = SelectorConfig["features"]["perplexity"];
+
+export async function loadSelectorConfig(filePath: string): Promise<SelectorConfig> {
+  const raw = await fs.readFile(filePath, "utf-8");
+  return SelectorConfigSchema.parse(JSON.parse(raw));
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { BenchmarkQuerySchema, VantageProfileSchema } from "@truthlayer/schema";
+import { engineParamsFor, vantageRunId, vantagesForQuery } from "./vantages";
+import { bingLocaleParams } from "../targets/bing";
+import { braveLocaleParams } from "../targets/brave";
+import { duckDuckGoLocaleParams } from "../targets/duckduckgo";
+import { googleLocaleParams } from "../targets/google";
+
+const germany = VantageProfileSchema.parse({
+  id: "de-de",
+  country: "de",
+  language: "DE",
+  engineParams: { google: { hl: "de-DE", cr: "countryDE" } }
+});
+const unitedStates = VantageProfileSchema.parse({ id: "us-en", country: "US", language: "en" });
+
+const query = BenchmarkQuerySchema.parse({
+  id: "11111111-1111-4111-8111-111111111111",
+  query: "is coffee healthy",
+  topic: "health"
+});
+
+describe("engineParamsFor", () => {
+  it("derives each engine's locale parameters and applies overrides", () => {
+    expect(engineParamsFor(germany, "google", googleLocaleParams)).toEqual({ gl: "de", hl: "de-DE", cr: "countryDE" });
+    expect(engineParamsFor(germany, "bing", bingLocaleParams)).toEqual({ mkt: "de-DE", setLang: "de" });
+    expect(engineParamsFor(germany, "brave", braveLocaleParams)).toEqual({ country: "DE", search_lang: "de" });
+    expect(engineParamsFor(germany, "duckduckgo", duckDuckGoLocaleParams)).toEqual({ kl: "de-de" });
+    expect(engineParamsFor(undefined, "google")).toEqual({});
+  });
+});
+
+describe("vantagesForQuery", () => {
+  it("uses every profile unless the query picks some", () => {
+    expect(vantagesForQuery(query, [germany, unitedStates])).toEqual([germany, unitedStates]);
+    expect(vantagesForQuery({ ...query, vantages: ["us-en"] }, [germany, unitedStates])).toEqual([unitedStates]);
+    expect(vantagesForQuery(query, [])).toEqual([undefined]);
+  });
+
+  it("rejects unknown profile ids", () => {
+    expect(() => vantagesForQuery({ ...query, vantages: ["fr-fr"] }, [germany])).toThrow(/fr-fr/);
+  });
+});
+
+describe("vantageRunId", () => {
+  it("derives a stable run id per vantage and keeps the run id without one", () => {
+    const runId = "22222222-2222-4222-8222-222222222222";
+    expect(vantageRunId(runId, undefined)).toBe(runId);
+    expect(vantageRunId(runId, germany.id)).toBe(vantageRunId(runId, germany.id));
+    expect(vantageRunId(runId, germany.id)).not.toBe(vantageRunId(runId, unitedStates.id));
+    expect(vantageRunId(runId, germany.id)).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+});
@@ -0,0 +1,60 @@
+import { promises as fs } from "fs";
+import { BenchmarkQuery, hashToUUID, VantageProfile, VantageProfileSetSchema } from "@truthlayer/schema";
+
+/**
+ * Reads the vantage profiles. A missing file means no profiles: every query is
+ * then collected once, under each engine's default region.
+ */
+export async function loadVantageProfiles(filePath: string): Promise<VantageProfile[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  return VantageProfileSetSchema.parse(JSON.parse(raw));
+}
+
+/**
+ * The vantages a query is collected under: the ones it lists, otherwise every
+ * profile. `undefined` stands for "no vantage" when no profiles are configured.
+ */
+export function vantagesForQuery(
+  query: BenchmarkQuery,
+  profiles: VantageProfile[]
+): Array<VantageProfile | undefined> {
+  if (!query.vantages) return profiles.length ? profiles : [undefined];
+
+  const unknown = query.vantages.filter((id) => !profiles.some((profile) => profile.id === id));
+  if (unknown.length) {
+    throw new Error(`Query ${query.id} references unknown vantage profiles: ${unknown.join(", ")}`);
+  }
+  return profiles.filter((profile) => query.vantages!.includes(profile.id));
+}
+
+/** An engine's locale query parameters for a profile, e.g. Google's `gl`/`hl`. */
+export type LocaleParams = (vantage: VantageProfile) => Record<string, string>;
+
+/**
+ * Locale parameters an engine expects for the profile, with the profile's own
+ * `engineParams` for that engine layered on top. Empty without a vantage.
+ */
+export function engineParamsFor(
+  vantage: VantageProfile | undefined,
+  engine: string,
+  localeParams?: LocaleParams
+): Record<string, string> {
+  if (!vantage) return {};
+  return { ...localeParams?.(vantage), ...vantage.engineParams[engine] };
+}
+
+/**
+ * Each vantage gets its own crawl run, derived from the collector run so that
+ * citations, SERP features and metrics of different vantages never share ids.
+ * Without a vantage the collector run id is used as-is.
+ */
+export function vantageRunId(runId: string, vantageId: string | undefined): string {
+  if (!vantageId) return runId;
+  return hashToUUID(`${runId}|vantage|${vantageId}`);
+}
@@ -0,0 +1,127 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SearchResultInput, WorkItemRecordInput } from "@truthlayer/storage";
+import type { CollectorConfig } from "../lib/config";
+import { createJobRunner } from "./job-runner";
+
+const storage = {
+  workItems: new Map<string, WorkItemRecordInput>(),
+  searchResults: [] as SearchResultInput[],
+  async upsertWorkItems(items: WorkItemRecordInput[]) {
+    for (const item of items) storage.workItems.set(item.id, structuredClone(item));
+  },
+  async fetchWorkItems({ runIds }: { runIds?: string[] }) {
+    return Array.from(storage.workItems.values())
+      .filter((item) => !runIds || runIds.includes(item.runId))
+      .map((item) => structuredClone(item));
+  },
+  async insertSearchResults(records: SearchResultInput[]) {
+    storage.searchResults.push(...records);
+  },
+  recordCrawlRuns: async () => {},
+  upsertViewpoints: async () => {},
+  upsertCitations: async () => {},
+  upsertSerpFeatures: async () => {},
+  fetchCircuitBreakers: async () => [],
+  upsertCircuitBreakers: async () => {},
+  close: async () => {}
+};
+
+const collectEngine = vi.fn();
+
+vi.mock("@truthlayer/storage", () => ({ createStorageClient: () => storage }));
+vi.mock("../services/collector", () => ({
+  createCollector: async () => ({ engines: ["fast", "slow"], collectEngine, collect: async () => [] })
+}));
+vi.mock("../lib/selectors", () => ({ loadSelectorConfig: async () => ({}) }));
+vi.mock("../targets/selector-health", () => ({ createSelectorHealthTracker: async () => ({ flush: async () => {} }) }));
+vi.mock("../lib/compliance", () => ({ createRobotsPolicy: () => ({ flush: async () => {} }) }));
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+const runId = "44444444-4444-4444-8444-444444444444";
+const query = { id: "11111111-1111-4111-8111-111111111111", query: "is coffee healthy", topic: "health", tags: [] };
+
+function resultFor(engine: string) {
+  const now = new Date("2025-11-19T00:00:00Z").toISOString();
+  return {
+    id: `${engine}-result`,
+    crawlRunId: runId,
+    queryId: query.id,
+    engine,
+    rank: 1,
+    title: `${engine} result`,
+    snippet: null,
+    url: `https://${engine}.example/`,
+    normalizedUrl: `https://${engine}.example/`,
+    domain: `${engine}.example`,
+    timestamp: now,
+    hash: "a".repeat(64),
+    rawHtmlPath: null,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+describe("createJobRunner", () => {
+  let dir: string;
+  let config: CollectorConfig;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "job-runner-"));
+    await fs.writeFile(path.join(dir, "queries.json"), JSON.stringify([query]));
+    config = {
+      runId,
+      benchmarkQuerySetPath: path.join(dir, "queries.json"),
+      outputDir: path.join(dir, "serp"),
+      vantageConfigPath: path.join(dir, "missing.json"),
+      answerEngineConfigPath: path.join(dir, "missing.json"),
+      enginePluginPaths: [],
+      maxResultsPerQuery: 20,
+      workItemAttempts: 1,
+      breakerThreshold: 3,
+      breakerWindowMs: 60_000,
+      breakerCooldownMs: 60_000,
+      breakerMaxCooldownMs: 60_000
+    } as unknown as CollectorConfig;
+    storage.workItems.clear();
+    storage.searchResults = [];
+    collectEngine.mockReset();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps a finished engine's results when the run dies while another engine runs, and resumes the rest", async () => {
+    const outputPath = path.join(config.outputDir, `${query.id}-health-20.json`);
+    const partialPath = outputPath.replace(/\.json$/, ".partial.json");
+
+    // The slow engine never returns: the process dies while it is still running
+    collectEngine.mockImplementation(async (engine: string) =>
+      engine === "fast" ? [resultFor("fast")] : new Promise(() => {})
+    );
+    const crashed = await createJobRunner({ config, logger });
+    void crashed.execute();
+
+    await vi.waitFor(() => {
+      const fast = Array.from(storage.workItems.values()).find((item) => item.engine === "fast");
+      expect(fast?.status).toBe("succeeded");
+    });
+    const partial = JSON.parse(await fs.readFile(partialPath, "utf-8"));
+    expect(partial.map((result: { engine: string }) => result.engine)).toEqual(["fast"]);
+    expect(storage.searchResults.map((result) => result.engine)).toEqual(["fast"]);
+
+    collectEngine.mockReset();
+    collectEngine.mockImplementation(async (engine: string) => [resultFor(engine)]);
+    const resumed = await createJobRunner({ config, logger, resumeRunId: runId });
+    await resumed.execute();
+
+    expect(collectEngine.mock.calls.map(([engine]) => engine)).toEqual(["slow"]);
+    const output = JSON.parse(await fs.readFile(outputPath, "utf-8"));
+    expect(output.map((result: { engine: string }) => result.engine)).toEqual(["fast", "slow"]);
+    await expect(fs.access(partialPath)).rejects.toThrow();
+    expect(Array.from(storage.workItems.values()).map((item) => item.status)).toEqual(["succeeded", "succeeded"]);
+  });
+});
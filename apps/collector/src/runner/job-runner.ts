@@ -2,36 +2,296 @@ import { promises as fs } from "fs";
 import path from "path";
 import { randomUUID } from "node:crypto";
 import PQueue from "p-queue";
-import { createHash } from "node:crypto";
 import { CollectorConfig } from "../lib/config";
 import { Logger } from "../lib/logger";
 import { loadQueries } from "../services/query-loader";
 import { createCollector } from "../services/collector";
 import { getCachedResults } from "../services/cache";
-import { createStorageClient } from "@truthlayer/storage";
-import type { SearchResult } from "@truthlayer/schema";
+import { toCitationRecords } from "../targets/citations";
+import { resultMetadata, toViewpointRecord } from "../targets/viewpoints";
+import { toSerpFeatureRecords } from "../targets/serp-features";
+import { createSelectorHealthTracker } from "../targets/selector-health";
+import { createEngineRegistry, loadEnginePlugins, registerAnswerEngines } from "../targets";
+import { loadAnswerEngines } from "../lib/answer-engines";
+import { createRobotsPolicy } from "../lib/compliance";
+import { createCircuitBreaker, EngineBlockedError } from "../lib/circuit-breaker";
+import { loadSelectorConfig } from "../lib/selectors";
+import { loadVantageProfiles, vantageRunId, vantagesForQuery } from "../lib/vantages";
+import { Collection, planWorkItems, toCrawlRunRecords } from "./work-items";
+import {
+  createStorageClient,
+  CitationRecordInput,
+  SearchResultInput,
+  SerpFeatureRecordInput,
+  WorkItemRecordInput
+} from "@truthlayer/storage";
+import type { BenchmarkQuery, SearchResult, VantageProfile } from "@truthlayer/schema";
 
 export interface JobRunner {
   id: string;
   execute: () => Promise<void>;
 }
 
+/** Maps a collected result (dates as ISO strings when read back from JSON) to a storage row. */
+export function toSearchResultInput(r: SearchResult): SearchResultInput {
+  return {
+    id: r.id,
+    crawlRunId: r.crawlRunId,
+    queryId: r.queryId,
+    engine: r.engine,
+    rank: r.rank,
+    title: r.title,
+    snippet: r.snippet,
+    url: r.url,
+    normalizedUrl: r.normalizedUrl,
+    domain: r.domain,
+    registrableDomain: r.registrableDomain ?? null,
+    timestamp: new Date(r.timestamp),
+    hash: r.hash,
+    rawHtmlPath: r.rawHtmlPath,
+    createdAt: new Date(r.createdAt),
+    updatedAt: new Date(r.updatedAt),
+    source: r.source ?? null,
+    extractionConfidence: r.extractionConfidence ?? null,
+    extractionWarnings: r.extractionWarnings ?? null,
+    metadata: r.metadata ?? null,
+    parserVersion: r.parserVersion ?? null,
+    visibilityWeight: r.visibilityWeight ?? null,
+    vantageId: r.vantageId ?? null,
+    page: r.page ?? null
+  };
+}
+
 interface CreateJobRunnerOptions {
   config: CollectorConfig;
   logger: Logger;
+  /** Continues the stored run with this id: only its unfinished work items are collected. */
+  resumeRunId?: string;
 }
 
-export async function createJobRunner({ config, logger }: CreateJobRunnerOptions): Promise<JobRunner> {
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function updateWorkItem(item: WorkItemRecordInput, changes: Partial<WorkItemRecordInput>) {
+  Object.assign(item, changes);
+}
+
+export async function createJobRunner({ config: baseConfig, logger, resumeRunId }: CreateJobRunnerOptions): Promise<JobRunner> {
+  // Snapshots and crawl run ids are keyed by the run id, so a resumed run takes over the original's
+  const config = resumeRunId ? { ...baseConfig, runId: resumeRunId } : baseConfig;
   const id = config.runId ?? randomUUID();
   const queries = await loadQueries(config.benchmarkQuerySetPath);
-  const collector = await createCollector({ config, logger, runId: id });
+  const vantages = await loadVantageProfiles(config.vantageConfigPath);
+  // Each query once per vantage it is collected under; unknown vantage ids fail here, before any crawling
+  const collections = queries.flatMap((query) =>
+    vantagesForQuery(query, vantages).map((vantage) => ({ query, vantage }))
+  );
   const storage = createStorageClient();
+  const selectorHealth = await createSelectorHealthTracker({
+    selectors: await loadSelectorConfig(config.selectorConfigPath),
+    storage,
+    windowDays: config.selectorHealthWindowDays,
+    logger
+  });
+  const robots = createRobotsPolicy({ config, logger, storage });
+  const registry = createEngineRegistry();
+  registerAnswerEngines(registry, await loadAnswerEngines(config.answerEngineConfigPath));
+  await loadEnginePlugins(registry, config.enginePluginPaths, logger);
+  const breaker = await createCircuitBreaker({ config, logger, storage });
+  const collector = await createCollector({ config, logger, runId: id, selectorHealth, robots, registry, breaker });
 
   await fs.mkdir(config.outputDir, { recursive: true });
 
+  /**
+   * Work item updates are the run's checkpoint. Like result persistence, a
+   * storage failure is logged rather than failing the collection.
+   */
+  async function saveWorkItems(items: WorkItemRecordInput[]) {
+    try {
+      await storage.upsertWorkItems(items);
+    } catch (error) {
+      logger.error("work item persistence failed", { runId: id, error: (error as Error).message });
+    }
+  }
+
+  async function persistResults(
+    query: BenchmarkQuery,
+    vantage: VantageProfile | undefined,
+    crawlRunId: string,
+    searchResults: SearchResult[]
+  ) {
+    try {
+      // Insert search results
+      if (searchResults.length > 0) {
+        await storage.insertSearchResults(searchResults.map(toSearchResultInput));
+      }
+
+      // Group results by engine and compute viewpoints
+      const resultsByEngine: Record<string, SearchResult[]> = {};
+      for (const sr of searchResults) {
+        if (!resultsByEngine[sr.engine]) {
+          resultsByEngine[sr.engine] = [];
+        }
+        resultsByEngine[sr.engine].push(sr);
+      }
+
+      const citations: CitationRecordInput[] = [];
+      const serpFeatures: SerpFeatureRecordInput[] = [];
+
+      const viewpoints = Object.entries(resultsByEngine).map(([engine, engineResults]) => {
+        // Answer engines store their summary, citations and SERP features on the first result
+        const firstResult = engineResults[0];
+        const metadata = firstResult ? resultMetadata(firstResult) : null;
+
+        if (metadata) {
+          citations.push(...toCitationRecords({
+            metadata,
+            queryId: query.id,
+            crawlRunId: firstResult.crawlRunId,
+            engine,
+            collectedAt: new Date(firstResult.timestamp)
+          }));
+          serpFeatures.push(...toSerpFeatureRecords({
+            metadata,
+            queryId: query.id,
+            crawlRunId: firstResult.crawlRunId,
+            engine,
+            collectedAt: new Date(firstResult.timestamp)
+          }));
+        }
+
+        return toViewpointRecord({ queryId: query.id, crawlRunId, engine, results: engineResults });
+      });
+
+      if (viewpoints.length > 0) {
+        await storage.upsertViewpoints(viewpoints);
+        logger.info("viewpoints persisted", { 
+          queryId: query.id, 
+          vantageId: vantage?.id,
+          engines: Object.keys(resultsByEngine) 
+        });
+      }
+
+      if (citations.length > 0) {
+        await storage.upsertCitations(citations);
+        logger.info("citations persisted", {
+          queryId: query.id,
+          citationCount: citations.length
+        });
+      }
+
+      if (serpFeatures.length > 0) {
+        await storage.upsertSerpFeatures(serpFeatures);
+        logger.info("serp features persisted", {
+          queryId: query.id,
+          featureCount: serpFeatures.length
+        });
+      }
+
+      await selectorHealth.flush();
+      await robots.flush();
+      await breaker.flush();
+    } catch (storageError) {
+      logger.error("storage persistence failed", {
+        queryId: query.id,
+        vantageId: vantage?.id,
+        error: (storageError as Error).message
+      });
+      // Don't fail the whole collection if storage fails
+    }
+  }
+
+  /**
+   * Collects one work item, retrying up to `workItemAttempts` times. The item
+   * is saved as `running` before each try and as `succeeded` or `failed` after.
+   * Its results are handed to `checkpoint` first, so an item is only saved as
+   * `succeeded` once they are on disk. A bot check, 429 or open circuit breaker
+   * leaves it `blocked` straight away: retrying a blocked engine at once only
+   * prolongs the block.
+   */
+  async function runWorkItem(
+    item: WorkItemRecordInput,
+    query: BenchmarkQuery,
+    vantage: VantageProfile | undefined,
+    checkpoint: (results: SearchResult[]) => Promise<void>
+  ): Promise<SearchResult[] | null> {
+    for (let attempt = 1; attempt <= config.workItemAttempts; attempt++) {
+      const startedAt = new Date();
+      updateWorkItem(item, {
+        status: "running",
+        attempts: item.attempts + 1,
+        startedAt: item.startedAt ?? startedAt,
+        updatedAt: startedAt
+      });
+      await saveWorkItems([item]);
+
+      try {
+        const results = (await collector.collectEngine(item.engine, query, vantage)) as SearchResult[];
+        await checkpoint(results);
+        const completedAt = new Date();
+        updateWorkItem(item, {
+          status: "succeeded",
+          resultCount: results.length,
+          error: null,
+          completedAt,
+          updatedAt: completedAt
+        });
+        await saveWorkItems([item]);
+        return results;
+      } catch (error) {
+        const failedAt = new Date();
+        const blocked = error instanceof EngineBlockedError;
+        const willRetry = !blocked && attempt < config.workItemAttempts;
+        updateWorkItem(item, {
+          status: willRetry ? "running" : blocked ? "blocked" : "failed",
+          error: (error as Error).message,
+          completedAt: willRetry ? null : failedAt,
+          updatedAt: failedAt
+        });
+        logger.warn("work item failed", {
+          queryId: query.id,
+          engine: item.engine,
+          vantageId: vantage?.id,
+          attempt,
+          willRetry,
+          blocked,
+          error: item.error
+        });
+        if (willRetry) {
+          await wait(1000 * attempt);
+        } else {
+          await saveWorkItems([item]);
+        }
+      }
+    }
+    return null;
+  }
+
   return {
     id,
     async execute() {
+      const stored = resumeRunId ? await storage.fetchWorkItems({ runIds: [id] }) : [];
+      if (resumeRunId && !stored.length) {
+        throw new Error(`No work items stored for run ${id}; nothing to resume`);
+      }
+
+      const workItems = planWorkItems({ runId: id, collections, engines: collector.engines, stored });
+      const itemsFor = ({ query, vantage }: Collection) =>
+        workItems.filter((item) => item.queryId === query.id && item.vantageId === (vantage?.id ?? null));
+
+      await saveWorkItems(workItems.filter((item) => !stored.includes(item)));
+      if (resumeRunId) {
+        logger.info("resuming collection run", {
+          runId: id,
+          workItems: workItems.length,
+          remaining: workItems.filter((item) => item.status !== "succeeded").length
+        });
+      }
+      try {
+        await storage.recordCrawlRuns(toCrawlRunRecords(workItems));
+      } catch (error) {
+        logger.error("crawl run persistence failed", { runId: id, error: (error as Error).message });
+      }
+
       const queue = new PQueue({ concurrency: 4 });
       
       let cacheHits = 0;
@@ -41,27 +301,46 @@ export async function createJobRunner({ config, logger }: CreateJobRunnerOptions
       const cacheTtl = 7 * 24 * 60 * 60 * 1000;
       const forceRefresh = process.env.FORCE_REFRESH === "true";
 
-      for (const query of queries) {
+      for (const collection of collections) {
+        const { query, vantage } = collection;
         queue.add(async () => {
+          const vantageSuffix = vantage ? `-${vantage.id}` : "";
           const outputPath = path.join(
             config.outputDir,
-            `${query.id}-${query.topic}-${config.maxResultsPerQuery}.json`
+            `${query.id}-${query.topic}-${config.maxResultsPerQuery}${vantageSuffix}.json`
           );
+          // Results of a collection with unfinished work items; never read as a cache hit
+          const partialPath = outputPath.replace(/\.json$/, ".partial.json");
+          const crawlRunId = vantageRunId(id, vantage?.id);
+          const items = itemsFor(collection);
 
-          // Check cache first
-          if (!forceRefresh) {
+          // Check cache first, unless a resumed run already started on this collection
+          if (!forceRefresh && items.every((item) => item.status === "pending")) {
             const cached = await getCachedResults(query, {
               outputDir: config.outputDir,
               maxResultsPerQuery: config.maxResultsPerQuery,
-              ttlMs: cacheTtl
+              ttlMs: cacheTtl,
+              vantageId: vantage?.id
             });
 
             if (cached) {
               cacheHits++;
               logger.info("using cached results", { 
                 queryId: query.id,
+                vantageId: vantage?.id,
                 engineCount: cached.length 
               });
+              const completedAt = new Date();
+              for (const item of items.filter((item) => item.status !== "succeeded")) {
+                updateWorkItem(item, {
+                  status: "succeeded",
+                  resultCount: cached.filter((result) => result.engine === item.engine).length,
+                  error: null,
+                  completedAt,
+                  updatedAt: completedAt
+                });
+              }
+              await saveWorkItems(items);
               // Note: Cached results are NOT persisted here to avoid double-insertion.
               // The scheduler's ingestCollectorOutputs will handle persistence by
               // reading the JSON files from disk.
@@ -69,113 +348,98 @@ export async function createJobRunner({ config, logger }: CreateJobRunnerOptions
             }
           }
 
-          // Cache miss - scrape fresh
-          cacheMisses++;
-          logger.info("cache miss - collecting fresh", { queryId: query.id });
-          const result = await collector.collect(query);
-          
-          await fs.writeFile(outputPath, JSON.stringify(result, null, 2));
-          logger.info("query collected", { queryId: query.id, engineCount: result.length });
-
-          // Persist results and viewpoints to storage
+          // Results of this run's finished items, from before a crash or failure
+          let kept: SearchResult[] = [];
           try {
-            const searchResults = result as SearchResult[];
-            
-            // Insert search results
-            if (searchResults.length > 0) {
-              await storage.insertSearchResults(searchResults.map(r => ({
-                id: r.id,
-                crawlRunId: r.crawlRunId,
-                queryId: r.queryId,
-                engine: r.engine,
-                rank: r.rank,
-                title: r.title,
-                snippet: r.snippet,
-                url: r.url,
-                normalizedUrl: r.normalizedUrl,
-                domain: r.domain,
-                timestamp: new Date(r.timestamp),
-                hash: r.hash,
-                rawHtmlPath: r.rawHtmlPath,
-                createdAt: new Date(r.createdAt),
-                updatedAt: new Date(r.updatedAt)
-              })));
-            }
+            const partial = JSON.parse(await fs.readFile(partialPath, "utf-8")) as SearchResult[];
+            const finished = new Set(
+              items.filter((item) => item.status === "succeeded").map((item) => item.engine)
+            );
+            kept = partial.filter((result) => result.crawlRunId === crawlRunId && finished.has(result.engine));
+          } catch {
+            // No partial output yet
+          }
 
-            // Group results by engine and compute viewpoints
-            const resultsByEngine: Record<string, SearchResult[]> = {};
-            for (const sr of searchResults) {
-              if (!resultsByEngine[sr.engine]) {
-                resultsByEngine[sr.engine] = [];
-              }
-              resultsByEngine[sr.engine].push(sr);
+          const pending = items.filter((item) => item.status !== "succeeded");
+          if (!pending.length) {
+            // Finished before the final output was written
+            if (kept.length) {
+              await fs.writeFile(outputPath, JSON.stringify(kept, null, 2));
+              await fs.rm(partialPath, { force: true });
             }
+            return;
+          }
 
-            const viewpoints = Object.entries(resultsByEngine).map(([engine, engineResults]) => {
-              // Extract metadata from first result (Perplexity stores summary there)
-              const firstResult = engineResults[0];
-              let summary: string | null = null;
-              let citationsCount = 0;
-
-              if (firstResult && firstResult.metadata) {
-                try {
-                  const metadata = typeof firstResult.metadata === 'string' 
-                    ? JSON.parse(firstResult.metadata) 
-                    : firstResult.metadata;
-                  summary = metadata.summary || null;
-                  citationsCount = metadata.citations?.length || 0;
-                } catch (e) {
-                  // Ignore parse errors
-                }
-              }
-
-              // Compute simple overlap hash (concatenate sorted URLs)
-              const sortedUrls = engineResults.map(r => r.normalizedUrl).sort();
-              const overlapHash = createHash('sha256')
-                .update(sortedUrls.join('|'))
-                .digest('hex')
-                .substring(0, 16);
+          cacheMisses++;
+          logger.info("cache miss - collecting fresh", {
+            queryId: query.id,
+            vantageId: vantage?.id,
+            engines: pending.map((item) => item.engine)
+          });
 
-              return {
-                id: randomUUID(),
-                queryId: query.id,
-                crawlRunId: id,
-                engine,
-                numResults: engineResults.length,
-                summary,
-                citationsCount,
-                overlapHash,
-                collectedAt: new Date(),
-                createdAt: new Date(),
-                updatedAt: new Date()
-              };
+          // Each engine's results reach the partial file and storage as soon as it
+          // finishes, so a crash while a slower engine runs loses none of them.
+          // Writes are chained: engines finishing together must not interleave.
+          let result = kept;
+          let writes = Promise.resolve();
+          const checkpoint = (results: SearchResult[]) => {
+            const write = writes.then(async () => {
+              const next = [...result, ...results];
+              await fs.writeFile(`${partialPath}.tmp`, JSON.stringify(next, null, 2));
+              await fs.rename(`${partialPath}.tmp`, partialPath);
+              result = next;
             });
+            writes = write.catch(() => undefined);
+            return write.then(() => persistResults(query, vantage, crawlRunId, results));
+          };
 
-            if (viewpoints.length > 0) {
-              await storage.upsertViewpoints(viewpoints);
-              logger.info("viewpoints persisted", { 
-                queryId: query.id, 
-                engines: Object.keys(resultsByEngine) 
-              });
-            }
-          } catch (storageError) {
-            logger.error("storage persistence failed", {
+          // Run all engines in parallel instead of sequentially
+          await Promise.all(pending.map((item) => runWorkItem(item, query, vantage, checkpoint)));
+
+          if (items.every((item) => item.status === "succeeded")) {
+            await fs.writeFile(outputPath, JSON.stringify(result, null, 2));
+            await fs.rm(partialPath, { force: true });
+            logger.info("query collected", { queryId: query.id, vantageId: vantage?.id, engineCount: result.length });
+          } else {
+            logger.warn("query partially collected", {
               queryId: query.id,
-              error: (storageError as Error).message
+              vantageId: vantage?.id,
+              failedEngines: items.filter((item) => item.status === "failed").map((item) => item.engine),
+              blockedEngines: items.filter((item) => item.status === "blocked").map((item) => item.engine)
             });
-            // Don't fail the whole collection if storage fails
           }
         });
       }
 
       await queue.onIdle();
+
+      const failedItems = workItems.filter((item) => item.status === "failed" || item.status === "blocked");
+      try {
+        await storage.recordCrawlRuns(toCrawlRunRecords(workItems));
+      } catch (error) {
+        logger.error("crawl run persistence failed", { runId: id, error: (error as Error).message });
+      }
+      try {
+        await breaker.flush();
+      } catch (error) {
+        logger.error("circuit breaker persistence failed", { runId: id, error: (error as Error).message });
+      }
       
       logger.info("collection complete", {
         cacheHits,
         cacheMisses,
         totalQueries: queries.length,
-        cacheHitRate: `${Math.round((cacheHits / queries.length) * 100)}%`
+        totalCollections: collections.length,
+        cacheHitRate: `${Math.round((cacheHits / collections.length) * 100)}%`,
+        workItems: workItems.length,
+        failedWorkItems: failedItems.length
       });
+      if (failedItems.length) {
+        logger.warn("collection run has failed or blocked work items; resume it to retry them", {
+          runId: id,
+          failedWorkItems: failedItems.length
+        });
+      }
 
       // Close storage connection
       try {
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { vantageRunId } from "../lib/vantages";
+import { planWorkItems, summarizeWorkItems, toCrawlRunRecords, workItemId } from "./work-items";
+
+const runId = "33333333-3333-4333-8333-333333333333";
+const query = { id: "11111111-1111-4111-8111-111111111111", query: "is coffee healthy", topic: "health", tags: [] };
+const other = { id: "22222222-2222-4222-8222-222222222222", query: "is tea healthy", topic: "health", tags: [] };
+const vantage = { id: "de-de", country: "DE", language: "de", engineParams: {} } as any;
+const now = new Date("2025-11-17T00:00:00Z");
+
+describe("planWorkItems", () => {
+  it("plans one pending item per collection and engine with stable ids", () => {
+    const items = planWorkItems({
+      runId,
+      collections: [{ query }, { query, vantage }],
+      engines: ["google", "bing"],
+      now
+    });
+
+    expect(items.map((item) => [item.queryId, item.engine, item.vantageId, item.status])).toEqual([
+      [query.id, "google", null, "pending"],
+      [query.id, "bing", null, "pending"],
+      [query.id, "google", "de-de", "pending"],
+      [query.id, "bing", "de-de", "pending"]
+    ]);
+    expect(items[0].id).toBe(workItemId(runId, query.id, "google", null));
+    expect(new Set(items.map((item) => item.id)).size).toBe(4);
+    expect(items[0].crawlRunId).toBe(runId);
+    expect(items[2].crawlRunId).toBe(vantageRunId(runId, "de-de"));
+  });
+
+  it("keeps the stored state of a resumed run's items", () => {
+    const [first] = planWorkItems({ runId, collections: [{ query }], engines: ["google"], now });
+    const stored = { ...first, status: "succeeded" as const, attempts: 1, resultCount: 10 };
+
+    const items = planWorkItems({ runId, collections: [{ query }], engines: ["google", "bing"], stored: [stored], now });
+
+    expect(items[0]).toBe(stored);
+    expect(items[1]).toMatchObject({ engine: "bing", status: "pending", attempts: 0 });
+  });
+});
+
+describe("crawl run outcomes", () => {
+  const plan = () => planWorkItems({ runId, collections: [{ query }, { query: other }], engines: ["google", "bing"], now });
+
+  it("marks a crawl run failed when any of its work items failed", () => {
+    const items = plan();
+    items.forEach((item) => Object.assign(item, { status: "succeeded", resultCount: 5 }));
+    Object.assign(items[3], { status: "failed", resultCount: 0, error: "Bing API error: 503 Service Unavailable" });
+
+    expect(summarizeWorkItems(items).get(runId)).toEqual({
+      status: "failed",
+      error: `1 of 4 work items failed; bing on query ${other.id}: Bing API error: 503 Service Unavailable`,
+      resultCount: 15
+    });
+  });
+
+  it("marks a crawl run blocked when items were blocked but none failed", () => {
+    const items = plan();
+    items.forEach((item) => Object.assign(item, { status: "succeeded" }));
+    Object.assign(items[0], { status: "blocked", error: "DuckDuckGo HTML served a bot check" });
+
+    expect(summarizeWorkItems(items).get(runId)).toMatchObject({
+      status: "blocked",
+      error: `1 of 4 work items blocked; google on query ${query.id}: DuckDuckGo HTML served a bot check`
+    });
+  });
+
+  it("reports pending, running and completed runs", () => {
+    const items = plan();
+    expect(summarizeWorkItems(items).get(runId)?.status).toBe("pending");
+
+    Object.assign(items[0], { status: "succeeded" });
+    expect(summarizeWorkItems(items).get(runId)?.status).toBe("running");
+
+    items.forEach((item) => Object.assign(item, { status: "succeeded" }));
+    expect(summarizeWorkItems(items).get(runId)?.status).toBe("completed");
+  });
+
+  it("builds one crawl run record per crawl run id", () => {
+    const items = planWorkItems({ runId, collections: [{ query }, { query, vantage }], engines: ["google"], now });
+    const startedAt = new Date("2025-11-17T01:00:00Z");
+    Object.assign(items[0], { status: "succeeded", startedAt, resultCount: 7 });
+    const finishedAt = new Date("2025-11-17T02:00:00Z");
+
+    const records = toCrawlRunRecords(items, finishedAt);
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      id: runId,
+      batchId: runId,
+      status: "completed",
+      startedAt,
+      completedAt: finishedAt,
+      resultCount: 7,
+      vantageId: null
+    });
+    expect(records[1]).toMatchObject({ status: "pending", startedAt: finishedAt, completedAt: null, vantageId: "de-de" });
+  });
+});
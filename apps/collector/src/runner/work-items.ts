@@ -0,0 +1,129 @@
+import { hashToUUID } from "@truthlayer/schema";
+import type { BenchmarkQuery, VantageProfile } from "@truthlayer/schema";
+import type { CrawlRunRecordInput, WorkItemRecordInput } from "@truthlayer/storage";
+import { vantageRunId } from "../lib/vantages";
+
+/** One query collected under one vantage (or none). */
+export interface Collection {
+  query: BenchmarkQuery;
+  vantage?: VantageProfile;
+}
+
+/** Deterministic id of a run's work item, so a resumed run finds the items it planned. */
+export function workItemId(runId: string, queryId: string, engine: string, vantageId: string | null): string {
+  return hashToUUID(`${runId}|${queryId}|${engine}|${vantageId ?? ""}`);
+}
+
+/**
+ * The work items of a run: one per collection and engine. Items already stored
+ * for the run (when resuming) are kept as they are; the rest start `pending`.
+ */
+export function planWorkItems(params: {
+  runId: string;
+  collections: Collection[];
+  engines: string[];
+  stored?: WorkItemRecordInput[];
+  now?: Date;
+}): WorkItemRecordInput[] {
+  const { runId, collections, engines, stored = [], now = new Date() } = params;
+  const storedById = new Map(stored.map((item) => [item.id, item]));
+
+  return collections.flatMap(({ query, vantage }) =>
+    engines.map((engine) => {
+      const vantageId = vantage?.id ?? null;
+      const id = workItemId(runId, query.id, engine, vantageId);
+      return (
+        storedById.get(id) ?? {
+          id,
+          runId,
+          crawlRunId: vantageRunId(runId, vantage?.id),
+          queryId: query.id,
+          engine,
+          vantageId,
+          status: "pending",
+          attempts: 0,
+          resultCount: 0,
+          error: null,
+          startedAt: null,
+          completedAt: null,
+          createdAt: now,
+          updatedAt: now
+        }
+      );
+    })
+  );
+}
+
+export interface CrawlRunOutcome {
+  status: CrawlRunRecordInput["status"];
+  error: string | null;
+  resultCount: number;
+}
+
+/**
+ * A crawl run's status from its work items: `failed` when any item failed,
+ * else `blocked` when any was blocked (the error counts them and quotes the
+ * first), `completed` when all succeeded, `pending` when none started, and
+ * `running` otherwise.
+ */
+export function crawlRunOutcome(items: WorkItemRecordInput[]): CrawlRunOutcome {
+  const resultCount = items.reduce((sum, item) => sum + item.resultCount, 0);
+
+  for (const status of ["failed", "blocked"] as const) {
+    const matching = items.filter((item) => item.status === status);
+    if (!matching.length) continue;
+    const [first] = matching;
+    return {
+      status,
+      error: `${matching.length} of ${items.length} work items ${status}; ${first.engine} on query ${first.queryId}: ${first.error ?? "unknown error"}`,
+      resultCount
+    };
+  }
+  if (items.every((item) => item.status === "succeeded")) {
+    return { status: "completed", error: null, resultCount };
+  }
+  if (items.every((item) => item.status === "pending")) {
+    return { status: "pending", error: null, resultCount };
+  }
+  return { status: "running", error: null, resultCount };
+}
+
+/** Work item outcomes grouped by crawl run id. */
+export function summarizeWorkItems(items: WorkItemRecordInput[]): Map<string, CrawlRunOutcome> {
+  const byCrawlRun = new Map<string, WorkItemRecordInput[]>();
+  for (const item of items) {
+    const group = byCrawlRun.get(item.crawlRunId) ?? [];
+    group.push(item);
+    byCrawlRun.set(item.crawlRunId, group);
+  }
+  return new Map(Array.from(byCrawlRun, ([crawlRunId, group]) => [crawlRunId, crawlRunOutcome(group)]));
+}
+
+/** One crawl run record per crawl run id of the items, carrying their outcome. */
+export function toCrawlRunRecords(items: WorkItemRecordInput[], now = new Date()): CrawlRunRecordInput[] {
+  const outcomes = summarizeWorkItems(items);
+
+  return Array.from(outcomes, ([crawlRunId, outcome]) => {
+    const group = items.filter((item) => item.crawlRunId === crawlRunId);
+    const startedAt = group
+      .map((item) => item.startedAt)
+      .filter((date): date is Date => date !== null)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+    const finished = outcome.status !== "pending" && outcome.status !== "running";
+
+    return {
+      id: crawlRunId,
+      batchId: group[0].runId,
+      queryId: group[0].queryId,
+      engine: group[0].engine,
+      status: outcome.status,
+      startedAt: startedAt ?? now,
+      completedAt: finished ? now : null,
+      error: outcome.error,
+      resultCount: outcome.resultCount,
+      createdAt: group[0].createdAt,
+      updatedAt: now,
+      vantageId: group[0].vantageId
+    };
+  });
+}
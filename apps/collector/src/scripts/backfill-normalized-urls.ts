@@ -0,0 +1,93 @@
+import { createStorageClient, StorageClient, SearchResultUrlUpdate } from "@truthlayer/storage";
+import { canonicalizeUrl } from "../lib/canonicalize";
+import { makeCollectorConfig } from "../lib/config";
+import { registrableDomain } from "../lib/public-suffix";
+
+interface CliOptions {
+  batchSize: number;
+  dryRun: boolean;
+}
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { batchSize: DEFAULT_BATCH_SIZE, dryRun: false };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if ((arg === "-b" || arg === "--batch-size") && argv[i + 1]) {
+      options.batchSize = Number.parseInt(argv[i + 1], 10) || DEFAULT_BATCH_SIZE;
+      i += 1;
+    } else if (arg === "--dry-run") {
+      options.dryRun = true;
+    }
+  }
+
+  return options;
+}
+
+function hostnameOf(url: string, fallback: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Re-derives `normalizedUrl`, `domain` and `registrableDomain` for every stored
+ * search result with the current canonicalization rules and suffix list. Rows
+ * are read in id order and only the ones whose values change are written back.
+ */
+async function runBackfill(options: CliOptions) {
+  const config = makeCollectorConfig();
+  const storage: StorageClient = createStorageClient();
+
+  let scanned = 0;
+  let updated = 0;
+  let afterId: string | undefined;
+
+  try {
+    while (true) {
+      const rows = await storage.fetchSearchResultUrls({ afterId, limit: options.batchSize });
+      if (!rows.length) break;
+
+      const updates: SearchResultUrlUpdate[] = [];
+      for (const row of rows) {
+        const normalizedUrl = canonicalizeUrl(row.url, {
+          engine: row.engine,
+          stripQueryParams: config.stripQueryParams
+        });
+        const domain = hostnameOf(normalizedUrl, row.domain);
+        const registrable = registrableDomain(domain);
+        if (
+          normalizedUrl !== row.normalizedUrl ||
+          domain !== row.domain ||
+          registrable !== row.registrableDomain
+        ) {
+          updates.push({ id: row.id, normalizedUrl, domain, registrableDomain: registrable });
+        }
+      }
+
+      if (updates.length && !options.dryRun) {
+        await storage.updateSearchResultUrls(updates);
+      }
+
+      scanned += rows.length;
+      updated += updates.length;
+      afterId = rows[rows.length - 1].id;
+      if (rows.length < options.batchSize) break;
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify({ scanned, updated, dryRun: options.dryRun }, null, 2));
+  } finally {
+    await storage.close();
+  }
+}
+
+runBackfill(parseArgs(process.argv.slice(2))).catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error("Normalized URL backfill failed", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,150 @@
+import { createStorageClient, StorageClient } from "@truthlayer/storage";
+import { makeCollectorConfig } from "../lib/config";
+import { loadSelectorConfig } from "../lib/selectors";
+import { createLogger } from "../lib/logger";
+import { toSearchResultInput } from "../runner/job-runner";
+import { findSnapshots, reextractSnapshot } from "../services/reextract";
+
+interface CliOptions {
+  runIds: string[];
+  engines: string[];
+  since?: string;
+  until?: string;
+  snapshotDir: string;
+  dryRun: boolean;
+}
+
+const DEFAULT_SNAPSHOT_DIR = "data/raw_html";
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function parseDate(value: string | undefined, flag: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date for ${flag}: ${value}`);
+  }
+  return date;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { runIds: [], engines: [], snapshotDir: DEFAULT_SNAPSHOT_DIR, dryRun: false };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if ((arg === "-r" || arg === "--run") && argv[i + 1]) {
+      options.runIds.push(...splitList(argv[i + 1]));
+      i += 1;
+    } else if ((arg === "-e" || arg === "--engine") && argv[i + 1]) {
+      options.engines.push(...splitList(argv[i + 1]));
+      i += 1;
+    } else if (arg === "--since" && argv[i + 1]) {
+      options.since = argv[i + 1];
+      i += 1;
+    } else if (arg === "--until" && argv[i + 1]) {
+      options.until = argv[i + 1];
+      i += 1;
+    } else if (arg === "--dir" && argv[i + 1]) {
+      options.snapshotDir = argv[i + 1];
+      i += 1;
+    } else if (arg === "--dry-run") {
+      options.dryRun = true;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Re-parses stored raw snapshots with the current extractors and writes the
+ * results as new rows, under a crawl run derived from the original run and the
+ * parser version. The original rows, and other crawls' rows for the same URLs,
+ * are left in place: search results are unique per crawl run on every backend.
+ */
+async function runReextract(options: CliOptions) {
+  if (!options.runIds.length && !options.since && !options.until) {
+    throw new Error("Pass --run <runId> or a --since/--until date range");
+  }
+  const since = parseDate(options.since, "--since");
+  const until = parseDate(options.until, "--until");
+
+  const config = makeCollectorConfig();
+  const logger = createLogger();
+  const storage: StorageClient = createStorageClient();
+
+  let reextracted = 0;
+  let results = 0;
+  let failed = 0;
+  const crawlRunIds = new Map<string, string>();
+
+  try {
+    const selectors = await loadSelectorConfig(config.selectorConfigPath);
+    const snapshots = await findSnapshots({
+      rootDir: options.snapshotDir,
+      runIds: options.runIds,
+      engines: options.engines,
+      since,
+      until
+    });
+
+    for (const snapshot of snapshots) {
+      try {
+        const output = await reextractSnapshot(snapshot, {
+          maxResultsPerQuery: config.maxResultsPerQuery,
+          stripQueryParams: config.stripQueryParams,
+          selectors
+        });
+
+        if (output.results.length && !options.dryRun) {
+          await storage.insertSearchResults(output.results.map(toSearchResultInput));
+        }
+
+        reextracted += 1;
+        results += output.results.length;
+        crawlRunIds.set(`${snapshot.engine}:${snapshot.runId}`, output.crawlRunId);
+        logger.info("snapshot reextracted", {
+          engine: snapshot.engine,
+          runId: snapshot.runId,
+          queryId: snapshot.queryId,
+          parserVersion: output.parserVersion,
+          resultCount: output.results.length
+        });
+      } catch (error) {
+        failed += 1;
+        logger.error("snapshot reextraction failed", {
+          htmlPath: snapshot.htmlPath,
+          error: (error as Error).message
+        });
+      }
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(
+      JSON.stringify(
+        {
+          snapshots: snapshots.length,
+          reextracted,
+          failed,
+          results,
+          crawlRunIds: Object.fromEntries(crawlRunIds),
+          dryRun: options.dryRun
+        },
+        null,
+        2
+      )
+    );
+  } finally {
+    await storage.close();
+  }
+}
+
+runReextract(parseArgs(process.argv.slice(2))).catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error("Re-extraction failed", error);
+  process.exitCode = 1;
+});
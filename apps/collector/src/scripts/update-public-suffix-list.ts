@@ -0,0 +1,101 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { domainToASCII } from "node:url";
+
+const PUBLIC_SUFFIX_LIST_URL = "https://publicsuffix.org/list/public_suffix_list.dat";
+const OUTPUT_PATH = path.resolve("src/lib/public-suffix-list.ts");
+
+interface CliOptions {
+  from?: string;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {};
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if ((arg === "-f" || arg === "--from") && argv[i + 1]) {
+      options.from = argv[i + 1];
+      i += 1;
+    }
+  }
+
+  return options;
+}
+
+/** Converts one list line to its ASCII (punycode) rule, keeping `*.` and `!` markers. */
+function toAsciiRule(rule: string): string | null {
+  const prefix = rule.startsWith("!") ? "!" : rule.startsWith("*.") ? "*." : "";
+  const ascii = domainToASCII(rule.slice(prefix.length));
+  return ascii ? `${prefix}${ascii}` : null;
+}
+
+function extractSection(source: string, section: "ICANN" | "PRIVATE"): string[] {
+  const begin = source.indexOf(`===BEGIN ${section} DOMAINS===`);
+  const end = source.indexOf(`===END ${section} DOMAINS===`);
+  if (begin === -1 || end === -1) {
+    throw new Error(`Public suffix list is missing the ${section} section`);
+  }
+
+  const rules: string[] = [];
+  // Skip the rest of the BEGIN marker line.
+  const start = source.indexOf("\n", begin);
+  for (const line of source.slice(start, end).split(/\r?\n/)) {
+    // Rules end at the first whitespace; everything else is a comment or blank.
+    const rule = line.trim().split(/\s/)[0];
+    if (!rule || rule.startsWith("//")) continue;
+    const ascii = toAsciiRule(rule);
+    if (ascii) rules.push(ascii);
+  }
+  return rules;
+}
+
+function render(icann: string[], privateRules: string[], origin: string): string {
+  return `/* eslint-disable */
+// Generated by src/scripts/update-public-suffix-list.ts from ${origin}
+// on ${new Date().toISOString().slice(0, 10)}. Do not edit by hand.
+//
+// The Public Suffix List is subject to the terms of the Mozilla Public License, v. 2.0.
+// If a copy of the MPL was not distributed with this file, you can obtain one at
+// https://mozilla.org/MPL/2.0/. Internationalized rules are stored in punycode.
+
+export const ICANN_SUFFIX_RULES = \`
+${icann.join("\n")}
+\`;
+
+export const PRIVATE_SUFFIX_RULES = \`
+${privateRules.join("\n")}
+\`;
+`;
+}
+
+async function updatePublicSuffixList(options: CliOptions) {
+  let source: string;
+  let origin: string;
+  if (options.from) {
+    source = await fs.readFile(options.from, "utf-8");
+    origin = path.basename(options.from);
+  } else {
+    const response = await fetch(PUBLIC_SUFFIX_LIST_URL);
+    if (!response.ok) {
+      throw new Error(`Failed to download the public suffix list: HTTP ${response.status}`);
+    }
+    source = await response.text();
+    origin = PUBLIC_SUFFIX_LIST_URL;
+  }
+
+  const icann = extractSection(source, "ICANN");
+  const privateRules = extractSection(source, "PRIVATE");
+  await fs.writeFile(OUTPUT_PATH, render(icann, privateRules, origin), "utf-8");
+
+  // eslint-disable-next-line no-console
+  console.log(
+    JSON.stringify({ output: OUTPUT_PATH, icannRules: icann.length, privateRules: privateRules.length }, null, 2)
+  );
+}
+
+updatePublicSuffixList(parseArgs(process.argv.slice(2))).catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error("Public suffix list update failed", error);
+  process.exitCode = 1;
+});
@@ -6,16 +6,23 @@ export interface CacheOptions {
   outputDir: string;
   maxResultsPerQuery: number;
   ttlMs: number;
+  /** Results collected under a vantage profile are cached separately. */
+  vantageId?: string;
+}
+
+function cacheFilePath(query: BenchmarkQuery, options: CacheOptions): string {
+  const vantageSuffix = options.vantageId ? `-${options.vantageId}` : "";
+  return path.join(
+    options.outputDir,
+    `${query.id}-${query.topic}-${options.maxResultsPerQuery}${vantageSuffix}.json`
+  );
 }
 
 export async function getCachedResults(
   query: BenchmarkQuery,
   options: CacheOptions
 ): Promise<Record<string, unknown>[] | null> {
-  const cacheFile = path.join(
-    options.outputDir,
-    `${query.id}-${query.topic}-${options.maxResultsPerQuery}.json`
-  );
+  const cacheFile = cacheFilePath(query, options);
 
   try {
     const stats = await fs.stat(cacheFile);
@@ -37,10 +44,7 @@ export async function setCachedResults(
   results: Record<string, unknown>[],
   options: CacheOptions
 ): Promise<void> {
-  const cacheFile = path.join(
-    options.outputDir,
-    `${query.id}-${query.topic}-${options.maxResultsPerQuery}.json`
-  );
+  const cacheFile = cacheFilePath(query, options);
 
   await fs.writeFile(cacheFile, JSON.stringify(results, null, 2));
 }
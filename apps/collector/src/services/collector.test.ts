@@ -1,7 +1,20 @@
 import { describe, it, expect } from "vitest";
+import path from "path";
+import { fileURLToPath } from "url";
 import { createCollector } from "./collector";
 import { makeCollectorConfig } from "../lib/config";
 import { createLogger } from "../lib/logger";
+import { loadSelectorConfig } from "../lib/selectors";
+import { createSelectorHealthTracker } from "../targets/selector-health";
+
+const SELECTOR_CONFIG_PATH = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../../../../config/selectors.json"
+);
+
+async function createTracker() {
+  return createSelectorHealthTracker({ selectors: await loadSelectorConfig(SELECTOR_CONFIG_PATH), windowDays: 7 });
+}
 
 describe("createCollector", () => {
   it("runs all enabled engines for each query with shared crawlRunId", async () => {
@@ -9,7 +22,7 @@ describe("createCollector", () => {
     const config = makeCollectorConfig();
     const runId = "12345678-1234-1234-1234-123456789abc";
     
-    const collector = await createCollector({ config, logger, runId });
+    const collector = await createCollector({ config, logger, runId, selectorHealth: await createTracker() });
     
     const mockQuery = {
       id: "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa",
@@ -50,7 +63,7 @@ describe("createCollector", () => {
     const runId = "87654321-4321-4321-4321-987654321cba";
     
     // Even if some engines are missing API keys, collector should still be created
-    const collector = await createCollector({ config, logger, runId });
+    const collector = await createCollector({ config, logger, runId, selectorHealth: await createTracker() });
     expect(collector).toBeDefined();
     expect(collector.collect).toBeDefined();
     
@@ -1,41 +1,102 @@
-import { BenchmarkQuery } from "@truthlayer/schema";
+import { BenchmarkQuery, VantageProfile } from "@truthlayer/schema";
 import { CollectorConfig } from "../lib/config";
 import { Logger } from "../lib/logger";
-import { createEngineClient, SearchEngineClient } from "../targets";
+import { createEngineClient, createEngineRegistry, EngineRegistry, SearchEngineClient } from "../targets";
+import { engineRuntimeConfig } from "../targets/adapter";
+import { SelectorHealthTracker } from "../targets/selector-health";
+import { createRobotsPolicy, RobotsPolicy } from "../lib/compliance";
+import { CircuitBreaker, createCircuitBreaker, proxyLabel } from "../lib/circuit-breaker";
+import { createRateLimits, RateLimits } from "../lib/rate-limiter";
 
 interface CreateCollectorOptions {
   config: CollectorConfig;
   logger: Logger;
   runId: string;
+  selectorHealth: SelectorHealthTracker;
+  /** Decides robots.txt for the scraped engines; omit to decide without storing the decisions. */
+  robots?: RobotsPolicy;
+  /** The engines to collect from; defaults to the built-in adapters. */
+  registry?: EngineRegistry;
+  /** Pauses engines that keep blocking the collector; omit for one kept within this collector. */
+  breaker?: CircuitBreaker;
+  /** Paces the engines' HTTP requests; omit for limiters shared by this collector's engines. */
+  rateLimits?: RateLimits;
 }
 
 export interface Collector {
-  collect: (query: BenchmarkQuery) => Promise<Record<string, unknown>[]>;
+  /** Ids of the enabled engines, in registry order. */
+  engines: string[];
+  collect: (query: BenchmarkQuery, vantage?: VantageProfile) => Promise<Record<string, unknown>[]>;
+  /**
+   * Collects a query from one engine; unlike `collect`, a failed search is
+   * thrown, and an `EngineBlockedError` while the engine's breaker is open.
+   */
+  collectEngine: (engine: string, query: BenchmarkQuery, vantage?: VantageProfile) => Promise<Record<string, unknown>[]>;
 }
 
-export async function createCollector({ config, logger, runId }: CreateCollectorOptions): Promise<Collector> {
+export async function createCollector({
+  config,
+  logger,
+  runId,
+  selectorHealth,
+  robots = createRobotsPolicy({ config, logger }),
+  registry = createEngineRegistry(),
+  breaker,
+  rateLimits = createRateLimits(config)
+}: CreateCollectorOptions): Promise<Collector> {
   const engines: Record<string, SearchEngineClient> = {};
+  const circuitBreaker = breaker ?? (await createCircuitBreaker({ config, logger }));
+  // Only the browser targets go through the (vantage's) proxy; the rest share one breaker per engine
+  const proxyFor = (engine: string, vantage?: VantageProfile) =>
+    registry.get(engine)?.descriptor.capabilities.access === "browser"
+      ? proxyLabel(vantage?.proxyUrl ?? config.proxyUrl)
+      : "";
 
-  for (const engineName of Object.keys(config.engines)) {
-    const engineConfig = config.engines[engineName as keyof typeof config.engines];
-    if (!engineConfig.enabled) continue;
-    engines[engineName] = await createEngineClient({ engine: engineName, config, logger, runId });
+  for (const adapter of registry.list()) {
+    if (!engineRuntimeConfig(adapter.descriptor, config).enabled) continue;
+    engines[adapter.descriptor.id] = await createEngineClient({
+      adapter,
+      config,
+      logger,
+      runId,
+      selectorHealth,
+      robots,
+      rateLimits
+    });
+  }
+
+  async function collectEngine(engine: string, query: BenchmarkQuery, vantage?: VantageProfile) {
+    const client = engines[engine];
+    if (!client) throw new Error(`Engine ${engine} is not enabled`);
+    const proxy = proxyFor(engine, vantage);
+    circuitBreaker.assertClosed(engine, proxy);
+
+    logger.info("collecting", { queryId: query.id, engine, vantageId: vantage?.id });
+    try {
+      const results = await client.search(query, vantage);
+      circuitBreaker.record(engine, proxy);
+      return results;
+    } catch (error) {
+      circuitBreaker.record(engine, proxy, error);
+      throw error;
+    }
   }
 
   return {
-    async collect(query) {
+    engines: Object.keys(engines),
+    collectEngine,
+    async collect(query, vantage) {
       const results: Record<string, unknown>[] = [];
 
       // Run all engines in parallel instead of sequentially
-      const enginePromises = Object.entries(engines).map(async ([engineName, client]) => {
+      const enginePromises = Object.keys(engines).map(async (engineName) => {
         try {
-          logger.info("collecting", { queryId: query.id, engine: engineName });
-          const engineResults = await client.search(query);
-          return engineResults;
+          return await collectEngine(engineName, query, vantage);
         } catch (error) {
           logger.error("engine collection failed", { 
             queryId: query.id, 
             engine: engineName,
+            vantageId: vantage?.id,
             error: (error as Error).message 
           });
           return [];
@@ -63,6 +124,7 @@ export async function createCollector({ config, logger, runId }: CreateCollector
       logger.info("query collection complete", {
         query: query.query,
         queryId: query.id,
+        vantageId: vantage?.id,
         engines: enabledEngines,
         results: engineCounts,
         totalResults: results.length
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { createHash } from "node:crypto";
+import { SearchResultSchema } from "@truthlayer/schema";
+import { findSnapshots, reextractRunId, reextractSnapshot } from "./reextract";
+import { PARSER_VERSIONS } from "../targets/parser-versions";
+import { loadSelectorConfig, SelectorConfig } from "../lib/selectors";
+import { vantageRunId } from "../lib/vantages";
+
+const RUN_A = "11111111-1111-4111-8111-111111111111";
+const RUN_B = "22222222-2222-4222-8222-222222222222";
+const QUERY_ID = "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa";
+
+const BING_RESPONSE = {
+  webPages: {
+    value: [
+      { name: "Heat waves explained", snippet: "What causes them", url: "https://www.example.org/heat?utm_source=bing" },
+      { name: "No url" },
+      { name: "NOAA climate", snippet: "Data", url: "https://www.noaa.gov/climate" }
+    ]
+  }
+};
+
+const PERPLEXITY_HTML = `<html><body><main>
+  <div><a href="https://www.nature.com/articles/abc">Nature: warming trends</a> Peer-reviewed study.</div>
+  <div><a href="https://www.perplexity.ai/settings">Settings</a></div>
+  <div><a href="https://www.bbc.co.uk/news/science">BBC Science coverage</a> Report.</div>
+</main></body></html>`;
+
+const SELECTOR_CONFIG_PATH = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../../../../config/selectors.json"
+);
+
+let rootDir: string;
+let selectors: SelectorConfig;
+
+async function writeSnapshot(engine: string, runId: string, content: string, mtime: Date, sidecar = true) {
+  const dir = path.join(rootDir, engine, runId);
+  await fs.mkdir(dir, { recursive: true });
+  const htmlPath = path.join(dir, `${QUERY_ID}.html`);
+  await fs.writeFile(htmlPath, content, "utf-8");
+  if (sidecar) {
+    await fs.writeFile(`${htmlPath}.sha256`, `${createHash("sha256").update(content).digest("hex")}\n`, "utf-8");
+  }
+  await fs.utimes(htmlPath, mtime, mtime);
+  return htmlPath;
+}
+
+beforeEach(async () => {
+  selectors = await loadSelectorConfig(SELECTOR_CONFIG_PATH);
+  rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "truthlayer-reextract-"));
+  await writeSnapshot("bing", RUN_A, JSON.stringify(BING_RESPONSE), new Date("2025-01-02T00:00:00Z"));
+  await writeSnapshot("perplexity", RUN_A, PERPLEXITY_HTML, new Date("2025-01-02T00:05:00Z"));
+  await writeSnapshot(
+    "duckduckgo",
+    RUN_B,
+    JSON.stringify({ results: [{ rank: 1, title: "Reuters", url: "https://www.reuters.com/world/" }] }),
+    new Date("2025-02-10T00:00:00Z")
+  );
+  await fs.mkdir(path.join(rootDir, "google", RUN_B), { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(rootDir, { recursive: true, force: true });
+});
+
+describe("findSnapshots", () => {
+  it("filters by run, engine and collection window, oldest first", async () => {
+    const byRun = await findSnapshots({ rootDir, runIds: [RUN_A] });
+    expect(byRun.map((snapshot) => snapshot.engine)).toEqual(["bing", "perplexity"]);
+    expect(byRun[0]).toMatchObject({ runId: RUN_A, queryId: QUERY_ID });
+
+    const byEngine = await findSnapshots({ rootDir, engines: ["duckduckgo"] });
+    expect(byEngine.map((snapshot) => snapshot.runId)).toEqual([RUN_B]);
+
+    const byDate = await findSnapshots({
+      rootDir,
+      since: new Date("2025-02-01T00:00:00Z"),
+      until: new Date("2025-02-28T00:00:00Z")
+    });
+    expect(byDate.map((snapshot) => snapshot.engine)).toEqual(["duckduckgo"]);
+  });
+
+  it("returns nothing for a missing snapshot directory", async () => {
+    expect(await findSnapshots({ rootDir: path.join(rootDir, "missing") })).toEqual([]);
+  });
+});
+
+describe("reextractSnapshot", () => {
+  it("re-parses an API snapshot into results tagged with the parser version", async () => {
+    const [snapshot] = await findSnapshots({ rootDir, engines: ["bing"] });
+    const output = await reextractSnapshot(snapshot, { maxResultsPerQuery: 20, selectors });
+
+    expect(output.parserVersion).toBe(PARSER_VERSIONS.bing);
+    expect(output.crawlRunId).toBe(reextractRunId(RUN_A, PARSER_VERSIONS.bing));
+    expect(output.crawlRunId).not.toBe(RUN_A);
+    expect(output.results.map((result) => [result.rank, result.normalizedUrl])).toEqual([
+      [1, "https://example.org/heat"],
+      [2, "https://noaa.gov/climate"]
+    ]);
+
+    const [first] = output.results;
+    expect(SearchResultSchema.parse(first)).toMatchObject({
+      crawlRunId: output.crawlRunId,
+      queryId: QUERY_ID,
+      engine: "bing",
+      parserVersion: PARSER_VERSIONS.bing,
+      rawHtmlPath: snapshot.htmlPath,
+      timestamp: new Date("2025-01-02T00:00:00Z")
+    });
+    expect(JSON.parse(first.metadata ?? "{}").reextractedFrom.crawlRunId).toBe(RUN_A);
+  });
+
+  it("runs the Perplexity extractor over stored HTML", async () => {
+    const [snapshot] = await findSnapshots({ rootDir, engines: ["perplexity"] });
+    const { results } = await reextractSnapshot(snapshot, { maxResultsPerQuery: 20, selectors });
+
+    expect(results.map((result) => result.domain)).toEqual(["nature.com", "bbc.co.uk"]);
+    expect(results[0]).toMatchObject({
+      title: "Nature: warming trends",
+      source: "html",
+      extractionConfidence: 1,
+      parserVersion: PARSER_VERSIONS.perplexity
+    });
+  });
+
+  it("gives repeated re-extractions the same ids", async () => {
+    const [snapshot] = await findSnapshots({ rootDir, engines: ["bing"] });
+    const first = await reextractSnapshot(snapshot, { maxResultsPerQuery: 20, selectors });
+    const second = await reextractSnapshot(snapshot, { maxResultsPerQuery: 20, selectors });
+
+    expect(second.results.map((result) => result.id)).toEqual(first.results.map((result) => result.id));
+  });
+
+  it("keeps the vantage of a snapshot collected under one", async () => {
+    const [original] = await findSnapshots({ rootDir, engines: ["bing"] });
+    await fs.rename(original.htmlPath, original.htmlPath.replace(".html", "-de-de.html"));
+    await fs.rename(`${original.htmlPath}.sha256`, `${original.htmlPath.replace(".html", "-de-de.html")}.sha256`);
+
+    const [snapshot] = await findSnapshots({ rootDir, engines: ["bing"] });
+    expect(snapshot).toMatchObject({ queryId: QUERY_ID, vantageId: "de-de" });
+
+    const output = await reextractSnapshot(snapshot, { maxResultsPerQuery: 20, selectors });
+    expect(output.crawlRunId).toBe(reextractRunId(vantageRunId(RUN_A, "de-de"), PARSER_VERSIONS.bing));
+    expect(output.results[0]).toMatchObject({ queryId: QUERY_ID, vantageId: "de-de" });
+  });
+
+  it("rejects a snapshot that no longer matches its sha256 sidecar", async () => {
+    const [snapshot] = await findSnapshots({ rootDir, engines: ["bing"] });
+    await fs.writeFile(snapshot.htmlPath, JSON.stringify({ webPages: { value: [] } }), "utf-8");
+
+    await expect(reextractSnapshot(snapshot, { maxResultsPerQuery: 20, selectors })).rejects.toThrow(/sha256/);
+  });
+});
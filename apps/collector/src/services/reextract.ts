@@ -0,0 +1,182 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash } from "node:crypto";
+import { BenchmarkQuery, EngineIdSchema, hashToUUID, SearchResult } from "@truthlayer/schema";
+import { parseBingResponse } from "../targets/bing";
+import { parseBraveResponse } from "../targets/brave";
+import { parseDuckDuckGoSnapshot } from "../targets/duckduckgo";
+import { parsePerplexityPage } from "../targets/perplexity";
+import { normalizeResults, RawSerpItem } from "../targets/normalize";
+import { mergePages } from "../targets/pagination";
+import { PARSER_VERSIONS } from "../targets/parser-versions";
+import type { SelectorConfig } from "../lib/selectors";
+import { vantageRunId } from "../lib/vantages";
+
+type Engine = SearchResult["engine"];
+
+/**
+ * A page stored by `takeHtmlSnapshot` at `<rootDir>/<engine>/<runId>/<queryId>.html`,
+ * or `<queryId>-<vantageId>.html` when collected under a vantage profile.
+ */
+export interface SnapshotRef {
+  engine: Engine;
+  runId: string;
+  queryId: string;
+  vantageId?: string;
+  htmlPath: string;
+  /** File modification time, i.e. when the page was collected. */
+  collectedAt: Date;
+}
+
+export interface FindSnapshotsOptions {
+  rootDir: string;
+  runIds?: string[];
+  engines?: string[];
+  since?: Date;
+  until?: Date;
+}
+
+export interface ReextractOptions {
+  maxResultsPerQuery: number;
+  stripQueryParams?: string[];
+  /** Selectors for the HTML extractors, in their configured order. */
+  selectors: SelectorConfig;
+}
+
+export interface ReextractedSnapshot {
+  crawlRunId: string;
+  parserVersion: string;
+  results: SearchResult[];
+}
+
+/**
+ * Parsers for what each target stores as its snapshot: the Bing and Brave API
+ * responses, DuckDuckGo's already-extracted items and Perplexity's page HTML.
+ * API snapshots hold an array of responses when the query took several pages.
+ */
+type SnapshotParser = (content: string, maxResults: number, selectors: SelectorConfig) => RawSerpItem[];
+
+function parseApiSnapshot<T>(content: string, parse: (response: T) => RawSerpItem[]): RawSerpItem[] {
+  const data = JSON.parse(content) as T | T[];
+  return Array.isArray(data) ? mergePages(data.map(parse)) : parse(data);
+}
+
+const SNAPSHOT_PARSERS: Partial<Record<Engine, SnapshotParser>> = {
+  bing: (content) => parseApiSnapshot(content, parseBingResponse),
+  brave: (content) => parseApiSnapshot(content, parseBraveResponse),
+  duckduckgo: (content, maxResults) => parseDuckDuckGoSnapshot(JSON.parse(content)).slice(0, maxResults),
+  perplexity: (content, maxResults, selectors) =>
+    parsePerplexityPage(content, Math.min(maxResults, 20), selectors.engines.perplexity, selectors.features.perplexity)
+      .items
+};
+
+/** Query ids are UUIDs, so whatever follows one is the vantage id. */
+const SNAPSHOT_WITH_VANTAGE = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})-(.+)$/i;
+
+async function listDirectories(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lists stored snapshots for the given runs, engines and collection window,
+ * oldest first. Engines without a snapshot parser (Google) are never returned.
+ */
+export async function findSnapshots(options: FindSnapshotsOptions): Promise<SnapshotRef[]> {
+  const snapshots: SnapshotRef[] = [];
+
+  for (const engineDir of await listDirectories(options.rootDir)) {
+    const engine = EngineIdSchema.safeParse(engineDir);
+    if (!engine.success || !SNAPSHOT_PARSERS[engine.data]) continue;
+    if (options.engines?.length && !options.engines.includes(engine.data)) continue;
+
+    for (const runId of await listDirectories(path.join(options.rootDir, engineDir))) {
+      if (options.runIds?.length && !options.runIds.includes(runId)) continue;
+
+      const runDir = path.join(options.rootDir, engineDir, runId);
+      for (const file of await fs.readdir(runDir)) {
+        if (!file.endsWith(".html")) continue;
+
+        const htmlPath = path.join(runDir, file);
+        const stats = await fs.stat(htmlPath);
+        if (options.since && stats.mtime < options.since) continue;
+        if (options.until && stats.mtime > options.until) continue;
+
+        const name = path.basename(file, ".html");
+        const vantageMatch = SNAPSHOT_WITH_VANTAGE.exec(name);
+
+        snapshots.push({
+          engine: engine.data,
+          runId,
+          queryId: vantageMatch ? vantageMatch[1] : name,
+          ...(vantageMatch ? { vantageId: vantageMatch[2] } : {}),
+          htmlPath,
+          collectedAt: stats.mtime
+        });
+      }
+    }
+  }
+
+  return snapshots.sort((a, b) => a.collectedAt.getTime() - b.collectedAt.getTime());
+}
+
+/**
+ * The crawl run re-extracted rows are written under: one per original run and
+ * parser version, so repeating a re-extraction overwrites its earlier output.
+ */
+export function reextractRunId(runId: string, parserVersion: string): string {
+  return hashToUUID(`reextract|${runId}|${parserVersion}`);
+}
+
+/**
+ * Runs the engine's current extractor over a stored snapshot and returns new
+ * results tagged with its parser version. Throws when the snapshot no longer
+ * matches its sha256 sidecar.
+ */
+export async function reextractSnapshot(
+  snapshot: SnapshotRef,
+  options: ReextractOptions
+): Promise<ReextractedSnapshot> {
+  const parse = SNAPSHOT_PARSERS[snapshot.engine];
+  if (!parse) {
+    throw new Error(`No snapshot parser for engine ${snapshot.engine}`);
+  }
+
+  const content = await fs.readFile(snapshot.htmlPath, "utf-8");
+  const sha256 = createHash("sha256").update(content).digest("hex");
+  const expected = await fs.readFile(`${snapshot.htmlPath}.sha256`, "utf-8").catch(() => null);
+  if (expected !== null && expected.trim() !== sha256) {
+    throw new Error(`Snapshot ${snapshot.htmlPath} does not match its sha256 sidecar`);
+  }
+
+  const parserVersion = PARSER_VERSIONS[snapshot.engine];
+  const originalRunId = vantageRunId(snapshot.runId, snapshot.vantageId);
+  const crawlRunId = reextractRunId(originalRunId, parserVersion);
+  const items = parse(content, options.maxResultsPerQuery, options.selectors).map((item) => ({
+    ...item,
+    metadata: { ...item.metadata, reextractedFrom: { crawlRunId: originalRunId, sha256 } }
+  }));
+
+  // Only the id is read from the query when normalizing.
+  const query: BenchmarkQuery = { id: snapshot.queryId, query: "", topic: "", tags: [] };
+  const results = normalizeResults({
+    engine: snapshot.engine,
+    query,
+    collectedAt: snapshot.collectedAt,
+    rawHtmlPath: snapshot.htmlPath,
+    items,
+    crawlRunId,
+    stripQueryParams: options.stripQueryParams,
+    parserVersion,
+    vantageId: snapshot.vantageId
+  }).map((result) => ({
+    ...result,
+    id: hashToUUID(`${crawlRunId}|${snapshot.queryId}|${snapshot.engine}|${result.rank}`)
+  }));
+
+  return { crawlRunId, parserVersion, results };
+}
@@ -0,0 +1,81 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it, vi } from "vitest";
+import { getEngine } from "@truthlayer/schema";
+import { engineDescriptor, engineRuntimeConfig } from "./adapter";
+import { createEngineRegistry, loadEnginePlugins } from "./index";
+
+const logger = {
+  warn: vi.fn(),
+  info: vi.fn(),
+  error: vi.fn()
+} as any;
+
+describe("engineRuntimeConfig", () => {
+  const brave = engineDescriptor("brave");
+
+  it("uses the descriptor's defaults", () => {
+    expect(engineRuntimeConfig(brave, { engines: {} }, {})).toEqual({
+      enabled: true,
+      concurrency: 1,
+      delayMs: 2000,
+      requestsPerSecond: 1
+    });
+  });
+
+  it("applies the rate-limit env variable, then configured overrides", () => {
+    const env = { BRAVE_RATE_LIMIT_RPS: "3" };
+    expect(engineRuntimeConfig(brave, { engines: {} }, env).requestsPerSecond).toBe(3);
+    expect(
+      engineRuntimeConfig(brave, { engines: { brave: { requestsPerSecond: 5, delayMs: 500 } } }, env)
+    ).toMatchObject({ requestsPerSecond: 5, delayMs: 500 });
+  });
+
+  it("enables only the listed engines unless an override says otherwise", () => {
+    const config = { engines: { brave: { enabled: true } }, enabledEngines: ["google"] };
+    expect(engineRuntimeConfig(engineDescriptor("bing"), config, {}).enabled).toBe(false);
+    expect(engineRuntimeConfig(engineDescriptor("google"), config, {}).enabled).toBe(true);
+    expect(engineRuntimeConfig(brave, config, {}).enabled).toBe(true);
+  });
+});
+
+describe("engine registry", () => {
+  it("holds the built-in adapters and rejects duplicate ids", () => {
+    const registry = createEngineRegistry();
+
+    expect(registry.list().map((adapter) => adapter.descriptor.id)).toEqual([
+      "google",
+      "bing",
+      "perplexity",
+      "brave",
+      "duckduckgo"
+    ]);
+    expect(() => registry.register(registry.get("bing")!)).toThrow(/already registered/);
+  });
+
+  it("loads plugin adapters and registers their descriptors", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "engine-plugin-"));
+    const pluginPath = path.join(dir, "example.mjs");
+    await fs.writeFile(
+      pluginPath,
+      `export default {
+  descriptor: {
+    id: "example-engine",
+    label: "Example",
+    capabilities: { access: "api", pagination: false, locale: false },
+    rateLimit: { requestsPerSecond: 2 }
+  },
+  settingsSchema: { parse: () => ({}) },
+  createClient: () => ({ search: async () => [] })
+};`
+    );
+
+    const registry = createEngineRegistry();
+    await loadEnginePlugins(registry, [pluginPath], logger);
+
+    expect(registry.get("example-engine")?.descriptor).toEqual(getEngine("example-engine"));
+    expect(getEngine("example-engine")?.rateLimit).toEqual({ concurrency: 1, delayMs: 2000, requestsPerSecond: 2 });
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,87 @@
+import z from "zod";
+import { BenchmarkQuery, EngineDescriptor, getEngine, VantageProfile } from "@truthlayer/schema";
+import type { CollectorConfig } from "../lib/config";
+import type { Logger } from "../lib/logger";
+import type { RobotsPolicy } from "../lib/compliance";
+import type { RateLimits } from "../lib/rate-limiter";
+import type { LocaleParams } from "../lib/vantages";
+import type { SelectorHealthTracker } from "./selector-health";
+
+export interface SearchEngineClient {
+  /** Collects under the vantage's locale (and proxy, for browser targets) when one is given. */
+  search: (query: BenchmarkQuery, vantage?: VantageProfile) => Promise<Record<string, unknown>[]>;
+}
+
+/** How the collector paces one engine: the descriptor's defaults with any overrides applied. */
+export interface EngineRuntimeConfig {
+  enabled: boolean;
+  concurrency: number;
+  delayMs: number;
+  requestsPerSecond: number;
+}
+
+export interface EngineClientContext<Settings> {
+  config: CollectorConfig;
+  logger: Logger;
+  runId: string;
+  selectorHealth: SelectorHealthTracker;
+  robots: RobotsPolicy;
+  /** Per-engine and per-host limiters, shared by every engine of the collector. */
+  rateLimits: RateLimits;
+  engine: EngineRuntimeConfig;
+  settings: Settings;
+}
+
+/**
+ * Everything the collector needs to run an engine, in one place: the shared
+ * descriptor (id, capabilities, rate-limit defaults), the engine's own settings
+ * read from the environment (API keys and the like), its locale parameters for
+ * vantage profiles, and the client factory.
+ */
+export interface EngineAdapter<Settings = unknown> {
+  descriptor: EngineDescriptor;
+  /** Parses `process.env` into the engine's settings; fails the run when they are invalid. */
+  settingsSchema: z.ZodType<Settings, z.ZodTypeDef, unknown>;
+  /** Query parameters that put the engine in a vantage's region and language. */
+  localeParams?: LocaleParams;
+  createClient(context: EngineClientContext<Settings>): SearchEngineClient | Promise<SearchEngineClient>;
+}
+
+/** Keeps `Settings` inferred from the settings schema at the definition site. */
+export function defineEngineAdapter<Settings>(adapter: EngineAdapter<Settings>): EngineAdapter<Settings> {
+  return adapter;
+}
+
+/** The registered descriptor for a built-in engine. */
+export function engineDescriptor(id: string): EngineDescriptor {
+  const descriptor = getEngine(id);
+  if (!descriptor) throw new Error(`Engine ${id} is not registered`);
+  return descriptor;
+}
+
+const RuntimeOverridesSchema = z.object({
+  requestsPerSecond: z.coerce.number().min(0.1).max(10).optional()
+});
+
+/**
+ * Resolves an engine's pacing: configured overrides first, then the
+ * `<ENGINE>_RATE_LIMIT_RPS` environment variable, then the descriptor's
+ * defaults. An engine is enabled unless `enabledEngines` leaves it out.
+ */
+export function engineRuntimeConfig(
+  descriptor: EngineDescriptor,
+  config: Pick<CollectorConfig, "engines" | "enabledEngines">,
+  env: NodeJS.ProcessEnv = process.env
+): EngineRuntimeConfig {
+  const fromEnv = RuntimeOverridesSchema.parse({
+    requestsPerSecond: env[`${descriptor.id.toUpperCase().replace(/-/g, "_")}_RATE_LIMIT_RPS`]
+  });
+  const overrides = config.engines[descriptor.id] ?? {};
+
+  return {
+    enabled: overrides.enabled ?? (!config.enabledEngines || config.enabledEngines.includes(descriptor.id)),
+    concurrency: overrides.concurrency ?? descriptor.rateLimit.concurrency,
+    delayMs: overrides.delayMs ?? descriptor.rateLimit.delayMs,
+    requestsPerSecond: overrides.requestsPerSecond ?? fromEnv.requestsPerSecond ?? descriptor.rateLimit.requestsPerSecond
+  };
+}
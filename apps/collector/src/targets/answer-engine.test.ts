@@ -0,0 +1,223 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { SearchResult } from "@truthlayer/schema";
+import { AnswerEngineSetSchema } from "../lib/answer-engines";
+import { createRateLimits } from "../lib/rate-limiter";
+import { ChatCompletionResponse, parseChatAnswer } from "./answer-engine";
+import { toCitationRecords } from "./citations";
+import { createEngineRegistry, createEngineClient, registerAnswerEngines } from "./index";
+import { resultMetadata, toViewpointRecord } from "./viewpoints";
+
+vi.mock("./utils", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./utils")>()),
+  takeHtmlSnapshot: vi.fn(async () => ({ htmlPath: "snapshot.html", sha256Path: "snapshot.html.sha256", sha256: "" }))
+}));
+
+const logger = {
+  warn: vi.fn(),
+  info: vi.fn(),
+  error: vi.fn()
+} as any;
+
+const ANSWER = "Coffee is linked to lower mortality. Heavy use can raise anxiety.";
+
+// OpenAI search models cite with url_citation annotations over markdown links in the text
+const openAiStyle: ChatCompletionResponse = {
+  model: "gpt-4o-search-preview",
+  choices: [
+    {
+      message: {
+        content:
+          "Coffee is linked to lower mortality ([nih.gov](https://www.nih.gov/coffee)). Heavy use can raise anxiety ([mayo](https://www.mayoclinic.org/caffeine)).",
+        annotations: [
+          {
+            type: "url_citation",
+            url_citation: { url: "https://www.nih.gov/coffee", title: "Coffee and mortality", start_index: 37, end_index: 74 }
+          },
+          {
+            type: "url_citation",
+            url_citation: { url: "https://www.mayoclinic.org/caffeine", title: "Caffeine", start_index: 106, end_index: 149 }
+          }
+        ]
+      }
+    }
+  ]
+};
+
+// Perplexity's Sonar API numbers its sources in a top-level list
+const sonarStyle: ChatCompletionResponse = {
+  model: "sonar",
+  choices: [{ message: { content: "Coffee is linked to lower mortality.[1][2] Heavy use can raise anxiety.[2]" } }],
+  citations: ["https://www.nih.gov/coffee", "https://www.hsph.harvard.edu/coffee"],
+  search_results: [{ url: "https://www.hsph.harvard.edu/coffee", title: "Harvard on coffee", snippet: "Moderate intake..." }]
+};
+
+const markdownStyle: ChatCompletionResponse = {
+  choices: [
+    {
+      message: {
+        content:
+          "Coffee is linked to lower mortality according to [NIH](https://www.nih.gov/coffee). Heavy use can raise anxiety."
+      }
+    }
+  ]
+};
+
+const query = {
+  id: "11111111-1111-4111-8111-111111111111",
+  query: "is coffee healthy",
+  topic: "health",
+  tags: []
+};
+
+describe("parseChatAnswer", () => {
+  it("numbers url_citation annotations and replaces their spans with markers", () => {
+    const answer = parseChatAnswer(openAiStyle);
+
+    expect(answer.summary).toBe(ANSWER);
+    expect(answer.annotatedSummary).toBe("Coffee is linked to lower mortality [1]. Heavy use can raise anxiety [2].");
+    expect(answer.citations).toEqual([
+      { index: 1, url: "https://www.nih.gov/coffee", title: "Coffee and mortality", snippet: undefined },
+      { index: 2, url: "https://www.mayoclinic.org/caffeine", title: "Caffeine", snippet: undefined }
+    ]);
+  });
+
+  it("maps a top-level citation list onto the answer's own markers", () => {
+    const answer = parseChatAnswer(sonarStyle);
+
+    expect(answer.summary).toBe(ANSWER);
+    expect(answer.citations.map((citation) => [citation.index, citation.url, citation.title])).toEqual([
+      [1, "https://www.nih.gov/coffee", undefined],
+      [2, "https://www.hsph.harvard.edu/coffee", "Harvard on coffee"]
+    ]);
+  });
+
+  it("falls back to markdown links, keeping their text", () => {
+    const answer = parseChatAnswer(markdownStyle);
+
+    expect(answer.annotatedSummary).toBe(
+      "Coffee is linked to lower mortality according to NIH [1]. Heavy use can raise anxiety."
+    );
+    expect(answer.citations.map((citation) => citation.url)).toEqual(["https://www.nih.gov/coffee"]);
+  });
+
+  it("returns no summary or citations for an empty completion", () => {
+    expect(parseChatAnswer({ choices: [] })).toEqual({ summary: null, annotatedSummary: null, citations: [] });
+  });
+});
+
+describe("answer engines against a stub server", () => {
+  const requests: Array<{ url: string; authorization?: string; body: any }> = [];
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        requests.push({ url: req.url ?? "", authorization: req.headers.authorization, body: JSON.parse(body) });
+        const provider = req.url?.split("/")[1];
+        const response = provider === "openai" ? openAiStyle : provider === "sonar" ? sonarStyle : null;
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(response ? JSON.stringify(response) : "<html>gateway error</html>");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("collects several answer engines side by side into results, citations and viewpoints", async () => {
+    process.env.STUB_ANSWER_KEY = "secret";
+    const definitions = AnswerEngineSetSchema.parse([
+      {
+        id: "stub-openai",
+        label: "Stub OpenAI",
+        baseUrl: `${baseUrl}/openai/v1`,
+        model: "gpt-4o-search-preview",
+        apiKeyEnv: "STUB_ANSWER_KEY",
+        systemPrompt: "Cite your sources.",
+        body: { web_search_options: {} }
+      },
+      { id: "stub-sonar", label: "Stub Sonar", baseUrl: `${baseUrl}/sonar/`, model: "sonar", rateLimit: { requestsPerSecond: 5 } }
+    ]);
+    const registry = createEngineRegistry([]);
+    registerAnswerEngines(registry, definitions);
+
+    const config = { runId: "run-1", maxResultsPerQuery: 20, stripQueryParams: [], engines: {} } as any;
+    const runId = "22222222-2222-4222-8222-222222222222";
+    const results = new Map<string, SearchResult[]>();
+    for (const adapter of registry.list()) {
+      const client = await createEngineClient({
+        adapter,
+        config,
+        logger,
+        runId,
+        selectorHealth: {} as any,
+        robots: {} as any,
+        rateLimits: createRateLimits({ hostRequestsPerSecond: 10 })
+      });
+      results.set(adapter.descriptor.id, (await client.search(query)) as SearchResult[]);
+    }
+
+    expect(requests.map((request) => [request.url, request.authorization])).toEqual([
+      ["/openai/v1/chat/completions", "Bearer secret"],
+      ["/sonar/chat/completions", undefined]
+    ]);
+    expect(requests[0].body).toEqual({
+      web_search_options: {},
+      model: "gpt-4o-search-preview",
+      messages: [
+        { role: "system", content: "Cite your sources." },
+        { role: "user", content: "is coffee healthy" }
+      ]
+    });
+
+    const openAi = results.get("stub-openai")!;
+    expect(openAi.map((result) => [result.engine, result.rank, result.title, result.snippet])).toEqual([
+      ["stub-openai", 1, "Coffee and mortality", "Coffee is linked to lower mortality."],
+      ["stub-openai", 2, "Caffeine", "Heavy use can raise anxiety."]
+    ]);
+
+    for (const [engine, engineResults] of results) {
+      const viewpoint = toViewpointRecord({ queryId: query.id, crawlRunId: runId, engine, results: engineResults });
+      expect(viewpoint).toMatchObject({ engine, numResults: 2, summary: ANSWER, citationsCount: 2 });
+
+      const citations = toCitationRecords({
+        metadata: resultMetadata(engineResults[0])!,
+        queryId: query.id,
+        crawlRunId: runId,
+        engine,
+        collectedAt: new Date()
+      });
+      expect(citations[0]).toMatchObject({ citationIndex: 1, domain: "nih.gov" });
+      expect(citations[0].sentences).toEqual(["Coffee is linked to lower mortality."]);
+    }
+    expect(results.get("stub-sonar")![1].snippet).toBe("Coffee is linked to lower mortality.");
+  });
+
+  it("fails the search when the reply is not a chat completion", async () => {
+    const registry = createEngineRegistry([]);
+    registerAnswerEngines(
+      registry,
+      AnswerEngineSetSchema.parse([{ id: "stub-broken", label: "Broken", baseUrl: `${baseUrl}/broken`, model: "m" }])
+    );
+    const client = await createEngineClient({
+      adapter: registry.get("stub-broken")!,
+      config: { runId: "run-1", maxResultsPerQuery: 20, engines: {} } as any,
+      logger,
+      runId: "22222222-2222-4222-8222-222222222222",
+      selectorHealth: {} as any,
+      robots: {} as any,
+      rateLimits: createRateLimits({ hostRequestsPerSecond: 10 })
+    });
+
+    await expect(client.search(query)).rejects.toThrow();
+    expect(logger.error).toHaveBeenCalledWith("answer engine search failed", expect.objectContaining({ engine: "stub-broken" }));
+  });
+});
@@ -0,0 +1,291 @@
+import { BenchmarkQuery, EngineDescriptorSchema, SearchResult, VantageProfile } from "@truthlayer/schema";
+import { CollectorConfig } from "../lib/config";
+import { Logger } from "../lib/logger";
+import { retryableFetch } from "../lib/retry";
+import type { RateLimits } from "../lib/rate-limiter";
+import { vantageRunId } from "../lib/vantages";
+import type { AnswerEngineDefinition } from "../lib/answer-engines";
+import { takeHtmlSnapshot } from "./utils";
+import { normalizeResults, RawSerpItem } from "./normalize";
+import { attachCitationSentences } from "./citations";
+import { ANSWER_ENGINE_PARSER_VERSION } from "./parser-versions";
+import { defineEngineAdapter, EngineAdapter, EngineRuntimeConfig } from "./adapter";
+import z from "zod";
+
+/**
+ * Chat-style answer engines behind an OpenAI-compatible Chat Completions API
+ * (OpenAI's search models, Perplexity's Sonar API, Azure or self-hosted
+ * gateways in front of Copilot or Gemini, ...). The answer is stored like
+ * Perplexity's: the cited sources become ranked results, and the first one
+ * carries the answer `summary` and its numbered `citations`.
+ *
+ * @see https://platform.openai.com/docs/api-reference/chat/create
+ * @see https://docs.perplexity.ai/api-reference/chat-completions
+ */
+
+interface UrlCitationAnnotation {
+  type?: string;
+  url_citation?: {
+    url?: string;
+    title?: string;
+    /** Span of the answer text the citation covers, in UTF-16 code units. */
+    start_index?: number;
+    end_index?: number;
+  };
+}
+
+export interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      /** OpenAI's web search citations. */
+      annotations?: UrlCitationAnnotation[];
+    };
+  }>;
+  /** Perplexity's source URLs, numbered like the "[n]" markers in the answer (1-based). */
+  citations?: string[];
+  /** Perplexity's sources with titles; stands in for `citations` when that is absent. */
+  search_results?: Array<{ url?: string; title?: string; snippet?: string }>;
+}
+
+export interface ChatAnswer {
+  summary: string | null;
+  /** The answer with every citation written as a "[n]" marker. */
+  annotatedSummary: string | null;
+  citations: Array<{ index: number; url: string; title?: string; snippet?: string }>;
+}
+
+const MARKDOWN_LINK = /\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/g;
+const CITATION_MARKER = /\[(\d+)\]/g;
+
+function isHttpUrl(value: string | undefined): value is string {
+  if (!value) return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Turns a chat completion into an answer with numbered citations, whichever
+ * way the provider cites: `url_citation` annotations (their spans are replaced
+ * with a marker), a top-level `citations` or `search_results` list matching the
+ * answer's own "[n]" markers, or markdown links in the text (kept as their
+ * text, followed by a marker). A URL cited several times keeps one number.
+ */
+export function parseChatAnswer(data: ChatCompletionResponse): ChatAnswer {
+  const message = data.choices?.[0]?.message;
+  let text = message?.content ?? "";
+
+  const sources = new Map((data.search_results ?? []).map((source) => [source.url, source]));
+  const indexByUrl = new Map<string, number>();
+  const cite = (url: string): number => {
+    const existing = indexByUrl.get(url);
+    if (existing !== undefined) return existing;
+    const index = indexByUrl.size + 1;
+    indexByUrl.set(url, index);
+    return index;
+  };
+  const titles = new Map<string, string>();
+
+  const annotations = (message?.annotations ?? [])
+    .map((annotation) => annotation.url_citation)
+    .filter((citation): citation is NonNullable<UrlCitationAnnotation["url_citation"]> => isHttpUrl(citation?.url));
+  if (annotations.length) {
+    for (const citation of annotations) {
+      if (citation.title) titles.set(citation.url!, citation.title);
+    }
+    const spans = annotations
+      .map((citation) => ({ ...citation, index: cite(citation.url!) }))
+      .filter((citation) => citation.start_index !== undefined && citation.end_index !== undefined);
+    for (const span of spans.sort((a, b) => b.start_index! - a.start_index!)) {
+      text = `${text.slice(0, span.start_index)} [${span.index}]${text.slice(span.end_index)}`;
+    }
+  } else {
+    const numbered = data.citations?.length
+      ? data.citations
+      : (data.search_results ?? []).flatMap((source) => (source.url ? [source.url] : []));
+    if (numbered.length) {
+      const renumbered = numbered.map((url) => (isHttpUrl(url) ? cite(url) : null));
+      text = text.replace(CITATION_MARKER, (_, label: string) => {
+        const index = renumbered[Number(label) - 1];
+        return index ? `[${index}]` : "";
+      });
+    }
+  }
+
+  text = text
+    .replace(MARKDOWN_LINK, (_, label: string, url: string) => `${label} [${cite(url)}]`)
+    // "([example.com](https://...))" leaves a marker in parentheses
+    .replace(/\(\s*((?:\[\d+\]\s*)+)\)/g, (_, markers: string) => ` ${markers.trim()}`);
+
+  const annotatedSummary = text.replace(/\s+/g, " ").replace(/\s+([.,;:!?])/g, "$1").trim() || null;
+  const summary = annotatedSummary?.replace(/\s*\[\d+\]/g, "").replace(/\s+([.,;:!?])/g, "$1").trim() || null;
+
+  return {
+    summary,
+    annotatedSummary,
+    citations: Array.from(indexByUrl.entries()).map(([url, index]) => ({
+      index,
+      url,
+      title: titles.get(url) ?? sources.get(url)?.title,
+      snippet: sources.get(url)?.snippet
+    }))
+  };
+}
+
+/**
+ * Maps a chat completion (live or from a stored snapshot) to ranked items, one
+ * per cited source in citation order. A source's snippet is the first answer
+ * sentence citing it, or the provider's own snippet. The first item carries
+ * the summary and citations.
+ */
+export function parseChatCompletion(data: ChatCompletionResponse): { items: RawSerpItem[]; answer: ChatAnswer } {
+  const answer = parseChatAnswer(data);
+  const citations = attachCitationSentences(
+    answer.annotatedSummary,
+    answer.citations.map(({ index, url }) => ({ index, url }))
+  );
+
+  const items = answer.citations.map((citation, position) => ({
+    rank: position + 1,
+    title: citation.title?.trim() || citation.url,
+    snippet: citations[position].sentences[0] ?? citation.snippet?.trim() ?? "",
+    url: citation.url,
+    source: "api",
+    ...(position === 0 ? { metadata: { summary: answer.summary, citations, model: data.model ?? null } } : {})
+  }));
+
+  return { items, answer };
+}
+
+export interface AnswerEngineSettings {
+  apiKey?: string;
+}
+
+interface CreateAnswerEngineClientOptions {
+  definition: AnswerEngineDefinition;
+  config: CollectorConfig;
+  logger: Logger;
+  runId: string;
+  engine: EngineRuntimeConfig;
+  settings: AnswerEngineSettings;
+  rateLimits: RateLimits;
+}
+
+export function createAnswerEngineClient({
+  definition,
+  config,
+  logger,
+  runId,
+  engine,
+  settings,
+  rateLimits
+}: CreateAnswerEngineClientOptions) {
+  const throttle = rateLimits.forEngine(definition.id, engine.requestsPerSecond);
+  const endpoint = `${definition.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  async function search(query: BenchmarkQuery, vantage?: VantageProfile): Promise<SearchResult[]> {
+    const startTime = Date.now();
+    if (definition.apiKeyEnv && !settings.apiKey) {
+      logger.error("answer engine api key missing", {
+        engine: definition.id,
+        query: query.query,
+        message: `${definition.apiKeyEnv} environment variable not set`
+      });
+      return [];
+    }
+
+    try {
+      const messages = [
+        ...(definition.systemPrompt ? [{ role: "system", content: definition.systemPrompt }] : []),
+        { role: "user", content: query.query }
+      ];
+
+      logger.info("calling answer engine", { engine: definition.id, model: definition.model, query: query.query });
+
+      const response = await retryableFetch(
+        endpoint,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+            ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+            ...definition.headers
+          },
+          body: JSON.stringify({ ...definition.body, model: definition.model, messages })
+        },
+        { engine: definition.id, query: query.query, logger, throttle }
+      );
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      const collectedAt = new Date();
+      const { htmlPath } = await takeHtmlSnapshot({
+        engine: definition.id,
+        runId: config.runId,
+        queryId: query.id,
+        vantageId: vantage?.id,
+        html: JSON.stringify(data, null, 2)
+      });
+
+      const { items, answer } = parseChatCompletion(data);
+      logger.info("answer engine results", {
+        engine: definition.id,
+        query: query.query,
+        hasSummary: !!answer.summary,
+        summaryLength: answer.summary?.length ?? 0,
+        citationsCount: answer.citations.length,
+        durationMs: Date.now() - startTime
+      });
+
+      if (items.length === 0) {
+        logger.warn("answer engine cited no sources", { engine: definition.id, query: query.query });
+      }
+
+      return normalizeResults({
+        engine: definition.id,
+        query,
+        collectedAt,
+        rawHtmlPath: htmlPath,
+        items: items.slice(0, config.maxResultsPerQuery),
+        crawlRunId: vantageRunId(runId, vantage?.id),
+        stripQueryParams: config.stripQueryParams,
+        parserVersion: ANSWER_ENGINE_PARSER_VERSION,
+        vantageId: vantage?.id
+      });
+    } catch (error) {
+      logger.error("answer engine search failed", {
+        engine: definition.id,
+        query: query.query,
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  return { search };
+}
+
+/**
+ * The adapter for one configured answer engine. Answers come from the
+ * provider's own region, so vantage profiles do not change them.
+ */
+export function answerEngineAdapter(definition: AnswerEngineDefinition): EngineAdapter<AnswerEngineSettings> {
+  return defineEngineAdapter({
+    descriptor: EngineDescriptorSchema.parse({
+      id: definition.id,
+      label: definition.label,
+      capabilities: { access: "api", pagination: false, locale: false },
+      rateLimit: definition.rateLimit ?? {}
+    }),
+    settingsSchema: z
+      .record(z.string(), z.string().optional())
+      .transform((env) => ({ apiKey: definition.apiKeyEnv ? env[definition.apiKeyEnv] || undefined : undefined })),
+    createClient: ({ config, logger, runId, engine, settings, rateLimits }) =>
+      createAnswerEngineClient({ definition, config, logger, runId, engine, settings, rateLimits })
+  });
+}
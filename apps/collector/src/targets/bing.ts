@@ -1,9 +1,15 @@
-import { BenchmarkQuery, SearchResult } from "@truthlayer/schema";
+import { BenchmarkQuery, SearchResult, VantageProfile } from "@truthlayer/schema";
 import { CollectorConfig } from "../lib/config";
 import { Logger } from "../lib/logger";
 import { cachedAndRetryableFetch } from "../lib/retry";
+import type { RateLimits } from "../lib/rate-limiter";
 import { takeHtmlSnapshot } from "./utils";
 import { normalizeResults, RawSerpItem } from "./normalize";
+import { PARSER_VERSIONS } from "./parser-versions";
+import { engineParamsFor, LocaleParams, vantageRunId } from "../lib/vantages";
+import { collectPages } from "./pagination";
+import { defineEngineAdapter, engineDescriptor, EngineRuntimeConfig } from "./adapter";
+import z from "zod";
 
 /**
  * Bing Web Search API v7 client
@@ -12,14 +18,29 @@ import { normalizeResults, RawSerpItem } from "./normalize";
  * @see https://learn.microsoft.com/en-us/bing/search-apis/bing-web-search/reference/query-parameters
  */
 
+const BingSettingsSchema = z
+  .object({ BING_API_KEY: z.string().min(1).optional() })
+  .transform((env) => ({ apiKey: env.BING_API_KEY }));
+
+export type BingSettings = z.infer<typeof BingSettingsSchema>;
+
 interface CreateBingClientOptions {
   config: CollectorConfig;
   logger: Logger;
   runId: string;
+  engine: EngineRuntimeConfig;
+  settings: BingSettings;
+  rateLimits: RateLimits;
 }
 
-interface BingApiResponse {
+export const bingLocaleParams: LocaleParams = (vantage) => ({
+  mkt: `${vantage.language}-${vantage.country}`,
+  setLang: vantage.language
+});
+
+export interface BingApiResponse {
   webPages?: {
+    totalEstimatedMatches?: number;
     value?: Array<{
       name?: string;
       snippet?: string;
@@ -28,9 +49,26 @@ interface BingApiResponse {
   };
 }
 
-export function createBingClient({ config, logger, runId }: CreateBingClientOptions) {
-  async function search(query: BenchmarkQuery): Promise<SearchResult[]> {
-    if (!config.bingApiKey) {
+/** The API returns at most 50 results per call; `offset` skips results. */
+const BING_PAGE_SIZE = 50;
+
+/** Maps a Web Search API response (live or from a stored snapshot) to ranked items. */
+export function parseBingResponse(data: BingApiResponse): RawSerpItem[] {
+  const webPages = data.webPages?.value || [];
+  return webPages
+    .filter(item => item.url && item.name)
+    .map((item, index) => ({
+      rank: index + 1,
+      title: (item.name || "").trim(),
+      snippet: (item.snippet || "").trim(),
+      url: item.url || ""
+    }));
+}
+
+export function createBingClient({ config, logger, runId, engine, settings, rateLimits }: CreateBingClientOptions) {
+  const throttle = rateLimits.forEngine("bing", engine.requestsPerSecond);
+  async function search(query: BenchmarkQuery, vantage?: VantageProfile): Promise<SearchResult[]> {
+    if (!settings.apiKey) {
       logger.error("bing api key missing", { 
         query: query.query,
         message: "BING_API_KEY environment variable not set" 
@@ -38,97 +76,90 @@ export function createBingClient({ config, logger, runId }: CreateBingClientOpti
       return [];
     }
 
+    const apiKey = settings.apiKey;
+
     try {
       const endpoint = "https://api.bing.microsoft.com/v7.0/search";
-      const params = new URLSearchParams({
-        q: query.query,
-        count: Math.min(config.maxResultsPerQuery, 50).toString(),
-        responseFilter: "Webpages"
-      });
-
-      const url = `${endpoint}?${params.toString()}`;
+      const count = Math.min(config.maxResultsPerQuery, BING_PAGE_SIZE);
+      const responses: BingApiResponse[] = [];
+
+      const { items: rawResults, pages, stop, error } = await collectPages({
+        maxResults: config.maxResultsPerQuery,
+        maxPages: config.maxPagesPerQuery,
+        fetchPage: async (page) => {
+          const params = new URLSearchParams({
+            q: query.query,
+            count: count.toString(),
+            offset: ((page - 1) * count).toString(),
+            responseFilter: "Webpages",
+            ...engineParamsFor(vantage, "bing", bingLocaleParams)
+          });
 
-      logger.info("calling bing api", { 
-        query: query.query, 
-        count: config.maxResultsPerQuery 
-      });
+          const url = `${endpoint}?${params.toString()}`;
 
-      const response = await cachedAndRetryableFetch(
-        url,
-        {
-          method: "GET",
-          headers: {
-            "Ocp-Apim-Subscription-Key": config.bingApiKey,
-            "Accept": "application/json"
-          }
-        },
-        {
-          engine: "bing",
-          query: query.query,
-          logger
-        },
-        undefined,
-        {
-          cacheDir: "data/cache/http",
-          ttlMs: 24 * 60 * 60 * 1000,
-          enabled: true
-        }
-      );
-
-      if (!response.ok) {
-        const errorBody = await response.text();
-        logger.error("bing api error", {
-          query: query.query,
-          status: response.status,
-          statusText: response.statusText,
-          body: errorBody
-        });
-
-        if (response.status === 401) {
-          logger.error("bing api authentication failed", {
-            message: "Invalid API key. Check BING_API_KEY in .env"
-          });
-        } else if (response.status === 429) {
-          logger.error("bing api rate limit exceeded", {
-            message: "Rate limit reached. Check your Azure quota."
+          logger.info("calling bing api", { 
+            query: query.query, 
+            count,
+            page
           });
+
+          const response = await cachedAndRetryableFetch(
+            url,
+            {
+              method: "GET",
+              headers: {
+                "Ocp-Apim-Subscription-Key": apiKey,
+                "Accept": "application/json"
+              }
+            },
+            {
+              engine: "bing",
+              query: query.query,
+              logger,
+              throttle
+            },
+            undefined,
+            {
+              cacheDir: "data/cache/http",
+              ttlMs: 24 * 60 * 60 * 1000,
+              enabled: true
+            }
+          );
+
+          const data: BingApiResponse = await response.json();
+          responses.push(data);
+          const total = data.webPages?.totalEstimatedMatches;
+          return {
+            items: parseBingResponse(data),
+            hasMore: total === undefined || page * count < total
+          };
         }
+      });
+      const collectedAt = new Date();
 
-        return [];
+      if (error) {
+        logger.warn("bing pagination stopped early", { query: query.query, pages, error: error.message });
       }
 
-      const data: BingApiResponse = await response.json();
-      const collectedAt = new Date();
-
-      // Save API response as JSON snapshot
-      const { htmlPath } = await takeHtmlSnapshot({
+      // Save API responses as JSON snapshot (an array when the query took several pages)
+      await takeHtmlSnapshot({
         engine: "bing",
         runId: config.runId,
         queryId: query.id,
-        html: JSON.stringify(data, null, 2)
+        vantageId: vantage?.id,
+        html: JSON.stringify(responses.length === 1 ? responses[0] : responses, null, 2)
       });
 
-      // Extract results from API response
-      const webPages = data.webPages?.value || [];
-      const rawResults: RawSerpItem[] = webPages
-        .filter(item => item.url && item.name)
-        .map((item, index) => ({
-          rank: index + 1,
-          title: (item.name || "").trim(),
-          snippet: (item.snippet || "").trim(),
-          url: item.url || ""
-        }));
-
       logger.info("bing api results", {
         query: query.query,
         resultCount: rawResults.length,
-        apiResponseSize: webPages.length
+        pages,
+        stop
       });
 
       if (rawResults.length === 0) {
         logger.warn("bing api returned no valid results", { 
-          query: query.query,
-          totalResults: webPages.length
+          query: query.query
         });
       }
 
@@ -138,7 +169,10 @@ export function createBingClient({ config, logger, runId }: CreateBingClientOpti
         items: rawResults,
         collectedAt,
         rawHtmlPath: null, // API-based, no HTML
-        crawlRunId: runId
+        crawlRunId: vantageRunId(runId, vantage?.id),
+        stripQueryParams: config.stripQueryParams,
+        parserVersion: PARSER_VERSIONS.bing,
+        vantageId: vantage?.id
       });
     } catch (error) {
       logger.error("bing search failed", { 
@@ -146,9 +180,17 @@ export function createBingClient({ config, logger, runId }: CreateBingClientOpti
         error: (error as Error).message,
         stack: (error as Error).stack
       });
-      return [];
+      throw error;
     }
   }
 
   return { search };
 }
+
+export const bingAdapter = defineEngineAdapter({
+  descriptor: engineDescriptor("bing"),
+  settingsSchema: BingSettingsSchema,
+  localeParams: bingLocaleParams,
+  createClient: ({ config, logger, runId, engine, settings, rateLimits }) =>
+    createBingClient({ config, logger, runId, engine, settings, rateLimits })
+});
@@ -1,10 +1,15 @@
-import { BenchmarkQuery, SearchResult } from "@truthlayer/schema";
+import { BenchmarkQuery, SearchResult, VantageProfile } from "@truthlayer/schema";
 import { CollectorConfig } from "../lib/config";
 import { Logger } from "../lib/logger";
 import { cachedAndRetryableFetch } from "../lib/retry";
 import { takeHtmlSnapshot } from "./utils";
 import { normalizeResults, RawSerpItem } from "./normalize";
-import { RateLimiter } from "../lib/rate-limiter";
+import { PARSER_VERSIONS } from "./parser-versions";
+import { engineParamsFor, LocaleParams, vantageRunId } from "../lib/vantages";
+import type { RateLimits } from "../lib/rate-limiter";
+import { collectPages } from "./pagination";
+import { defineEngineAdapter, engineDescriptor, EngineRuntimeConfig } from "./adapter";
+import z from "zod";
 
 /**
  * Brave Search API client
@@ -13,13 +18,30 @@ import { RateLimiter } from "../lib/rate-limiter";
  * @see https://brave.com/search/api/
  */
 
+const BraveSettingsSchema = z
+  .object({ BRAVE_API_KEY: z.string().min(1).optional() })
+  .transform((env) => ({ apiKey: env.BRAVE_API_KEY }));
+
+export type BraveSettings = z.infer<typeof BraveSettingsSchema>;
+
 interface CreateBraveClientOptions {
   config: CollectorConfig;
   logger: Logger;
   runId: string;
+  engine: EngineRuntimeConfig;
+  settings: BraveSettings;
+  rateLimits: RateLimits;
 }
 
-interface BraveApiResponse {
+export const braveLocaleParams: LocaleParams = (vantage) => ({
+  country: vantage.country,
+  search_lang: vantage.language
+});
+
+export interface BraveApiResponse {
+  query?: {
+    more_results_available?: boolean;
+  };
   web?: {
     results?: Array<{
       title?: string;
@@ -29,14 +51,34 @@ interface BraveApiResponse {
   };
 }
 
-export function createBraveClient({ config, logger, runId }: CreateBraveClientOptions) {
-  const rateLimiter = new RateLimiter({
-    maxRequestsPerSecond: config.rateLimits.brave
-  });
+/** The API serves at most 20 results per page and pages 0-9 (`offset` counts pages). */
+const BRAVE_PAGE_SIZE = 20;
+const BRAVE_MAX_PAGES = 10;
+
+/**
+ * Maps a Web Search API response (live or from a stored snapshot) to ranked
+ * items. `metadata` is attached to every item when given.
+ */
+export function parseBraveResponse(data: BraveApiResponse, metadata?: Record<string, unknown>): RawSerpItem[] {
+  const webResults = data.web?.results || [];
+  return webResults
+    .filter(item => item.url && item.title)
+    .map((item, index) => ({
+      rank: index + 1,
+      title: (item.title || "").trim(),
+      snippet: (item.description || "").trim(),
+      url: item.url || "",
+      source: "api",
+      ...(metadata ? { metadata } : {})
+    }));
+}
+
+export function createBraveClient({ config, logger, runId, engine, settings, rateLimits }: CreateBraveClientOptions) {
+  const throttle = rateLimits.forEngine("brave", engine.requestsPerSecond);
 
-  async function search(query: BenchmarkQuery): Promise<SearchResult[]> {
+  async function search(query: BenchmarkQuery, vantage?: VantageProfile): Promise<SearchResult[]> {
     const startTime = Date.now();
-    if (!config.braveApiKey) {
+    if (!settings.apiKey) {
       logger.error("brave api key missing", { 
         query: query.query,
         message: "BRAVE_API_KEY environment variable not set" 
@@ -44,109 +86,96 @@ export function createBraveClient({ config, logger, runId }: CreateBraveClientOp
       return [];
     }
 
+    const apiKey = settings.apiKey;
+
     try {
       const endpoint = "https://api.search.brave.com/res/v1/web/search";
-      const params = new URLSearchParams({
-        q: query.query,
-        count: Math.min(config.maxResultsPerQuery, 20).toString()
-      });
-
-      const url = `${endpoint}?${params.toString()}`;
-
-      logger.info("calling brave api", { 
-        query: query.query, 
-        count: config.maxResultsPerQuery 
-      });
+      const count = Math.min(config.maxResultsPerQuery, BRAVE_PAGE_SIZE);
+      const responses: BraveApiResponse[] = [];
+
+      const { items, pages, stop, error } = await collectPages({
+        maxResults: config.maxResultsPerQuery,
+        maxPages: Math.min(config.maxPagesPerQuery, BRAVE_MAX_PAGES),
+        fetchPage: async (page) => {
+          const params = new URLSearchParams({
+            q: query.query,
+            count: count.toString(),
+            offset: (page - 1).toString(),
+            ...engineParamsFor(vantage, "brave", braveLocaleParams)
+          });
 
-      // Wait for rate limit token
-      await rateLimiter.waitForToken();
-
-      const response = await cachedAndRetryableFetch(
-        url,
-        {
-          method: "GET",
-          headers: {
-            "X-Subscription-Token": config.braveApiKey,
-            "Accept": "application/json",
-            "Accept-Encoding": "gzip"
-          }
-        },
-        {
-          engine: "brave",
-          query: query.query,
-          logger
-        },
-        undefined,
-        {
-          cacheDir: "data/cache/http",
-          ttlMs: 24 * 60 * 60 * 1000,
-          enabled: true
-        }
-      );
-
-      if (!response.ok) {
-        const errorBody = await response.text();
-        logger.error("brave api error", {
-          query: query.query,
-          status: response.status,
-          statusText: response.statusText,
-          body: errorBody
-        });
+          const url = `${endpoint}?${params.toString()}`;
 
-        if (response.status === 401) {
-          logger.error("brave api authentication failed", {
-            message: "Invalid API key. Check BRAVE_API_KEY in .env"
+          logger.info("calling brave api", { 
+            query: query.query, 
+            count,
+            page
           });
-        } else if (response.status === 429) {
-          logger.error("brave api rate limit exceeded", {
-            message: "Rate limit reached. Check your plan at https://api-dashboard.search.brave.com/"
-          });
-        }
 
-        return [];
-      }
+          const response = await cachedAndRetryableFetch(
+            url,
+            {
+              method: "GET",
+              headers: {
+                "X-Subscription-Token": apiKey,
+                "Accept": "application/json",
+                "Accept-Encoding": "gzip"
+              }
+            },
+            {
+              engine: "brave",
+              query: query.query,
+              logger,
+              throttle
+            },
+            undefined,
+            {
+              cacheDir: "data/cache/http",
+              ttlMs: 24 * 60 * 60 * 1000,
+              enabled: true
+            }
+          );
+
+          const data: BraveApiResponse = await response.json();
+          responses.push(data);
+          return { items: parseBraveResponse(data), hasMore: data.query?.more_results_available === true };
+        }
+      });
 
-      const data: BraveApiResponse = await response.json();
       const collectedAt = new Date();
       const durationMs = Date.now() - startTime;
-      const stats = rateLimiter.getStats();
+      const stats = throttle.getStats();
+
+      if (error) {
+        logger.warn("brave pagination stopped early", { query: query.query, pages, error: error.message });
+      }
 
-      // Save API response as JSON snapshot
-      const { htmlPath } = await takeHtmlSnapshot({
+      // Save API responses as JSON snapshot (an array when the query took several pages)
+      await takeHtmlSnapshot({
         engine: "brave",
         runId: config.runId,
         queryId: query.id,
-        html: JSON.stringify(data, null, 2)
+        vantageId: vantage?.id,
+        html: JSON.stringify(responses.length === 1 ? responses[0] : responses, null, 2)
       });
 
-      // Extract results from API response
-      const webResults = data.web?.results || [];
-      const rawResults: RawSerpItem[] = webResults
-        .filter(item => item.url && item.title)
-        .map((item, index) => ({
-          rank: index + 1,
-          title: (item.title || "").trim(),
-          snippet: (item.description || "").trim(),
-          url: item.url || "",
-          source: "api",
-          metadata: {
-            rateLimitHits: stats.rateLimitHits,
-            durationMs
-          }
-        }));
+      const rawResults = items.map((item) => ({
+        ...item,
+        metadata: { rateLimitHits: stats.rateLimitHits, durationMs }
+      }));
 
       logger.info("brave api results", {
         query: query.query,
         resultCount: rawResults.length,
-        apiResponseSize: webResults.length,
+        pages,
+        stop,
         durationMs,
         rateLimitHits: stats.rateLimitHits
       });
 
       if (rawResults.length === 0) {
         logger.warn("brave api returned no valid results", { 
-          query: query.query,
-          totalResults: webResults.length
+          query: query.query
         });
       }
 
@@ -156,7 +185,10 @@ export function createBraveClient({ config, logger, runId }: CreateBraveClientOp
         items: rawResults,
         collectedAt,
         rawHtmlPath: null, // API-based, no HTML
-        crawlRunId: runId
+        crawlRunId: vantageRunId(runId, vantage?.id),
+        stripQueryParams: config.stripQueryParams,
+        parserVersion: PARSER_VERSIONS.brave,
+        vantageId: vantage?.id
       });
     } catch (error) {
       logger.error("brave search failed", { 
@@ -164,9 +196,17 @@ export function createBraveClient({ config, logger, runId }: CreateBraveClientOp
         error: (error as Error).message,
         stack: (error as Error).stack
       });
-      return [];
+      throw error;
     }
   }
 
   return { search };
 }
+
+export const braveAdapter = defineEngineAdapter({
+  descriptor: engineDescriptor("brave"),
+  settingsSchema: BraveSettingsSchema,
+  localeParams: braveLocaleParams,
+  createClient: ({ config, logger, runId, engine, settings, rateLimits }) =>
+    createBraveClient({ config, logger, runId, engine, settings, rateLimits })
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { CitationSchema } from "@truthlayer/schema";
+import { attachCitationSentences, splitSentences, toCitationRecords } from "./citations";
+
+const annotatedSummary =
+  "Flu vaccines are safe for most adults. [1] [2] Mild soreness is the most common side effect [2]. " +
+  "Severe reactions are rare! [3] Talk to a doctor first.";
+
+describe("splitSentences", () => {
+  it("keeps trailing citation markers with the sentence they follow", () => {
+    expect(splitSentences(annotatedSummary)).toEqual([
+      "Flu vaccines are safe for most adults. [1] [2]",
+      "Mild soreness is the most common side effect [2].",
+      "Severe reactions are rare! [3]",
+      "Talk to a doctor first."
+    ]);
+  });
+});
+
+describe("attachCitationSentences", () => {
+  it("links each citation to the sentences carrying its marker", () => {
+    const citations = attachCitationSentences(annotatedSummary, [
+      { index: 1, url: "https://www.cdc.gov/flu" },
+      { index: 2, url: "https://www.nhs.uk/vaccinations" },
+      { index: 3, url: "https://www.who.int/news" },
+      { index: 4, url: "https://example.com/unreferenced" }
+    ]);
+
+    expect(citations.map((citation) => citation.sentences)).toEqual([
+      ["Flu vaccines are safe for most adults."],
+      ["Flu vaccines are safe for most adults.", "Mild soreness is the most common side effect."],
+      ["Severe reactions are rare!"],
+      []
+    ]);
+  });
+
+  it("handles a missing summary", () => {
+    expect(attachCitationSentences(null, [{ index: 1, url: "https://example.com/" }])).toEqual([
+      { index: 1, url: "https://example.com/", sentences: [] }
+    ]);
+  });
+});
+
+describe("toCitationRecords", () => {
+  const params = {
+    queryId: "11111111-1111-1111-1111-111111111111",
+    crawlRunId: "22222222-2222-2222-2222-222222222222",
+    engine: "perplexity",
+    collectedAt: new Date("2025-01-01T00:00:00.000Z")
+  };
+
+  it("builds schema-valid records with stable ids", () => {
+    const metadata = {
+      summary: "Flu vaccines are safe.",
+      citations: [
+        { index: 1, url: "https://www.cdc.gov/flu", sentences: ["Flu vaccines are safe."] },
+        { index: 2, url: "javascript:void(0)", sentences: [] },
+        "https://legacy.example.com/"
+      ]
+    };
+
+    const records = toCitationRecords({ ...params, metadata });
+    expect(records).toHaveLength(1);
+    expect(CitationSchema.parse(records[0])).toMatchObject({
+      citationIndex: 1,
+      url: "https://www.cdc.gov/flu",
+      normalizedUrl: "https://cdc.gov/flu",
+      domain: "cdc.gov",
+      registrableDomain: "cdc.gov",
+      sentences: ["Flu vaccines are safe."]
+    });
+    expect(toCitationRecords({ ...params, metadata })[0].id).toBe(records[0].id);
+  });
+});
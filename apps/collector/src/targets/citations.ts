@@ -0,0 +1,113 @@
+import { hashToUUID } from "@truthlayer/schema";
+import type { CitationRecordInput } from "@truthlayer/storage";
+import { canonicalizeUrl } from "../lib/canonicalize";
+import { registrableDomain } from "../lib/public-suffix";
+
+/** A numbered citation as found in the answer markup, before sentence linking. */
+export interface RawCitation {
+  index: number;
+  url: string;
+}
+
+export interface ExtractedCitation extends RawCitation {
+  /** Summary sentences that reference this citation, with citation markers removed. */
+  sentences: string[];
+}
+
+/** Citation markers as written into the annotated summary, e.g. "[3]". */
+const CITATION_MARKER = /\[(\d+)\]/g;
+
+/**
+ * Splits text into sentences on terminal punctuation. Citation markers that
+ * trail the punctuation ("... rose.[1][2] Next") stay with the sentence they follow.
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?](?:\s*\[\d+\])*)\s+(?!\[\d+\])/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+function stripMarkers(sentence: string): string {
+  return sentence.replace(CITATION_MARKER, "").replace(/\s+([.,;:!?])/g, "$1").replace(/\s{2,}/g, " ").trim();
+}
+
+/**
+ * Links each citation to the sentences of `annotatedSummary` carrying its "[n]"
+ * marker. Citations that are never referenced inline keep an empty sentence list.
+ */
+export function attachCitationSentences(
+  annotatedSummary: string | null | undefined,
+  citations: RawCitation[]
+): ExtractedCitation[] {
+  const sentencesByIndex = new Map<number, string[]>();
+
+  for (const sentence of splitSentences(annotatedSummary ?? "")) {
+    const indexes = new Set(Array.from(sentence.matchAll(CITATION_MARKER), (match) => Number(match[1])));
+    const text = stripMarkers(sentence);
+    if (!text) continue;
+    for (const index of indexes) {
+      sentencesByIndex.set(index, [...(sentencesByIndex.get(index) ?? []), text]);
+    }
+  }
+
+  return citations.map((citation) => ({
+    ...citation,
+    sentences: sentencesByIndex.get(citation.index) ?? []
+  }));
+}
+
+/** Same citation slot in the same run always maps to the same id, so re-collection upserts. */
+function citationId(crawlRunId: string | null, queryId: string, engine: string, index: number): string {
+  return hashToUUID(`${crawlRunId ?? ""}|${queryId}|${engine}|${index}`);
+}
+
+/**
+ * Reads the citations a client stored in a result's `metadata` (as written by the
+ * Perplexity client) and turns them into storage records. Entries without a
+ * valid http(s) URL are dropped.
+ */
+export function toCitationRecords(params: {
+  metadata: Record<string, unknown>;
+  queryId: string;
+  crawlRunId: string | null;
+  engine: string;
+  collectedAt: Date;
+}): CitationRecordInput[] {
+  const { metadata, queryId, crawlRunId, engine, collectedAt } = params;
+  if (!Array.isArray(metadata.citations)) return [];
+
+  const records: CitationRecordInput[] = [];
+  for (const entry of metadata.citations as unknown[]) {
+    if (!entry || typeof entry !== "object") continue;
+    const { index, url, sentences } = entry as Partial<ExtractedCitation>;
+    if (typeof index !== "number" || typeof url !== "string") continue;
+
+    const normalizedUrl = canonicalizeUrl(url, { engine });
+    let domain: string;
+    try {
+      const parsed = new URL(normalizedUrl);
+      if (parsed.protocol !== "http:" && parsed.protocol !== "https:") continue;
+      domain = parsed.hostname;
+    } catch {
+      continue;
+    }
+
+    records.push({
+      id: citationId(crawlRunId, queryId, engine, index),
+      queryId,
+      crawlRunId,
+      engine,
+      citationIndex: index,
+      url,
+      normalizedUrl,
+      domain,
+      registrableDomain: registrableDomain(domain),
+      sentences: Array.isArray(sentences) ? sentences.filter((sentence) => typeof sentence === "string") : [],
+      collectedAt,
+      createdAt: collectedAt,
+      updatedAt: collectedAt
+    });
+  }
+  return records;
+}
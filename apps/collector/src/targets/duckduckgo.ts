@@ -1,9 +1,21 @@
-import { BenchmarkQuery, SearchResult } from "@truthlayer/schema";
+import { BenchmarkQuery, SearchResult, VantageProfile } from "@truthlayer/schema";
 import { CollectorConfig } from "../lib/config";
 import { Logger } from "../lib/logger";
 import { takeHtmlSnapshot } from "./utils";
 import { normalizeResults, RawSerpItem } from "./normalize";
+import { collectPages } from "./pagination";
+import { EngineBlockedError } from "../lib/circuit-breaker";
+import { RobotsPolicy } from "../lib/compliance";
+import { RateLimits, retryAtAfter } from "../lib/rate-limiter";
+import { HttpError } from "../lib/retry";
+import { PARSER_VERSIONS } from "./parser-versions";
+import { engineParamsFor, LocaleParams, vantageRunId } from "../lib/vantages";
+import { defineEngineAdapter, engineDescriptor, EngineRuntimeConfig } from "./adapter";
+import { firstMatchingSelector, RecordSelectorOutcome, SelectorHealthTracker } from "./selector-health";
+import { extractSerpFeatures } from "./serp-features";
+import type { DuckDuckGoSelectors, FeatureSelectors } from "../lib/selectors";
 import { load } from "cheerio";
+import z from "zod";
 
 /**
  * DuckDuckGo Search Client
@@ -19,9 +31,17 @@ interface CreateDuckDuckGoClientOptions {
   config: CollectorConfig;
   logger: Logger;
   runId: string;
+  selectorHealth: SelectorHealthTracker;
+  robots: RobotsPolicy;
+  engine: EngineRuntimeConfig;
+  rateLimits: RateLimits;
 }
 
-interface DuckDuckGoApiResponse {
+export const duckDuckGoLocaleParams: LocaleParams = (vantage) => ({
+  kl: `${vantage.country.toLowerCase()}-${vantage.language}`
+});
+
+export interface DuckDuckGoApiResponse {
   Abstract?: string;
   AbstractText?: string;
   AbstractURL?: string;
@@ -39,15 +59,191 @@ interface DuckDuckGoApiResponse {
   }>;
 }
 
-export function createDuckDuckGoClient({ config, logger, runId }: CreateDuckDuckGoClientOptions) {
-  async function searchViaApi(query: BenchmarkQuery): Promise<RawSerpItem[]> {
+/** Maps an Instant Answer API response to ranked items: the abstract, then related topics (flattened). */
+export function parseDuckDuckGoApiResponse(data: DuckDuckGoApiResponse, max: number): RawSerpItem[] {
+  const rawResults: RawSerpItem[] = [];
+
+  // Extract main abstract result if present
+  if (data.AbstractURL && data.Abstract) {
+    rawResults.push({
+      rank: 1,
+      title: data.Heading || data.Abstract.substring(0, 100),
+      snippet: data.AbstractText || data.Abstract,
+      url: data.AbstractURL,
+      source: "api"
+    });
+  }
+
+  // Extract related topics (can be nested)
+  if (data.RelatedTopics && Array.isArray(data.RelatedTopics)) {
+    for (const topic of data.RelatedTopics) {
+      // Direct topic with URL
+      if (topic.FirstURL && topic.Text) {
+        rawResults.push({
+          rank: rawResults.length + 1,
+          title: topic.Text.split(" - ")[0].trim(),
+          snippet: topic.Text,
+          url: topic.FirstURL,
+          source: "api"
+        });
+      }
+      // Nested topics array
+      else if (topic.Topics && Array.isArray(topic.Topics)) {
+        for (const nestedTopic of topic.Topics) {
+          if (nestedTopic.FirstURL && nestedTopic.Text) {
+            rawResults.push({
+              rank: rawResults.length + 1,
+              title: nestedTopic.Text.split(" - ")[0].trim(),
+              snippet: nestedTopic.Text,
+              url: nestedTopic.FirstURL,
+              source: "api"
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return rawResults.slice(0, max);
+}
+
+/** Resolves a link from the HTML page; DuckDuckGo writes most of them protocol-relative. */
+function resolveDuckDuckGoHref(href: string): string | null {
+  try {
+    return new URL(href, "https://duckduckgo.com/").toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extracts organic results from the `duckduckgo.com/html/` page. Each selector
+ * group uses its first selector (in the order given) that matches on the page.
+ * Ads are left out of the ranking; they and the other SERP features go on the
+ * first item's metadata.
+ */
+export function parseDuckDuckGoHtml(
+  html: string,
+  max: number,
+  selectors: DuckDuckGoSelectors,
+  featureSelectors: FeatureSelectors,
+  onSelector?: RecordSelectorOutcome
+): RawSerpItem[] {
+  const $ = load(html);
+  const rawResults: RawSerpItem[] = [];
+
+  const matchesPage = (selector: string) => $(selector).length > 0;
+  const resultSelector = firstMatchingSelector("result", selectors.result, matchesPage, onSelector);
+  if (!resultSelector) return rawResults;
+
+  const adSelectors = featureSelectors.ad ?? [];
+  const $results = $(resultSelector).filter((_, element) => !adSelectors.some((selector) => $(element).is(selector)));
+  const matchesResult = (selector: string) => $results.find(selector).length > 0;
+  const linkSelector = firstMatchingSelector("link", selectors.link, matchesResult, onSelector);
+  const snippetSelector = firstMatchingSelector("snippet", selectors.snippet, matchesResult, onSelector);
+  if (!linkSelector) return rawResults;
+
+  // Parse organic results
+  $results.each((index, element) => {
+    if (index >= max) return false;
+
+    const $result = $(element);
+    const $link = $result.find(linkSelector);
+
+    let url = $link.attr("href");
+    const title = $link.text().trim();
+    const snippet = snippetSelector ? $result.find(snippetSelector).text().trim() : "";
+
+    // Fix protocol-relative URLs
+    if (url && url.startsWith('//')) {
+      url = 'https:' + url;
+    }
+
+    if (url && title) {
+      rawResults.push({
+        rank: index + 1,
+        title,
+        snippet,
+        url,
+        source: "html"
+      });
+    }
+  });
+
+  const features = extractSerpFeatures(html, featureSelectors, {
+    engine: "duckduckgo",
+    organicSelectors: [resultSelector],
+    resolveUrl: resolveDuckDuckGoHref,
+    engineHost: "duckduckgo.com"
+  });
+  if (features.length && rawResults.length) {
+    rawResults[0] = { ...rawResults[0], metadata: { serpFeatures: features } };
+  }
+
+  return rawResults;
+}
+
+/** Markup DuckDuckGo serves instead of results when it suspects a bot. */
+const DUCKDUCKGO_BLOCK_SELECTORS = [".anomaly-modal", "#challenge-form", "form[action*=\"anomaly\"]"];
+
+export function isDuckDuckGoBlocked(html: string): boolean {
+  const $ = load(html);
+  return DUCKDUCKGO_BLOCK_SELECTORS.some((selector) => $(selector).length > 0);
+}
+
+/**
+ * Reads the form fields the HTML page posts to get its next page, or null on the
+ * last page. Only the first matching `nextPage` selector is used; these lookups
+ * are not recorded as selector health because the form is legitimately missing
+ * whenever results run out.
+ */
+export function parseDuckDuckGoNextPage(html: string, selectors: DuckDuckGoSelectors): URLSearchParams | null {
+  const $ = load(html);
+  const formSelector = selectors.nextPage?.find((selector) => $(selector).length > 0);
+  if (!formSelector) return null;
+
+  const fields = new URLSearchParams();
+  $(formSelector)
+    .first()
+    .find("input[name]")
+    .each((_, input) => {
+      fields.append($(input).attr("name")!, $(input).attr("value") ?? "");
+    });
+
+  return fields.has("q") ? fields : null;
+}
+
+/** What `search` stores as the DuckDuckGo snapshot: the items already pulled from the API or HTML page. */
+export interface DuckDuckGoSnapshot {
+  results?: RawSerpItem[];
+  collectedAt?: string;
+}
+
+export function parseDuckDuckGoSnapshot(snapshot: DuckDuckGoSnapshot): RawSerpItem[] {
+  return (snapshot.results ?? []).filter((item) => item.url && item.title);
+}
+
+export function createDuckDuckGoClient({
+  config,
+  logger,
+  runId,
+  selectorHealth,
+  robots,
+  engine,
+  rateLimits
+}: CreateDuckDuckGoClientOptions) {
+  const recordSelector = selectorHealth.recorder("duckduckgo");
+  const throttle = rateLimits.forEngine("duckduckgo", engine.requestsPerSecond);
+
+  async function searchViaApi(query: BenchmarkQuery, vantage?: VantageProfile): Promise<RawSerpItem[]> {
     try {
       const endpoint = "https://api.duckduckgo.com/";
       const params = new URLSearchParams({
         q: query.query,
         format: "json",
         no_redirect: "1",
-        no_html: "1"
+        no_html: "1",
+        ...engineParamsFor(vantage, "duckduckgo", duckDuckGoLocaleParams)
       });
 
       const url = `${endpoint}?${params.toString()}`;
@@ -56,6 +252,7 @@ export function createDuckDuckGoClient({ config, logger, runId }: CreateDuckDuck
         query: query.query 
       });
 
+      await throttle.acquire(url);
       const response = await fetch(url, {
         method: "GET",
         headers: {
@@ -63,6 +260,7 @@ export function createDuckDuckGoClient({ config, logger, runId }: CreateDuckDuck
           "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
         }
       });
+      const retryAfterMs = throttle.observe(url, response);
 
       if (!response.ok) {
         logger.error("duckduckgo api error", {
@@ -70,11 +268,19 @@ export function createDuckDuckGoClient({ config, logger, runId }: CreateDuckDuck
           status: response.status,
           statusText: response.statusText
         });
+        if (response.status === 429) {
+          throw new EngineBlockedError(
+            "duckduckgo",
+            "rate_limited",
+            `DuckDuckGo API error: 429 ${response.statusText}`,
+            retryAtAfter(retryAfterMs)
+          );
+        }
         return [];
       }
 
       const data: DuckDuckGoApiResponse = await response.json();
-      const rawResults: RawSerpItem[] = [];
+      const rawResults = parseDuckDuckGoApiResponse(data, config.maxResultsPerQuery);
 
       // Debug logging
       logger.info("duckduckgo api response debug", {
@@ -85,128 +291,122 @@ export function createDuckDuckGoClient({ config, logger, runId }: CreateDuckDuck
         relatedTopicsType: data.RelatedTopics ? typeof data.RelatedTopics[0] : 'none'
       });
 
-      // Extract main abstract result if present
-      if (data.AbstractURL && data.Abstract) {
-        rawResults.push({
-          rank: 1,
-          title: data.Heading || data.Abstract.substring(0, 100),
-          snippet: data.AbstractText || data.Abstract,
-          url: data.AbstractURL,
-          source: "api"
-        });
-      }
-
-      // Extract related topics (can be nested)
-      if (data.RelatedTopics && Array.isArray(data.RelatedTopics)) {
-        for (const topic of data.RelatedTopics) {
-          // Direct topic with URL
-          if (topic.FirstURL && topic.Text) {
-            rawResults.push({
-              rank: rawResults.length + 1,
-              title: topic.Text.split(" - ")[0].trim(),
-              snippet: topic.Text,
-              url: topic.FirstURL,
-              source: "api"
-            });
-          }
-          // Nested topics array
-          else if (topic.Topics && Array.isArray(topic.Topics)) {
-            for (const nestedTopic of topic.Topics) {
-              if (nestedTopic.FirstURL && nestedTopic.Text) {
-                rawResults.push({
-                  rank: rawResults.length + 1,
-                  title: nestedTopic.Text.split(" - ")[0].trim(),
-                  snippet: nestedTopic.Text,
-                  url: nestedTopic.FirstURL,
-                  source: "api"
-                });
-              }
-            }
-          }
-        }
-      }
-
       logger.info("duckduckgo api results", {
         query: query.query,
         resultCount: rawResults.length,
         source: "api"
       });
 
-      return rawResults.slice(0, config.maxResultsPerQuery);
+      return rawResults;
     } catch (error) {
       logger.error("duckduckgo api failed", { 
         query: query.query, 
         error: (error as Error).message
       });
+      if (error instanceof EngineBlockedError) throw error;
       return [];
     }
   }
 
-  async function searchViaHtml(query: BenchmarkQuery): Promise<RawSerpItem[]> {
+  async function searchViaHtml(query: BenchmarkQuery, vantage?: VantageProfile): Promise<RawSerpItem[]> {
     try {
       const endpoint = "https://duckduckgo.com/html/";
-      const params = new URLSearchParams({
-        q: query.query
-      });
-
-      const url = `${endpoint}?${params.toString()}`;
-
-      logger.info("calling duckduckgo html", { 
-        query: query.query 
-      });
-
-      const response = await fetch(url, {
-        method: "GET",
-        headers: {
-          "Accept": "text/html",
-          "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
-        }
-      });
-
-      if (!response.ok) {
-        logger.error("duckduckgo html error", {
-          query: query.query,
-          status: response.status,
-          statusText: response.statusText
-        });
-        return [];
-      }
-
-      const html = await response.text();
-      const $ = load(html);
-      const rawResults: RawSerpItem[] = [];
+      const headers = {
+        "Accept": "text/html",
+        "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
+      };
+      let nextPage: URLSearchParams | null = null;
+
+      const { items: rawResults, pages, stop, error } = await collectPages({
+        maxResults: config.maxResultsPerQuery,
+        maxPages: config.maxPagesPerQuery,
+        fetchPage: async (page) => {
+          logger.info("calling duckduckgo html", { 
+            query: query.query,
+            page
+          });
 
-      // Parse organic results
-      $(".result").each((index, element) => {
-        if (index >= config.maxResultsPerQuery) return false;
+          const params = new URLSearchParams({
+            q: query.query,
+            ...engineParamsFor(vantage, "duckduckgo", duckDuckGoLocaleParams)
+          });
+          const url = page === 1 ? `${endpoint}?${params.toString()}` : endpoint;
 
-        const $result = $(element);
-        const $link = $result.find(".result__a");
-        const $snippet = $result.find(".result__snippet");
+          if (page > 1) {
+            await new Promise(resolve => setTimeout(resolve, engine.delayMs));
+          }
+          const robotsDecision = await robots.check(url, { engine: "duckduckgo", crawlRunId: vantageRunId(runId, vantage?.id) });
+          if (!robotsDecision.allowed) {
+            throw new Error(`Robots.txt disallows crawling ${url} (${robotsDecision.matchedRule ?? robotsDecision.status})`);
+          }
 
-        let url = $link.attr("href");
-        const title = $link.text().trim();
-        const snippet = $snippet.text().trim();
+          await throttle.acquire(url, robotsDecision.crawlDelayMs);
+          let response: Response;
+          if (page === 1) {
+            response = await fetch(url, { method: "GET", headers });
+          } else {
+            response = await fetch(url, {
+              method: "POST",
+              headers: { ...headers, "Content-Type": "application/x-www-form-urlencoded" },
+              body: nextPage!.toString()
+            });
+          }
+          const retryAfterMs = throttle.observe(url, response);
+
+          if (!response.ok) {
+            logger.error("duckduckgo html error", {
+              query: query.query,
+              page,
+              status: response.status,
+              statusText: response.statusText
+            });
+            if (response.status === 429) {
+              throw new EngineBlockedError(
+                "duckduckgo",
+                "rate_limited",
+                `DuckDuckGo HTML error: 429 ${response.statusText}`,
+                retryAtAfter(retryAfterMs)
+              );
+            }
+            throw new HttpError(response.status, `DuckDuckGo HTML error: ${response.status} ${response.statusText}`, retryAfterMs);
+          }
 
-        // Fix protocol-relative URLs
-        if (url && url.startsWith('//')) {
-          url = 'https:' + url;
-        }
+          const html = await response.text();
+          if (isDuckDuckGoBlocked(html)) {
+            return { items: [], hasMore: false, blocked: true };
+          }
 
-        if (url && title) {
-          rawResults.push({
-            rank: index + 1,
-            title,
-            snippet,
-            url,
-            source: "html"
-          });
+          const selectors = selectorHealth.selectorsFor("duckduckgo");
+          const items = parseDuckDuckGoHtml(
+            html,
+            config.maxResultsPerQuery,
+            selectors,
+            selectorHealth.featuresFor("duckduckgo"),
+            recordSelector
+          );
+          nextPage = parseDuckDuckGoNextPage(html, selectors);
+
+          // SERP features describe the first page only
+          return {
+            items: page === 1 ? items : items.map(({ metadata: _metadata, ...item }) => item),
+            hasMore: nextPage !== null
+          };
         }
       });
 
+      if (stop === "blocked" && !rawResults.length) {
+        throw new EngineBlockedError("duckduckgo", "bot_check", "DuckDuckGo HTML served a bot check");
+      } else if (stop === "blocked") {
+        logger.warn("duckduckgo html served a bot check, keeping earlier pages", { query: query.query, pages });
+      } else if (error) {
+        logger.warn("duckduckgo pagination stopped early", { query: query.query, pages, error: error.message });
+      }
+
       logger.info("duckduckgo html results", {
         query: query.query,
         resultCount: rawResults.length,
+        pages,
+        stop,
         source: "html"
       });
 
@@ -216,14 +416,15 @@ export function createDuckDuckGoClient({ config, logger, runId }: CreateDuckDuck
         query: query.query, 
         error: (error as Error).message
       });
+      if (error instanceof EngineBlockedError) throw error;
       return [];
     }
   }
 
-  async function search(query: BenchmarkQuery): Promise<SearchResult[]> {
+  async function search(query: BenchmarkQuery, vantage?: VantageProfile): Promise<SearchResult[]> {
     try {
       // Try API first
-      let rawResults = await searchViaApi(query);
+      let rawResults = await searchViaApi(query, vantage);
 
       // Fallback to HTML if API returns insufficient results
       if (rawResults.length < 3) {
@@ -231,7 +432,7 @@ export function createDuckDuckGoClient({ config, logger, runId }: CreateDuckDuck
           query: query.query,
           apiResults: rawResults.length
         });
-        rawResults = await searchViaHtml(query);
+        rawResults = await searchViaHtml(query, vantage);
       }
 
       const collectedAt = new Date();
@@ -241,7 +442,12 @@ export function createDuckDuckGoClient({ config, logger, runId }: CreateDuckDuck
         engine: "duckduckgo",
         runId: config.runId,
         queryId: query.id,
-        html: JSON.stringify({ results: rawResults, collectedAt: collectedAt.toISOString() }, null, 2)
+        vantageId: vantage?.id,
+        html: JSON.stringify(
+          { results: rawResults, collectedAt: collectedAt.toISOString() } satisfies DuckDuckGoSnapshot,
+          null,
+          2
+        )
       });
 
       logger.info("duckduckgo before normalization", {
@@ -263,7 +469,10 @@ export function createDuckDuckGoClient({ config, logger, runId }: CreateDuckDuck
         collectedAt,
         rawHtmlPath: htmlPath,
         items: rawResults,
-        crawlRunId: runId
+        crawlRunId: vantageRunId(runId, vantage?.id),
+        stripQueryParams: config.stripQueryParams,
+        parserVersion: PARSER_VERSIONS.duckduckgo,
+        vantageId: vantage?.id
       });
 
       logger.info("duckduckgo after normalization", {
@@ -278,10 +487,17 @@ export function createDuckDuckGoClient({ config, logger, runId }: CreateDuckDuck
         error: (error as Error).message,
         stack: (error as Error).stack
       });
-      return [];
+      throw error;
     }
   }
 
   return { search };
 }
 
+export const duckDuckGoAdapter = defineEngineAdapter({
+  descriptor: engineDescriptor("duckduckgo"),
+  settingsSchema: z.object({}),
+  localeParams: duckDuckGoLocaleParams,
+  createClient: ({ config, logger, runId, selectorHealth, robots, engine, rateLimits }) =>
+    createDuckDuckGoClient({ config, logger, runId, selectorHealth, robots, engine, rateLimits })
+});
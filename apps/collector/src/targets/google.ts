@@ -1,39 +1,79 @@
-import { BenchmarkQuery, SearchResult } from "@truthlayer/schema";
+import { BenchmarkQuery, SearchResult, VantageProfile } from "@truthlayer/schema";
 import { CollectorConfig } from "../lib/config";
 import { Logger } from "../lib/logger";
-import { loadEnv } from "@truthlayer/config";
 import { normalizeResults, RawSerpItem } from "./normalize";
-import pRetry from "p-retry";
+import { PARSER_VERSIONS } from "./parser-versions";
+import { engineParamsFor, LocaleParams, vantageRunId } from "../lib/vantages";
+import { defineEngineAdapter, engineDescriptor, EngineRuntimeConfig } from "./adapter";
+import { collectPages } from "./pagination";
+import { retryableFetch } from "../lib/retry";
+import type { RateLimits } from "../lib/rate-limiter";
 import { v4 as uuidv4 } from "uuid";
 import crypto from "crypto";
+import z from "zod";
+
+const GoogleSettingsSchema = z
+  .object({
+    GOOGLE_API_KEY: z.string().min(1).optional(),
+    GOOGLE_SEARCH_ENGINE_ID: z.string().min(1).optional()
+  })
+  .transform((env) => ({ apiKey: env.GOOGLE_API_KEY, searchEngineId: env.GOOGLE_SEARCH_ENGINE_ID }));
+
+export type GoogleSettings = z.infer<typeof GoogleSettingsSchema>;
 
 interface CreateGoogleClientOptions {
   config: CollectorConfig;
   logger: Logger;
   runId: string;
+  engine: EngineRuntimeConfig;
+  settings: GoogleSettings;
+  rateLimits: RateLimits;
 }
 
-interface GoogleSearchItem {
+export const googleLocaleParams: LocaleParams = (vantage) => ({
+  gl: vantage.country.toLowerCase(),
+  hl: vantage.language
+});
+
+export interface GoogleSearchItem {
   title: string;
   link: string;
   snippet?: string;
   displayLink?: string;
 }
 
-interface GoogleSearchResponse {
+export interface GoogleSearchResponse {
   items?: GoogleSearchItem[];
+  /** `nextPage` is present while more results follow. */
+  queries?: {
+    nextPage?: unknown[];
+  };
   error?: {
     code: number;
     message: string;
   };
 }
 
-export function createGoogleClient({ config, logger, runId }: CreateGoogleClientOptions) {
-  const env = loadEnv();
-  const apiKey = env.GOOGLE_API_KEY;
-  const searchEngineId = env.GOOGLE_SEARCH_ENGINE_ID;
+/** The API pages 10 results at a time and serves no result past the 100th. */
+const GOOGLE_PAGE_SIZE = 10;
+const GOOGLE_MAX_RESULTS = 100;
 
-  async function search(query: BenchmarkQuery): Promise<SearchResult[]> {
+/** Maps a Custom Search API response to ranked items. */
+export function parseGoogleResponse(data: GoogleSearchResponse): RawSerpItem[] {
+  return (data.items ?? []).map((item, index) => ({
+    rank: index + 1,
+    title: item.title || "",
+    snippet: item.snippet || "",
+    url: item.link || "",
+    confidence: 1.0
+  }));
+}
+
+export function createGoogleClient({ config, logger, runId, engine, settings, rateLimits }: CreateGoogleClientOptions) {
+  const throttle = rateLimits.forEngine("google", engine.requestsPerSecond);
+  const { apiKey, searchEngineId } = settings;
+
+  async function search(query: BenchmarkQuery, vantage?: VantageProfile): Promise<SearchResult[]> {
     // If API keys not configured, log warning and return empty
     if (!apiKey || !searchEngineId) {
       logger.warn("Google API credentials not configured", {
@@ -45,31 +85,55 @@ export function createGoogleClient({ config, logger, runId }: CreateGoogleClient
     }
 
     try {
-      const maxResults = Math.min(config.maxResultsPerQuery, 10); // Google API max is 10 per request
-      const apiUrl = `https://www.googleapis.com/customsearch/v1?key=${apiKey}&cx=${searchEngineId}&q=${encodeURIComponent(query.query)}&num=${maxResults}`;
-
-      const response = await pRetry(
-        async () => {
-          const res = await fetch(apiUrl);
-          if (!res.ok) {
-            const errorText = await res.text();
-            throw new Error(`Google API error: ${res.status} ${errorText}`);
+      const maxResults = Math.min(config.maxResultsPerQuery, GOOGLE_MAX_RESULTS);
+
+      const { items: rawResults, pages, stop, error } = await collectPages({
+        maxResults,
+        maxPages: Math.min(config.maxPagesPerQuery, Math.ceil(maxResults / GOOGLE_PAGE_SIZE)),
+        fetchPage: async (page) => {
+          const start = 1 + (page - 1) * GOOGLE_PAGE_SIZE;
+          const params = new URLSearchParams({
+            key: apiKey,
+            cx: searchEngineId,
+            q: query.query,
+            num: Math.min(GOOGLE_PAGE_SIZE, GOOGLE_MAX_RESULTS - start + 1).toString(),
+            start: start.toString(),
+            ...engineParamsFor(vantage, "google", googleLocaleParams)
+          });
+          const apiUrl = `https://www.googleapis.com/customsearch/v1?${params.toString()}`;
+
+          const res = await retryableFetch(
+            apiUrl,
+            { method: "GET" },
+            { engine: "google", query: query.query, logger, throttle },
+            { retries: 2, factor: 2 }
+          );
+          const response = (await res.json()) as GoogleSearchResponse;
+
+          if (response.error) {
+            logger.error("Google API returned error", {
+              engine: "google",
+              query: query.query,
+              page,
+              error: response.error.message
+            });
+            throw new Error(`Google API error: ${response.error.message}`);
           }
-          return res.json() as Promise<GoogleSearchResponse>;
-        },
-        { retries: 2, factor: 2 }
-      );
 
-      if (response.error) {
-        logger.error("Google API returned error", {
+          return { items: parseGoogleResponse(response), hasMore: Boolean(response.queries?.nextPage?.length) };
+        }
+      });
+
+      if (error) {
+        logger.warn("Google API pagination stopped early", {
           engine: "google",
           query: query.query,
-          error: response.error.message
+          pages,
+          error: error.message
         });
-        return [];
       }
 
-      if (!response.items || response.items.length === 0) {
+      if (rawResults.length === 0) {
         logger.warn("Google API returned no results", {
           engine: "google",
           query: query.query
@@ -78,18 +142,13 @@ export function createGoogleClient({ config, logger, runId }: CreateGoogleClient
       }
 
       const collectedAt = new Date();
-      const rawResults: RawSerpItem[] = response.items.map((item, index) => ({
-        rank: index + 1,
-        title: item.title || "",
-        snippet: item.snippet || "",
-        url: item.link || "",
-        confidence: 1.0
-      }));
 
       logger.info("Google API search successful", {
         engine: "google",
         query: query.query,
-        resultCount: rawResults.length
+        resultCount: rawResults.length,
+        pages,
+        stop
       });
 
       const normalized = normalizeResults({
@@ -98,7 +157,10 @@ export function createGoogleClient({ config, logger, runId }: CreateGoogleClient
         items: rawResults,
         collectedAt,
         rawHtmlPath: null, // API-based, no HTML
-        crawlRunId: runId
+        crawlRunId: vantageRunId(runId, vantage?.id),
+        stripQueryParams: config.stripQueryParams,
+        parserVersion: PARSER_VERSIONS.google,
+        vantageId: vantage?.id
       });
 
       return normalized;
@@ -108,7 +170,7 @@ export function createGoogleClient({ config, logger, runId }: CreateGoogleClient
         query: query.query,
         error: (error as Error).message
       });
-      return [];
+      throw error;
     }
   }
 
@@ -119,3 +181,11 @@ export function createGoogleClient({ config, logger, runId }: CreateGoogleClient
 
   return { search, close };
 }
+
+export const googleAdapter = defineEngineAdapter({
+  descriptor: engineDescriptor("google"),
+  settingsSchema: GoogleSettingsSchema,
+  localeParams: googleLocaleParams,
+  createClient: ({ config, logger, runId, engine, settings, rateLimits }) =>
+    createGoogleClient({ config, logger, runId, engine, settings, rateLimits })
+});
@@ -1,38 +1,120 @@
+import path from "path";
+import { pathToFileURL } from "url";
+import { registerEngine } from "@truthlayer/schema";
 import { CollectorConfig } from "../lib/config";
 import { Logger } from "../lib/logger";
-import { createGoogleClient } from "./google";
-import { createBingClient } from "./bing";
-import { createPerplexityClient } from "./perplexity";
-import { createBraveClient } from "./brave";
-import { createDuckDuckGoClient } from "./duckduckgo";
-
-export interface SearchEngineClient {
-  search: (query: { id: string; query: string; topic: string }) => Promise<Record<string, unknown>[]>;
+import type { RobotsPolicy } from "../lib/compliance";
+import type { RateLimits } from "../lib/rate-limiter";
+import { googleAdapter } from "./google";
+import { bingAdapter } from "./bing";
+import { perplexityAdapter } from "./perplexity";
+import { braveAdapter } from "./brave";
+import { duckDuckGoAdapter } from "./duckduckgo";
+import { answerEngineAdapter } from "./answer-engine";
+import type { AnswerEngineDefinition } from "../lib/answer-engines";
+import { SelectorHealthTracker } from "./selector-health";
+import { EngineAdapter, engineRuntimeConfig, SearchEngineClient } from "./adapter";
+
+export type { EngineAdapter, EngineClientContext, EngineRuntimeConfig, SearchEngineClient } from "./adapter";
+export { defineEngineAdapter, engineDescriptor } from "./adapter";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyEngineAdapter = EngineAdapter<any>;
+
+export const BUILTIN_ADAPTERS: AnyEngineAdapter[] = [
+  googleAdapter,
+  bingAdapter,
+  perplexityAdapter,
+  braveAdapter,
+  duckDuckGoAdapter
+];
+
+export interface EngineRegistry {
+  list(): AnyEngineAdapter[];
+  get(id: string): AnyEngineAdapter | undefined;
+  /** Adds an adapter; ids are unique, so registering one twice is an error. */
+  register(adapter: AnyEngineAdapter): void;
+}
+
+export function createEngineRegistry(adapters: AnyEngineAdapter[] = BUILTIN_ADAPTERS): EngineRegistry {
+  const byId = new Map<string, AnyEngineAdapter>();
+
+  const registry: EngineRegistry = {
+    list() {
+      return Array.from(byId.values());
+    },
+    get(id) {
+      return byId.get(id);
+    },
+    register(adapter) {
+      if (byId.has(adapter.descriptor.id)) {
+        throw new Error(`Engine adapter ${adapter.descriptor.id} is already registered`);
+      }
+      byId.set(adapter.descriptor.id, adapter);
+    }
+  };
+
+  adapters.forEach((adapter) => registry.register(adapter));
+  return registry;
+}
+
+/**
+ * Adds an adapter defined outside the built-in list. Its descriptor also goes
+ * into the shared engine registry, so its results validate and its id shows up
+ * in engine lists.
+ */
+function registerExternalAdapter(registry: EngineRegistry, adapter: AnyEngineAdapter): string {
+  const descriptor = registerEngine(adapter.descriptor);
+  registry.register({ ...adapter, descriptor });
+  return descriptor.id;
+}
+
+/** Imports each plugin module and registers the adapter it exports (as `default` or `adapter`). */
+export async function loadEnginePlugins(registry: EngineRegistry, pluginPaths: string[], logger?: Logger): Promise<void> {
+  for (const pluginPath of pluginPaths) {
+    const module = await import(pathToFileURL(path.resolve(pluginPath)).href);
+    const adapter: AnyEngineAdapter | undefined = module.default ?? module.adapter;
+    if (!adapter?.descriptor || typeof adapter.createClient !== "function") {
+      throw new Error(`Engine plugin ${pluginPath} does not export an engine adapter`);
+    }
+
+    const engine = registerExternalAdapter(registry, adapter);
+    logger?.info("engine plugin loaded", { engine, path: pluginPath });
+  }
+}
+
+/** Registers an OpenAI-compatible answer engine adapter for each definition. */
+export function registerAnswerEngines(registry: EngineRegistry, definitions: AnswerEngineDefinition[]): void {
+  for (const definition of definitions) {
+    registerExternalAdapter(registry, answerEngineAdapter(definition));
+  }
 }
 
 export async function createEngineClient({
-  engine,
+  adapter,
   config,
   logger,
-  runId
+  runId,
+  selectorHealth,
+  robots,
+  rateLimits
 }: {
-  engine: string;
+  adapter: AnyEngineAdapter;
   config: CollectorConfig;
   logger: Logger;
   runId: string;
+  selectorHealth: SelectorHealthTracker;
+  robots: RobotsPolicy;
+  rateLimits: RateLimits;
 }): Promise<SearchEngineClient> {
-  switch (engine) {
-    case "google":
-      return createGoogleClient({ config, logger, runId });
-    case "bing":
-      return createBingClient({ config, logger, runId });
-    case "perplexity":
-      return createPerplexityClient({ config, logger, runId });
-    case "brave":
-      return createBraveClient({ config, logger, runId });
-    case "duckduckgo":
-      return createDuckDuckGoClient({ config, logger, runId });
-    default:
-      throw new Error(`Unsupported engine: ${engine}`);
-  }
+  return adapter.createClient({
+    config,
+    logger,
+    runId,
+    selectorHealth,
+    robots,
+    rateLimits,
+    engine: engineRuntimeConfig(adapter.descriptor, config),
+    settings: adapter.settingsSchema.parse(process.env)
+  });
 }
@@ -31,5 +31,28 @@ describe("normalizeResults", () => {
     // When title is missing, url should be used
     expect(results[1].title).toBe("https://example.org/page");
   });
-});
 
+  it("unwraps engine redirects and canonicalizes normalizedUrl", () => {
+    const results = normalizeResults({
+      engine: "duckduckgo",
+      query: { id: "11111111-1111-1111-1111-111111111111", query: "test", topic: "demo", tags: [] },
+      collectedAt: new Date("2024-01-01T00:00:00.000Z"),
+      rawHtmlPath: "data/raw_html/duckduckgo/run-1/1111.html",
+      items: [
+        {
+          rank: 1,
+          title: "Reuters",
+          url: "//duckduckgo.com/l/?uddg=https%3A%2F%2Fwww.reuters.com%2Fworld%2F%3Futm_source%3Dddg&rut=abc"
+        },
+        { rank: 2, title: "Relative", url: "/settings" }
+      ],
+      crawlRunId: "22222222-2222-2222-2222-222222222222"
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].url).toBe("https://www.reuters.com/world/?utm_source=ddg");
+    expect(results[0].normalizedUrl).toBe("https://reuters.com/world");
+    expect(results[0].domain).toBe("reuters.com");
+    expect(results[0].registrableDomain).toBe("reuters.com");
+  });
+});
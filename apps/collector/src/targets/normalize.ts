@@ -1,5 +1,7 @@
 import { createHash, randomUUID } from "node:crypto";
 import { BenchmarkQuery, SearchResult } from "@truthlayer/schema";
+import { canonicalizeUrl, unwrapRedirect } from "../lib/canonicalize";
+import { registrableDomain } from "../lib/public-suffix";
 
 export interface RawSerpItem {
   rank: number;
@@ -9,6 +11,8 @@ export interface RawSerpItem {
   confidence?: number;  // Quality indicator (0-1)
   source?: string;  // Collection source: 'api', 'html', etc.
   metadata?: Record<string, unknown>;  // Additional metadata (summaries, citations, etc.)
+  visibilityWeight?: number;  // Pixel-based visibility (0-1), browser targets only
+  page?: number;  // Results page the item was found on (1-based)
 }
 
 export function normalizeResults(params: {
@@ -18,17 +22,26 @@ export function normalizeResults(params: {
   rawHtmlPath: string;
   items: RawSerpItem[];
   crawlRunId: string;
+  /** Query parameters dropped from `normalizedUrl`; see DEFAULT_STRIP_QUERY_PARAMS. */
+  stripQueryParams?: string[];
+  /** Extractor that produced `items`; see PARSER_VERSIONS. */
+  parserVersion?: string;
+  /** Vantage profile the items were collected under. */
+  vantageId?: string | null;
 }): SearchResult[] {
-  const { engine, query, collectedAt, rawHtmlPath, items, crawlRunId } = params;
+  const { engine, query, collectedAt, rawHtmlPath, items, crawlRunId, stripQueryParams, parserVersion, vantageId } =
+    params;
 
   return items
+    .filter((i) => typeof i.url === "string" && i.url.length > 0)
+    // Store the destination rather than the engine's click-tracking wrapper
+    .map((item) => ({ ...item, url: unwrapRedirect(item.url, engine) }))
     .filter((i) => {
-      if (typeof i.url !== "string" || !i.url.length) return false;
       // Only allow valid HTTP(S) URLs
       return i.url.startsWith('http://') || i.url.startsWith('https://');
     })
     .map((item) => {
-      const normalizedUrl = item.url;
+      const normalizedUrl = canonicalizeUrl(item.url, { stripQueryParams });
       let domain = "";
       try {
         domain = new URL(normalizedUrl).hostname;
@@ -50,9 +63,10 @@ export function normalizeResults(params: {
         rank: item.rank,
         title: item.title?.length ? item.title : normalizedUrl,
         snippet: item.snippet ?? "",
-        url: normalizedUrl,
+        url: item.url,
         normalizedUrl,
         domain,
+        registrableDomain: registrableDomain(domain),
         timestamp: nowIso,
         hash,
         rawHtmlPath,
@@ -61,7 +75,11 @@ export function normalizeResults(params: {
         source: item.source,
         extractionConfidence: item.confidence ?? null,
         extractionWarnings: item.metadata?.warnings ? JSON.stringify(item.metadata.warnings) : null,
-        metadata: item.metadata ? JSON.stringify(item.metadata) : null
+        metadata: item.metadata ? JSON.stringify(item.metadata) : null,
+        parserVersion: parserVersion ?? null,
+        visibilityWeight: item.visibilityWeight ?? null,
+        vantageId: vantageId ?? null,
+        page: item.page ?? null
       } as any;
     });
 }
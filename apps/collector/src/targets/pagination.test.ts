@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import type { RawSerpItem } from "./normalize";
+import { collectPages, mergePages, SerpPage } from "./pagination";
+import { isDuckDuckGoBlocked, parseDuckDuckGoNextPage } from "./duckduckgo";
+
+function page(urls: string[]): RawSerpItem[] {
+  return urls.map((url, index) => ({ rank: index + 1, title: url, url }));
+}
+
+function pagesOf(...pages: SerpPage[]) {
+  const requested: number[] = [];
+  return {
+    requested,
+    fetchPage: async (n: number) => {
+      requested.push(n);
+      const next = pages[n - 1];
+      if (!next) throw new Error(`page ${n} not stubbed`);
+      return next;
+    }
+  };
+}
+
+describe("mergePages", () => {
+  it("continues ranks across pages, records the page and keeps a repeated URL at its first position", () => {
+    const merged = mergePages([page(["https://a/", "https://b/"]), page(["https://b/", "https://c/"])]);
+
+    expect(merged.map(({ url, rank, page }) => ({ url, rank, page }))).toEqual([
+      { url: "https://a/", rank: 1, page: 1 },
+      { url: "https://b/", rank: 2, page: 1 },
+      { url: "https://c/", rank: 3, page: 2 }
+    ]);
+  });
+});
+
+describe("collectPages", () => {
+  it("stops once enough results are collected and trims the last page", async () => {
+    const { requested, fetchPage } = pagesOf(
+      { items: page(["https://a/", "https://b/"]), hasMore: true },
+      { items: page(["https://c/", "https://d/"]), hasMore: true }
+    );
+
+    const result = await collectPages({ maxResults: 3, maxPages: 10, fetchPage });
+
+    expect(requested).toEqual([1, 2]);
+    expect(result.stop).toBe("filled");
+    expect(result.items.map((item) => item.url)).toEqual(["https://a/", "https://b/", "https://c/"]);
+  });
+
+  it("stops when the engine has no further page or only repeats itself", async () => {
+    const last = await collectPages({
+      maxResults: 10,
+      maxPages: 10,
+      fetchPage: pagesOf({ items: page(["https://a/"]), hasMore: false }).fetchPage
+    });
+    expect(last).toMatchObject({ stop: "exhausted", pages: 1 });
+
+    const repeated = await collectPages({
+      maxResults: 10,
+      maxPages: 10,
+      fetchPage: pagesOf({ items: page(["https://a/"]), hasMore: true }, { items: page(["https://a/"]), hasMore: true })
+        .fetchPage
+    });
+    expect(repeated).toMatchObject({ stop: "exhausted", pages: 2 });
+    expect(repeated.items).toHaveLength(1);
+  });
+
+  it("keeps earlier pages when a later one is blocked or fails", async () => {
+    const blocked = await collectPages({
+      maxResults: 10,
+      maxPages: 10,
+      fetchPage: pagesOf({ items: page(["https://a/"]), hasMore: true }, { items: [], hasMore: false, blocked: true })
+        .fetchPage
+    });
+    expect(blocked).toMatchObject({ stop: "blocked", pages: 2 });
+    expect(blocked.items).toHaveLength(1);
+
+    const failed = await collectPages({
+      maxResults: 10,
+      maxPages: 10,
+      fetchPage: pagesOf({ items: page(["https://a/"]), hasMore: true }).fetchPage
+    });
+    expect(failed.stop).toBe("error");
+    expect(failed.error?.message).toBe("page 2 not stubbed");
+    expect(failed.items).toHaveLength(1);
+  });
+
+  it("throws when the first page fails and honours the page limit", async () => {
+    await expect(collectPages({ maxResults: 10, maxPages: 10, fetchPage: pagesOf().fetchPage })).rejects.toThrow(
+      "page 1 not stubbed"
+    );
+
+    const limited = await collectPages({
+      maxResults: 10,
+      maxPages: 1,
+      fetchPage: pagesOf({ items: page(["https://a/"]), hasMore: true }).fetchPage
+    });
+    expect(limited).toMatchObject({ stop: "page_limit", pages: 1 });
+  });
+});
+
+describe("DuckDuckGo HTML paging", () => {
+  const selectors = {
+    result: [".result"],
+    link: [".result__a"],
+    snippet: [".result__snippet"],
+    nextPage: ['.nav-link form:has(input[value="Next"])']
+  };
+
+  it("reads the next page form fields and detects the last page", () => {
+    const html = `<div class="nav-link"><form action="/html/" method="post">
+      <input type="submit" value="Previous"><input type="hidden" name="q" value="old"></form></div>
+      <div class="nav-link"><form action="/html/" method="post"><input type="submit" class="btn" value="Next">
+      <input type="hidden" name="q" value="heat pumps"><input type="hidden" name="s" value="23">
+      <input type="hidden" name="dc" value="24"></form></div>`;
+
+    expect(parseDuckDuckGoNextPage(html, selectors)?.toString()).toBe("q=heat+pumps&s=23&dc=24");
+    expect(parseDuckDuckGoNextPage('<div class="result"></div>', selectors)).toBeNull();
+  });
+
+  it("recognises the bot check page", () => {
+    expect(isDuckDuckGoBlocked('<div class="anomaly-modal"><form id="challenge-form"></form></div>')).toBe(true);
+    expect(isDuckDuckGoBlocked('<div class="result"><a class="result__a" href="//a.example/">A</a></div>')).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import type { RawSerpItem } from "./normalize";
+
+/** One results page as fetched from an engine, ranked from 1 within the page. */
+export interface SerpPage {
+  items: RawSerpItem[];
+  /** False when the engine says nothing follows this page. */
+  hasMore: boolean;
+  /** The engine answered with a bot check instead of results. */
+  blocked?: boolean;
+}
+
+/** Why collection stopped paging. */
+export type PaginationStop = "filled" | "exhausted" | "blocked" | "page_limit" | "error";
+
+export interface PaginatedResults {
+  items: RawSerpItem[];
+  /** Pages fetched, including an empty or blocked last one. */
+  pages: number;
+  stop: PaginationStop;
+  /** What a page after the first failed with, when `stop` is "error". */
+  error?: Error;
+}
+
+/**
+ * Merges pages into one ranking. Ranks run on across pages and each item records
+ * the page it came from; a URL an engine repeats on a later page keeps its first
+ * position.
+ */
+export function mergePages(pages: RawSerpItem[][]): RawSerpItem[] {
+  const seen = new Set<string>();
+  const merged: RawSerpItem[] = [];
+
+  pages.forEach((items, index) => {
+    for (const item of [...items].sort((a, b) => a.rank - b.rank)) {
+      if (seen.has(item.url)) continue;
+      seen.add(item.url);
+      merged.push({ ...item, rank: merged.length + 1, page: index + 1 });
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Fetches pages until `maxResults` items are collected, the engine runs out of
+ * results (an empty page, no next page, or only repeats), a bot check appears,
+ * or `maxPages` is reached. A failure on the first page is thrown; a failure on
+ * a later page stops paging and keeps what was collected.
+ */
+export async function collectPages(options: {
+  maxResults: number;
+  maxPages: number;
+  /** `page` is 1-based; `collected` is the number of distinct items so far. */
+  fetchPage: (page: number, collected: number) => Promise<SerpPage>;
+}): Promise<PaginatedResults> {
+  const pages: RawSerpItem[][] = [];
+  let collected = 0;
+
+  const finish = (stop: PaginationStop, fetched: number, error?: Error): PaginatedResults => ({
+    items: mergePages(pages).slice(0, options.maxResults),
+    pages: fetched,
+    stop,
+    ...(error ? { error } : {})
+  });
+
+  for (let page = 1; page <= options.maxPages; page++) {
+    let result: SerpPage;
+    try {
+      result = await options.fetchPage(page, collected);
+    } catch (error) {
+      if (page === 1) throw error;
+      return finish("error", page - 1, error as Error);
+    }
+
+    if (result.blocked) return finish("blocked", page);
+    if (!result.items.length) return finish("exhausted", page);
+
+    pages.push(result.items);
+    const distinct = mergePages(pages).length;
+    if (distinct === collected) return finish("exhausted", page);
+    collected = distinct;
+
+    if (collected >= options.maxResults) return finish("filled", page);
+    if (!result.hasMore) return finish("exhausted", page);
+  }
+
+  return finish("page_limit", options.maxPages);
+}
@@ -0,0 +1,15 @@
+/**
+ * Version tag of each built-in engine's extractor, stored on every result as
+ * `parserVersion`. Bump an engine's entry whenever its parsing changes, so rows
+ * written by `reextract` can be told apart from the ones they repair.
+ */
+export const PARSER_VERSIONS: Record<string, string> = {
+  google: "google-api@1",
+  bing: "bing-api@1",
+  perplexity: "perplexity-html@3",
+  brave: "brave-api@1",
+  duckduckgo: "duckduckgo@2"
+};
+
+/** Shared by every configured OpenAI-compatible answer engine; see `parseChatCompletion`. */
+export const ANSWER_ENGINE_PARSER_VERSION = "openai-chat@1";
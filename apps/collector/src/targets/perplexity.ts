@@ -1,39 +1,278 @@
 import { Browser } from "puppeteer";
-import { BenchmarkQuery, SearchResult } from "@truthlayer/schema";
+import { BenchmarkQuery, SearchResult, VantageProfile } from "@truthlayer/schema";
 import { CollectorConfig } from "../lib/config";
 import { Logger } from "../lib/logger";
-import { ensureRequestPermitted } from "../lib/compliance";
-import { ensureBrowser, randomUserAgent, takeHtmlSnapshot, waitForResults, validateExtraction, detectBotBlock, captureDebugSnapshot } from "./utils";
+import { RobotsPolicy } from "../lib/compliance";
+import { EngineBlockedError } from "../lib/circuit-breaker";
+import { RateLimits, retryAtAfter } from "../lib/rate-limiter";
+import { ensureBrowser, randomUserAgent, takeHtmlSnapshot, waitForResults, validateExtraction, detectBotBlock, captureDebugSnapshot, collectPageGeometry, ExtractionQuality } from "./utils";
 import { normalizeResults, RawSerpItem } from "./normalize";
+import { attachCitationSentences } from "./citations";
+import { PARSER_VERSIONS } from "./parser-versions";
+import { engineParamsFor, vantageRunId } from "../lib/vantages";
+import { defineEngineAdapter, engineDescriptor, EngineRuntimeConfig } from "./adapter";
+import { firstMatchingSelector, RecordSelectorOutcome, SelectorHealthTracker } from "./selector-health";
+import { extractSerpFeatures, RawSerpFeature } from "./serp-features";
+import { applyVisibility } from "./visibility";
+import type { FeatureSelectors, PerplexitySelectors } from "../lib/selectors";
 import pRetry from "p-retry";
+import { load } from "cheerio";
+import z from "zod";
+
+const PERPLEXITY_ORIGIN = "https://www.perplexity.ai/";
+
+export interface PerplexityAnswer {
+  summary: string | null;
+  /** The summary with inline citation links swapped for "[n]" markers. */
+  annotatedSummary: string | null;
+  citations: Array<{ index: number; url: string }>;
+}
+
+/** Resolves a link the way the browser's `a.href` does; null when it cannot be parsed. */
+function resolveHref(href: string | undefined): string | null {
+  if (!href) return null;
+  try {
+    return new URL(href, PERPLEXITY_ORIGIN).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extracts the AI summary and its numbered citations. The answer is the first
+ * `answer` selector (in the order given) matching more than 50 characters.
+ * Inline citation links are swapped for "[n]" markers so each citation can be
+ * tied back to the sentences citing it; links labelled with a number keep that
+ * number when it is free.
+ */
+export function extractPerplexityAnswer(
+  html: string,
+  selectors: Pick<PerplexitySelectors, "answer" | "citations">,
+  onSelector?: RecordSelectorOutcome
+): PerplexityAnswer {
+  const $ = load(html);
+
+  const answerSelector = firstMatchingSelector(
+    "answer",
+    selectors.answer,
+    (selector) => $(selector).first().text().length > 50,
+    onSelector
+  );
+  const $answer = answerSelector ? $(answerSelector).first() : null;
+
+  for (const selector of selectors.citations) {
+    onSelector?.({ group: "citations", selector, success: $(selector).length > 0 });
+  }
+  const citationSelector = selectors.citations.join(", ");
+
+  const indexByUrl = new Map<string, number>();
+  const citationIndex = (rawHref: string | undefined, text: string): number | null => {
+    const href = resolveHref(rawHref);
+    if (!href || href.includes("perplexity.ai")) return null;
+    const existing = indexByUrl.get(href);
+    if (existing !== undefined) return existing;
+    const label = Number.parseInt(text.replace(/[^\d]/g, ""), 10);
+    const used = new Set(indexByUrl.values());
+    const index = Number.isFinite(label) && label > 0 && !used.has(label) ? label : Math.max(0, ...used) + 1;
+    indexByUrl.set(href, index);
+    return index;
+  };
+
+  let summary: string | null = null;
+  let annotatedSummary: string | null = null;
+  if ($answer) {
+    summary = $answer.text().trim();
+    const $clone = $answer.clone();
+    const originals = $answer.find(citationSelector).toArray();
+    $clone.find(citationSelector).each((position, element) => {
+      const $link = $(originals[position] ?? element);
+      const index = citationIndex($link.attr("href"), $link.text());
+      $(element).replaceWith(index === null ? "" : ` [${index}]`);
+    });
+    annotatedSummary = $clone.text().replace(/\s+/g, " ").trim();
+  }
+
+  $(citationSelector).each((_, element) => {
+    citationIndex($(element).attr("href"), $(element).text());
+  });
+
+  return {
+    summary,
+    annotatedSummary,
+    citations: Array.from(indexByUrl.entries())
+      .map(([url, index]) => ({ index, url }))
+      .sort((a, b) => a.index - b.index)
+  };
+}
+
+/**
+ * Extracts source links from a Perplexity answer page, taking links from each
+ * `results` selector in turn until `max` are found. A selector counts as a
+ * success when it matches at least one source link. Each item carries the
+ * extraction confidence and warnings for the whole page.
+ */
+export function extractPerplexityResults(
+  html: string,
+  max: number,
+  selectors: Pick<PerplexitySelectors, "results">,
+  onSelector?: RecordSelectorOutcome
+): { items: RawSerpItem[]; quality: ExtractionQuality } {
+  const $ = load(html);
+  const seen = new Set<string>();
+  const items: RawSerpItem[] = [];
+
+  for (const selector of selectors.results) {
+    let matched = false;
+    $(selector).each((_, element) => {
+      if (items.length >= max) return false;
+
+      const $link = $(element);
+      const href = resolveHref($link.attr("href"));
+      if (!href || href.includes("perplexity.ai")) return;
+      matched = true;
+      if (seen.has(href)) return;
+
+      seen.add(href);
+      const title = $link.text().trim();
+      const snippet = $link.closest("article, li, div").text().replace(title, "").trim().slice(0, 500);
+
+      items.push({
+        rank: items.length + 1,
+        title,
+        snippet,
+        url: href,
+        confidence: title.length > 5 ? 1.0 : 0.5
+      });
+    });
+
+    onSelector?.({ group: "results", selector, success: matched });
+    if (items.length >= max) break;
+  }
+
+  const quality = validateExtraction(items);
+  return {
+    items: items.map((item) => ({
+      ...item,
+      source: "html",
+      confidence: quality.confidence,
+      metadata: { warnings: quality.warnings }
+    })),
+    quality
+  };
+}
+
+/**
+ * Parses a whole Perplexity page from its HTML, so the live crawl, `reextract`
+ * and the golden-file tests share one extractor. The summary, citations and
+ * SERP features go on the first item's metadata.
+ */
+export function parsePerplexityPage(
+  html: string,
+  max: number,
+  selectors: PerplexitySelectors,
+  featureSelectors: FeatureSelectors,
+  onSelector?: RecordSelectorOutcome
+): { items: RawSerpItem[]; quality: ExtractionQuality; answer: PerplexityAnswer; features: RawSerpFeature[] } {
+  const answer = extractPerplexityAnswer(html, selectors, onSelector);
+  const citations = attachCitationSentences(answer.annotatedSummary, answer.citations);
+  const { items, quality } = extractPerplexityResults(html, max, selectors, onSelector);
+  const features = extractSerpFeatures(html, featureSelectors, {
+    engine: "perplexity",
+    organicSelectors: selectors.results,
+    resolveUrl: resolveHref,
+    engineHost: "perplexity.ai"
+  });
+
+  return {
+    items: items.map((item, idx) =>
+      idx === 0
+        ? { ...item, metadata: { summary: answer.summary, citations, serpFeatures: features, ...item.metadata } }
+        : item
+    ),
+    quality,
+    answer,
+    features
+  };
+}
 
 interface CreatePerplexityClientOptions {
   config: CollectorConfig;
   logger: Logger;
   runId: string;
+  selectorHealth: SelectorHealthTracker;
+  robots: RobotsPolicy;
+  engine: EngineRuntimeConfig;
+  rateLimits: RateLimits;
 }
 
-export function createPerplexityClient({ config, logger, runId }: CreatePerplexityClientOptions) {
-  let browser: Browser | null = null;
+export function createPerplexityClient({
+  config,
+  logger,
+  runId,
+  selectorHealth,
+  robots,
+  engine,
+  rateLimits
+}: CreatePerplexityClientOptions) {
+  const recordSelector = selectorHealth.recorder("perplexity");
+  const throttle = rateLimits.forEngine("perplexity", engine.requestsPerSecond);
+
+  // One browser per proxy, so each vantage is collected from its own region
+  const browsers = new Map<string, Promise<Browser>>();
+
+  function browserFor(vantage?: VantageProfile): Promise<Browser> {
+    const key = vantage?.proxyUrl ?? "";
+    let browser = browsers.get(key);
+    if (!browser) {
+      browser = ensureBrowser(config, vantage?.proxyUrl);
+      browsers.set(key, browser);
+    }
+    return browser;
+  }
 
-  async function search(query: BenchmarkQuery): Promise<SearchResult[]> {
-    const browserInstance = browser ?? (browser = await ensureBrowser(config));
+  async function search(query: BenchmarkQuery, vantage?: VantageProfile): Promise<SearchResult[]> {
+    const browserInstance = await browserFor(vantage);
     const page = await browserInstance.newPage();
+    const selectors = selectorHealth.selectorsFor("perplexity");
 
     try {
       await page.setUserAgent(randomUserAgent(config));
+      if (vantage) {
+        await page.setExtraHTTPHeaders({
+          "Accept-Language": `${vantage.language}-${vantage.country},${vantage.language};q=0.9`
+        });
+      }
 
-      const targetUrl = `https://www.perplexity.ai/search?q=${encodeURIComponent(query.query)}`;
-      await ensureRequestPermitted(targetUrl, config, logger);
+      const params = new URLSearchParams({ q: query.query, ...engineParamsFor(vantage, "perplexity") });
+      const targetUrl = `https://www.perplexity.ai/search?${params.toString()}`;
+      const robotsDecision = await robots.check(targetUrl, {
+        engine: "perplexity",
+        crawlRunId: vantageRunId(runId, vantage?.id)
+      });
+      if (!robotsDecision.allowed) {
+        throw new Error(`Robots.txt disallows crawling ${targetUrl} (${robotsDecision.matchedRule ?? robotsDecision.status})`);
+      }
 
-      await pRetry(
+      const response = await pRetry(
         async () => {
-          await page.goto(targetUrl, { waitUntil: "domcontentloaded", timeout: 45_000 });
+          await throttle.acquire(targetUrl, robotsDecision.crawlDelayMs);
+          return page.goto(targetUrl, { waitUntil: "domcontentloaded", timeout: 45_000 });
         },
         { retries: 2, factor: 2 }
       );
+      const retryAfterMs = response
+        ? throttle.observe(targetUrl, { status: response.status(), headers: response.headers() })
+        : null;
+      if (response?.status() === 429) {
+        throw new EngineBlockedError(
+          "perplexity",
+          "rate_limited",
+          "Perplexity answered 429 Too Many Requests",
+          retryAtAfter(retryAfterMs)
+        );
+      }
 
-      await new Promise(resolve => setTimeout(resolve, config.engines.perplexity.delayMs));
+      await new Promise(resolve => setTimeout(resolve, engine.delayMs));
 
       // Check for bot detection
       const isBlocked = await detectBotBlock(page);
@@ -43,14 +282,15 @@ export function createPerplexityClient({ config, logger, runId }: CreatePerplexi
           query: query.query 
         });
         await captureDebugSnapshot(page, "perplexity", config.runId, query.id, "bot_detected");
-        return [];
+        throw new EngineBlockedError("perplexity", "bot_check", "Perplexity served a bot check");
       }
 
       // Wait for results to load
-      await waitForResults(page, [
-        '[data-testid="search-results"]', 
-        'main a[href^="http"]'
-      ], 15000);
+      const readySelector = await waitForResults(page, selectors.ready, 15000);
+      for (const selector of selectors.ready) {
+        recordSelector({ group: "ready", selector, success: selector === readySelector });
+        if (selector === readySelector) break;
+      }
 
       const collectedAt = new Date();
       const htmlSnapshot = await page.content();
@@ -58,103 +298,39 @@ export function createPerplexityClient({ config, logger, runId }: CreatePerplexi
         engine: "perplexity",
         runId: config.runId,
         queryId: query.id,
+        vantageId: vantage?.id,
         html: htmlSnapshot
       });
 
-      // Extract AI summary and citations
-      const summaryData = await page.evaluate(() => {
-        // Try multiple selectors for Perplexity's AI-generated answer
-        const summarySelectors = [
-          '[data-testid="answer"]',
-          '.prose',
-          'article > div > p',
-          'main > div > div > p'
-        ];
-        
-        let summary: string | null = null;
-        for (const selector of summarySelectors) {
-          const element = document.querySelector(selector);
-          if (element?.textContent && element.textContent.length > 50) {
-            summary = element.textContent.trim();
-            break;
-          }
-        }
-
-        // Extract citation links
-        const citationSelectors = [
-          '[data-testid="citation"]',
-          '.citation a',
-          'sup a',
-          'a[href*="citation"]'
-        ];
-        
-        const citationUrls = new Set<string>();
-        for (const selector of citationSelectors) {
-          const elements = document.querySelectorAll(selector);
-          elements.forEach((el) => {
-            const href = (el as HTMLAnchorElement).href;
-            if (href && !href.includes('perplexity.ai')) {
-              citationUrls.add(href);
-            }
-          });
-        }
-
-        return {
-          summary,
-          citations: Array.from(citationUrls)
-        };
-      });
+      const featureSelectors = selectorHealth.featuresFor("perplexity");
+      const { items: parsedResults, quality, answer, features } = parsePerplexityPage(
+        htmlSnapshot,
+        Math.min(config.maxResultsPerQuery, 20),
+        selectors,
+        featureSelectors,
+        recordSelector
+      );
+
+      // Weight each result by where it rendered; results keep their rank if measuring fails
+      let rawResults = parsedResults;
+      try {
+        const geometry = await collectPageGeometry(page, { results: selectors.results, features: featureSelectors });
+        rawResults = applyVisibility(parsedResults, geometry);
+      } catch (geometryError) {
+        logger.warn("failed to measure result geometry", {
+          query: query.query,
+          error: (geometryError as Error).message
+        });
+      }
 
       logger.info("perplexity summary extraction", {
         query: query.query,
-        hasSummary: !!summaryData.summary,
-        summaryLength: summaryData.summary?.length ?? 0,
-        citationsCount: summaryData.citations.length
+        hasSummary: !!answer.summary,
+        summaryLength: answer.summary?.length ?? 0,
+        citationsCount: answer.citations.length,
+        featureTypes: features.map((feature) => feature.featureType)
       });
 
-      // Perplexity is a SPA; use multi-strategy extraction
-      const rawResults = await page.evaluate((max: number) => {
-        const selectorStrategies = [
-          '[data-testid="search-results"] a[href^="http"]',
-          'main a[href^="http"]:not([href*="perplexity.ai"])',
-          'article a[href^="http"]',
-          '.prose a[href^="http"]'
-        ];
-        
-        const seen = new Set<string>();
-        const items: any[] = [];
-        
-        for (const selector of selectorStrategies) {
-          const links = Array.from(document.querySelectorAll(selector)) as HTMLAnchorElement[];
-          
-          for (const a of links) {
-            const href = a.href;
-            if (!href || href.includes("perplexity.ai") || seen.has(href)) continue;
-            
-            seen.add(href);
-            const parent = a.closest("article, li, div");
-            const title = a.textContent?.trim() || "";
-            const snippet = parent?.textContent?.replace(title, "").trim().slice(0, 500) || "";
-            
-            items.push({
-              rank: items.length + 1,
-              title,
-              snippet,
-              url: href,
-              confidence: title.length > 5 ? 1.0 : 0.5
-            });
-            
-            if (items.length >= max) break;
-          }
-          
-          if (items.length >= max) break;
-        }
-        
-        return items;
-      }, Math.min(config.maxResultsPerQuery, 20)) as RawSerpItem[];
-
-      // Validate extraction quality
-      const quality = validateExtraction(rawResults);
       logger.info("extraction quality", {
         engine: "perplexity",
         query: query.query,
@@ -169,28 +345,16 @@ export function createPerplexityClient({ config, logger, runId }: CreatePerplexi
         });
       }
 
-      // Add summary and citations metadata to results
-      const enhancedResults = rawResults.map((item, idx) => ({
-        ...item,
-        source: "html",
-        metadata: idx === 0 ? {
-          summary: summaryData.summary,
-          citations: summaryData.citations,
-          extractionConfidence: quality.confidence,
-          extractionWarnings: quality.warnings
-        } : {
-          extractionConfidence: quality.confidence,
-          extractionWarnings: quality.warnings
-        }
-      }));
-
       return normalizeResults({
         engine: "perplexity",
         query,
         collectedAt,
         rawHtmlPath: htmlPath,
-        items: enhancedResults,
-        crawlRunId: runId
+        items: rawResults,
+        crawlRunId: vantageRunId(runId, vantage?.id),
+        stripQueryParams: config.stripQueryParams,
+        parserVersion: PARSER_VERSIONS.perplexity,
+        vantageId: vantage?.id
       });
     } catch (error) {
       logger.error("perplexity search failed", { 
@@ -198,7 +362,8 @@ export function createPerplexityClient({ config, logger, runId }: CreatePerplexi
         error: (error as Error).message 
       });
       
-      // Capture debug info
+      // Capture debug info; a bot check was captured when it was detected
+      if (error instanceof EngineBlockedError) throw error;
       try {
         const debugPath = await captureDebugSnapshot(
           page,
@@ -225,3 +390,10 @@ export function createPerplexityClient({ config, logger, runId }: CreatePerplexi
   return { search };
 }
 
+// Perplexity takes its locale from the Accept-Language header set per page, not from query parameters
+export const perplexityAdapter = defineEngineAdapter({
+  descriptor: engineDescriptor("perplexity"),
+  settingsSchema: z.object({}),
+  createClient: ({ config, logger, runId, selectorHealth, robots, engine, rateLimits }) =>
+    createPerplexityClient({ config, logger, runId, selectorHealth, robots, engine, rateLimits })
+});
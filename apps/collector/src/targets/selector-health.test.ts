@@ -0,0 +1,194 @@
+import { describe, expect, it, vi } from "vitest";
+import type { SelectorHealthRecordInput } from "@truthlayer/storage";
+import {
+  createSelectorHealthTracker,
+  firstMatchingSelector,
+  orderSelectors,
+  SelectorHealthStorage,
+  SelectorOutcome
+} from "./selector-health";
+import { parseDuckDuckGoHtml } from "./duckduckgo";
+import type { SelectorConfig } from "../lib/selectors";
+
+const SELECTORS: SelectorConfig = {
+  version: "test-1",
+  engines: {
+    perplexity: {
+      ready: ["main"],
+      results: ["main a", "article a"],
+      answer: [".prose", "article p"],
+      citations: ["sup a"]
+    },
+    duckduckgo: {
+      result: [".result", ".web-result"],
+      link: [".result__a", "h2 a"],
+      snippet: [".result__snippet"]
+    }
+  },
+  features: {
+    perplexity: {},
+    duckduckgo: { ad: [".result--ad"] }
+  }
+};
+
+const NOW = new Date("2025-03-10T12:00:00Z");
+
+function createFakeStorage(initial: SelectorHealthRecordInput[] = []) {
+  const records = [...initial];
+  const storage: SelectorHealthStorage = {
+    async recordSelectorHealth(input) {
+      records.push(...input);
+    },
+    async fetchSelectorHealth(options) {
+      return records.filter(
+        (record) =>
+          (!options.engines?.length || options.engines.includes(record.engine)) &&
+          (!options.since || record.bucketDate >= options.since)
+      );
+    }
+  };
+  return { storage, records };
+}
+
+function storedCounts(
+  selectorGroup: string,
+  selector: string,
+  successCount: number,
+  failCount: number,
+  bucketDate = new Date("2025-03-09T00:00:00Z")
+): SelectorHealthRecordInput {
+  return {
+    engine: "duckduckgo",
+    selectorGroup,
+    selector,
+    bucketDate,
+    successCount,
+    failCount,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    configVersion: "test-1",
+    updatedAt: bucketDate
+  };
+}
+
+describe("orderSelectors", () => {
+  it("puts the best recent success rate first and keeps configured order for ties", () => {
+    const stats = new Map([
+      ["a", { successCount: 1, failCount: 9 }],
+      ["b", { successCount: 9, failCount: 1 }]
+    ]);
+    expect(orderSelectors(["a", "b", "c", "d"], (selector) => stats.get(selector))).toEqual(["b", "c", "d", "a"]);
+  });
+});
+
+describe("firstMatchingSelector", () => {
+  it("records a failure for each selector tried before the match", () => {
+    const outcomes: SelectorOutcome[] = [];
+    const match = firstMatchingSelector("link", ["x", "y", "z"], (selector) => selector === "y", (o) => outcomes.push(o));
+
+    expect(match).toBe("y");
+    expect(outcomes).toEqual([
+      { group: "link", selector: "x", success: false },
+      { group: "link", selector: "y", success: true }
+    ]);
+  });
+});
+
+describe("createSelectorHealthTracker", () => {
+  it("orders selectors by the stored counts inside the window", async () => {
+    const { storage } = createFakeStorage([
+      storedCounts("result", ".result", 0, 12),
+      storedCounts("result", ".web-result", 10, 0),
+      // Outside the 7-day window: ignored
+      storedCounts("link", "h2 a", 50, 0, new Date("2025-02-01T00:00:00Z"))
+    ]);
+    const tracker = await createSelectorHealthTracker({ selectors: SELECTORS, storage, windowDays: 7, now: () => NOW });
+
+    expect(tracker.selectorsFor("duckduckgo")).toEqual({
+      result: [".web-result", ".result"],
+      link: [".result__a", "h2 a"],
+      snippet: [".result__snippet"]
+    });
+  });
+
+  it("reorders during the run and flushes daily counts", async () => {
+    const { storage, records } = createFakeStorage();
+    const tracker = await createSelectorHealthTracker({ selectors: SELECTORS, storage, windowDays: 7, now: () => NOW });
+    const record = tracker.recorder("perplexity");
+
+    record({ group: "answer", selector: ".prose", success: false });
+    record({ group: "answer", selector: ".prose", success: false });
+    record({ group: "answer", selector: "article p", success: true });
+
+    expect(tracker.selectorsFor("perplexity").answer).toEqual(["article p", ".prose"]);
+
+    await tracker.flush();
+    expect(records).toHaveLength(2);
+    expect(records.find((r) => r.selector === ".prose")).toMatchObject({
+      engine: "perplexity",
+      selectorGroup: "answer",
+      bucketDate: new Date("2025-03-10T00:00:00Z"),
+      successCount: 0,
+      failCount: 2,
+      lastFailureAt: NOW,
+      lastSuccessAt: null,
+      configVersion: "test-1"
+    });
+
+    await tracker.flush();
+    expect(records).toHaveLength(2);
+  });
+
+  it("keeps the counts of a failed write for the next flush", async () => {
+    const { storage, records } = createFakeStorage();
+    const offline = vi
+      .spyOn(storage, "recordSelectorHealth")
+      .mockRejectedValueOnce(new Error("storage offline"));
+    const tracker = await createSelectorHealthTracker({ selectors: SELECTORS, storage, windowDays: 7, now: () => NOW });
+    const record = tracker.recorder("perplexity");
+
+    record({ group: "answer", selector: ".prose", success: false });
+    await expect(tracker.flush()).rejects.toThrow("storage offline");
+    record({ group: "answer", selector: ".prose", success: true });
+    await tracker.flush();
+
+    expect(offline).toHaveBeenCalledTimes(2);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ successCount: 1, failCount: 1, lastSuccessAt: NOW, lastFailureAt: NOW });
+  });
+
+  it("falls back to the configured order when stored health cannot be read", async () => {
+    const storage: SelectorHealthStorage = {
+      recordSelectorHealth: async () => undefined,
+      fetchSelectorHealth: async () => {
+        throw new Error("storage offline");
+      }
+    };
+    const tracker = await createSelectorHealthTracker({ selectors: SELECTORS, storage, windowDays: 7 });
+
+    expect(tracker.selectorsFor("duckduckgo").result).toEqual([".result", ".web-result"]);
+  });
+});
+
+describe("parseDuckDuckGoHtml selector fallbacks", () => {
+  const html = `<div class="web-result"><h2><a href="//example.org/a">Example A</a></h2>
+    <span class="result__snippet">First</span></div>`;
+
+  it("uses the first selector in each group that matches and records the outcomes", () => {
+    const outcomes: SelectorOutcome[] = [];
+    const items = parseDuckDuckGoHtml(html, 10, SELECTORS.engines.duckduckgo, SELECTORS.features.duckduckgo, (outcome) => outcomes.push(outcome));
+
+    expect(items).toEqual([
+      { rank: 1, title: "Example A", snippet: "First", url: "https://example.org/a", source: "html" }
+    ]);
+    expect(outcomes.filter((outcome) => outcome.success).map((outcome) => outcome.selector)).toEqual([
+      ".web-result",
+      "h2 a",
+      ".result__snippet"
+    ]);
+    expect(outcomes.filter((outcome) => !outcome.success).map((outcome) => outcome.selector)).toEqual([
+      ".result",
+      ".result__a"
+    ]);
+  });
+});
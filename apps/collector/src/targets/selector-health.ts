@@ -1,57 +1,214 @@
-import { writeFileSync } from "fs";
+import type { SelectorHealthRecordInput, StorageClient } from "@truthlayer/storage";
+import type { FeatureSelectors, SelectorConfig } from "../lib/selectors";
+import type { Logger } from "../lib/logger";
 
-interface SelectorHealth {
-  engine: string;
+type SelectorEngine = keyof SelectorConfig["engines"];
+
+/** Whether one selector found anything on one page. */
+export interface SelectorOutcome {
+  group: string;
   selector: string;
+  success: boolean;
+}
+
+export type RecordSelectorOutcome = (outcome: SelectorOutcome) => void;
+
+export interface SelectorStats {
   successCount: number;
   failCount: number;
-  lastSuccess: Date | null;
-  lastFail: Date | null;
 }
 
-const healthMap = new Map<string, SelectorHealth>();
-
 /**
- * Record the result of using a specific selector
+ * Laplace-smoothed success rate, so an untried selector scores 0.5: below one
+ * that keeps working, above one that keeps failing.
  */
-export function recordSelectorResult(
-  engine: string,
-  selector: string,
-  success: boolean
-): void {
-  const key = `${engine}:${selector}`;
-  const existing = healthMap.get(key) || {
-    engine,
-    selector,
-    successCount: 0,
-    failCount: 0,
-    lastSuccess: null,
-    lastFail: null
-  };
-  
-  if (success) {
-    existing.successCount++;
-    existing.lastSuccess = new Date();
-  } else {
-    existing.failCount++;
-    existing.lastFail = new Date();
-  }
-  
-  healthMap.set(key, existing);
+export function selectorSuccessRate({ successCount, failCount }: SelectorStats): number {
+  return (successCount + 1) / (successCount + failCount + 2);
+}
+
+/** Sorts selectors by success rate, best first; ties keep their configured order. */
+export function orderSelectors(
+  selectors: string[],
+  statsFor: (selector: string) => SelectorStats | undefined
+): string[] {
+  return selectors
+    .map((selector, index) => ({
+      selector,
+      index,
+      rate: selectorSuccessRate(statsFor(selector) ?? { successCount: 0, failCount: 0 })
+    }))
+    .sort((a, b) => b.rate - a.rate || a.index - b.index)
+    .map(({ selector }) => selector);
 }
 
 /**
- * Get all selector health metrics
+ * Returns the first selector `matches` accepts, recording a failure for each
+ * one tried before it; null (all failed) when none match.
  */
-export function getSelectorHealth(): SelectorHealth[] {
-  return Array.from(healthMap.values());
+export function firstMatchingSelector(
+  group: string,
+  selectors: string[],
+  matches: (selector: string) => boolean,
+  onSelector?: RecordSelectorOutcome
+): string | null {
+  for (const selector of selectors) {
+    const success = matches(selector);
+    onSelector?.({ group, selector, success });
+    if (success) return selector;
+  }
+  return null;
+}
+
+export type SelectorHealthStorage = Pick<StorageClient, "recordSelectorHealth" | "fetchSelectorHealth">;
+
+export interface SelectorHealthTracker {
+  configVersion: string;
+  /** The engine's configured selectors, each group ordered by recent success rate. */
+  selectorsFor<E extends SelectorEngine>(engine: E): SelectorConfig["engines"][E];
+  /** The engine's SERP feature selectors as configured; every one is applied, so none are tracked. */
+  featuresFor(engine: SelectorEngine): FeatureSelectors;
+  recorder(engine: SelectorEngine): RecordSelectorOutcome;
+  /** Writes the outcomes recorded since the last flush; a no-op without storage. */
+  flush(): Promise<void>;
+}
+
+export interface CreateSelectorHealthTrackerOptions {
+  selectors: SelectorConfig;
+  /** Where counts are read from and written to; omit to track within this process only. */
+  storage?: SelectorHealthStorage;
+  /** How many days of stored counts make up the "recent" success rate. */
+  windowDays: number;
+  logger?: Logger;
+  now?: () => Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function statsKey(engine: string, group: string, selector: string) {
+  return `${engine}|${group}|${selector}`;
+}
+
+function utcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
 }
 
 /**
- * Export selector health metrics to JSON file
+ * Tracks how often each configured selector matches and orders fallbacks by
+ * recent success rate. Stored counts from the last `windowDays` seed the
+ * ordering, outcomes recorded during the run update it straight away, and
+ * `flush` adds them to the engine's daily counts in storage.
  */
-export function exportSelectorHealth(outputPath: string): void {
-  const health = getSelectorHealth();
-  writeFileSync(outputPath, JSON.stringify(health, null, 2));
-}
+export async function createSelectorHealthTracker({
+  selectors,
+  storage,
+  windowDays,
+  logger,
+  now = () => new Date()
+}: CreateSelectorHealthTrackerOptions): Promise<SelectorHealthTracker> {
+  const stats = new Map<string, SelectorStats>();
+  let pending = new Map<string, SelectorHealthRecordInput>();
+
+  if (storage) {
+    try {
+      const since = utcDay(new Date(now().getTime() - (windowDays - 1) * DAY_MS));
+      const records = await storage.fetchSelectorHealth({
+        engines: Object.keys(selectors.engines),
+        since
+      });
+      for (const record of records) {
+        const key = statsKey(record.engine, record.selectorGroup, record.selector);
+        const existing = stats.get(key) ?? { successCount: 0, failCount: 0 };
+        stats.set(key, {
+          successCount: existing.successCount + record.successCount,
+          failCount: existing.failCount + record.failCount
+        });
+      }
+    } catch (error) {
+      logger?.warn("failed to load selector health, using configured order", {
+        error: (error as Error).message
+      });
+    }
+  }
 
+  return {
+    configVersion: selectors.version,
+
+    selectorsFor(engine) {
+      const groups = selectors.engines[engine];
+      return Object.fromEntries(
+        Object.entries(groups).map(([group, list]) => [
+          group,
+          orderSelectors(list, (selector) => stats.get(statsKey(engine, group, selector)))
+        ])
+      ) as typeof groups;
+    },
+
+    featuresFor(engine) {
+      return selectors.features[engine];
+    },
+
+    recorder(engine) {
+      return ({ group, selector, success }) => {
+        const key = statsKey(engine, group, selector);
+        const existing = stats.get(key) ?? { successCount: 0, failCount: 0 };
+        stats.set(key, {
+          successCount: existing.successCount + (success ? 1 : 0),
+          failCount: existing.failCount + (success ? 0 : 1)
+        });
+        if (!storage) return;
+
+        const observedAt = now();
+        const bucketDate = utcDay(observedAt);
+        const pendingKey = `${key}|${bucketDate.toISOString()}`;
+        const record = pending.get(pendingKey) ?? {
+          engine,
+          selectorGroup: group,
+          selector,
+          bucketDate,
+          successCount: 0,
+          failCount: 0,
+          lastSuccessAt: null,
+          lastFailureAt: null,
+          configVersion: selectors.version,
+          updatedAt: observedAt
+        };
+        if (success) {
+          record.successCount += 1;
+          record.lastSuccessAt = observedAt;
+        } else {
+          record.failCount += 1;
+          record.lastFailureAt = observedAt;
+        }
+        record.updatedAt = observedAt;
+        pending.set(pendingKey, record);
+      };
+    },
+
+    async flush() {
+      if (!storage || !pending.size) return;
+      const flushing = pending;
+      pending = new Map();
+      try {
+        await storage.recordSelectorHealth(Array.from(flushing.values()));
+      } catch (error) {
+        // Keep the counts for the next flush, merged with any recorded meanwhile
+        for (const [key, record] of flushing) {
+          const newer = pending.get(key);
+          pending.set(
+            key,
+            newer
+              ? {
+                  ...newer,
+                  successCount: record.successCount + newer.successCount,
+                  failCount: record.failCount + newer.failCount,
+                  lastSuccessAt: newer.lastSuccessAt ?? record.lastSuccessAt,
+                  lastFailureAt: newer.lastFailureAt ?? record.lastFailureAt
+                }
+              : record
+          );
+        }
+        throw error;
+      }
+    }
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { SerpFeatureSchema } from "@truthlayer/schema";
+import { extractSerpFeatures, toSerpFeatureRecords } from "./serp-features";
+
+const resolveUrl = (href: string) => {
+  try {
+    return new URL(href, "https://search.example/").toString();
+  } catch {
+    return null;
+  }
+};
+
+describe("extractSerpFeatures", () => {
+  const html = `<main>
+    <section class="paa"><h3>People also ask</h3>
+      <div class="paa"><a href="https://a.example/q1">Question one</a></div>
+      <a href="/search?q=two">Question two</a>
+    </section>
+    <a class="organic" href="https://b.example/">B</a>
+    <a class="organic" href="https://b.example/">B again</a>
+    <div class="ad"><a href="https://ads.example/landing">Sponsored</a></div>
+    <a class="organic" href="https://c.example/">C</a>
+  </main>`;
+
+  it("counts organic results before each block and drops nested blocks", () => {
+    const features = extractSerpFeatures(
+      html,
+      { people_also_ask: [".paa"], ad: [".ad"] },
+      { engine: "test", organicSelectors: ["a.organic"], resolveUrl, engineHost: "search.example" }
+    );
+
+    expect(features).toEqual([
+      { featureType: "people_also_ask", position: 1, title: "People also ask", urls: ["https://a.example/q1"] },
+      { featureType: "ad", position: 3, title: null, urls: ["https://ads.example/landing"] }
+    ]);
+  });
+});
+
+describe("toSerpFeatureRecords", () => {
+  it("builds schema-valid records with stable ids and skips malformed entries", () => {
+    const params = {
+      metadata: {
+        serpFeatures: [
+          { featureType: "ai_overview", position: 1, title: null, urls: ["https://www.cdc.gov/flu"] },
+          { featureType: "ad" },
+          "not a feature"
+        ]
+      },
+      queryId: "11111111-1111-4111-8111-111111111111",
+      crawlRunId: "22222222-2222-4222-8222-222222222222",
+      engine: "perplexity",
+      collectedAt: new Date("2025-03-10T12:00:00Z")
+    };
+
+    const records = toSerpFeatureRecords(params);
+    expect(records).toHaveLength(1);
+    expect(SerpFeatureSchema.parse(records[0])).toMatchObject({ featureType: "ai_overview", position: 1 });
+    expect(toSerpFeatureRecords(params)[0].id).toBe(records[0].id);
+  });
+});
@@ -0,0 +1,158 @@
+import { load } from "cheerio";
+import { hashToUUID } from "@truthlayer/schema";
+import type { SerpFeatureType } from "@truthlayer/schema";
+import type { SerpFeatureRecordInput } from "@truthlayer/storage";
+import { unwrapRedirect } from "../lib/canonicalize";
+import type { FeatureSelectors } from "../lib/selectors";
+
+/** A feature block as found on the page, before it is tied to a query and run. */
+export interface RawSerpFeature {
+  featureType: SerpFeatureType;
+  /** 1-based slot among organic results and features, in page order. */
+  position: number;
+  title: string | null;
+  urls: string[];
+}
+
+export interface ExtractSerpFeaturesOptions {
+  engine: string;
+  /** Selectors for organic results (links or result blocks); counted when assigning positions. */
+  organicSelectors: string[];
+  /** Resolves a link the way the page would; null when it cannot be parsed. */
+  resolveUrl: (href: string) => string | null;
+  /** Links to this host are the engine's own pages, not outbound links. */
+  engineHost: string;
+}
+
+/**
+ * Finds the feature blocks on a results page. Every element matching one of a
+ * type's selectors is a block of that type; blocks nested inside an earlier
+ * block are dropped. Positions count the organic results outside features, so
+ * an ad above the first result is position 1 and that result is position 2.
+ */
+export function extractSerpFeatures(
+  html: string,
+  selectors: FeatureSelectors,
+  { engine, organicSelectors, resolveUrl, engineHost }: ExtractSerpFeaturesOptions
+): RawSerpFeature[] {
+  const $ = load(html);
+
+  const order = new Map<unknown, number>();
+  $("*").each((index, element) => {
+    order.set(element, index);
+  });
+
+  const outboundUrl = (href: string | undefined): string | null => {
+    if (!href) return null;
+    const resolved = resolveUrl(href);
+    if (!resolved) return null;
+    const url = unwrapRedirect(resolved, engine);
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+      if (parsed.hostname === engineHost || parsed.hostname.endsWith(`.${engineHost}`)) return null;
+    } catch {
+      return null;
+    }
+    return url;
+  };
+
+  const candidates = Object.entries(selectors).flatMap(([featureType, list]) =>
+    (list ?? []).flatMap((selector) =>
+      $(selector)
+        .toArray()
+        .map((element) => ({ featureType: featureType as SerpFeatureType, element }))
+    )
+  );
+  candidates.sort((a, b) => (order.get(a.element) ?? 0) - (order.get(b.element) ?? 0));
+
+  const blocks: typeof candidates = [];
+  for (const candidate of candidates) {
+    const nested = blocks.some(
+      (block) => block.element === candidate.element || $.contains(block.element, candidate.element)
+    );
+    if (!nested) blocks.push(candidate);
+  }
+
+  const insideBlock = (element: (typeof candidates)[number]["element"]) =>
+    blocks.some((block) => block.element === element || $.contains(block.element, element));
+
+  // Organic results outside features, one per link (or per result block)
+  const organicOrder: number[] = [];
+  if (organicSelectors.length) {
+    const seenUrls = new Set<string>();
+    const counted: Array<(typeof candidates)[number]["element"]> = [];
+    $(organicSelectors.join(", ")).each((_, element) => {
+      if (insideBlock(element) || counted.some((parent) => $.contains(parent, element))) return;
+      if ($(element).is("a")) {
+        const url = outboundUrl($(element).attr("href"));
+        if (!url || seenUrls.has(url)) return;
+        seenUrls.add(url);
+      }
+      counted.push(element);
+      organicOrder.push(order.get(element) ?? 0);
+    });
+  }
+
+  return blocks.map(({ featureType, element }, index) => {
+    const $block = $(element);
+    const start = order.get(element) ?? 0;
+
+    const urls: string[] = [];
+    $block.find("a[href]").each((_, link) => {
+      const url = outboundUrl($(link).attr("href"));
+      if (url && !urls.includes(url)) urls.push(url);
+    });
+
+    const title = $block.find("h1, h2, h3, h4, h5, h6").first().text().replace(/\s+/g, " ").trim();
+
+    return {
+      featureType,
+      position: 1 + index + organicOrder.filter((organic) => organic < start).length,
+      title: title || null,
+      urls
+    };
+  });
+}
+
+/** Same feature slot in the same run always maps to the same id, so re-collection upserts. */
+function serpFeatureId(crawlRunId: string | null, queryId: string, engine: string, position: number): string {
+  return hashToUUID(`${crawlRunId ?? ""}|${queryId}|${engine}|feature|${position}`);
+}
+
+/**
+ * Reads the features a client stored in a result's `metadata.serpFeatures` and
+ * turns them into storage records. Malformed entries are dropped.
+ */
+export function toSerpFeatureRecords(params: {
+  metadata: Record<string, unknown>;
+  queryId: string;
+  crawlRunId: string | null;
+  engine: string;
+  collectedAt: Date;
+}): SerpFeatureRecordInput[] {
+  const { metadata, queryId, crawlRunId, engine, collectedAt } = params;
+  if (!Array.isArray(metadata.serpFeatures)) return [];
+
+  const records: SerpFeatureRecordInput[] = [];
+  for (const entry of metadata.serpFeatures as unknown[]) {
+    if (!entry || typeof entry !== "object") continue;
+    const { featureType, position, title, urls } = entry as Partial<RawSerpFeature>;
+    if (typeof featureType !== "string" || typeof position !== "number") continue;
+
+    records.push({
+      id: serpFeatureId(crawlRunId, queryId, engine, position),
+      queryId,
+      crawlRunId,
+      engine,
+      featureType,
+      position,
+      title: typeof title === "string" ? title : null,
+      urls: Array.isArray(urls) ? urls.filter((url) => typeof url === "string") : [],
+      collectedAt,
+      createdAt: collectedAt,
+      updatedAt: collectedAt
+    });
+  }
+  return records;
+}
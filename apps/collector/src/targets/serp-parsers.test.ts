@@ -0,0 +1,77 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { RawSerpItem } from "./normalize";
+import { parseGoogleResponse } from "./google";
+import { parseBingResponse } from "./bing";
+import { parseBraveResponse } from "./brave";
+import { parseDuckDuckGoApiResponse, parseDuckDuckGoHtml, parseDuckDuckGoSnapshot } from "./duckduckgo";
+import { parsePerplexityPage } from "./perplexity";
+import { loadSelectorConfig, SelectorConfig } from "../lib/selectors";
+
+/**
+ * Golden-file suite: every saved page in __fixtures__/<engine>/ is parsed and
+ * compared with the `<name>.expected.json` next to it. After an intended parser
+ * change, regenerate the expectations with `UPDATE_GOLDEN=1 pnpm test` and
+ * review the diff. `*.snapshot.json` files are trimmed copies of what the
+ * collector itself wrote to data/raw_html/<engine>/ and go through the same
+ * parser as `reextract`.
+ */
+const TEST_DIR = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURE_DIR = path.join(TEST_DIR, "__fixtures__");
+const SELECTOR_CONFIG_PATH = path.resolve(TEST_DIR, "../../../../config/selectors.json");
+const MAX_RESULTS = 20;
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === "1";
+
+let selectors: SelectorConfig;
+
+// Keyed by engine and fixture extension (`.snapshot.json` counts as one); mirrors what each target feeds its parser.
+const PARSERS: Record<string, (input: string) => RawSerpItem[]> = {
+  "google.json": (input) => parseGoogleResponse(JSON.parse(input)),
+  "bing.json": (input) => parseBingResponse(JSON.parse(input)),
+  "brave.json": (input) => parseBraveResponse(JSON.parse(input)),
+  "duckduckgo.json": (input) => parseDuckDuckGoApiResponse(JSON.parse(input), MAX_RESULTS),
+  "duckduckgo.snapshot.json": (input) => parseDuckDuckGoSnapshot(JSON.parse(input)).slice(0, MAX_RESULTS),
+  "duckduckgo.html": (input) => parseDuckDuckGoHtml(input, MAX_RESULTS, selectors.engines.duckduckgo, selectors.features.duckduckgo),
+  "perplexity.html": (input) =>
+    parsePerplexityPage(input, MAX_RESULTS, selectors.engines.perplexity, selectors.features.perplexity).items
+};
+
+function parserKey(engine: string, file: string): string {
+  return `${engine}${file.endsWith(".snapshot.json") ? ".snapshot.json" : path.extname(file)}`;
+}
+
+const fixtures = readdirSync(FIXTURE_DIR).flatMap((engine) =>
+  readdirSync(path.join(FIXTURE_DIR, engine))
+    .filter((file) => !file.endsWith(".expected.json"))
+    .map((file) => ({ engine, file }))
+);
+
+describe("SERP parsers (golden files)", () => {
+  beforeAll(async () => {
+    selectors = await loadSelectorConfig(SELECTOR_CONFIG_PATH);
+  });
+
+  it("has a parser for every fixture", () => {
+    for (const { engine, file } of fixtures) {
+      expect(PARSERS[parserKey(engine, file)], `${engine}/${file}`).toBeDefined();
+    }
+    expect(new Set(fixtures.map(({ engine }) => engine))).toEqual(
+      new Set(["google", "bing", "brave", "duckduckgo", "perplexity"])
+    );
+  });
+
+  it.each(fixtures)("$engine/$file", ({ engine, file }) => {
+    const fixturePath = path.join(FIXTURE_DIR, engine, file);
+    const expectedPath = fixturePath.replace(/\.[^.]+$/, ".expected.json");
+    const actual = PARSERS[parserKey(engine, file)](readFileSync(fixturePath, "utf-8"));
+
+    if (UPDATE_GOLDEN) {
+      writeFileSync(expectedPath, `${JSON.stringify(actual, null, 2)}\n`, "utf-8");
+    }
+    expect(existsSync(expectedPath), `missing ${path.basename(expectedPath)}; run with UPDATE_GOLDEN=1`).toBe(true);
+
+    expect(actual).toEqual(JSON.parse(readFileSync(expectedPath, "utf-8")));
+  });
+});
@@ -6,6 +6,7 @@ import puppeteer from "puppeteer";
 import { CollectorConfig } from "../lib/config";
 import { Logger } from "../lib/logger";
 import type { RawSerpItem } from "./normalize";
+import type { PageGeometry } from "./visibility";
 
 export function pickRandom<T>(arr: T[]): T {
   return arr[Math.floor(Math.random() * arr.length)];
@@ -32,9 +33,10 @@ export function pickProxy(proxyUrl?: string): string | undefined {
   return pickRandom(parts);
 }
 
-export async function ensureBrowser(config: CollectorConfig): Promise<Browser> {
+/** Launches a browser behind `proxyUrl` (a vantage's proxy) or else the configured one. */
+export async function ensureBrowser(config: CollectorConfig, proxyUrl?: string): Promise<Browser> {
   const args = ["--no-sandbox", "--disable-setuid-sandbox"];
-  const proxy = pickProxy(config.proxyUrl);
+  const proxy = pickProxy(proxyUrl ?? config.proxyUrl);
   if (proxy) args.push(`--proxy-server=${proxy}`);
   return puppeteer.launch({ headless: "new", args });
 }
@@ -43,11 +45,14 @@ export async function takeHtmlSnapshot(options: {
   engine: string;
   runId: string;
   queryId: string;
+  /** Keeps snapshots of the same query under different vantages apart. */
+  vantageId?: string;
   html: string;
 }): Promise<{ htmlPath: string; sha256Path: string; sha256: string }> {
   const baseDir = path.resolve("data/raw_html", options.engine, options.runId);
   await fs.mkdir(baseDir, { recursive: true });
-  const htmlPath = path.join(baseDir, `${options.queryId}.html`);
+  const fileName = options.vantageId ? `${options.queryId}-${options.vantageId}` : options.queryId;
+  const htmlPath = path.join(baseDir, `${fileName}.html`);
   await fs.writeFile(htmlPath, options.html, "utf-8");
   const sha256 = createHash("sha256").update(options.html).digest("hex");
   const sha256Path = `${htmlPath}.sha256`;
@@ -167,3 +172,37 @@ export async function detectBotBlock(page: Page): Promise<boolean> {
   return indicators.some(indicator => lowerText.includes(indicator));
 }
 
+/**
+ * Measures the rendered page: the viewport height, the box of every link
+ * matching `resultSelectors` (keyed by its resolved href) and of every feature
+ * block. Boxes are in document coordinates, so scrolling does not change them.
+ */
+export async function collectPageGeometry(
+  page: Page,
+  selectors: { results: string[]; features: Record<string, string[] | undefined> }
+): Promise<PageGeometry> {
+  return page.evaluate(({ results, features }) => {
+    const boxOf = (element: Element) => {
+      const rect = element.getBoundingClientRect();
+      return { top: rect.top + window.scrollY, height: rect.height };
+    };
+
+    const links = results.length ? Array.from(document.querySelectorAll<HTMLAnchorElement>(results.join(", "))) : [];
+    // An element matched by several feature selectors is one block
+    const seen = new Set<Element>();
+    const blocks: Array<{ featureType: string; box: { top: number; height: number } }> = [];
+    for (const [featureType, list] of Object.entries(features)) {
+      for (const element of (list ?? []).flatMap((selector) => Array.from(document.querySelectorAll(selector)))) {
+        if (seen.has(element)) continue;
+        seen.add(element);
+        blocks.push({ featureType, box: boxOf(element) });
+      }
+    }
+
+    return {
+      viewportHeight: window.innerHeight,
+      results: links.filter((link) => link.href).map((link) => ({ url: link.href, box: boxOf(link) })),
+      features: blocks
+    };
+  }, selectors);
+}
@@ -0,0 +1,50 @@
+import { createHash, randomUUID } from "node:crypto";
+import type { SearchResult } from "@truthlayer/schema";
+import type { ViewpointRecordInput } from "@truthlayer/storage";
+
+/** A result's `metadata`, which clients store as a JSON string; null when absent or unreadable. */
+export function resultMetadata(result: Pick<SearchResult, "metadata">): Record<string, unknown> | null {
+  if (!result.metadata) return null;
+  try {
+    const metadata = typeof result.metadata === "string" ? JSON.parse(result.metadata) : result.metadata;
+    return metadata && typeof metadata === "object" ? (metadata as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One engine's viewpoint on a query. Answer engines (Perplexity, the
+ * OpenAI-compatible answer engines) store the answer `summary` and its
+ * `citations` on their first result's metadata; the overlap hash covers the
+ * sorted result URLs.
+ */
+export function toViewpointRecord(params: {
+  queryId: string;
+  crawlRunId: string | null;
+  engine: string;
+  results: SearchResult[];
+  collectedAt?: Date;
+}): ViewpointRecordInput {
+  const { queryId, crawlRunId, engine, results, collectedAt = new Date() } = params;
+  const metadata = results[0] ? resultMetadata(results[0]) : null;
+  const summary = typeof metadata?.summary === "string" && metadata.summary ? metadata.summary : null;
+  const citationsCount = Array.isArray(metadata?.citations) ? metadata.citations.length : 0;
+
+  const sortedUrls = results.map((result) => result.normalizedUrl).sort();
+  const overlapHash = createHash("sha256").update(sortedUrls.join("|")).digest("hex").substring(0, 16);
+
+  return {
+    id: randomUUID(),
+    queryId,
+    crawlRunId,
+    engine,
+    numResults: results.length,
+    summary,
+    citationsCount,
+    overlapHash,
+    collectedAt,
+    createdAt: collectedAt,
+    updatedAt: collectedAt
+  };
+}
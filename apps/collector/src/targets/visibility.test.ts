@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { applyVisibility, visibilityWeight } from "./visibility";
+
+describe("visibilityWeight", () => {
+  it("counts the part above the fold fully and halves the rest per screen of scrolling", () => {
+    expect(visibilityWeight({ top: 100, height: 80 }, 800)).toBe(1);
+    // Half above the fold, half just below it
+    expect(visibilityWeight({ top: 760, height: 80 }, 800)).toBeCloseTo(0.75, 10);
+    // Starts right at the fold
+    expect(visibilityWeight({ top: 800, height: 80 }, 800)).toBeCloseTo(0.5, 10);
+    // Two screens further down
+    expect(visibilityWeight({ top: 2400, height: 80 }, 800)).toBeCloseTo(0.125, 10);
+  });
+});
+
+describe("applyVisibility", () => {
+  it("weights items the browser measured and records the features above them", () => {
+    const items = applyVisibility(
+      [
+        { rank: 1, title: "A", url: "https://a.example/", metadata: { warnings: [] } },
+        { rank: 2, title: "B", url: "https://b.example/" }
+      ],
+      {
+        viewportHeight: 800,
+        results: [
+          { url: "https://a.example/", box: { top: 800, height: 60 } },
+          { url: "https://a.example/", box: { top: 100, height: 60 } }
+        ],
+        features: [
+          { featureType: "ai_overview", box: { top: 80, height: 700 } },
+          { featureType: "people_also_ask", box: { top: 1200, height: 300 } }
+        ]
+      }
+    );
+
+    expect(items[0].visibilityWeight).toBeCloseTo(0.5, 10);
+    expect(items[0].metadata).toEqual({
+      warnings: [],
+      geometry: { top: 800, height: 60, viewportHeight: 800, featuresAbove: 1, featurePixelsAbove: 700 }
+    });
+    expect(items[1]).toEqual({ rank: 2, title: "B", url: "https://b.example/" });
+  });
+});
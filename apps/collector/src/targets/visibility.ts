@@ -0,0 +1,73 @@
+import type { RawSerpItem } from "./normalize";
+
+/** Vertical extent of an element in page coordinates (pixels from the top of the document). */
+export interface ElementBox {
+  top: number;
+  height: number;
+}
+
+/** What the browser measured on a rendered results page. */
+export interface PageGeometry {
+  viewportHeight: number;
+  /** Result links, keyed by their resolved URL; the first box per URL is used. */
+  results: Array<{ url: string; box: ElementBox }>;
+  /** SERP feature blocks (ads, AI answers, ...), whatever their position. */
+  features: Array<{ featureType: string; box: ElementBox }>;
+}
+
+/** Recorded on each item's metadata, so the weight can be recomputed later. */
+export interface ResultGeometry extends ElementBox {
+  viewportHeight: number;
+  /** Feature blocks starting above the result. */
+  featuresAbove: number;
+  /** Pixel height of those blocks. */
+  featurePixelsAbove: number;
+}
+
+/**
+ * How visible a result is, from 0 to 1. The part of its box inside the first
+ * viewport counts fully; the part below the fold counts half, and half again for
+ * every further screen of scrolling needed to reach its top.
+ */
+export function visibilityWeight(box: ElementBox, viewportHeight: number): number {
+  if (viewportHeight <= 0) return 0;
+  const top = Math.max(0, box.top);
+  const height = Math.max(1, box.height);
+
+  const aboveFold = Math.min(1, Math.max(0, (viewportHeight - top) / height));
+  const screensBelow = Math.max(0, top - viewportHeight) / viewportHeight;
+  const belowFoldWeight = Math.pow(0.5, 1 + screensBelow);
+
+  return aboveFold + (1 - aboveFold) * belowFoldWeight;
+}
+
+/**
+ * Attaches `visibilityWeight` and the measured geometry to each item whose URL
+ * the browser found a box for. Items without a box are left untouched.
+ */
+export function applyVisibility(items: RawSerpItem[], geometry: PageGeometry): RawSerpItem[] {
+  const boxByUrl = new Map<string, ElementBox>();
+  for (const { url, box } of geometry.results) {
+    if (!boxByUrl.has(url)) boxByUrl.set(url, box);
+  }
+
+  return items.map((item) => {
+    const box = boxByUrl.get(item.url);
+    if (!box) return item;
+
+    const above = geometry.features.filter((feature) => feature.box.top < box.top);
+    const resultGeometry: ResultGeometry = {
+      top: box.top,
+      height: box.height,
+      viewportHeight: geometry.viewportHeight,
+      featuresAbove: above.length,
+      featurePixelsAbove: above.reduce((sum, feature) => sum + feature.box.height, 0)
+    };
+
+    return {
+      ...item,
+      visibilityWeight: visibilityWeight(box, geometry.viewportHeight),
+      metadata: { ...item.metadata, geometry: resultGeometry }
+    };
+  });
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { createStorageClient } from "@truthlayer/storage";
+import { summarizeCircuitBreakers } from "../../lib/circuit-breakers";
+
+// Singleton storage client for DuckDB (doesn't support concurrent connections)
+let storageClient: ReturnType<typeof createStorageClient> | null = null;
+
+function getStorageClient() {
+  if (!storageClient) {
+    storageClient = createStorageClient();
+  }
+  return storageClient;
+}
+
+function resetStorageClient() {
+  storageClient = null;
+}
+
+/**
+ * GET /api/breakers
+ * The collector's circuit breakers per engine and proxy, open ones first.
+ *
+ * Query parameters:
+ * - engine: Limit to one or more engines (comma-separated)
+ */
+export async function GET(request: Request) {
+  const engines = (new URL(request.url).searchParams.get("engine") ?? "")
+    .split(",")
+    .map((engine) => engine.trim())
+    .filter(Boolean);
+
+  const now = new Date();
+
+  try {
+    const records = await getStorageClient().fetchCircuitBreakers({ engines });
+
+    return NextResponse.json(
+      {
+        breakers: summarizeCircuitBreakers(records, { now }),
+        generatedAt: now.toISOString()
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("breakers api error", error);
+
+    // If DuckDB connection closed, reset singleton
+    if (error && typeof error === "object" && "code" in error && error.code === "DUCKDB_NODEJS_ERROR") {
+      console.warn("DuckDB connection closed, resetting singleton");
+      resetStorageClient();
+      return NextResponse.json({ error: "Connection recovered, please refresh the page" }, { status: 503 });
+    }
+
+    return NextResponse.json({ error: "Failed to load circuit breakers" }, { status: 500 });
+  }
+  // Note: Don't close storage - using singleton pattern for DuckDB
+}
+export const dynamic = "force-dynamic";
@@ -2,10 +2,26 @@ import { NextResponse } from "next/server";
 import path from "node:path";
 import { promises as fs } from "node:fs";
 import { createStorageClient } from "@truthlayer/storage";
-import { BenchmarkQuerySetSchema, MetricTypeEnum } from "@truthlayer/schema";
+import { BenchmarkQuerySetSchema, MetricGroupBy, MetricGroupByEnum, MetricTypeEnum } from "@truthlayer/schema";
 
 const METRIC_TYPES = MetricTypeEnum.options;
+/** Metric types that the metrics app also emits as one row per engine. */
+const PER_ENGINE_METRIC_TYPES = new Set<string>([
+  MetricTypeEnum.enum.domain_diversity,
+  MetricTypeEnum.enum.domain_entropy,
+  MetricTypeEnum.enum.domain_gini,
+  MetricTypeEnum.enum.domain_hhi,
+  MetricTypeEnum.enum.factual_alignment,
+  MetricTypeEnum.enum.viewpoint_diversity_score,
+  MetricTypeEnum.enum.citation_organic_overlap,
+  MetricTypeEnum.enum.citation_domain_type_divergence,
+  MetricTypeEnum.enum.serp_feature_share,
+  MetricTypeEnum.enum.visibility_weighted_domain_hhi,
+  MetricTypeEnum.enum.visibility_weighted_factual_alignment
+]);
 const DEFAULT_LIMIT = 50; // Reduced from 150 for faster initial load
+// Rollups carry one row per group x engine x run date, so allow more per metric type
+const DEFAULT_GROUPED_LIMIT = 500;
 
 type QueryMeta = { query: string; topic: string; tags: string[] };
 
@@ -22,6 +38,20 @@ type SerializedMetricRecord = {
   extra?: Record<string, unknown> | null;
 };
 
+type SerializedMetricGroupRecord = {
+  id: string;
+  groupBy: MetricGroupBy;
+  groupKey: string;
+  engine: string | null;
+  metricType: string;
+  runDate: string;
+  value: number;
+  delta: number | null;
+  queryCount: number;
+  totalWeight: number;
+  extra?: Record<string, unknown> | null;
+};
+
 async function loadBenchmarkMetadata(): Promise<Record<string, QueryMeta>> {
   const possiblePaths = [
     path.resolve(process.cwd(), "config/benchmark-queries.json"),
@@ -67,16 +97,88 @@ function resetStorageClient() {
   storageClient = null;
 }
 
+/**
+ * Topic/tag rollups written by the metrics runner. Without an engine filter both the
+ * cross-engine aggregates (engine: null) and the per-engine rows are returned, so
+ * engines can be compared within a group directly.
+ */
+async function fetchGroupedMetrics(
+  storage: ReturnType<typeof createStorageClient>,
+  groupBy: MetricGroupBy,
+  filters: { limit: number; metric: string | null; engine?: string; group?: string }
+) {
+  const metricsByType: Record<string, SerializedMetricGroupRecord[]> = {};
+  const groups = new Set<string>();
+  const engines = new Set<string>();
+
+  for (const metricType of METRIC_TYPES) {
+    if (filters.metric && filters.metric !== metricType) continue;
+    const records = await storage.fetchMetricGroupRecords({
+      groupBy,
+      metricType,
+      groupKeys: filters.group ? [filters.group] : undefined,
+      engine: filters.engine,
+      limit: filters.limit
+    });
+    metricsByType[metricType] = records.map((record) => {
+      groups.add(record.groupKey);
+      if (record.engine) engines.add(record.engine);
+      return {
+        id: record.id,
+        groupBy: record.groupBy,
+        groupKey: record.groupKey,
+        engine: record.engine,
+        metricType: record.metricType,
+        runDate: record.runDate.toISOString(),
+        value: record.value,
+        delta: record.delta,
+        queryCount: record.queryCount,
+        totalWeight: record.totalWeight,
+        extra: record.extra
+      };
+    });
+  }
+
+  return {
+    groupBy,
+    metrics: metricsByType,
+    groups: Array.from(groups).sort(),
+    engines: Array.from(engines).sort(),
+    generatedAt: new Date().toISOString()
+  };
+}
+
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
-  const limit = Number.parseInt(searchParams.get("limit") ?? "", 10) || DEFAULT_LIMIT;
   const metricFilter = searchParams.get("metric");
   const engineFilter = searchParams.get("engine") ?? undefined;
   const topicFilter = searchParams.get("topic") ?? undefined;
   const queryFilter = searchParams.get("queryId") ?? undefined;
 
+  const groupByParam = searchParams.get("groupBy");
+  const groupBy = groupByParam === null ? null : MetricGroupByEnum.safeParse(groupByParam);
+  if (groupBy && !groupBy.success) {
+    return NextResponse.json(
+      { error: `groupBy must be one of: ${MetricGroupByEnum.options.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const limit =
+    Number.parseInt(searchParams.get("limit") ?? "", 10) || (groupBy ? DEFAULT_GROUPED_LIMIT : DEFAULT_LIMIT);
+
   let storage = getStorageClient();
   try {
+    if (groupBy) {
+      const response = await fetchGroupedMetrics(storage, groupBy.data, {
+        limit,
+        metric: metricFilter,
+        engine: engineFilter,
+        group: searchParams.get("group") ?? (groupBy.data === "topic" ? topicFilter : undefined)
+      });
+      return NextResponse.json(response, { status: 200 });
+    }
+
     const metricsByType: Record<string, SerializedMetricRecord[]> = {};
     const runIds = new Set<string>();
     const engines = new Set<string>();
@@ -84,13 +186,12 @@ export async function GET(request: Request) {
 
     for (const metricType of METRIC_TYPES) {
       if (metricFilter && metricFilter !== metricType) continue;
-      const records = await storage.fetchRecentMetricRecords(metricType, limit);
+      // Engine-scoped rows replace the aggregate when the metric is tracked per engine;
+      // cross-engine metrics (e.g. overlap) only exist as aggregates.
+      const engine = engineFilter && PER_ENGINE_METRIC_TYPES.has(metricType) ? engineFilter : null;
+      const records = await storage.fetchRecentMetricRecords(metricType, limit, { engine });
       const serialised = records
-        .filter((record) => {
-          if (queryFilter && record.queryId !== queryFilter) return false;
-          if (engineFilter && record.engine && record.engine !== engineFilter) return false;
-          return true;
-        })
+        .filter((record) => !queryFilter || record.queryId === queryFilter)
         .map((record) => {
           if (record.crawlRunId) runIds.add(record.crawlRunId);
           if (record.engine) engines.add(record.engine);
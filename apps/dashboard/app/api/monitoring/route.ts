@@ -1,5 +1,33 @@
 import { NextResponse } from "next/server";
+import path from "node:path";
+import { promises as fs } from "node:fs";
 import { createStorageClient } from "@truthlayer/storage";
+import { BenchmarkQuerySetSchema } from "@truthlayer/schema";
+
+const ANOMALY_LIMIT = 50;
+
+type QueryMeta = { query: string; topic: string };
+
+async function loadBenchmarkMetadata(): Promise<Record<string, QueryMeta>> {
+  const possiblePaths = [
+    path.resolve(process.cwd(), "config/benchmark-queries.json"),
+    path.resolve(process.cwd(), "../../config/benchmark-queries.json")
+  ];
+
+  for (const filePath of possiblePaths) {
+    try {
+      const raw = await fs.readFile(filePath, "utf-8");
+      const queries = BenchmarkQuerySetSchema.parse(JSON.parse(raw));
+      return Object.fromEntries(queries.map((query) => [query.id, { query: query.query, topic: query.topic }]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("Failed to load benchmark queries", error);
+      }
+    }
+  }
+
+  return {};
+}
 
 // Singleton storage client for DuckDB (doesn't support concurrent connections)
 let storageClient: ReturnType<typeof createStorageClient> | null = null;
@@ -63,10 +91,33 @@ export async function GET() {
       Object.entries(byRun).map(([runId, records]) => [runId, computeAccuracy(records)])
     );
 
+    const [anomalyRecords, queryMeta] = await Promise.all([
+      storage.fetchMetricAnomalies({ limit: ANOMALY_LIMIT }),
+      loadBenchmarkMetadata()
+    ]);
+    const anomalies = anomalyRecords.map((anomaly) => ({
+      id: anomaly.id,
+      runId: anomaly.crawlRunId,
+      queryId: anomaly.queryId,
+      query: queryMeta[anomaly.queryId]?.query ?? null,
+      topic: queryMeta[anomaly.queryId]?.topic ?? null,
+      engine: anomaly.engine,
+      metricType: anomaly.metricType,
+      value: anomaly.value,
+      baseline: anomaly.baseline,
+      lowerBound: anomaly.lowerBound,
+      upperBound: anomaly.upperBound,
+      score: anomaly.score,
+      direction: anomaly.direction,
+      severity: anomaly.severity,
+      collectedAt: anomaly.collectedAt.toISOString()
+    }));
+
     return NextResponse.json(
       {
         runs: runsWithStages,
         accuracyByRun,
+        anomalies,
         generatedAt: new Date().toISOString()
       },
       { status: 200 }
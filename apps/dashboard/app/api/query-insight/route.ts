@@ -16,7 +16,7 @@
 import { NextResponse } from "next/server";
 export const dynamic = "force-dynamic";
 import { createStorageClient } from "@truthlayer/storage";
-import type { QueryInsightResponse } from "@truthlayer/schema";
+import { listEngines, type QueryInsightResponse } from "@truthlayer/schema";
 import { getLatestRunForQuery } from "../../../lib/getLatestRunForQuery";
 import path from "node:path";
 import { promises as fs } from "node:fs";
@@ -164,11 +164,16 @@ export async function GET(request: Request) {
       });
     }
 
-    // Step 5: Fetch aggregate metrics for (queryId, runId)
-    // TODO: Query metrics table WHERE query_id = ? AND crawl_run_id = ?
-    // We need to fetch all metric types and both aggregate (engine=null) and per-engine metrics
-    
-    const metricsRecords = await storage.fetchRecentMetricRecords("domain_diversity", 100);
+    // Step 5: Fetch aggregate (engine=null) and per-engine metrics for (queryId, runId)
+    // Fetched sequentially: the DuckDB singleton does not handle concurrent connections
+    // Each engine is fetched on its own, so the limit is not used up by other engines' rows
+    const metricsRecords: Awaited<ReturnType<typeof storage.fetchRecentMetricRecords>> = [];
+    for (const metricType of ["domain_diversity", "engine_overlap", "factual_alignment"] as const) {
+      const engines = metricType === "engine_overlap" ? [null] : [null, ...Object.keys(engineGroups)];
+      for (const engine of engines) {
+        metricsRecords.push(...(await storage.fetchRecentMetricRecords(metricType, 100, { engine })));
+      }
+    }
     const relevantMetrics = metricsRecords.filter(
       m => m.queryId === resolvedQueryId && m.crawlRunId === resolvedRunId
     );
@@ -182,7 +187,6 @@ export async function GET(request: Request) {
       perEngine: {}
     };
 
-    // TODO: Parse metrics records and populate aggregate + perEngine
     // Aggregate metrics have engine=null
     // Per-engine metrics have engine='google', 'brave', etc.
     for (const metric of relevantMetrics) {
@@ -210,7 +214,7 @@ export async function GET(request: Request) {
     
     // Step 6: Log warnings for missing engines
     const enginesPresent = Object.keys(engineGroups);
-    const expectedEngines = ["google", "brave", "duckduckgo", "perplexity"];
+    const expectedEngines = listEngines().map((engine) => engine.id);
     for (const engine of expectedEngines) {
       if (!enginesPresent.includes(engine)) {
         console.warn(
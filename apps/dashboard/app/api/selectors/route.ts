@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { createStorageClient } from "@truthlayer/storage";
+import { summarizeSelectorHealth } from "../../lib/selector-health";
+
+const DEFAULT_WINDOW_DAYS = 7;
+const MAX_WINDOW_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Singleton storage client for DuckDB (doesn't support concurrent connections)
+let storageClient: ReturnType<typeof createStorageClient> | null = null;
+
+function getStorageClient() {
+  if (!storageClient) {
+    storageClient = createStorageClient();
+  }
+  return storageClient;
+}
+
+function resetStorageClient() {
+  storageClient = null;
+}
+
+/**
+ * GET /api/selectors
+ * Per-selector success rates for the scraped engines, worst first.
+ *
+ * Query parameters:
+ * - engine: Limit to one or more engines (comma-separated)
+ * - days: Window of daily counts to read (default: 7, max: 90)
+ */
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+  const engines = (searchParams.get("engine") ?? "")
+    .split(",")
+    .map((engine) => engine.trim())
+    .filter(Boolean);
+  const days = Number.parseInt(searchParams.get("days") ?? "", 10);
+  const windowDays = Number.isFinite(days) && days > 0 ? Math.min(days, MAX_WINDOW_DAYS) : DEFAULT_WINDOW_DAYS;
+
+  const now = new Date();
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const since = new Date(today - (windowDays - 1) * DAY_MS);
+
+  try {
+    const records = await getStorageClient().fetchSelectorHealth({ engines, since });
+    const selectors = summarizeSelectorHealth(records, { now });
+
+    return NextResponse.json(
+      {
+        selectors,
+        windowDays,
+        generatedAt: now.toISOString()
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("selectors api error", error);
+
+    // If DuckDB connection closed, reset singleton
+    if (error && typeof error === "object" && "code" in error && error.code === "DUCKDB_NODEJS_ERROR") {
+      console.warn("DuckDB connection closed, resetting singleton");
+      resetStorageClient();
+      return NextResponse.json({ error: "Connection recovered, please refresh the page" }, { status: 503 });
+    }
+
+    return NextResponse.json({ error: "Failed to load selector health" }, { status: 500 });
+  }
+  // Note: Don't close storage - using singleton pattern for DuckDB
+}
+export const dynamic = "force-dynamic";
@@ -1,12 +1,18 @@
 'use client';
 
 import { useState } from 'react';
-import { QueryInsightResponse } from '@truthlayer/schema';
+import { getEngine, listEngines, QueryInsightResponse } from '@truthlayer/schema';
 
 // Import benchmark queries
 // Adjust path if benchmark-queries.json is elsewhere in monorepo
 import benchmarkQueries from '../../../../config/benchmark-queries.json';
 
+// Registered engines first, then any other engine the run has results for (e.g. from a collector plugin)
+function engineIds(data: QueryInsightResponse): string[] {
+  const registered = listEngines().map((engine) => engine.id);
+  return [...registered, ...Object.keys(data.engines).filter((engine) => !registered.includes(engine))];
+}
+
 export default function ComparePage() {
   const [selectedQueryId, setSelectedQueryId] = useState<string>('');
   const [selectedRunId, setSelectedRunId] = useState<string>('');
@@ -184,16 +190,15 @@ export default function ComparePage() {
               Engine Outputs
             </h2>
             <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(260px, 1fr))', gap: '1rem' }}>
-              {['google', 'brave', 'duckduckgo', 'perplexity'].map((engine) => (
+              {engineIds(data).map((engine) => (
                 <div key={engine} className="surface">
                   <h3 style={{ 
                     fontSize: '1rem', 
                     fontWeight: '700', 
                     marginBottom: '1rem', 
-                    textTransform: 'capitalize',
                     color: '#3b82f6'
                   }}>
-                    {engine}
+                    {getEngine(engine)?.label ?? engine}
                   </h3>
                   {data.engines[engine] && data.engines[engine].length > 0 ? (
                     <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
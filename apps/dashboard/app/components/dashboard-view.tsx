@@ -21,6 +21,7 @@ import {
   formatValue,
   toCsv,
   calculateTrend,
+  getDeltaSignificance,
   getLatestMetricValue,
   getPreviousMetricValue
 } from '../lib/metrics-helpers';
@@ -41,15 +42,24 @@ interface MetricsResponse {
 const METRIC_LABELS: Record<MetricType, string> = {
   domain_diversity: 'Domain Diversity',
   engine_overlap: 'Engine Overlap',
-  factual_alignment: 'Factual Alignment'
+  factual_alignment: 'Factual Alignment',
+  domain_entropy: 'Domain Entropy',
+  domain_gini: 'Domain Gini',
+  domain_hhi: 'Domain HHI'
 };
 
 const METRIC_DESCRIPTIONS: Record<MetricType, string> = {
   domain_diversity: 'Unique sources returned per query across engines',
   engine_overlap: 'Proportion of shared URLs across engines',
-  factual_alignment: 'Factual agreement score derived from annotations'
+  factual_alignment: 'Factual agreement score derived from annotations',
+  domain_entropy: 'Shannon entropy of domain share in bits (higher = more spread out)',
+  domain_gini: 'Inequality of results across returned domains (0 = even)',
+  domain_hhi: 'Sum of squared domain shares (1 = a single domain)'
 };
 
+const SUMMARY_METRICS: MetricType[] = ['domain_diversity', 'engine_overlap', 'factual_alignment'];
+const CONCENTRATION_METRICS: MetricType[] = ['domain_entropy', 'domain_gini', 'domain_hhi'];
+
 const REFRESH_INTERVAL_MS = 60_000;
 
 type DashboardState = {
@@ -144,7 +154,10 @@ export function DashboardView() {
     const metrics: Record<MetricType, MetricRecord[]> = {
       domain_diversity: (data.metrics.domain_diversity ?? []).filter(filterRecord),
       engine_overlap: (data.metrics.engine_overlap ?? []).filter(filterRecord),
-      factual_alignment: (data.metrics.factual_alignment ?? []).filter(filterRecord)
+      factual_alignment: (data.metrics.factual_alignment ?? []).filter(filterRecord),
+      domain_entropy: (data.metrics.domain_entropy ?? []).filter(filterRecord),
+      domain_gini: (data.metrics.domain_gini ?? []).filter(filterRecord),
+      domain_hhi: (data.metrics.domain_hhi ?? []).filter(filterRecord)
     };
 
     return {
@@ -163,7 +176,7 @@ export function DashboardView() {
         let value: number | null = record.value;
 
         if (selectedEngine !== 'all') {
-          if (metricType === 'domain_diversity') {
+          if (CONCENTRATION_METRICS.includes(metricType) || metricType === 'domain_diversity') {
             value = extractPerEngineValue(record.extra ?? null, selectedEngine);
           } else if (metricType === 'engine_overlap') {
             value = extractPairwiseOverlap(record.extra ?? null, selectedEngine);
@@ -201,13 +214,16 @@ export function DashboardView() {
     return {
       domain: buildDataset('domain_diversity'),
       overlap: buildDataset('engine_overlap'),
-      factual: buildDataset('factual_alignment')
+      factual: buildDataset('factual_alignment'),
+      entropy: buildDataset('domain_entropy'),
+      gini: buildDataset('domain_gini'),
+      hhi: buildDataset('domain_hhi')
     };
   }, [buildDataset]);
 
   const latestSnapshot = useMemo(() => {
     if (!state.data) return null;
-    const snapshot: Record<MetricType, DatasetPoint | undefined> = {
+    const snapshot: Partial<Record<MetricType, DatasetPoint>> = {
       domain_diversity: chartData.domain.at(-1),
       engine_overlap: chartData.overlap.at(-1),
       factual_alignment: chartData.factual.at(-1)
@@ -218,7 +234,7 @@ export function DashboardView() {
   const csvExport = useCallback(() => {
     if (!state.data) return;
     const rows: Record<string, unknown>[] = [];
-    (['domain_diversity', 'engine_overlap', 'factual_alignment'] as MetricType[]).forEach((metric) => {
+    ([...SUMMARY_METRICS, ...CONCENTRATION_METRICS] as MetricType[]).forEach((metric) => {
       buildDataset(metric).forEach((point) => {
         rows.push({
           metric,
@@ -336,16 +352,18 @@ export function DashboardView() {
     );
   };
 
-  const summaryCards = (['domain_diversity', 'engine_overlap', 'factual_alignment'] as MetricType[]).map((metric) => {
+  const summaryCards = SUMMARY_METRICS.map((metric) => {
     const point = latestSnapshot?.[metric];
     const dataset = buildDataset(metric);
     
     // Calculate trend if we have at least 2 data points
     let trend = null;
     if (dataset.length >= 2) {
-      const latest = dataset[dataset.length - 1].value;
+      const latestPoint = dataset[dataset.length - 1];
       const previous = dataset[dataset.length - 2].value;
-      trend = calculateTrend(latest, previous);
+      // Significance is computed on the stored series, so it only applies when the values are not re-derived per engine
+      const significant = selectedEngine === 'all' ? getDeltaSignificance(latestPoint.raw.extra) : null;
+      trend = calculateTrend(latestPoint.value, previous, significant);
     }
     
     return (
@@ -363,7 +381,9 @@ export function DashboardView() {
                 color: trend.color,
                 verticalAlign: 'middle'
               }}
-              title={`${trend.direction} ${trend.displayChange} since last run`}
+              title={`${trend.direction} ${trend.displayChange} since last run${
+                trend.significant === false ? ' (not statistically significant)' : ''
+              }`}
             >
               {trend.arrow}
             </span>
@@ -373,6 +393,7 @@ export function DashboardView() {
           {trend ? (
             <span style={{ color: trend.color, fontWeight: '600' }}>
               {trend.displayChange} vs previous run
+              {trend.significant === false ? ' (not significant)' : ''}
             </span>
           ) : dataset.length > 0 ? (
             'No prior comparison'
@@ -493,6 +514,12 @@ export function DashboardView() {
         {renderChart('factual', 'Factual Alignment', 'factual_alignment', chartData.factual, '#f97316')}
       </section>
 
+      <section className="grid grid-2" style={{ marginBottom: '1.5rem' }}>
+        {renderChart('entropy', 'Domain Entropy', 'domain_entropy', chartData.entropy, '#a78bfa')}
+        {renderChart('gini', 'Domain Gini', 'domain_gini', chartData.gini, '#f472b6')}
+        {renderChart('hhi', 'Domain HHI', 'domain_hhi', chartData.hhi, '#facc15')}
+      </section>
+
       <section className="card">
         <h3 style={{ marginBottom: '1rem' }}>Latest Runs</h3>
         <div className="table-wrapper">
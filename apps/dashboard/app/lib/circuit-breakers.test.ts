@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { CircuitBreakerRecordInput } from '@truthlayer/storage';
+import { summarizeCircuitBreakers } from './circuit-breakers';
+
+const NOW = new Date('2025-03-10T12:00:00Z');
+
+function breaker(overrides: Partial<CircuitBreakerRecordInput>): CircuitBreakerRecordInput {
+  return {
+    engine: 'perplexity',
+    proxy: '',
+    state: 'closed',
+    failureCount: 0,
+    consecutiveOpens: 0,
+    lastReason: null,
+    lastError: null,
+    openedAt: null,
+    retryAt: null,
+    updatedAt: new Date('2025-03-10T11:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('summarizeCircuitBreakers', () => {
+  it('lists open breakers first and shows a finished cooldown as half open', () => {
+    const summary = summarizeCircuitBreakers(
+      [
+        breaker({ engine: 'brave' }),
+        breaker({
+          engine: 'duckduckgo',
+          state: 'open',
+          failureCount: 3,
+          consecutiveOpens: 1,
+          lastReason: 'bot_check',
+          openedAt: new Date('2025-03-10T11:00:00Z'),
+          retryAt: new Date('2025-03-10T11:05:00Z')
+        }),
+        breaker({
+          proxy: 'de.proxy.example:8080',
+          state: 'open',
+          failureCount: 3,
+          consecutiveOpens: 2,
+          lastReason: 'rate_limited',
+          openedAt: new Date('2025-03-10T11:50:00Z'),
+          retryAt: new Date('2025-03-10T12:00:10Z')
+        })
+      ],
+      { now: NOW }
+    );
+
+    expect(summary.map((entry) => [entry.engine, entry.proxy, entry.state])).toEqual([
+      ['perplexity', 'de.proxy.example:8080', 'open'],
+      ['duckduckgo', null, 'half_open'],
+      ['brave', null, 'closed']
+    ]);
+    expect(summary[0].retryAt).toBe('2025-03-10T12:00:10.000Z');
+  });
+});
@@ -0,0 +1,50 @@
+import type { CircuitBreakerRecordInput, CircuitBreakerState } from "@truthlayer/storage";
+
+export interface CircuitBreakerSummary {
+  engine: string;
+  /** Proxy hosts the engine is reached through; null when reached directly. */
+  proxy: string | null;
+  /**
+   * The state as of `now`: an open breaker whose cooldown has passed shows as
+   * `half_open`, since the collector's next request to it is a trial.
+   */
+  state: CircuitBreakerState;
+  failureCount: number;
+  consecutiveOpens: number;
+  lastReason: string | null;
+  lastError: string | null;
+  openedAt: string | null;
+  retryAt: string | null;
+  updatedAt: string;
+}
+
+const STATE_ORDER: Record<CircuitBreakerState, number> = { open: 0, half_open: 1, closed: 2 };
+
+/** Circuit breakers as the dashboard shows them, open ones first. */
+export function summarizeCircuitBreakers(
+  records: CircuitBreakerRecordInput[],
+  { now }: { now: Date }
+): CircuitBreakerSummary[] {
+  return records
+    .map((record) => ({
+      engine: record.engine,
+      proxy: record.proxy || null,
+      state:
+        record.state === "open" && record.retryAt && record.retryAt.getTime() <= now.getTime()
+          ? ("half_open" as const)
+          : record.state,
+      failureCount: record.failureCount,
+      consecutiveOpens: record.consecutiveOpens,
+      lastReason: record.lastReason,
+      lastError: record.lastError,
+      openedAt: record.openedAt?.toISOString() ?? null,
+      retryAt: record.retryAt?.toISOString() ?? null,
+      updatedAt: record.updatedAt.toISOString()
+    }))
+    .sort(
+      (a, b) =>
+        STATE_ORDER[a.state] - STATE_ORDER[b.state] ||
+        a.engine.localeCompare(b.engine) ||
+        (a.proxy ?? "").localeCompare(b.proxy ?? "")
+    );
+}
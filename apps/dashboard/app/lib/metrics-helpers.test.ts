@@ -2,6 +2,8 @@ import { describe, expect, it } from 'vitest';
 import {
   average,
   buildAggregateMap,
+  calculateTrend,
+  getDeltaSignificance,
   computeFactualAlignmentFromAggregates,
   extractPerEngineValue,
   extractPairwiseOverlap,
@@ -15,6 +17,8 @@ describe('metrics helpers', () => {
     expect(formatValue(5.234, 'domain_diversity')).toBe('5.2');
     expect(formatValue(0.4123, 'engine_overlap')).toBe('41.2%');
     expect(formatValue(null, 'engine_overlap')).toBe('–');
+    expect(formatValue(0.8234, 'domain_hhi')).toBe('0.82');
+    expect(formatValue(3.3219, 'domain_entropy')).toBe('3.3');
   });
 
   it('extracts per-engine diversity values', () => {
@@ -98,5 +102,22 @@ describe('metrics helpers', () => {
     expect(average([1, 2, 3])).toBe(2);
     expect(average([])).toBeNull();
   });
-});
 
+  it('reads delta significance from metric extras', () => {
+    expect(getDeltaSignificance({ deltaSignificance: { pValue: 0.01, significant: true } })).toBe(true);
+    expect(getDeltaSignificance({ deltaSignificance: { pValue: 0.4, significant: false } })).toBe(false);
+    expect(getDeltaSignificance({ perEngine: {} })).toBeNull();
+    expect(getDeltaSignificance(null)).toBeNull();
+  });
+
+  it('only highlights trends that pass the significance threshold', () => {
+    expect(calculateTrend(0.8, 0.6).direction).toBe('up');
+    expect(calculateTrend(0.8, 0.6, true).direction).toBe('up');
+
+    const noisy = calculateTrend(0.8, 0.6, false);
+    expect(noisy.direction).toBe('stable');
+    expect(noisy.arrow).toBe('→');
+    expect(noisy.displayChange).toBe('+33.3%');
+    expect(noisy.significant).toBe(false);
+  });
+});
@@ -1,6 +1,12 @@
 import type { AnnotationAggregate } from "../types";
 
-export type MetricType = "domain_diversity" | "engine_overlap" | "factual_alignment";
+export type MetricType =
+  | "domain_diversity"
+  | "engine_overlap"
+  | "factual_alignment"
+  | "domain_entropy"
+  | "domain_gini"
+  | "domain_hhi";
 
 export function average(values: number[]): number | null {
   if (!values.length) return null;
@@ -14,6 +20,10 @@ export function formatValue(value: number | null, metric: MetricType): string {
   if (percentageMetrics.includes(metric)) {
     return `${(value * 100).toFixed(1)}%`;
   }
+  const indexMetrics: MetricType[] = ["domain_gini", "domain_hhi"];
+  if (indexMetrics.includes(metric)) {
+    return value.toFixed(2);
+  }
   return value.toFixed(1);
 }
 
@@ -89,10 +99,24 @@ export function toCsv(rows: Array<Record<string, unknown>>) {
   return lines.join("\n");
 }
 
+/**
+ * Read the bootstrap significance flag the metrics app stores with each delta
+ * @param extra - Metric record extra payload
+ * @returns true/false when a significance test ran, null when none is available
+ */
+export function getDeltaSignificance(extra: Record<string, unknown> | null | undefined): boolean | null {
+  if (!extra || typeof extra !== "object") return null;
+  const significance = (extra as Record<string, unknown>).deltaSignificance;
+  if (!significance || typeof significance !== "object") return null;
+  const flag = (significance as Record<string, unknown>).significant;
+  return typeof flag === "boolean" ? flag : null;
+}
+
 /**
  * Calculate trend direction and percentage change between two values
  * @param current - Current metric value
  * @param previous - Previous metric value
+ * @param significant - Bootstrap significance of the change; `false` forces a stable trend
  * @returns Trend info with direction, percentage change, and display values
  * 
  * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Math/sign
@@ -103,9 +127,10 @@ export interface TrendInfo {
   arrow: '↑' | '↓' | '→';
   color: string;
   displayChange: string;
+  significant: boolean | null;
 }
 
-export function calculateTrend(current: number, previous: number): TrendInfo {
+export function calculateTrend(current: number, previous: number, significant: boolean | null = null): TrendInfo {
   const diff = current - previous;
   const percentChange = previous !== 0 ? (diff / previous) * 100 : 0;
   
@@ -116,7 +141,8 @@ export function calculateTrend(current: number, previous: number): TrendInfo {
   let arrow: TrendInfo['arrow'] = '→';
   let color = '#94a3b8'; // gray for stable
   
-  if (Math.abs(percentChange) >= threshold) {
+  // Changes that failed the significance test are treated as noise
+  if (Math.abs(percentChange) >= threshold && significant !== false) {
     if (diff > 0) {
       direction = 'up';
       arrow = '↑';
@@ -137,7 +163,8 @@ export function calculateTrend(current: number, previous: number): TrendInfo {
     percentChange,
     arrow,
     color,
-    displayChange
+    displayChange,
+    significant
   };
 }
 
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { SelectorHealthRecordInput } from '@truthlayer/storage';
+import { summarizeSelectorHealth } from './selector-health';
+
+const NOW = new Date('2025-03-10T12:00:00Z');
+
+function day(date: string, selector: string, successCount: number, failCount: number): SelectorHealthRecordInput {
+  const bucketDate = new Date(`${date}T00:00:00Z`);
+  return {
+    engine: 'perplexity',
+    selectorGroup: 'results',
+    selector,
+    bucketDate,
+    successCount,
+    failCount,
+    lastSuccessAt: successCount ? new Date(`${date}T10:00:00Z`) : null,
+    lastFailureAt: failCount ? new Date(`${date}T11:00:00Z`) : null,
+    configVersion: '2025-11-11',
+    updatedAt: bucketDate
+  };
+}
+
+describe('summarizeSelectorHealth', () => {
+  it('flags failing and degrading selectors ahead of healthy ones', () => {
+    const summary = summarizeSelectorHealth(
+      [
+        day('2025-03-05', 'main a', 10, 0),
+        day('2025-03-10', 'main a', 6, 4),
+        day('2025-03-05', 'article a', 10, 0),
+        day('2025-03-09', 'article a', 0, 5),
+        day('2025-03-10', '.prose a', 9, 1),
+        day('2025-03-04', 'sup a', 3, 0)
+      ],
+      { now: NOW }
+    );
+
+    expect(summary.map((entry) => [entry.selector, entry.status])).toEqual([
+      ['article a', 'failing'],
+      ['main a', 'degrading'],
+      ['.prose a', 'healthy'],
+      ['sup a', 'idle']
+    ]);
+    expect(summary[1]).toMatchObject({
+      recentRate: 0.6,
+      baselineRate: 1,
+      recentAttempts: 10,
+      baselineAttempts: 10,
+      lastSuccessAt: '2025-03-10T10:00:00.000Z',
+      lastFailureAt: '2025-03-10T11:00:00.000Z'
+    });
+  });
+
+  it('does not flag a selector on too few recent attempts', () => {
+    const [entry] = summarizeSelectorHealth(
+      [day('2025-03-01', 'main a', 20, 0), day('2025-03-10', 'main a', 0, 2)],
+      { now: NOW }
+    );
+
+    expect(entry.status).toBe('healthy');
+    expect(entry.recentRate).toBe(0);
+  });
+});
@@ -0,0 +1,155 @@
+import type { SelectorHealthRecordInput } from "@truthlayer/storage";
+
+export type SelectorStatus = "healthy" | "degrading" | "failing" | "idle";
+
+export interface SelectorHealthSummary {
+  engine: string;
+  selectorGroup: string;
+  selector: string;
+  status: SelectorStatus;
+  /** Success rate over the last `recentDays`; null when the selector was not tried. */
+  recentRate: number | null;
+  /** Success rate over the rest of the window. */
+  baselineRate: number | null;
+  recentAttempts: number;
+  baselineAttempts: number;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  configVersion: string | null;
+}
+
+export interface SummarizeSelectorHealthOptions {
+  now: Date;
+  /** Days (including today, UTC) counted as "recent"; earlier days form the baseline. */
+  recentDays?: number;
+  /** Recent attempts needed before a selector can be flagged. */
+  minAttempts?: number;
+  /** Drop from baseline to recent success rate that counts as degrading. */
+  degradationThreshold?: number;
+  /** Recent success rate below which a selector is failing. */
+  failingRate?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_ORDER: Record<SelectorStatus, number> = { failing: 0, degrading: 1, healthy: 2, idle: 3 };
+
+function rate(successes: number, attempts: number): number | null {
+  return attempts ? successes / attempts : null;
+}
+
+function latest(a: Date | null, b: Date | null): Date | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+/**
+ * Rolls daily selector counts up per selector and flags the ones whose recent
+ * success rate is low (failing) or has dropped against the earlier days in the
+ * window (degrading). Worst first.
+ */
+export function summarizeSelectorHealth(
+  records: SelectorHealthRecordInput[],
+  {
+    now,
+    recentDays = 2,
+    minAttempts = 3,
+    degradationThreshold = 0.2,
+    failingRate = 0.2
+  }: SummarizeSelectorHealthOptions
+): SelectorHealthSummary[] {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const recentSince = today - (recentDays - 1) * DAY_MS;
+
+  const grouped = new Map<
+    string,
+    {
+      engine: string;
+      selectorGroup: string;
+      selector: string;
+      recentSuccess: number;
+      recentAttempts: number;
+      baselineSuccess: number;
+      baselineAttempts: number;
+      lastSuccessAt: Date | null;
+      lastFailureAt: Date | null;
+      configVersion: string | null;
+      updatedAt: Date;
+    }
+  >();
+
+  for (const record of records) {
+    const key = `${record.engine}|${record.selectorGroup}|${record.selector}`;
+    const entry = grouped.get(key) ?? {
+      engine: record.engine,
+      selectorGroup: record.selectorGroup,
+      selector: record.selector,
+      recentSuccess: 0,
+      recentAttempts: 0,
+      baselineSuccess: 0,
+      baselineAttempts: 0,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      configVersion: record.configVersion,
+      updatedAt: record.updatedAt
+    };
+
+    const attempts = record.successCount + record.failCount;
+    if (record.bucketDate.getTime() >= recentSince) {
+      entry.recentSuccess += record.successCount;
+      entry.recentAttempts += attempts;
+    } else {
+      entry.baselineSuccess += record.successCount;
+      entry.baselineAttempts += attempts;
+    }
+    entry.lastSuccessAt = latest(entry.lastSuccessAt, record.lastSuccessAt);
+    entry.lastFailureAt = latest(entry.lastFailureAt, record.lastFailureAt);
+    if (record.updatedAt > entry.updatedAt) {
+      entry.updatedAt = record.updatedAt;
+      entry.configVersion = record.configVersion;
+    }
+    grouped.set(key, entry);
+  }
+
+  return Array.from(grouped.values())
+    .map((entry) => {
+      const recentRate = rate(entry.recentSuccess, entry.recentAttempts);
+      const baselineRate = rate(entry.baselineSuccess, entry.baselineAttempts);
+
+      let status: SelectorStatus = "healthy";
+      if (recentRate === null) {
+        status = "idle";
+      } else if (entry.recentAttempts >= minAttempts && recentRate < failingRate) {
+        status = "failing";
+      } else if (
+        entry.recentAttempts >= minAttempts &&
+        baselineRate !== null &&
+        baselineRate - recentRate >= degradationThreshold
+      ) {
+        status = "degrading";
+      }
+
+      return {
+        engine: entry.engine,
+        selectorGroup: entry.selectorGroup,
+        selector: entry.selector,
+        status,
+        recentRate,
+        baselineRate,
+        recentAttempts: entry.recentAttempts,
+        baselineAttempts: entry.baselineAttempts,
+        lastSuccessAt: entry.lastSuccessAt?.toISOString() ?? null,
+        lastFailureAt: entry.lastFailureAt?.toISOString() ?? null,
+        configVersion: entry.configVersion
+      };
+    })
+    .sort(
+      (a, b) =>
+        STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+        (a.recentRate ?? 1) - (b.recentRate ?? 1) ||
+        a.engine.localeCompare(b.engine) ||
+        a.selectorGroup.localeCompare(b.selectorGroup) ||
+        a.selector.localeCompare(b.selector)
+    );
+}
@@ -31,12 +31,82 @@ interface AccuracySummary {
   accuracy: number;
 }
 
+interface MetricAnomaly {
+  id: string;
+  runId: string;
+  queryId: string;
+  query: string | null;
+  topic: string | null;
+  engine: string | null;
+  metricType: string;
+  value: number;
+  baseline: number;
+  lowerBound: number;
+  upperBound: number;
+  score: number;
+  direction: 'drop' | 'spike';
+  severity: 'warning' | 'critical';
+  collectedAt: string;
+}
+
 interface MonitoringResponse {
   runs: PipelineRun[];
   accuracyByRun: Record<string, AccuracySummary>;
+  anomalies: MetricAnomaly[];
+  generatedAt: string;
+}
+
+interface SelectorHealth {
+  engine: string;
+  selectorGroup: string;
+  selector: string;
+  status: 'healthy' | 'degrading' | 'failing' | 'idle';
+  recentRate: number | null;
+  baselineRate: number | null;
+  recentAttempts: number;
+  baselineAttempts: number;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  configVersion: string | null;
+}
+
+interface SelectorsResponse {
+  selectors: SelectorHealth[];
+  windowDays: number;
   generatedAt: string;
 }
 
+interface CircuitBreaker {
+  engine: string;
+  proxy: string | null;
+  state: 'closed' | 'open' | 'half_open';
+  failureCount: number;
+  consecutiveOpens: number;
+  lastReason: string | null;
+  lastError: string | null;
+  openedAt: string | null;
+  retryAt: string | null;
+  updatedAt: string;
+}
+
+interface BreakersResponse {
+  breakers: CircuitBreaker[];
+  generatedAt: string;
+}
+
+const BREAKER_STATE_COLORS: Record<CircuitBreaker['state'], string> = {
+  open: '#ef4444',
+  half_open: '#f59e0b',
+  closed: '#10b981'
+};
+
+const SELECTOR_STATUS_COLORS: Record<SelectorHealth['status'], string> = {
+  failing: '#ef4444',
+  degrading: '#f59e0b',
+  healthy: '#10b981',
+  idle: '#6b7280'
+};
+
 interface DashboardState {
   loading: boolean;
   error?: string;
@@ -52,6 +122,10 @@ function formatPercentage(value: number) {
   return `${(value * 100).toFixed(1)}%`;
 }
 
+function formatMetricValue(value: number) {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(3);
+}
+
 function formatDuration(startedAt: string, completedAt: string | null) {
   if (!completedAt) return 'In progress...';
   const start = new Date(startedAt).getTime();
@@ -93,6 +167,8 @@ function computeSummaryStats(runs: PipelineRun[]) {
 
 export function MonitoringView() {
   const [state, setState] = useState<DashboardState>({ loading: true });
+  const [selectorHealth, setSelectorHealth] = useState<SelectorsResponse | null>(null);
+  const [breakerState, setBreakerState] = useState<BreakersResponse | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(true);
 
   useEffect(() => {
@@ -106,6 +182,26 @@ export function MonitoringView() {
         console.error('monitoring fetch failed', error);
         setState({ loading: false, error: 'Unable to load monitoring data' });
       }
+
+      // Selector health is optional; the rest of the page renders without it
+      try {
+        const response = await fetch('/api/selectors');
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        setSelectorHealth((await response.json()) as SelectorsResponse);
+      } catch (error) {
+        console.error('selector health fetch failed', error);
+        setSelectorHealth(null);
+      }
+
+      // Circuit breakers are optional too
+      try {
+        const response = await fetch('/api/breakers');
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        setBreakerState((await response.json()) as BreakersResponse);
+      } catch (error) {
+        console.error('circuit breaker fetch failed', error);
+        setBreakerState(null);
+      }
     };
 
     void fetchData();
@@ -141,8 +237,14 @@ export function MonitoringView() {
     );
   }
 
-  const { runs, accuracyByRun, generatedAt } = state.data;
+  const { runs, accuracyByRun, anomalies, generatedAt } = state.data;
   const stats = computeSummaryStats(runs);
+  const selectors = selectorHealth?.selectors ?? [];
+  const flaggedSelectors = selectors.filter(
+    (selector) => selector.status === 'failing' || selector.status === 'degrading'
+  ).length;
+  const breakers = breakerState?.breakers ?? [];
+  const pausedEngines = breakers.filter((breaker) => breaker.state !== 'closed').length;
 
   return (
     <main className="container">
@@ -276,6 +378,199 @@ export function MonitoringView() {
         </div>
       </section>
 
+      <section className="card" style={{ marginBottom: '1.5rem' }}>
+        <h3 style={{ marginBottom: '1rem' }}>Metric Anomalies</h3>
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>Collected</th>
+                <th>Query</th>
+                <th>Engine</th>
+                <th>Metric</th>
+                <th>Value</th>
+                <th>Expected Range</th>
+                <th>Score</th>
+                <th>Severity</th>
+              </tr>
+            </thead>
+            <tbody>
+              {anomalies.length ? (
+                anomalies.map((anomaly) => (
+                  <tr key={anomaly.id}>
+                    <td>{formatDate(anomaly.collectedAt)}</td>
+                    <td>
+                      {anomaly.query ?? (
+                        <span style={{ fontFamily: 'monospace', fontSize: '0.875rem' }}>
+                          {anomaly.queryId.slice(0, 8)}...
+                        </span>
+                      )}
+                      {anomaly.topic ? <span style={{ color: '#6b7280' }}> ({anomaly.topic})</span> : null}
+                    </td>
+                    <td>{anomaly.engine ?? 'All engines'}</td>
+                    <td>{anomaly.metricType}</td>
+                    <td>
+                      {formatMetricValue(anomaly.value)} {anomaly.direction === 'drop' ? '▼' : '▲'}
+                    </td>
+                    <td>
+                      {formatMetricValue(anomaly.lowerBound)} – {formatMetricValue(anomaly.upperBound)}
+                    </td>
+                    <td>{anomaly.score.toFixed(1)}</td>
+                    <td>
+                      <span className="status-pill" style={{
+                        background: anomaly.severity === 'critical' ? '#ef4444' : '#f59e0b',
+                        color: 'white',
+                        padding: '0.25rem 0.75rem',
+                        borderRadius: '1rem',
+                        fontSize: '0.75rem',
+                        fontWeight: '500'
+                      }}>
+                        {anomaly.severity}
+                      </span>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={8} style={{ textAlign: 'center', padding: '2rem 0' }}>
+                    No metric anomalies detected
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="card" style={{ marginBottom: '1.5rem' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>Engine Circuit Breakers</h3>
+        <p className="header-subtitle" style={{ marginBottom: '1rem' }}>
+          {breakerState
+            ? `${pausedEngines} of ${breakers.length} engines paused after bot checks or rate limiting.`
+            : 'Circuit breakers unavailable.'}
+        </p>
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>Engine</th>
+                <th>Proxy</th>
+                <th>State</th>
+                <th>Recent Blocks</th>
+                <th>Times Opened</th>
+                <th>Last Block</th>
+                <th>Opened</th>
+                <th>Retry At</th>
+              </tr>
+            </thead>
+            <tbody>
+              {breakers.length ? (
+                breakers.map((breaker) => (
+                  <tr key={`${breaker.engine}|${breaker.proxy ?? ''}`}>
+                    <td>{breaker.engine}</td>
+                    <td style={{ fontFamily: 'monospace', fontSize: '0.875rem' }}>{breaker.proxy ?? 'direct'}</td>
+                    <td>
+                      <span className="status-pill" style={{
+                        background: BREAKER_STATE_COLORS[breaker.state],
+                        color: 'white',
+                        padding: '0.25rem 0.75rem',
+                        borderRadius: '1rem',
+                        fontSize: '0.75rem',
+                        fontWeight: '500'
+                      }}>
+                        {breaker.state.replace('_', ' ')}
+                      </span>
+                    </td>
+                    <td>{breaker.failureCount}</td>
+                    <td>{breaker.consecutiveOpens}</td>
+                    <td style={{
+                      maxWidth: '240px',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap'
+                    }} title={breaker.lastError ?? undefined}>
+                      {breaker.lastReason ?? '—'}
+                    </td>
+                    <td>{formatDate(breaker.openedAt)}</td>
+                    <td>{breaker.state === 'closed' ? '—' : formatDate(breaker.retryAt)}</td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={8} style={{ textAlign: 'center', padding: '2rem 0' }}>
+                    No engine has been blocked yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="card" style={{ marginBottom: '1.5rem' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>Selector Health</h3>
+        <p className="header-subtitle" style={{ marginBottom: '1rem' }}>
+          {selectorHealth
+            ? `${flaggedSelectors} of ${selectors.length} selectors degrading or failing over the last ${selectorHealth.windowDays} days.`
+            : 'Selector health unavailable.'}
+        </p>
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>Engine</th>
+                <th>Group</th>
+                <th>Selector</th>
+                <th>Recent</th>
+                <th>Baseline</th>
+                <th>Last Success</th>
+                <th>Last Failure</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selectors.length ? (
+                selectors.map((selector) => (
+                  <tr key={`${selector.engine}|${selector.selectorGroup}|${selector.selector}`}>
+                    <td>{selector.engine}</td>
+                    <td>{selector.selectorGroup}</td>
+                    <td style={{ fontFamily: 'monospace', fontSize: '0.875rem' }}>{selector.selector}</td>
+                    <td>
+                      {selector.recentRate === null ? '—' : formatPercentage(selector.recentRate)}
+                      <span style={{ color: '#6b7280' }}> ({selector.recentAttempts})</span>
+                    </td>
+                    <td>
+                      {selector.baselineRate === null ? '—' : formatPercentage(selector.baselineRate)}
+                      <span style={{ color: '#6b7280' }}> ({selector.baselineAttempts})</span>
+                    </td>
+                    <td>{formatDate(selector.lastSuccessAt)}</td>
+                    <td>{formatDate(selector.lastFailureAt)}</td>
+                    <td>
+                      <span className="status-pill" style={{
+                        background: SELECTOR_STATUS_COLORS[selector.status],
+                        color: 'white',
+                        padding: '0.25rem 0.75rem',
+                        borderRadius: '1rem',
+                        fontSize: '0.75rem',
+                        fontWeight: '500'
+                      }}>
+                        {selector.status}
+                      </span>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={8} style={{ textAlign: 'center', padding: '2rem 0' }}>
+                    No selector outcomes recorded yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
       <section className="card">
         <h3 style={{ marginBottom: '1rem' }}>Stage Details</h3>
         {runs.map((run) => (
@@ -1,4 +1,10 @@
-export type MetricType = "domain_diversity" | "engine_overlap" | "factual_alignment";
+export type MetricType =
+  | "domain_diversity"
+  | "engine_overlap"
+  | "factual_alignment"
+  | "domain_entropy"
+  | "domain_gini"
+  | "domain_hhi";
 
 export type MetricRecord = {
   id: string;
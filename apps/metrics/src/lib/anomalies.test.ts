@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectMetricAnomalies,
+  median,
+  medianAbsoluteDeviation,
+  MetricObservation,
+  toMetricAnomalyRecordInputs
+} from "./anomalies";
+
+const QUERY_ID = "11111111-1111-1111-1111-111111111111";
+
+function observation(day: number, value: number, overrides: Partial<MetricObservation> = {}): MetricObservation {
+  return {
+    runId: `run-${day}`,
+    queryId: QUERY_ID,
+    engine: "perplexity",
+    metricType: "factual_alignment",
+    value,
+    collectedAt: new Date(Date.UTC(2025, 0, day)),
+    ...overrides
+  };
+}
+
+const history = [0.9, 0.92, 0.88, 0.91, 0.9].map((value, index) => observation(index + 1, value));
+
+describe("robust statistics", () => {
+  it("computes the median and MAD", () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(medianAbsoluteDeviation([0.9, 0.92, 0.88, 0.91, 0.9])).toBeCloseTo(0.01, 10);
+  });
+});
+
+describe("detectMetricAnomalies", () => {
+  it("flags a sudden drop against the median/MAD baseline", () => {
+    const [anomaly, ...rest] = detectMetricAnomalies([observation(6, 0.4)], history);
+
+    expect(rest).toHaveLength(0);
+    expect(anomaly).toMatchObject({
+      runId: "run-6",
+      engine: "perplexity",
+      metricType: "factual_alignment",
+      direction: "drop",
+      severity: "critical",
+      historyCount: 5
+    });
+    expect(anomaly.baseline).toBeCloseTo(0.9, 10);
+    // Scaled MAD (0.0148) is below the 5% relative floor, so the floor applies
+    expect(anomaly.scale).toBeCloseTo(0.045, 10);
+    expect(anomaly.score).toBeCloseTo(-0.5 / 0.045, 10);
+    expect(anomaly.lowerBound).toBeCloseTo(0.9 - 3.5 * 0.045, 10);
+  });
+
+  it("leaves values inside the band alone and grades moderate deviations as warnings", () => {
+    expect(detectMetricAnomalies([observation(6, 0.85)], history)).toHaveLength(0);
+
+    const [warning] = detectMetricAnomalies([observation(6, 0.7)], history);
+    expect(warning).toMatchObject({ direction: "drop", severity: "warning" });
+
+    const [spike] = detectMetricAnomalies([observation(6, 1.2)], history);
+    expect(spike).toMatchObject({ direction: "spike", severity: "warning" });
+  });
+
+  it("waits for enough history and keeps series apart", () => {
+    expect(detectMetricAnomalies([observation(6, 0.4)], history.slice(0, 4))).toHaveLength(0);
+    expect(detectMetricAnomalies([observation(6, 0.4, { engine: "google" })], history)).toHaveLength(0);
+    expect(detectMetricAnomalies([observation(6, 0.4)], history, { baselineRuns: 3, minHistory: 3 })).toHaveLength(1);
+  });
+
+  it("prefers candidate values over stored history for the same run", () => {
+    const stale = observation(5, 0.1);
+    const candidates = [observation(5, 0.9), observation(6, 0.9)];
+    expect(detectMetricAnomalies(candidates, [...history, stale])).toHaveLength(0);
+  });
+
+  it("builds stable record ids per flagged run", () => {
+    const anomalies = detectMetricAnomalies([observation(6, 0.4)], history);
+    const first = toMetricAnomalyRecordInputs(anomalies, new Date("2025-01-07T00:00:00Z"));
+    const second = toMetricAnomalyRecordInputs(anomalies, new Date("2025-01-08T00:00:00Z"));
+
+    expect(first[0].id).toBe(second[0].id);
+    expect(first[0]).toMatchObject({ crawlRunId: "run-6", direction: "drop", severity: "critical" });
+  });
+});
@@ -0,0 +1,160 @@
+import { hashToUUID } from "@truthlayer/schema";
+import type { MetricAnomalyDirection, MetricAnomalySeverity, MetricRecord } from "@truthlayer/schema";
+import type { MetricAnomalyRecordInput } from "@truthlayer/storage";
+
+/**
+ * Robust anomaly detection over metric time series. Each query x vantage x engine
+ * x metric type series is compared against the median and median absolute
+ * deviation (MAD) of its preceding values, which a single earlier outlier cannot
+ * drag around the way it would a mean and standard deviation.
+ */
+
+export const DEFAULT_ANOMALY_THRESHOLD = 3.5;
+export const DEFAULT_ANOMALY_MIN_HISTORY = 5;
+export const DEFAULT_ANOMALY_BASELINE_RUNS = 30;
+
+/** Scales the MAD to a consistent estimate of the standard deviation for normal data. */
+const MAD_TO_SIGMA = 1.4826;
+/** Floors on the scale so near-constant series don't turn tiny wobbles into huge scores. */
+const RELATIVE_SCALE_FLOOR = 0.05;
+const ABSOLUTE_SCALE_FLOOR = 1e-3;
+
+type MetricType = MetricRecord["metricType"];
+
+export interface MetricObservation {
+  runId: string;
+  queryId: string;
+  vantageId?: string | null;
+  engine: string | null;
+  metricType: MetricType;
+  value: number;
+  collectedAt: Date;
+}
+
+export interface MetricAnomaly extends MetricObservation {
+  /** Median of the preceding values. */
+  baseline: number;
+  /** Robust standard deviation (scaled MAD, floored). */
+  scale: number;
+  /** Robust z-score: (value - baseline) / scale. */
+  score: number;
+  lowerBound: number;
+  upperBound: number;
+  direction: MetricAnomalyDirection;
+  severity: MetricAnomalySeverity;
+  historyCount: number;
+}
+
+export interface AnomalyDetectionOptions {
+  /** Absolute robust z-score above which a value is flagged. */
+  threshold?: number;
+  /** Preceding values required before a series is scored at all. */
+  minHistory?: number;
+  /** How many of the most recent preceding values form the baseline. */
+  baselineRuns?: number;
+}
+
+export function median(values: number[]): number {
+  if (!values.length) return Number.NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function medianAbsoluteDeviation(values: number[], center = median(values)): number {
+  return median(values.map((value) => Math.abs(value - center)));
+}
+
+function observationKey(observation: MetricObservation): string {
+  return `${observation.queryId}|${observation.vantageId ?? ""}|${observation.engine ?? ""}|${observation.metricType}`;
+}
+
+/**
+ * Flags each candidate whose robust z-score against the preceding values of its
+ * series exceeds the threshold. `history` supplies earlier observations (e.g. stored
+ * metric records); a run seen in both keeps the candidate's value. Scores of at
+ * least twice the threshold are marked critical.
+ */
+export function detectMetricAnomalies(
+  candidates: MetricObservation[],
+  history: MetricObservation[],
+  options: AnomalyDetectionOptions = {}
+): MetricAnomaly[] {
+  const threshold = options.threshold ?? DEFAULT_ANOMALY_THRESHOLD;
+  const minHistory = options.minHistory ?? DEFAULT_ANOMALY_MIN_HISTORY;
+  const baselineRuns = options.baselineRuns ?? DEFAULT_ANOMALY_BASELINE_RUNS;
+
+  const seriesByKey = new Map<string, Map<string, MetricObservation>>();
+  for (const observation of [...history, ...candidates]) {
+    const key = observationKey(observation);
+    if (!seriesByKey.has(key)) {
+      seriesByKey.set(key, new Map());
+    }
+    seriesByKey.get(key)!.set(observation.runId, observation);
+  }
+
+  const anomalies: MetricAnomaly[] = [];
+
+  for (const candidate of candidates) {
+    const series = seriesByKey.get(observationKey(candidate))!;
+    const prior = Array.from(series.values())
+      .filter((observation) => observation.collectedAt < candidate.collectedAt && Number.isFinite(observation.value))
+      .sort((a, b) => a.collectedAt.getTime() - b.collectedAt.getTime())
+      .slice(-baselineRuns)
+      .map((observation) => observation.value);
+
+    if (prior.length < minHistory) continue;
+
+    const baseline = median(prior);
+    const scale = Math.max(
+      MAD_TO_SIGMA * medianAbsoluteDeviation(prior, baseline),
+      RELATIVE_SCALE_FLOOR * Math.abs(baseline),
+      ABSOLUTE_SCALE_FLOOR
+    );
+    const score = (candidate.value - baseline) / scale;
+
+    if (Math.abs(score) <= threshold) continue;
+
+    anomalies.push({
+      runId: candidate.runId,
+      queryId: candidate.queryId,
+      engine: candidate.engine,
+      metricType: candidate.metricType,
+      value: candidate.value,
+      collectedAt: candidate.collectedAt,
+      baseline,
+      scale,
+      score,
+      lowerBound: baseline - threshold * scale,
+      upperBound: baseline + threshold * scale,
+      direction: score < 0 ? "drop" : "spike",
+      severity: Math.abs(score) >= 2 * threshold ? "critical" : "warning",
+      historyCount: prior.length
+    });
+  }
+
+  return anomalies;
+}
+
+export function toMetricAnomalyRecordInputs(anomalies: MetricAnomaly[], createdAt: Date): MetricAnomalyRecordInput[] {
+  return anomalies.map((anomaly) => ({
+    id: hashToUUID(
+      ["anomaly", anomaly.queryId, anomaly.engine ?? "all", anomaly.metricType, anomaly.runId].join("|")
+    ),
+    crawlRunId: anomaly.runId,
+    queryId: anomaly.queryId,
+    engine: anomaly.engine,
+    metricType: anomaly.metricType,
+    value: anomaly.value,
+    baseline: anomaly.baseline,
+    scale: anomaly.scale,
+    score: anomaly.score,
+    lowerBound: anomaly.lowerBound,
+    upperBound: anomaly.upperBound,
+    direction: anomaly.direction,
+    severity: anomaly.severity,
+    historyCount: anomaly.historyCount,
+    collectedAt: anomaly.collectedAt,
+    createdAt
+  }));
+}
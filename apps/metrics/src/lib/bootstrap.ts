@@ -0,0 +1,128 @@
+/**
+ * Percentile bootstrap helpers used to attach uncertainty to metric values and
+ * run-over-run deltas. All resampling goes through a seeded PRNG so a given
+ * input always yields the same intervals.
+ */
+
+export const DEFAULT_BOOTSTRAP_ITERATIONS = 500;
+export const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+export const DEFAULT_SIGNIFICANCE_LEVEL = 0.05;
+export const DEFAULT_BOOTSTRAP_SEED = 20250101;
+
+export type Random = () => number;
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+  level: number;
+  iterations: number;
+}
+
+export interface DeltaSignificance extends ConfidenceInterval {
+  pValue: number;
+  significant: boolean;
+  alpha: number;
+}
+
+export interface BootstrapOptions {
+  iterations?: number;
+  confidenceLevel?: number;
+  alpha?: number;
+  random?: Random;
+}
+
+/** mulberry32: small, fast and good enough for resampling. */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Hashes a string into a 32-bit seed so each series gets its own stream. */
+export function seedFromString(value: string, base = DEFAULT_BOOTSTRAP_SEED): number {
+  let hash = base >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function resample<T>(items: T[], random: Random): T[] {
+  return Array.from({ length: items.length }, () => items[Math.floor(random() * items.length)]);
+}
+
+function percentile(sorted: number[], q: number): number {
+  if (!sorted.length) return Number.NaN;
+  const position = (sorted.length - 1) * q;
+  const lowerIndex = Math.floor(position);
+  const upperIndex = Math.ceil(position);
+  const weight = position - lowerIndex;
+  return sorted[lowerIndex] * (1 - weight) + sorted[upperIndex] * weight;
+}
+
+function interval(samples: number[], level: number): { lower: number; upper: number } {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const tail = (1 - level) / 2;
+  return { lower: percentile(sorted, tail), upper: percentile(sorted, 1 - tail) };
+}
+
+/**
+ * Percentile bootstrap interval for `statistic` over `items`.
+ * Returns null for empty inputs, where no resample can be drawn.
+ */
+export function bootstrapInterval<T>(
+  items: T[],
+  statistic: (sample: T[]) => number,
+  options: BootstrapOptions = {}
+): ConfidenceInterval | null {
+  if (!items.length) return null;
+
+  const iterations = options.iterations ?? DEFAULT_BOOTSTRAP_ITERATIONS;
+  const level = options.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL;
+  const random = options.random ?? createRandom(DEFAULT_BOOTSTRAP_SEED);
+
+  const samples = Array.from({ length: iterations }, () => statistic(resample(items, random)));
+  return { ...interval(samples, level), level, iterations };
+}
+
+/**
+ * Bootstraps the difference `statistic(current) - statistic(previous)` by resampling
+ * both runs independently. The two-sided p-value is twice the smaller share of
+ * resampled deltas on either side of zero, capped at 1.
+ */
+export function bootstrapDelta<T>(
+  previous: T[],
+  current: T[],
+  statistic: (sample: T[]) => number,
+  options: BootstrapOptions = {}
+): DeltaSignificance | null {
+  if (!previous.length || !current.length) return null;
+
+  const iterations = options.iterations ?? DEFAULT_BOOTSTRAP_ITERATIONS;
+  const level = options.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL;
+  const alpha = options.alpha ?? DEFAULT_SIGNIFICANCE_LEVEL;
+  const random = options.random ?? createRandom(DEFAULT_BOOTSTRAP_SEED);
+
+  const deltas = Array.from(
+    { length: iterations },
+    () => statistic(resample(current, random)) - statistic(resample(previous, random))
+  );
+
+  const atOrBelowZero = deltas.filter((delta) => delta <= 0).length / iterations;
+  const atOrAboveZero = deltas.filter((delta) => delta >= 0).length / iterations;
+  const pValue = Math.min(1, 2 * Math.min(atOrBelowZero, atOrAboveZero));
+
+  return {
+    ...interval(deltas, level),
+    level,
+    iterations,
+    pValue,
+    significant: pValue < alpha,
+    alpha
+  };
+}
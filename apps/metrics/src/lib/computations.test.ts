@@ -2,11 +2,16 @@ import { describe, expect, it } from "vitest";
 import {
   AnnotatedResultView,
   DomainTypeEnum,
-  EngineEnum,
   FactualConsistencyEnum,
+  MetricRecord,
   MetricTypeEnum
 } from "@truthlayer/schema";
-import { computeMetricSeries } from "./computations";
+import {
+  computeMetricSeries,
+  computeRollingMetricSeries,
+  toMetricRecordInputs,
+  toMetricWindowRecordInputs
+} from "./computations";
 
 const QUERY_ID = "11111111-1111-1111-1111-111111111111";
 
@@ -14,7 +19,7 @@ function makeResult(params: Partial<AnnotatedResultView>): AnnotatedResultView {
   const defaults: AnnotatedResultView = {
     runId: "run-1",
     queryId: QUERY_ID,
-    engine: EngineEnum.enum.google,
+    engine: "google",
     normalizedUrl: "https://example.com/a",
     domain: "example.com",
     rank: 1,
@@ -26,9 +31,16 @@ function makeResult(params: Partial<AnnotatedResultView>): AnnotatedResultView {
   return { ...defaults, ...params };
 }
 
-function getMetric(series: ReturnType<typeof computeMetricSeries>, type: MetricTypeEnum, runId: string) {
-  const metric = series.find((entry) => entry.metricType === type && entry.runId === runId);
-  if (!metric) throw new Error(`Metric ${type} for run ${runId} not found`);
+function getMetric(
+  series: ReturnType<typeof computeMetricSeries>,
+  type: MetricTypeEnum,
+  runId: string,
+  engine: string | null = null
+) {
+  const metric = series.find(
+    (entry) => entry.metricType === type && entry.runId === runId && entry.engine === engine
+  );
+  if (!metric) throw new Error(`Metric ${type} for run ${runId} (${engine ?? "all engines"}) not found`);
   return metric;
 }
 
@@ -40,7 +52,7 @@ describe("computeMetricSeries", () => {
     const records: AnnotatedResultView[] = [
       makeResult({
         runId: "run-1",
-        engine: EngineEnum.enum.google,
+        engine: "google",
         normalizedUrl: "https://example.com/a",
         domain: "example.com",
         factualConsistency: FactualConsistencyEnum.enum.aligned,
@@ -49,7 +61,7 @@ describe("computeMetricSeries", () => {
       }),
       makeResult({
         runId: "run-1",
-        engine: EngineEnum.enum.google,
+        engine: "google",
         normalizedUrl: "https://gov.gov/info",
         domain: "gov.gov",
         factualConsistency: FactualConsistencyEnum.enum.contradicted,
@@ -58,7 +70,7 @@ describe("computeMetricSeries", () => {
       }),
       makeResult({
         runId: "run-1",
-        engine: EngineEnum.enum.bing,
+        engine: "bing",
         normalizedUrl: "https://example.com/a",
         domain: "example.com",
         factualConsistency: FactualConsistencyEnum.enum.aligned,
@@ -67,7 +79,7 @@ describe("computeMetricSeries", () => {
       }),
       makeResult({
         runId: "run-1",
-        engine: EngineEnum.enum.perplexity,
+        engine: "perplexity",
         normalizedUrl: "https://news.org/report",
         domain: "news.org",
         factualConsistency: FactualConsistencyEnum.enum.unclear,
@@ -76,7 +88,7 @@ describe("computeMetricSeries", () => {
       }),
       makeResult({
         runId: "run-1",
-        engine: EngineEnum.enum.brave,
+        engine: "brave",
         normalizedUrl: "https://news.org/report",
         domain: "news.org",
         factualConsistency: FactualConsistencyEnum.enum.unclear,
@@ -85,7 +97,7 @@ describe("computeMetricSeries", () => {
       }),
       makeResult({
         runId: "run-2",
-        engine: EngineEnum.enum.google,
+        engine: "google",
         normalizedUrl: "https://example.com/a",
         domain: "example.com",
         factualConsistency: FactualConsistencyEnum.enum.aligned,
@@ -94,7 +106,7 @@ describe("computeMetricSeries", () => {
       }),
       makeResult({
         runId: "run-2",
-        engine: EngineEnum.enum.google,
+        engine: "google",
         normalizedUrl: "https://health.org/info",
         domain: "health.org",
         factualConsistency: FactualConsistencyEnum.enum.aligned,
@@ -103,7 +115,7 @@ describe("computeMetricSeries", () => {
       }),
       makeResult({
         runId: "run-2",
-        engine: EngineEnum.enum.bing,
+        engine: "bing",
         normalizedUrl: "https://example.com/a",
         domain: "example.com",
         factualConsistency: FactualConsistencyEnum.enum.aligned,
@@ -112,7 +124,7 @@ describe("computeMetricSeries", () => {
       }),
       makeResult({
         runId: "run-2",
-        engine: EngineEnum.enum.perplexity,
+        engine: "perplexity",
         normalizedUrl: "https://health.org/info",
         domain: "health.org",
         factualConsistency: FactualConsistencyEnum.enum.aligned,
@@ -121,7 +133,7 @@ describe("computeMetricSeries", () => {
       }),
       makeResult({
         runId: "run-2",
-        engine: EngineEnum.enum.brave,
+        engine: "brave",
         normalizedUrl: "https://blog.example/entry",
         domain: "blog.example",
         factualConsistency: FactualConsistencyEnum.enum.contradicted,
@@ -158,5 +170,690 @@ describe("computeMetricSeries", () => {
     expect(run2Factual.value).toBeCloseTo(4 / 5, 5);
     expect(run2Factual.delta).toBeCloseTo(4 / 5 - 3 / 5, 5);
   });
-});
 
+  it("emits viewpoint metrics with deltas across runs", () => {
+    const run1Date = new Date("2025-01-01T00:00:00Z");
+    const run2Date = new Date("2025-01-03T00:00:00Z");
+
+    const records: AnnotatedResultView[] = [
+      makeResult({ runId: "run-1", normalizedUrl: "https://news.org/a", domain: "news.org", collectedAt: run1Date }),
+      makeResult({ runId: "run-1", normalizedUrl: "https://news.org/b", domain: "news.org", collectedAt: run1Date, rank: 2 }),
+      makeResult({
+        runId: "run-2",
+        normalizedUrl: "https://news.org/a",
+        domain: "news.org",
+        domainType: DomainTypeEnum.enum.news,
+        collectedAt: run2Date
+      }),
+      makeResult({
+        runId: "run-2",
+        normalizedUrl: "https://agency.gov/a",
+        domain: "agency.gov",
+        domainType: DomainTypeEnum.enum.government,
+        collectedAt: run2Date,
+        rank: 2
+      }),
+      makeResult({
+        runId: "run-2",
+        normalizedUrl: "https://uni.edu/a",
+        domain: "uni.edu",
+        domainType: DomainTypeEnum.enum.academic,
+        collectedAt: run2Date,
+        rank: 3
+      }),
+      makeResult({
+        runId: "run-2",
+        normalizedUrl: "https://blog.example/a",
+        domain: "blog.example",
+        domainType: DomainTypeEnum.enum.blog,
+        collectedAt: run2Date,
+        rank: 4
+      })
+    ];
+
+    const series = computeMetricSeries(records, 7);
+
+    for (const runId of ["run-1", "run-2"]) {
+      const types = series
+        .filter((entry) => entry.runId === runId && entry.engine === null)
+        .map((entry) => entry.metricType);
+      // Rank similarity needs at least two engines, so a google-only run skips it;
+      // citation, SERP feature and visibility-weighted metrics need their own inputs
+      // and are per engine.
+      const expected = MetricTypeEnum.options.filter(
+        (type) => !type.startsWith("rank_") && !type.startsWith("citation_") &&
+          !type.startsWith("visibility_weighted_") &&
+          type !== "serp_feature_share"
+      );
+      expect(types.sort()).toEqual([...expected].sort());
+    }
+
+    const run1Score = getMetric(series, MetricTypeEnum.enum.viewpoint_diversity_score, "run-1");
+    expect(run1Score.value).toBe(89);
+    expect(run1Score.delta).toBeNull();
+    expect(run1Score.queryId).toBe(QUERY_ID);
+
+    const run1Underrepresented = getMetric(series, MetricTypeEnum.enum.viewpoint_underrepresented_count, "run-1");
+    expect(run1Underrepresented.value).toBe(4);
+    expect(run1Underrepresented.extra).toMatchObject({
+      underrepresentedTypes: ["blog", "government", "other", "academic"]
+    });
+
+    const run1Alternatives = getMetric(series, MetricTypeEnum.enum.viewpoint_alternative_sources_available, "run-1");
+    expect(run1Alternatives.value).toBeCloseTo(0.8, 5);
+
+    const run2Score = getMetric(series, MetricTypeEnum.enum.viewpoint_diversity_score, "run-2");
+    expect(run2Score.value).toBe(100);
+    expect(run2Score.delta).toBe(11);
+    expect(run2Score.comparedToRunId).toBe("run-1");
+
+    const run2Underrepresented = getMetric(series, MetricTypeEnum.enum.viewpoint_underrepresented_count, "run-2");
+    expect(run2Underrepresented.value).toBe(2);
+    expect(run2Underrepresented.delta).toBe(-2);
+
+    const run2Alternatives = getMetric(series, MetricTypeEnum.enum.viewpoint_alternative_sources_available, "run-2");
+    expect(run2Alternatives.value).toBeCloseTo(0.4, 5);
+    expect(run2Alternatives.delta).toBeCloseTo(-0.4, 5);
+  });
+
+  it("emits per-engine rows with independent delta chains", () => {
+    const run1Date = new Date("2025-01-01T00:00:00Z");
+    const run2Date = new Date("2025-01-03T00:00:00Z");
+
+    const records: AnnotatedResultView[] = [
+      makeResult({ runId: "run-1", engine: "google", collectedAt: run1Date }),
+      makeResult({
+        runId: "run-1",
+        engine: "google",
+        normalizedUrl: "https://gov.gov/info",
+        domain: "gov.gov",
+        factualConsistency: FactualConsistencyEnum.enum.contradicted,
+        collectedAt: run1Date,
+        rank: 2
+      }),
+      makeResult({
+        runId: "run-1",
+        engine: "bing",
+        factualConsistency: FactualConsistencyEnum.enum.unclear,
+        collectedAt: run1Date
+      }),
+      makeResult({ runId: "run-2", engine: "google", collectedAt: run2Date }),
+      makeResult({
+        runId: "run-2",
+        engine: "google",
+        normalizedUrl: "https://health.org/info",
+        domain: "health.org",
+        collectedAt: run2Date,
+        rank: 2
+      }),
+      makeResult({
+        runId: "run-2",
+        engine: "bing",
+        factualConsistency: FactualConsistencyEnum.enum.contradicted,
+        collectedAt: run2Date
+      }),
+      makeResult({
+        runId: "run-2",
+        engine: "bing",
+        normalizedUrl: "https://news.org/report",
+        domain: "news.org",
+        collectedAt: run2Date,
+        rank: 2
+      })
+    ];
+
+    const series = computeMetricSeries(records, 7);
+
+    const run1Google = getMetric(series, MetricTypeEnum.enum.domain_diversity, "run-1", "google");
+    expect(run1Google.value).toBe(2);
+    expect(run1Google.delta).toBeNull();
+
+    const run2Google = getMetric(series, MetricTypeEnum.enum.domain_diversity, "run-2", "google");
+    expect(run2Google.value).toBe(2);
+    expect(run2Google.delta).toBe(0);
+    expect(run2Google.comparedToRunId).toBe("run-1");
+
+    const run2Bing = getMetric(series, MetricTypeEnum.enum.domain_diversity, "run-2", "bing");
+    expect(run2Bing.value).toBe(2);
+    expect(run2Bing.delta).toBe(1);
+
+    const run2GoogleFactual = getMetric(series, MetricTypeEnum.enum.factual_alignment, "run-2", "google");
+    expect(run2GoogleFactual.value).toBeCloseTo(1, 5);
+    expect(run2GoogleFactual.delta).toBeCloseTo(0.5, 5);
+
+    const run2BingFactual = getMetric(series, MetricTypeEnum.enum.factual_alignment, "run-2", "bing");
+    expect(run2BingFactual.value).toBeCloseTo(0.5, 5);
+    expect(run2BingFactual.delta).toBeCloseTo(0, 5);
+
+    const run1GoogleViewpoint = getMetric(series, MetricTypeEnum.enum.viewpoint_diversity_score, "run-1", "google");
+    expect(run1GoogleViewpoint.value).toBe(89);
+
+    const run2Aggregate = getMetric(series, MetricTypeEnum.enum.domain_diversity, "run-2");
+    expect(run2Aggregate.value).toBe(3);
+    expect(run2Aggregate.delta).toBe(1);
+
+    expect(
+      series.some((entry) => entry.metricType === MetricTypeEnum.enum.engine_overlap && entry.engine !== null)
+    ).toBe(false);
+  });
+
+  it("computes rank-aware overlap against hand-computed fixtures", () => {
+    const lists: Record<string, string[]> = {
+      google: ["a", "b", "c", "d"],
+      bing: ["b", "a", "c", "e"],
+      brave: ["a", "b", "c", "d"]
+    };
+
+    const records = Object.entries(lists).flatMap(([engine, urls]) =>
+      urls.map((url, index) =>
+        makeResult({
+          engine: engine as AnnotatedResultView["engine"],
+          normalizedUrl: `https://${url}.example/`,
+          domain: `${url}.example`,
+          rank: index + 1
+        })
+      )
+    );
+
+    const series = computeMetricSeries(records, 7, { rboPersistence: 0.5 });
+
+    // google vs bing, p = 0.5: agreements A_d = 0, 1, 1, 3/4
+    // RBO_ext = (3/4)(0.5^4) + (0.5/0.5)(0 + 1/4 + 1/8 + 3/64) = 15/32
+    const rbo = getMetric(series, MetricTypeEnum.enum.rank_biased_overlap, "run-1");
+    expect(rbo.extra).toMatchObject({ persistence: 0.5, engines: ["bing", "brave", "google"] });
+    const rboPairs = rbo.extra?.pairwise as Record<string, number>;
+    expect(rboPairs.bing_google).toBeCloseTo(15 / 32, 10);
+    expect(rboPairs.bing_brave).toBeCloseTo(15 / 32, 10);
+    expect(rboPairs.brave_google).toBeCloseTo(1, 10);
+    expect(rbo.value).toBeCloseTo((15 / 32 + 15 / 32 + 1) / 3, 10);
+
+    // Shared {a, b, c}: (a,b) discordant, (a,c) and (b,c) concordant → (2 - 1) / 3
+    const tau = getMetric(series, MetricTypeEnum.enum.rank_kendall_tau, "run-1");
+    const tauPairs = tau.extra?.pairwise as Record<string, number>;
+    expect(tauPairs.bing_google).toBeCloseTo(1 / 3, 10);
+    expect(tauPairs.brave_google).toBeCloseTo(1, 10);
+    expect(tau.extra).toMatchObject({ sharedCounts: { bing_google: 3, brave_google: 4 } });
+    expect(tau.value).toBeCloseTo((1 / 3 + 1 / 3 + 1) / 3, 10);
+
+    // Weights 1/rank: min-sum = 1/2 + 1/2 + 1/3 = 4/3, max-sum = 1 + 1 + 1/3 + 1/4 + 1/4 = 17/6
+    const jaccard = getMetric(series, MetricTypeEnum.enum.rank_weighted_jaccard, "run-1");
+    const jaccardPairs = jaccard.extra?.pairwise as Record<string, number>;
+    expect(jaccardPairs.bing_google).toBeCloseTo(8 / 17, 10);
+    expect(jaccardPairs.brave_google).toBeCloseTo(1, 10);
+    expect(jaccard.value).toBeCloseTo((8 / 17 + 8 / 17 + 1) / 3, 10);
+  });
+
+  it("omits kendall tau when no engine pair shares two URLs", () => {
+    const records = [
+      makeResult({ engine: "google", normalizedUrl: "https://a.example/", rank: 1 }),
+      makeResult({ engine: "google", normalizedUrl: "https://b.example/", rank: 2 }),
+      makeResult({ engine: "bing", normalizedUrl: "https://a.example/", rank: 1 }),
+      makeResult({ engine: "bing", normalizedUrl: "https://c.example/", rank: 2 })
+    ];
+
+    const series = computeMetricSeries(records, 7);
+
+    expect(series.some((entry) => entry.metricType === MetricTypeEnum.enum.rank_kendall_tau)).toBe(false);
+    const rbo = getMetric(series, MetricTypeEnum.enum.rank_biased_overlap, "run-1");
+    // p = 0.9 default: A_1 = 1, A_2 = 1/2 → (1/2)(0.81) + (0.1/0.9)(0.9 + 0.405) = 0.55
+    expect(rbo.value).toBeCloseTo(0.55, 10);
+    expect(rbo.extra).toMatchObject({ persistence: 0.9 });
+  });
+
+  it("measures domain concentration per engine and overall", () => {
+    const googleResults = Array.from({ length: 10 }, (_, index) =>
+      makeResult({
+        engine: "google",
+        normalizedUrl: `https://d${index}.example/`,
+        domain: `d${index}.example`,
+        rank: index + 1
+      })
+    );
+    const bingResults = Array.from({ length: 10 }, (_, index) =>
+      makeResult({
+        engine: "bing",
+        normalizedUrl: index === 9 ? "https://d0.example/" : `https://big.example/${index}`,
+        domain: index === 9 ? "d0.example" : "big.example",
+        rank: index + 1
+      })
+    );
+
+    const series = computeMetricSeries([...googleResults, ...bingResults], 7);
+
+    // Ten results from ten domains: maximal spread
+    expect(getMetric(series, MetricTypeEnum.enum.domain_entropy, "run-1", "google").value).toBeCloseTo(Math.log2(10), 10);
+    expect(getMetric(series, MetricTypeEnum.enum.domain_gini, "run-1", "google").value).toBeCloseTo(0, 10);
+    expect(getMetric(series, MetricTypeEnum.enum.domain_hhi, "run-1", "google").value).toBeCloseTo(0.1, 10);
+
+    // Nine results from one domain plus one from another
+    const bingEntropy = -(0.9 * Math.log2(0.9) + 0.1 * Math.log2(0.1));
+    expect(getMetric(series, MetricTypeEnum.enum.domain_entropy, "run-1", "bing").value).toBeCloseTo(bingEntropy, 10);
+    expect(getMetric(series, MetricTypeEnum.enum.domain_gini, "run-1", "bing").value).toBeCloseTo(0.4, 10);
+    expect(getMetric(series, MetricTypeEnum.enum.domain_hhi, "run-1", "bing").value).toBeCloseTo(0.82, 10);
+
+    // Overall shares: d0 2/20, d1..d9 1/20 each, big 9/20 → HHI = (4 + 9 + 81) / 400
+    const overallHhi = getMetric(series, MetricTypeEnum.enum.domain_hhi, "run-1");
+    expect(overallHhi.value).toBeCloseTo(94 / 400, 10);
+    expect(overallHhi.extra).toMatchObject({ domainCount: 11, totalResults: 20 });
+    expect((overallHhi.extra?.perEngine as Record<string, number>).bing).toBeCloseTo(0.82, 10);
+
+    const overallEntropy = getMetric(series, MetricTypeEnum.enum.domain_entropy, "run-1");
+    expect(overallEntropy.extra?.normalizedEntropy).toBeCloseTo(overallEntropy.value / Math.log2(11), 10);
+  });
+
+  it("groups subdomains by registrable domain when one is stored", () => {
+    const records = [
+      makeResult({ normalizedUrl: "https://news.bbc.co.uk/a", domain: "news.bbc.co.uk", registrableDomain: "bbc.co.uk" }),
+      makeResult({ normalizedUrl: "https://bbc.co.uk/b", domain: "bbc.co.uk", registrableDomain: "bbc.co.uk", rank: 2 }),
+      makeResult({ normalizedUrl: "https://itv.co.uk/c", domain: "itv.co.uk", registrableDomain: "itv.co.uk", rank: 3 }),
+      makeResult({ normalizedUrl: "https://legacy.example/d", domain: "legacy.example", rank: 4 })
+    ];
+
+    const series = computeMetricSeries(records, 7);
+
+    expect(getMetric(series, MetricTypeEnum.enum.domain_diversity, "run-1").value).toBe(3);
+    expect(getMetric(series, MetricTypeEnum.enum.domain_hhi, "run-1", "google").value).toBeCloseTo(
+      (4 + 1 + 1) / 16,
+      10
+    );
+  });
+
+  describe("delta significance", () => {
+    const run1Date = new Date("2025-01-01T00:00:00Z");
+    const run2Date = new Date("2025-01-03T00:00:00Z");
+
+    function makeRun(runId: string, collectedAt: Date, consistency: (index: number) => AnnotatedResultView["factualConsistency"]) {
+      return Array.from({ length: 20 }, (_, index) =>
+        makeResult({
+          runId,
+          collectedAt,
+          engine: index % 2 === 0 ? "google" : "bing",
+          normalizedUrl: `https://site${index}.example/`,
+          domain: `site${index}.example`,
+          rank: Math.floor(index / 2) + 1,
+          factualConsistency: consistency(index)
+        })
+      );
+    }
+
+    const alternating = (index: number) =>
+      Math.floor(index / 2) % 2 === 0 ? FactualConsistencyEnum.enum.aligned : FactualConsistencyEnum.enum.contradicted;
+
+    it("flags a consistent shift as significant", () => {
+      const records = [
+        ...makeRun("run-1", run1Date, () => FactualConsistencyEnum.enum.contradicted),
+        ...makeRun("run-2", run2Date, () => FactualConsistencyEnum.enum.aligned)
+      ];
+
+      const series = computeMetricSeries(records, 7);
+      const factual = getMetric(series, MetricTypeEnum.enum.factual_alignment, "run-2");
+
+      expect(factual.delta).toBe(1);
+      expect(factual.extra?.confidenceInterval).toMatchObject({ lower: 1, upper: 1, level: 0.95, iterations: 500 });
+      expect(factual.extra?.deltaSignificance).toMatchObject({ lower: 1, upper: 1, pValue: 0, significant: true });
+
+      const googleFactual = getMetric(series, MetricTypeEnum.enum.factual_alignment, "run-2", "google");
+      expect(googleFactual.extra?.deltaSignificance).toMatchObject({ significant: true });
+    });
+
+    it("does not flag an unchanged distribution", () => {
+      const records = [...makeRun("run-1", run1Date, alternating), ...makeRun("run-2", run2Date, alternating)];
+
+      const series = computeMetricSeries(records, 7);
+      const factual = getMetric(series, MetricTypeEnum.enum.factual_alignment, "run-2");
+      const significance = factual.extra?.deltaSignificance as {
+        lower: number;
+        upper: number;
+        pValue: number;
+        significant: boolean;
+      };
+
+      expect(factual.delta).toBe(0);
+      expect(significance.significant).toBe(false);
+      expect(significance.pValue).toBeGreaterThan(0.05);
+      expect(significance.lower).toBeLessThan(0);
+      expect(significance.upper).toBeGreaterThan(0);
+
+      const interval = factual.extra?.confidenceInterval as { lower: number; upper: number };
+      expect(interval.lower).toBeLessThanOrEqual(0.5);
+      expect(interval.upper).toBeGreaterThanOrEqual(0.5);
+    });
+
+    it("is deterministic and can be disabled", () => {
+      const records = [
+        ...makeRun("run-1", run1Date, alternating),
+        ...makeRun("run-2", run2Date, () => FactualConsistencyEnum.enum.aligned)
+      ];
+
+      const first = getMetric(computeMetricSeries(records, 7), MetricTypeEnum.enum.factual_alignment, "run-2");
+      const second = getMetric(computeMetricSeries(records, 7), MetricTypeEnum.enum.factual_alignment, "run-2");
+      expect(second.extra?.deltaSignificance).toEqual(first.extra?.deltaSignificance);
+
+      const run1 = getMetric(computeMetricSeries(records, 7), MetricTypeEnum.enum.factual_alignment, "run-1");
+      expect(run1.extra?.confidenceInterval).toBeDefined();
+      expect(run1.extra?.deltaSignificance).toBeUndefined();
+
+      const rbo = getMetric(computeMetricSeries(records, 7), MetricTypeEnum.enum.rank_biased_overlap, "run-2");
+      expect(rbo.extra?.confidenceInterval).toBeUndefined();
+
+      const disabled = getMetric(
+        computeMetricSeries(records, 7, { bootstrapIterations: 0 }),
+        MetricTypeEnum.enum.factual_alignment,
+        "run-2"
+      );
+      expect(disabled.extra?.confidenceInterval).toBeUndefined();
+      expect(disabled.extra?.deltaSignificance).toBeUndefined();
+    });
+  });
+
+  describe("rolling windows", () => {
+    const run1Date = new Date("2025-01-01T12:00:00Z");
+    const run2Date = new Date("2025-01-02T12:00:00Z");
+    const run3Date = new Date("2025-01-05T12:00:00Z");
+
+    const records: AnnotatedResultView[] = [
+      makeResult({ runId: "run-1", collectedAt: run1Date, normalizedUrl: "https://a.example/", domain: "a.example" }),
+      makeResult({ runId: "run-1", collectedAt: run1Date, normalizedUrl: "https://b.example/", domain: "b.example", rank: 2 }),
+      makeResult({
+        runId: "run-2",
+        collectedAt: run2Date,
+        normalizedUrl: "https://b.example/",
+        domain: "b.example",
+        factualConsistency: FactualConsistencyEnum.enum.contradicted
+      }),
+      makeResult({
+        runId: "run-2",
+        collectedAt: run2Date,
+        normalizedUrl: "https://c.example/",
+        domain: "c.example",
+        factualConsistency: FactualConsistencyEnum.enum.contradicted,
+        rank: 2
+      }),
+      makeResult({ runId: "run-3", collectedAt: run3Date, normalizedUrl: "https://d.example/", domain: "d.example" })
+    ];
+    const perRun = computeMetricSeries(records, 3, { bootstrapIterations: 0 });
+
+    function windowsFor(series: ReturnType<typeof computeRollingMetricSeries>, type: MetricRecord["metricType"]) {
+      return series.filter((entry) => entry.metricType === type && entry.engine === null);
+    }
+
+    it("aggregates every run inside each trailing daily window", () => {
+      const series = computeRollingMetricSeries(records, perRun, { windowSizeDays: 3, step: "daily" });
+      const diversity = windowsFor(series, MetricTypeEnum.enum.domain_diversity);
+
+      expect(diversity.map((entry) => entry.windowEnd.toISOString())).toEqual([
+        "2025-01-02T00:00:00.000Z",
+        "2025-01-03T00:00:00.000Z",
+        "2025-01-04T00:00:00.000Z",
+        "2025-01-05T00:00:00.000Z",
+        "2025-01-06T00:00:00.000Z"
+      ]);
+      expect(diversity.map((entry) => entry.runIds)).toEqual([
+        ["run-1"],
+        ["run-1", "run-2"],
+        ["run-1", "run-2"],
+        ["run-2"],
+        ["run-3"]
+      ]);
+
+      // Pooled unique domains vs. the mean of per-run counts (2, 2, 1)
+      expect(diversity.map((entry) => entry.value)).toEqual([2, 3, 3, 2, 1]);
+      expect(diversity.map((entry) => entry.movingAverage)).toEqual([2, 2, 2, 2, 1]);
+      expect(diversity.map((entry) => entry.delta)).toEqual([null, 1, 0, -1, -1]);
+      expect(diversity[1].windowStart.toISOString()).toBe("2024-12-31T00:00:00.000Z");
+
+      const factual = windowsFor(series, MetricTypeEnum.enum.factual_alignment);
+      expect(factual[1].value).toBeCloseTo(0.5, 10);
+      expect(factual[1].movingAverage).toBeCloseTo(0.5, 10);
+
+      const googleDiversity = series.filter(
+        (entry) => entry.metricType === MetricTypeEnum.enum.domain_diversity && entry.engine === "google"
+      );
+      expect(googleDiversity.map((entry) => entry.value)).toEqual([2, 3, 3, 2, 1]);
+    });
+
+    it("supports weekly steps and skips windows before the loaded range", () => {
+      const weekly = windowsFor(
+        computeRollingMetricSeries(records, perRun, { windowSizeDays: 7, step: "weekly" }),
+        MetricTypeEnum.enum.domain_diversity
+      );
+      expect(weekly).toHaveLength(1);
+      expect(weekly[0].windowEnd.toISOString()).toBe("2025-01-06T00:00:00.000Z");
+      expect(weekly[0].value).toBe(4);
+      expect(weekly[0].movingAverage).toBeCloseTo(5 / 3, 10);
+
+      const covered = windowsFor(
+        computeRollingMetricSeries(records, perRun, {
+          windowSizeDays: 3,
+          step: "daily",
+          coverageStart: new Date("2025-01-02T00:00:00Z")
+        }),
+        MetricTypeEnum.enum.domain_diversity
+      );
+      expect(covered.map((entry) => entry.windowEnd.toISOString())).toEqual([
+        "2025-01-05T00:00:00.000Z",
+        "2025-01-06T00:00:00.000Z"
+      ]);
+      expect(covered.map((entry) => entry.delta)).toEqual([null, -1]);
+    });
+
+    it("takes the first delta of a series from the stored windows before it", () => {
+      const stored = toMetricWindowRecordInputs(
+        computeRollingMetricSeries(records, perRun, { windowSizeDays: 3, step: "daily" }),
+        new Date("2025-01-06T00:00:00Z")
+      );
+      const covered = windowsFor(
+        computeRollingMetricSeries(records, perRun, {
+          windowSizeDays: 3,
+          step: "daily",
+          coverageStart: new Date("2025-01-02T00:00:00Z"),
+          storedWindows: stored
+        }),
+        MetricTypeEnum.enum.domain_diversity
+      );
+
+      // The stored window ending 2025-01-04 held 3 domains
+      expect(covered.map((entry) => entry.delta)).toEqual([-1, -1]);
+    });
+
+    it("builds stable record ids per window", () => {
+      const series = computeRollingMetricSeries(records, perRun, { windowSizeDays: 3, step: "daily" });
+      const first = toMetricWindowRecordInputs(series, new Date("2025-01-06T00:00:00Z"));
+      const second = toMetricWindowRecordInputs(series, new Date("2025-01-07T00:00:00Z"));
+
+      expect(first.map((record) => record.id)).toEqual(second.map((record) => record.id));
+      expect(new Set(first.map((record) => record.id)).size).toBe(first.length);
+      expect(first[0]).toMatchObject({ step: "daily", windowDays: 3, runCount: 1 });
+    });
+  });
+
+  it("compares answer citations with the organic results of the same run", () => {
+    const records = [
+      makeResult({ normalizedUrl: "https://a.example/x", domain: "a.example", domainType: DomainTypeEnum.enum.news }),
+      makeResult({
+        normalizedUrl: "https://b.gov/y",
+        domain: "b.gov",
+        domainType: DomainTypeEnum.enum.government,
+        rank: 2
+      }),
+      makeResult({
+        engine: "perplexity",
+        normalizedUrl: "https://c.edu/z",
+        domain: "c.edu",
+        domainType: DomainTypeEnum.enum.academic
+      })
+    ];
+    const citation = (normalizedUrl: string, domain: string) => ({
+      queryId: QUERY_ID,
+      crawlRunId: "run-1",
+      engine: "perplexity",
+      normalizedUrl,
+      domain
+    });
+    const citations = [
+      citation("https://a.example/x", "a.example"),
+      citation("https://c.edu/z", "c.edu"),
+      citation("https://d.blog/w", "d.blog"),
+      citation("https://d.blog/w", "d.blog")
+    ];
+
+    const series = computeMetricSeries(records, 7, { citations, bootstrapIterations: 0 });
+
+    const overlap = getMetric(series, MetricTypeEnum.enum.citation_organic_overlap, "run-1", "perplexity");
+    expect(overlap.value).toBeCloseTo(1 / 3, 10);
+    expect(overlap.extra).toMatchObject({ citationCount: 3, matchedUrlCount: 1, organicEngines: ["google"] });
+
+    const divergence = getMetric(series, MetricTypeEnum.enum.citation_domain_type_divergence, "run-1", "perplexity");
+    // Citations split news/academic, organic results split news/government
+    expect(divergence.value).toBeCloseTo(0.5, 10);
+    expect(divergence.extra).toMatchObject({ classifiedCitations: 2, unclassifiedCitations: 1 });
+
+    const withoutCitations = computeMetricSeries(records, 7, { bootstrapIterations: 0 });
+    expect(withoutCitations.some((metric) => metric.metricType === MetricTypeEnum.enum.citation_organic_overlap)).toBe(
+      false
+    );
+  });
+
+  it("reports the share of page slots taken by SERP features per engine", () => {
+    const records = [
+      makeResult({ engine: "perplexity", normalizedUrl: "https://a.example/x", domain: "a.example" }),
+      makeResult({
+        engine: "perplexity",
+        normalizedUrl: "https://b.gov/y",
+        domain: "b.gov",
+        rank: 2
+      }),
+      makeResult({ normalizedUrl: "https://c.edu/z", domain: "c.edu" })
+    ];
+    const feature = (featureType: string, crawlRunId: string | null = "run-1") => ({
+      queryId: QUERY_ID,
+      crawlRunId,
+      engine: "perplexity",
+      featureType
+    });
+
+    const series = computeMetricSeries(records, 7, {
+      serpFeatures: [feature("ai_overview"), feature("people_also_ask"), feature("ad", null)],
+      bootstrapIterations: 0
+    });
+
+    const share = getMetric(series, MetricTypeEnum.enum.serp_feature_share, "run-1", "perplexity");
+    expect(share.value).toBeCloseTo(0.5, 10);
+    expect(share.extra).toEqual({
+      featureCount: 2,
+      organicCount: 2,
+      byType: { ai_overview: 1, people_also_ask: 1 }
+    });
+    expect(series.some((metric) => metric.metricType === "serp_feature_share" && metric.engine === "google")).toBe(
+      false
+    );
+  });
+
+  it("reports a SERP feature share of 0 for a scraped page without feature blocks", () => {
+    const records = [
+      makeResult({ engine: "duckduckgo", normalizedUrl: "https://a.example/x", domain: "a.example" }),
+      makeResult({ normalizedUrl: "https://c.edu/z", domain: "c.edu" })
+    ];
+
+    const series = computeMetricSeries(records, 7, { serpFeatures: [], bootstrapIterations: 0 });
+
+    const share = getMetric(series, MetricTypeEnum.enum.serp_feature_share, "run-1", "duckduckgo");
+    expect(share.value).toBe(0);
+    expect(share.extra).toEqual({ featureCount: 0, organicCount: 1, byType: {} });
+    // Google is queried through its API, which returns no feature blocks to count
+    expect(series.some((metric) => metric.metricType === "serp_feature_share" && metric.engine === "google")).toBe(
+      false
+    );
+  });
+
+  it("weights domain concentration and factual alignment by result visibility", () => {
+    const records = [
+      makeResult({
+        engine: "perplexity",
+        normalizedUrl: "https://a.example/x",
+        domain: "a.example",
+        visibilityWeight: 1
+      }),
+      makeResult({
+        engine: "perplexity",
+        normalizedUrl: "https://b.gov/y",
+        domain: "b.gov",
+        rank: 2,
+        factualConsistency: FactualConsistencyEnum.enum.contradicted,
+        visibilityWeight: 0.25
+      }),
+      makeResult({
+        engine: "perplexity",
+        normalizedUrl: "https://c.edu/z",
+        domain: "c.edu",
+        rank: 3
+      }),
+      makeResult({ normalizedUrl: "https://d.example/w", domain: "d.example" })
+    ];
+
+    const series = computeMetricSeries(records, 7, { bootstrapIterations: 0 });
+
+    const hhi = getMetric(series, MetricTypeEnum.enum.visibility_weighted_domain_hhi, "run-1", "perplexity");
+    // Shares 0.8 and 0.2
+    expect(hhi.value).toBeCloseTo(0.68, 10);
+    expect(hhi.extra).toMatchObject({
+      weightedResults: 2,
+      unweightedResults: 1,
+      domainShares: { "a.example": 0.8, "b.gov": 0.2 }
+    });
+
+    const alignment = getMetric(
+      series,
+      MetricTypeEnum.enum.visibility_weighted_factual_alignment,
+      "run-1",
+      "perplexity"
+    );
+    expect(alignment.value).toBeCloseTo(0.8, 10);
+
+    // Google results carry no geometry
+    expect(series.some((metric) => metric.metricType.startsWith("visibility_") && metric.engine === "google")).toBe(
+      false
+    );
+  });
+
+  it("keeps a separate series per vantage", () => {
+    const records = [
+      makeResult({ runId: "run-us-1", vantageId: "us-en", collectedAt: new Date("2025-01-01T00:00:00Z") }),
+      makeResult({
+        runId: "run-de-1",
+        vantageId: "de-de",
+        collectedAt: new Date("2025-01-02T00:00:00Z"),
+        normalizedUrl: "https://b.example/",
+        domain: "b.example"
+      }),
+      makeResult({ runId: "run-us-2", vantageId: "us-en", collectedAt: new Date("2025-01-03T00:00:00Z") }),
+      makeResult({
+        runId: "run-us-2",
+        vantageId: "us-en",
+        collectedAt: new Date("2025-01-03T00:00:00Z"),
+        normalizedUrl: "https://c.example/",
+        domain: "c.example",
+        rank: 2
+      })
+    ];
+
+    const series = computeMetricSeries(records, 7, { bootstrapIterations: 0 });
+
+    const germany = getMetric(series, MetricTypeEnum.enum.domain_diversity, "run-de-1");
+    expect(germany).toMatchObject({ vantageId: "de-de", delta: null, comparedToRunId: null });
+
+    const us = getMetric(series, MetricTypeEnum.enum.domain_diversity, "run-us-2");
+    expect(us).toMatchObject({ vantageId: "us-en", value: 2, delta: 1, comparedToRunId: "run-us-1" });
+    expect(toMetricRecordInputs([us], new Date())[0].extra).toMatchObject({ vantageId: "us-en" });
+
+    const windows = computeRollingMetricSeries(records, series, { windowSizeDays: 7, step: "daily" }).filter(
+      (window) => window.metricType === MetricTypeEnum.enum.domain_diversity && window.engine === null
+    );
+    expect(windows.filter((window) => window.vantageId === "us-en").at(-1)?.runIds).toEqual(["run-us-1", "run-us-2"]);
+    expect(windows.filter((window) => window.vantageId === "de-de").map((window) => window.runIds)).toEqual([
+      ["run-de-1"]
+    ]);
+    const ids = toMetricWindowRecordInputs(windows, new Date()).map((record) => record.id);
+    expect(new Set(ids).size).toBe(windows.length);
+  });
+});
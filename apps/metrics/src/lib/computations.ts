@@ -1,14 +1,52 @@
 import { randomUUID } from "node:crypto";
 import { subDays } from "date-fns";
-import { AnnotatedResultView, FactualConsistencyEnum, DomainTypeEnum } from "@truthlayer/schema";
-import type { MetricRecord } from "@truthlayer/schema";
-import type { MetricRecordInput } from "@truthlayer/storage";
+import { AnnotatedResultView, FactualConsistencyEnum, DomainTypeEnum, getEngine, hashToUUID } from "@truthlayer/schema";
+import type { MetricRecord, MetricWindowStep } from "@truthlayer/schema";
+import type {
+  CitationRecordInput,
+  MetricRecordInput,
+  MetricWindowRecordInput,
+  SerpFeatureRecordInput
+} from "@truthlayer/storage";
+import {
+  bootstrapDelta,
+  bootstrapInterval,
+  createRandom,
+  DEFAULT_BOOTSTRAP_ITERATIONS,
+  DEFAULT_BOOTSTRAP_SEED,
+  DEFAULT_SIGNIFICANCE_LEVEL,
+  seedFromString
+} from "./bootstrap";
+import {
+  giniCoefficient,
+  herfindahlHirschmanIndex,
+  normalizedEntropy,
+  shannonEntropy
+} from "./concentration";
+import {
+  DEFAULT_RBO_PERSISTENCE,
+  kendallTauShared,
+  rankBiasedOverlap,
+  rankWeightedJaccard
+} from "./rank-similarity";
 
 type MetricType = MetricRecord["metricType"];
+type DomainType = AnnotatedResultView["domainType"];
+
+/** The citation fields the citation metrics need. */
+export type CitationView = Pick<
+  CitationRecordInput,
+  "queryId" | "crawlRunId" | "engine" | "normalizedUrl" | "domain" | "registrableDomain"
+>;
+
+/** The SERP feature fields the feature share metric needs. */
+export type SerpFeatureView = Pick<SerpFeatureRecordInput, "queryId" | "crawlRunId" | "engine" | "featureType">;
 
 export interface MetricComputation {
   runId: string;
   queryId: string;
+  /** Vantage profile the run was collected under; series never mix vantages. */
+  vantageId?: string | null;
   engine: string | null;
   metricType: MetricType;
   value: number;
@@ -20,19 +58,43 @@ export interface MetricComputation {
   extra?: Record<string, unknown>;
 }
 
+export interface MetricSeriesOptions {
+  /** Persistence parameter (p) for rank-biased overlap; defaults to 0.9. */
+  rboPersistence?: number;
+  /** Bootstrap resamples per confidence interval; 0 disables uncertainty estimates. */
+  bootstrapIterations?: number;
+  /** Two-sided p-value threshold below which a delta is flagged significant. */
+  significanceLevel?: number;
+  /** Base seed for resampling, so repeated computations produce identical intervals. */
+  bootstrapSeed?: number;
+  /** Citations from AI answers; the citation metrics are only emitted for runs that have some. */
+  citations?: CitationView[];
+  /** Non-organic page blocks; serp_feature_share is only emitted for engines that recorded some. */
+  serpFeatures?: SerpFeatureView[];
+}
+
 interface RunGroup {
   runId: string;
+  queryId: string;
+  vantageId: string | null;
   collectedAt: Date;
   results: AnnotatedResultView[];
 }
 
+/** Series are kept per query and vantage, so a run is only ever compared with runs from the same vantage. */
+function seriesGroupKey(source: { queryId: string; vantageId?: string | null }): string {
+  return `${source.queryId}|${source.vantageId ?? ""}`;
+}
+
+/** Groups results into runs, keyed by `seriesGroupKey` and ordered by collection time. */
 function groupByQueryAndRun(records: AnnotatedResultView[]): Map<string, RunGroup[]> {
   const byQuery = new Map<string, Map<string, RunGroup>>();
 
   for (const record of records) {
-    const queryMap = byQuery.get(record.queryId) ?? new Map<string, RunGroup>();
-    if (!byQuery.has(record.queryId)) {
-      byQuery.set(record.queryId, queryMap);
+    const groupKey = seriesGroupKey(record);
+    const queryMap = byQuery.get(groupKey) ?? new Map<string, RunGroup>();
+    if (!byQuery.has(groupKey)) {
+      byQuery.set(groupKey, queryMap);
     }
 
     const runKey = record.runId;
@@ -40,6 +102,8 @@ function groupByQueryAndRun(records: AnnotatedResultView[]): Map<string, RunGrou
     if (!runGroup) {
       runGroup = {
         runId: runKey,
+        queryId: record.queryId,
+        vantageId: record.vantageId ?? null,
         collectedAt: record.collectedAt,
         results: []
       };
@@ -52,9 +116,9 @@ function groupByQueryAndRun(records: AnnotatedResultView[]): Map<string, RunGrou
   }
 
   const output = new Map<string, RunGroup[]>();
-  for (const [queryId, runs] of byQuery.entries()) {
+  for (const [groupKey, runs] of byQuery.entries()) {
     output.set(
-      queryId,
+      groupKey,
       Array.from(runs.values()).sort((a, b) => a.collectedAt.getTime() - b.collectedAt.getTime())
     );
   }
@@ -62,13 +126,21 @@ function groupByQueryAndRun(records: AnnotatedResultView[]): Map<string, RunGrou
   return output;
 }
 
+/**
+ * The key domain metrics group by: the registrable domain when one was stored, so
+ * `news.bbc.co.uk` and `www.bbc.co.uk` count once, else the hostname.
+ */
+function domainKey(source: { domain: string; registrableDomain?: string | null }): string {
+  return (source.registrableDomain ?? source.domain).toLowerCase();
+}
+
 function computeDomainDiversity(run: RunGroup): MetricComputation {
-  const allDomains = new Set(run.results.map((result) => result.domain.toLowerCase()));
+  const allDomains = new Set(run.results.map(domainKey));
 
   const domainsByEngine = new Map<string, Set<string>>();
   for (const result of run.results) {
     const engineDomains = domainsByEngine.get(result.engine) ?? new Set<string>();
-    engineDomains.add(result.domain.toLowerCase());
+    engineDomains.add(domainKey(result));
     domainsByEngine.set(result.engine, engineDomains);
   }
 
@@ -94,6 +166,69 @@ function computeDomainDiversity(run: RunGroup): MetricComputation {
   };
 }
 
+function domainCounts(results: AnnotatedResultView[]): number[] {
+  const counts = new Map<string, number>();
+  for (const result of results) {
+    const domain = domainKey(result);
+    counts.set(domain, (counts.get(domain) ?? 0) + 1);
+  }
+  return Array.from(counts.values());
+}
+
+function computeDomainConcentration(run: RunGroup): MetricComputation[] {
+  if (!run.results.length) return [];
+
+  const counts = domainCounts(run.results);
+  const engines = Array.from(new Set(run.results.map((result) => result.engine))).sort();
+  const countsByEngine = new Map(
+    engines.map((engine) => [engine, domainCounts(run.results.filter((result) => result.engine === engine))])
+  );
+
+  const perEngine = (measure: (values: number[]) => number) =>
+    Object.fromEntries(engines.map((engine) => [engine, measure(countsByEngine.get(engine)!)]));
+
+  const base = {
+    runId: run.runId,
+    queryId: run.results[0]?.queryId ?? "",
+    engine: null,
+    delta: null,
+    comparedToRunId: null,
+    collectedAt: run.collectedAt,
+    windowStart: run.collectedAt,
+    windowEnd: run.collectedAt
+  };
+  const shared = {
+    domainCount: counts.length,
+    totalResults: run.results.length
+  };
+
+  return [
+    {
+      ...base,
+      metricType: "domain_entropy",
+      value: shannonEntropy(counts),
+      extra: {
+        ...shared,
+        perEngine: perEngine(shannonEntropy),
+        normalizedEntropy: normalizedEntropy(counts),
+        unit: "bits"
+      }
+    },
+    {
+      ...base,
+      metricType: "domain_gini",
+      value: giniCoefficient(counts),
+      extra: { ...shared, perEngine: perEngine(giniCoefficient) }
+    },
+    {
+      ...base,
+      metricType: "domain_hhi",
+      value: herfindahlHirschmanIndex(counts),
+      extra: { ...shared, perEngine: perEngine(herfindahlHirschmanIndex) }
+    }
+  ];
+}
+
 function computeEngineOverlap(run: RunGroup): MetricComputation {
   const urlToEngines = new Map<string, Set<string>>();
 
@@ -144,6 +279,97 @@ function computeEngineOverlap(run: RunGroup): MetricComputation {
   };
 }
 
+/**
+ * Builds each engine's best-first list of normalized URLs, keeping the best rank
+ * when an engine returns the same URL twice.
+ */
+function rankedUrlsByEngine(run: RunGroup): Map<string, string[]> {
+  const byEngine = new Map<string, AnnotatedResultView[]>();
+  for (const result of run.results) {
+    const engineResults = byEngine.get(result.engine) ?? [];
+    engineResults.push(result);
+    byEngine.set(result.engine, engineResults);
+  }
+
+  const ranked = new Map<string, string[]>();
+  for (const engine of Array.from(byEngine.keys()).sort()) {
+    const urls = byEngine
+      .get(engine)!
+      .sort((a, b) => a.rank - b.rank)
+      .map((result) => result.normalizedUrl.toLowerCase());
+    ranked.set(engine, Array.from(new Set(urls)));
+  }
+
+  return ranked;
+}
+
+function computeRankSimilarity(run: RunGroup, persistence: number): MetricComputation[] {
+  const ranked = rankedUrlsByEngine(run);
+  const engines = Array.from(ranked.keys());
+  if (engines.length < 2) return [];
+
+  const rbo: Record<string, number> = {};
+  const tau: Record<string, number> = {};
+  const tauSharedCounts: Record<string, number> = {};
+  const weightedJaccard: Record<string, number> = {};
+
+  for (let i = 0; i < engines.length; i++) {
+    for (let j = i + 1; j < engines.length; j++) {
+      const a = ranked.get(engines[i])!;
+      const b = ranked.get(engines[j])!;
+      const key = `${engines[i]}_${engines[j]}`;
+
+      rbo[key] = rankBiasedOverlap(a, b, persistence);
+      weightedJaccard[key] = rankWeightedJaccard(a, b);
+
+      const kendall = kendallTauShared(a, b);
+      if (kendall) {
+        tau[key] = kendall.value;
+        tauSharedCounts[key] = kendall.sharedCount;
+      }
+    }
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const base = {
+    runId: run.runId,
+    queryId: run.results[0]?.queryId ?? "",
+    engine: null,
+    delta: null,
+    comparedToRunId: null,
+    collectedAt: run.collectedAt,
+    windowStart: run.collectedAt,
+    windowEnd: run.collectedAt
+  };
+
+  const metrics: MetricComputation[] = [
+    {
+      ...base,
+      metricType: "rank_biased_overlap",
+      value: mean(Object.values(rbo)),
+      extra: { pairwise: rbo, engines, persistence }
+    },
+    {
+      ...base,
+      metricType: "rank_weighted_jaccard",
+      value: mean(Object.values(weightedJaccard)),
+      extra: { pairwise: weightedJaccard, engines, weighting: "reciprocal_rank" }
+    }
+  ];
+
+  // Kendall tau is undefined for pairs sharing fewer than two URLs.
+  if (Object.keys(tau).length) {
+    metrics.push({
+      ...base,
+      metricType: "rank_kendall_tau",
+      value: mean(Object.values(tau)),
+      extra: { pairwise: tau, sharedCounts: tauSharedCounts, engines }
+    });
+  }
+
+  return metrics;
+}
+
 const FACTUAL_SCORES: Record<FactualConsistencyEnum, number> = {
   aligned: 1,
   contradicted: 0,
@@ -189,49 +415,404 @@ function computeFactualAlignment(run: RunGroup): MetricComputation {
   };
 }
 
+function domainTypeShares(types: DomainType[]): Record<string, number> {
+  const shares: Record<string, number> = Object.fromEntries(DomainTypeEnum.options.map((type) => [type, 0]));
+  for (const type of types) {
+    shares[type] += 1 / types.length;
+  }
+  return shares;
+}
+
+/**
+ * Compares each citing engine's answer citations with the organic results the
+ * other engines returned for the same query and run:
+ * - citation_organic_overlap: share of cited URLs that an organic engine also surfaced.
+ * - citation_domain_type_divergence: total variation distance between the domain-type
+ *   mix of the citations and of the organic results (0 = same mix, 1 = disjoint).
+ * Citations take the domain type annotated for the same domain in the run; citations
+ * to domains that were never annotated are left out of the mix and counted in `extra`.
+ */
+function computeCitationMetrics(run: RunGroup, citations: CitationView[]): MetricComputation[] {
+  const metrics: MetricComputation[] = [];
+  const domainTypeByDomain = new Map<string, DomainType>();
+  for (const result of run.results) {
+    const domain = domainKey(result);
+    if (!domainTypeByDomain.has(domain)) {
+      domainTypeByDomain.set(domain, result.domainType);
+    }
+  }
+
+  const engines = Array.from(new Set(citations.map((citation) => citation.engine))).sort();
+
+  for (const engine of engines) {
+    const cited = Array.from(
+      new Map(
+        citations
+          .filter((citation) => citation.engine === engine)
+          .map((citation) => [citation.normalizedUrl, citation] as const)
+      ).values()
+    );
+    const organic = run.results.filter((result) => result.engine !== engine);
+    if (!cited.length || !organic.length) continue;
+
+    const organicUrls = new Set(organic.map((result) => result.normalizedUrl));
+    const organicDomains = new Set(organic.map(domainKey));
+    const matchedUrls = cited.filter((citation) => organicUrls.has(citation.normalizedUrl)).length;
+    const matchedDomains = cited.filter((citation) => organicDomains.has(domainKey(citation))).length;
+
+    const base = {
+      runId: run.runId,
+      queryId: run.results[0]?.queryId ?? "",
+      engine,
+      delta: null,
+      comparedToRunId: null,
+      collectedAt: run.collectedAt,
+      windowStart: run.collectedAt,
+      windowEnd: run.collectedAt
+    };
+
+    metrics.push({
+      ...base,
+      metricType: "citation_organic_overlap",
+      value: matchedUrls / cited.length,
+      extra: {
+        citationCount: cited.length,
+        matchedUrlCount: matchedUrls,
+        domainOverlap: matchedDomains / cited.length,
+        organicEngines: Array.from(new Set(organic.map((result) => result.engine))).sort()
+      }
+    });
+
+    const citedTypes = cited
+      .map((citation) => domainTypeByDomain.get(domainKey(citation)))
+      .filter((type): type is DomainType => type !== undefined);
+    if (!citedTypes.length) continue;
+
+    const citationMix = domainTypeShares(citedTypes);
+    const organicMix = domainTypeShares(organic.map((result) => result.domainType));
+    const divergence =
+      DomainTypeEnum.options.reduce((sum, type) => sum + Math.abs(citationMix[type] - organicMix[type]), 0) / 2;
+
+    metrics.push({
+      ...base,
+      metricType: "citation_domain_type_divergence",
+      value: divergence,
+      extra: {
+        citationMix,
+        organicMix,
+        classifiedCitations: citedTypes.length,
+        unclassifiedCitations: cited.length - citedTypes.length
+      }
+    });
+  }
+
+  return metrics;
+}
+
+/**
+ * serp_feature_share: for each engine whose page had feature blocks (ads, "People
+ * also ask", AI answers, ...), the share of page slots taken by features rather
+ * than organic results. `extra.byType` counts the blocks per feature type.
+ */
+function computeSerpFeatureMetrics(run: RunGroup, features: SerpFeatureView[]): MetricComputation[] {
+  // Engines read from the page always had their feature blocks extracted, so a
+  // page without any is a share of 0 rather than a missing row
+  const scrapedEngines = run.results
+    .map((result) => result.engine)
+    .filter((engine) => {
+      const access = getEngine(engine)?.capabilities.access;
+      return access === "html" || access === "browser";
+    });
+  const engines = Array.from(new Set([...features.map((feature) => feature.engine), ...scrapedEngines])).sort();
+
+  return engines.map((engine) => {
+    const engineFeatures = features.filter((feature) => feature.engine === engine);
+    const organicCount = run.results.filter((result) => result.engine === engine).length;
+    const byType: Record<string, number> = {};
+    for (const feature of engineFeatures) {
+      byType[feature.featureType] = (byType[feature.featureType] ?? 0) + 1;
+    }
+
+    return {
+      runId: run.runId,
+      queryId: run.results[0]?.queryId ?? "",
+      engine,
+      metricType: "serp_feature_share",
+      value: engineFeatures.length / (engineFeatures.length + organicCount),
+      delta: null,
+      comparedToRunId: null,
+      collectedAt: run.collectedAt,
+      windowStart: run.collectedAt,
+      windowEnd: run.collectedAt,
+      extra: {
+        featureCount: engineFeatures.length,
+        organicCount,
+        byType
+      }
+    };
+  });
+}
+
+/**
+ * Visibility-weighted variants of domain concentration and factual alignment,
+ * per engine: each result counts by its pixel-based `visibilityWeight` instead
+ * of once, so a result scrolled far below the fold matters less than one on
+ * screen. Only results with a weight take part (engines without page geometry
+ * get no rows); `extra` reports how many were left out.
+ */
+function computeVisibilityWeightedMetrics(run: RunGroup): MetricComputation[] {
+  const engines = Array.from(new Set(run.results.map((result) => result.engine))).sort();
+  const metrics: MetricComputation[] = [];
+
+  for (const engine of engines) {
+    const engineResults = run.results.filter((result) => result.engine === engine);
+    const weighted = engineResults.filter(
+      (result): result is AnnotatedResultView & { visibilityWeight: number } =>
+        typeof result.visibilityWeight === "number" && result.visibilityWeight > 0
+    );
+    if (!weighted.length) continue;
+
+    const base = {
+      runId: run.runId,
+      queryId: run.results[0]?.queryId ?? "",
+      engine,
+      delta: null,
+      comparedToRunId: null,
+      collectedAt: run.collectedAt,
+      windowStart: run.collectedAt,
+      windowEnd: run.collectedAt
+    };
+    const coverage = {
+      weightedResults: weighted.length,
+      unweightedResults: engineResults.length - weighted.length,
+      totalVisibility: weighted.reduce((sum, result) => sum + result.visibilityWeight, 0)
+    };
+
+    const visibilityByDomain = new Map<string, number>();
+    for (const result of weighted) {
+      const domain = domainKey(result);
+      visibilityByDomain.set(domain, (visibilityByDomain.get(domain) ?? 0) + result.visibilityWeight);
+    }
+    const domainShares = Object.fromEntries(
+      Array.from(visibilityByDomain.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([domain, visibility]) => [domain, visibility / coverage.totalVisibility])
+    );
+
+    metrics.push({
+      ...base,
+      metricType: "visibility_weighted_domain_hhi",
+      value: herfindahlHirschmanIndex(Array.from(visibilityByDomain.values())),
+      extra: { ...coverage, domainShares }
+    });
+
+    const relevant = weighted.filter(
+      (result) => result.factualConsistency !== FactualConsistencyEnum.enum.not_applicable
+    );
+    const relevantVisibility = relevant.reduce((sum, result) => sum + result.visibilityWeight, 0);
+    if (relevantVisibility > 0) {
+      metrics.push({
+        ...base,
+        metricType: "visibility_weighted_factual_alignment",
+        value:
+          relevant.reduce(
+            (sum, result) => sum + result.visibilityWeight * FACTUAL_SCORES[result.factualConsistency],
+            0
+          ) / relevantVisibility,
+        extra: { ...coverage, annotatedCount: relevant.length }
+      });
+    }
+  }
+
+  return metrics;
+}
+
+/**
+ * Narrows a run to the results returned by a single engine so the aggregate
+ * computations can be reused for per-engine rows.
+ */
+function filterRunByEngine(run: RunGroup, engine: string): RunGroup {
+  return {
+    ...run,
+    results: run.results.filter((result) => result.engine === engine)
+  };
+}
+
+function computePerEngineMetrics(run: RunGroup): MetricComputation[] {
+  const engines = Array.from(new Set(run.results.map((result) => result.engine))).sort();
+  const metrics: MetricComputation[] = [];
+
+  for (const engine of engines) {
+    const engineRun = filterRunByEngine(run, engine);
+    const engineMetrics = [
+      computeDomainDiversity(engineRun),
+      ...computeDomainConcentration(engineRun),
+      computeFactualAlignment(engineRun),
+      computeViewpointDiversityScore(engineRun)
+    ].filter((metric): metric is MetricComputation => metric !== null);
+
+    for (const metric of engineMetrics) {
+      metrics.push({ ...metric, engine });
+    }
+  }
+
+  return metrics;
+}
+
+function seriesKey(metric: Pick<MetricComputation, "metricType" | "engine">): string {
+  return `${metric.metricType}|${metric.engine ?? ""}`;
+}
+
 function applyChangeOverTime(
   series: MetricComputation[],
-  previous: Map<MetricType, MetricComputation>
+  previous: Map<string, MetricComputation>
 ): MetricComputation[] {
   return series.map((metric) => {
-    const prior = previous.get(metric.metricType);
+    const key = seriesKey(metric);
+    const prior = previous.get(key);
     const updated = {
       ...metric,
       delta: prior ? metric.value - prior.value : null,
       comparedToRunId: prior?.runId ?? null
     };
-    previous.set(metric.metricType, updated);
+    previous.set(key, updated);
     return updated;
   });
 }
 
-export function computeMetricSeries(records: AnnotatedResultView[], windowSizeDays: number): MetricComputation[] {
+/**
+ * Recomputes a metric from an arbitrary sample of results. Only metrics that stay
+ * meaningful under resampling with replacement are listed; rank-based similarity
+ * is excluded because duplicated draws break the rank order.
+ */
+const RESAMPLED_STATISTICS: Partial<Record<MetricType, (run: RunGroup) => number | null>> = {
+  domain_diversity: (run) => computeDomainDiversity(run).value,
+  domain_entropy: (run) => shannonEntropy(domainCounts(run.results)),
+  domain_gini: (run) => giniCoefficient(domainCounts(run.results)),
+  domain_hhi: (run) => herfindahlHirschmanIndex(domainCounts(run.results)),
+  engine_overlap: (run) => computeEngineOverlap(run).value,
+  factual_alignment: (run) => computeFactualAlignment(run).value,
+  viewpoint_diversity_score: (run) => computeViewpointDiversityScore(run)?.value ?? null,
+  viewpoint_underrepresented_count: (run) => computeViewpointUnderrepresentedCount(run)?.value ?? null,
+  viewpoint_alternative_sources_available: (run) => computeViewpointAlternativeSourcesAvailable(run)?.value ?? null
+};
+
+function resultsForMetric(metric: MetricComputation, run: RunGroup): RunGroup {
+  return metric.engine ? filterRunByEngine(run, metric.engine) : run;
+}
+
+/**
+ * Adds a bootstrap interval for the value and, when a prior run exists, a
+ * significance test for the delta. Both are stored in `extra`.
+ */
+function attachUncertainty(
+  metric: MetricComputation,
+  run: RunGroup,
+  priorRun: RunGroup | undefined,
+  options: Required<Pick<MetricSeriesOptions, "bootstrapIterations" | "significanceLevel" | "bootstrapSeed">>
+): MetricComputation {
+  const compute = RESAMPLED_STATISTICS[metric.metricType];
+  if (!compute || options.bootstrapIterations <= 0) return metric;
+
+  const current = resultsForMetric(metric, run);
+  const statistic = (sample: AnnotatedResultView[]) => compute({ ...current, results: sample }) ?? Number.NaN;
+  const random = createRandom(
+    seedFromString(`${metric.queryId}|${seriesKey(metric)}|${metric.runId}`, options.bootstrapSeed)
+  );
+  const bootstrapOptions = {
+    iterations: options.bootstrapIterations,
+    alpha: options.significanceLevel,
+    random
+  };
+
+  const confidenceInterval = bootstrapInterval(current.results, statistic, bootstrapOptions);
+  const deltaSignificance =
+    priorRun && metric.delta !== null
+      ? bootstrapDelta(resultsForMetric(metric, priorRun).results, current.results, statistic, bootstrapOptions)
+      : null;
+
+  return {
+    ...metric,
+    extra: {
+      ...(metric.extra ?? {}),
+      ...(confidenceInterval ? { confidenceInterval } : {}),
+      ...(deltaSignificance ? { deltaSignificance } : {})
+    }
+  };
+}
+
+export function computeMetricSeries(
+  records: AnnotatedResultView[],
+  windowSizeDays: number,
+  options: MetricSeriesOptions = {}
+): MetricComputation[] {
   if (!records.length) return [];
 
+  const rboPersistence = options.rboPersistence ?? DEFAULT_RBO_PERSISTENCE;
+  const uncertaintyOptions = {
+    bootstrapIterations: options.bootstrapIterations ?? DEFAULT_BOOTSTRAP_ITERATIONS,
+    significanceLevel: options.significanceLevel ?? DEFAULT_SIGNIFICANCE_LEVEL,
+    bootstrapSeed: options.bootstrapSeed ?? DEFAULT_BOOTSTRAP_SEED
+  };
+
   const grouped = groupByQueryAndRun(records);
   const metrics: MetricComputation[] = [];
 
-  for (const [queryId, runs] of grouped.entries()) {
-    const previousByMetric = new Map<MetricType, MetricComputation>();
+  const citationsByRun = new Map<string, CitationView[]>();
+  for (const citation of options.citations ?? []) {
+    if (!citation.crawlRunId) continue;
+    const key = `${citation.queryId}|${citation.crawlRunId}`;
+    const runCitations = citationsByRun.get(key) ?? [];
+    runCitations.push(citation);
+    citationsByRun.set(key, runCitations);
+  }
+
+  const serpFeaturesByRun = new Map<string, SerpFeatureView[]>();
+  for (const feature of options.serpFeatures ?? []) {
+    if (!feature.crawlRunId) continue;
+    const key = `${feature.queryId}|${feature.crawlRunId}`;
+    const runFeatures = serpFeaturesByRun.get(key) ?? [];
+    runFeatures.push(feature);
+    serpFeaturesByRun.set(key, runFeatures);
+  }
+
+  for (const runs of grouped.values()) {
+    const { queryId, vantageId } = runs[0];
+    const previousBySeries = new Map<string, MetricComputation>();
+    const runsById = new Map<string, RunGroup>();
 
     for (const run of runs) {
       const windowStart = subDays(run.collectedAt, Math.max(0, windowSizeDays - 1));
 
       const seriesForRun = [
         computeDomainDiversity(run),
+        ...computeDomainConcentration(run),
         computeEngineOverlap(run),
-        computeFactualAlignment(run)
-      ].map((metric) => ({
-        ...metric,
-        queryId,
-        windowStart,
-        windowEnd: new Date(run.collectedAt.getTime())
-      }));
+        ...computeRankSimilarity(run, rboPersistence),
+        computeFactualAlignment(run),
+        computeViewpointDiversityScore(run),
+        computeViewpointUnderrepresentedCount(run),
+        computeViewpointAlternativeSourcesAvailable(run),
+        ...computePerEngineMetrics(run),
+        ...computeVisibilityWeightedMetrics(run),
+        ...computeCitationMetrics(run, citationsByRun.get(`${queryId}|${run.runId}`) ?? []),
+        ...computeSerpFeatureMetrics(run, serpFeaturesByRun.get(`${queryId}|${run.runId}`) ?? [])
+      ]
+        .filter((metric): metric is MetricComputation => metric !== null)
+        .map((metric) => ({
+          ...metric,
+          queryId,
+          vantageId,
+          windowStart,
+          windowEnd: new Date(run.collectedAt.getTime())
+        }));
 
-      const withChange = applyChangeOverTime(seriesForRun, previousByMetric);
+      const withChange = applyChangeOverTime(seriesForRun, previousBySeries);
+      runsById.set(run.runId, run);
 
       for (const metric of withChange) {
-        metrics.push(metric);
+        const priorRun = metric.comparedToRunId ? runsById.get(metric.comparedToRunId) : undefined;
+        metrics.push(attachUncertainty(metric, run, priorRun, uncertaintyOptions));
       }
     }
   }
@@ -239,6 +820,195 @@ export function computeMetricSeries(records: AnnotatedResultView[], windowSizeDa
   return metrics.sort((a, b) => a.collectedAt.getTime() - b.collectedAt.getTime());
 }
 
+export interface MetricWindowComputation {
+  queryId: string;
+  vantageId?: string | null;
+  engine: string | null;
+  metricType: MetricType;
+  step: MetricWindowStep;
+  windowDays: number;
+  windowStart: Date;
+  windowEnd: Date;
+  runIds: string[];
+  /** Metric recomputed over the pooled results of every run in the window. */
+  value: number;
+  /** Mean of the per-run values inside the window. */
+  movingAverage: number;
+  /** False when the metric cannot be pooled and `value` is the moving average. */
+  pooled: boolean;
+  delta: number | null;
+}
+
+export interface RollingSeriesOptions {
+  windowSizeDays: number;
+  step: MetricWindowStep;
+  /**
+   * Earliest timestamp the input records cover. Windows reaching back before it
+   * are skipped because some of their runs were never loaded.
+   */
+  coverageStart?: Date;
+  /**
+   * Windows stored by earlier runs. The first window of each series takes its
+   * delta from the latest of these ending before it, so recomputing a window
+   * does not reset its delta to null.
+   */
+  storedWindows?: MetricWindowRecordInput[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const STEP_DAYS: Record<MetricWindowStep, number> = {
+  daily: 1,
+  weekly: 7
+};
+
+function startOfNextUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+}
+
+/**
+ * Aggregates each per-run series over trailing windows of `windowSizeDays`.
+ * Windows end on UTC day boundaries, stepping back from the day of the latest
+ * run by one day (daily) or seven days (weekly); the window end is exclusive.
+ * Metrics that can be recomputed from raw results are evaluated on the pooled
+ * window, others fall back to the moving average of their per-run values.
+ */
+export function computeRollingMetricSeries(
+  records: AnnotatedResultView[],
+  perRunSeries: MetricComputation[],
+  options: RollingSeriesOptions
+): MetricWindowComputation[] {
+  if (!records.length) return [];
+
+  const seriesByQuery = new Map<string, Map<string, MetricComputation[]>>();
+  for (const metric of perRunSeries) {
+    const groupKey = seriesGroupKey(metric);
+    const byKey = seriesByQuery.get(groupKey) ?? new Map<string, MetricComputation[]>();
+    seriesByQuery.set(groupKey, byKey);
+    const key = seriesKey(metric);
+    byKey.set(key, [...(byKey.get(key) ?? []), metric]);
+  }
+
+  const storedBySeries = new Map<string, MetricWindowRecordInput[]>();
+  for (const stored of options.storedWindows ?? []) {
+    if (stored.step !== options.step || stored.windowDays !== options.windowSizeDays) continue;
+    const vantageId = typeof stored.extra?.vantageId === "string" ? stored.extra.vantageId : null;
+    const key = `${seriesGroupKey({ queryId: stored.queryId, vantageId })}|${seriesKey(stored)}`;
+    storedBySeries.set(key, [...(storedBySeries.get(key) ?? []), stored]);
+  }
+
+  const storedPrior = (key: string, windowEnd: Date): number | undefined => {
+    let latest: MetricWindowRecordInput | undefined;
+    for (const stored of storedBySeries.get(key) ?? []) {
+      if (stored.windowEnd < windowEnd && (!latest || stored.windowEnd > latest.windowEnd)) latest = stored;
+    }
+    return latest?.value;
+  };
+
+  const stepMs = STEP_DAYS[options.step] * DAY_MS;
+  const windowMs = options.windowSizeDays * DAY_MS;
+  const windows: MetricWindowComputation[] = [];
+
+  for (const [groupKey, runs] of groupByQueryAndRun(records).entries()) {
+    const seriesForQuery = seriesByQuery.get(groupKey);
+    if (!seriesForQuery || !runs.length) continue;
+    const { queryId, vantageId } = runs[0];
+
+    const firstRunAt = runs[0].collectedAt.getTime();
+    const windowEnds: Date[] = [];
+    for (let end = startOfNextUtcDay(runs[runs.length - 1].collectedAt).getTime(); end > firstRunAt; end -= stepMs) {
+      windowEnds.unshift(new Date(end));
+    }
+
+    const previousBySeries = new Map<string, number>();
+
+    for (const windowEnd of windowEnds) {
+      const windowStart = new Date(windowEnd.getTime() - windowMs);
+      if (options.coverageStart && windowStart < options.coverageStart) continue;
+
+      const windowRuns = runs.filter((run) => run.collectedAt >= windowStart && run.collectedAt < windowEnd);
+      if (!windowRuns.length) continue;
+
+      const runIds = new Set(windowRuns.map((run) => run.runId));
+      const pooledRun: RunGroup = {
+        ...windowRuns[windowRuns.length - 1],
+        collectedAt: windowRuns[windowRuns.length - 1].collectedAt,
+        results: windowRuns.flatMap((run) => run.results)
+      };
+
+      for (const [key, series] of seriesForQuery.entries()) {
+        const inWindow = series.filter((metric) => runIds.has(metric.runId));
+        if (!inWindow.length) continue;
+
+        const { metricType, engine } = inWindow[0];
+        const movingAverage = inWindow.reduce((sum, metric) => sum + metric.value, 0) / inWindow.length;
+        const compute = RESAMPLED_STATISTICS[metricType];
+        const pooledValue = compute ? compute(engine ? filterRunByEngine(pooledRun, engine) : pooledRun) : null;
+        const pooled = pooledValue !== null && Number.isFinite(pooledValue);
+        const value = pooled ? pooledValue : movingAverage;
+
+        const prior = previousBySeries.get(key) ?? storedPrior(`${groupKey}|${key}`, windowEnd);
+        previousBySeries.set(key, value);
+
+        windows.push({
+          queryId,
+          vantageId,
+          engine,
+          metricType,
+          step: options.step,
+          windowDays: options.windowSizeDays,
+          windowStart,
+          windowEnd,
+          runIds: inWindow.map((metric) => metric.runId),
+          value,
+          movingAverage,
+          pooled,
+          delta: prior === undefined ? null : value - prior
+        });
+      }
+    }
+  }
+
+  return windows.sort((a, b) => a.windowEnd.getTime() - b.windowEnd.getTime());
+}
+
+export function toMetricWindowRecordInputs(
+  windows: MetricWindowComputation[],
+  createdAt: Date
+): MetricWindowRecordInput[] {
+  return windows.map((window) => ({
+    // Windows without a vantage keep the ids they had before vantages existed
+    id: hashToUUID(
+      [
+        window.queryId,
+        ...(window.vantageId ? [`vantage:${window.vantageId}`] : []),
+        window.engine ?? "all",
+        window.metricType,
+        window.step,
+        window.windowDays,
+        window.windowEnd.toISOString()
+      ].join("|")
+    ),
+    queryId: window.queryId,
+    engine: window.engine,
+    metricType: window.metricType,
+    step: window.step,
+    windowDays: window.windowDays,
+    windowStart: window.windowStart,
+    windowEnd: window.windowEnd,
+    runCount: window.runIds.length,
+    value: window.value,
+    movingAverage: window.movingAverage,
+    delta: window.delta,
+    extra: {
+      runIds: window.runIds,
+      pooled: window.pooled,
+      ...(window.vantageId ? { vantageId: window.vantageId } : {})
+    },
+    createdAt
+  }));
+}
+
 export function toMetricRecordInputs(metrics: MetricComputation[], createdAt: Date): MetricRecordInput[] {
   return metrics.map((metric) => ({
     id: randomUUID(),
@@ -254,6 +1024,7 @@ export function toMetricRecordInputs(metrics: MetricComputation[], createdAt: Da
       windowStart: metric.windowStart,
       windowEnd: metric.windowEnd,
       ...(metric.extra ?? {}),
+      ...(metric.vantageId ? { vantageId: metric.vantageId } : {}),
       delta: metric.delta,
       comparedToRunId: metric.comparedToRunId
     },
@@ -0,0 +1,45 @@
+/**
+ * Concentration measures over a distribution of counts (e.g. results per domain).
+ * Zero counts are ignored; an empty distribution scores 0 on every measure.
+ */
+
+function toShares(counts: number[]): number[] {
+  const positive = counts.filter((count) => count > 0);
+  const total = positive.reduce((sum, count) => sum + count, 0);
+  return total === 0 ? [] : positive.map((count) => count / total);
+}
+
+/** Shannon entropy in bits. Higher values mean results are spread over more domains. */
+export function shannonEntropy(counts: number[]): number {
+  return toShares(counts).reduce((entropy, share) => entropy - share * Math.log2(share), 0);
+}
+
+/**
+ * Entropy divided by its maximum (log2 of the number of domains), so 1 means a
+ * perfectly even spread. A single domain is treated as fully concentrated (0).
+ */
+export function normalizedEntropy(counts: number[]): number {
+  const categories = counts.filter((count) => count > 0).length;
+  if (categories < 2) return 0;
+  return shannonEntropy(counts) / Math.log2(categories);
+}
+
+/**
+ * Gini coefficient of the counts (mean absolute difference over twice the mean).
+ * 0 means every domain contributes equally; values approach 1 as one domain dominates.
+ */
+export function giniCoefficient(counts: number[]): number {
+  const positive = counts.filter((count) => count > 0).sort((a, b) => a - b);
+  const n = positive.length;
+  if (n === 0) return 0;
+
+  const total = positive.reduce((sum, count) => sum + count, 0);
+  // Sorted-order identity: G = (2 * sum(i * x_i)) / (n * sum(x)) - (n + 1) / n, with 1-based i
+  const weighted = positive.reduce((sum, count, index) => sum + (index + 1) * count, 0);
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+/** Herfindahl-Hirschman index on the 0-1 scale: the sum of squared shares. */
+export function herfindahlHirschmanIndex(counts: number[]): number {
+  return toShares(counts).reduce((index, share) => index + share * share, 0);
+}
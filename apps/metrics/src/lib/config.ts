@@ -1,11 +1,21 @@
 import { loadEnv } from "@truthlayer/config";
+import { MetricWindowStepEnum } from "@truthlayer/schema";
 import { z } from "zod";
 
 const MetricsConfigSchema = z.object({
   runId: z.string().default(() => crypto.randomUUID()),
   storageUrl: z.string().default("duckdb://data/truthlayer.duckdb"),
   exportDir: z.string().default("data/metrics"),
-  windowSize: z.number().int().min(1).default(7)
+  benchmarkQuerySetPath: z.string().default("config/benchmark-queries.json"),
+  windowSize: z.number().int().min(1).default(7),
+  rollingStep: MetricWindowStepEnum.default("daily"),
+  rboPersistence: z.number().gt(0).lt(1).default(0.9),
+  bootstrapIterations: z.number().int().min(0).max(10000).default(500),
+  significanceLevel: z.number().gt(0).lt(1).default(0.05),
+  anomalyThreshold: z.number().positive().default(3.5),
+  anomalyMinHistory: z.number().int().min(2).default(5),
+  anomalyBaselineRuns: z.number().int().min(2).max(365).default(30),
+  minExtractionConfidence: z.number().min(0).max(1).optional()
 });
 
 export type MetricsConfig = z.infer<typeof MetricsConfigSchema>;
@@ -16,6 +26,15 @@ export function makeMetricsConfig(): MetricsConfig {
   return MetricsConfigSchema.parse({
     storageUrl: env.STORAGE_URL,
     exportDir: env.METRICS_EXPORT_DIR,
-    windowSize: env.METRICS_WINDOW_SIZE
+    benchmarkQuerySetPath: env.BENCHMARK_QUERY_SET_PATH,
+    windowSize: env.METRICS_WINDOW_SIZE,
+    rollingStep: env.METRICS_ROLLING_STEP,
+    rboPersistence: env.METRICS_RBO_PERSISTENCE,
+    bootstrapIterations: env.METRICS_BOOTSTRAP_ITERATIONS,
+    significanceLevel: env.METRICS_SIGNIFICANCE_LEVEL,
+    anomalyThreshold: env.METRICS_ANOMALY_THRESHOLD,
+    anomalyMinHistory: env.METRICS_ANOMALY_MIN_HISTORY,
+    anomalyBaselineRuns: env.METRICS_ANOMALY_BASELINE_RUNS,
+    minExtractionConfidence: env.METRICS_MIN_EXTRACTION_CONFIDENCE
   });
 }
@@ -0,0 +1,92 @@
+/**
+ * Rank-sensitive similarity measures between two ranked URL lists.
+ * Lists are ordered best-first and are expected to be free of duplicates.
+ */
+
+export const DEFAULT_RBO_PERSISTENCE = 0.9;
+
+/**
+ * Extrapolated rank-biased overlap (Webber et al., 2010, eq. 32).
+ * `persistence` (p) controls top-weightedness: lower values concentrate
+ * the weight on the first few ranks. Identical lists score 1, disjoint lists 0.
+ * When the lists differ in length, the shorter one simply stops contributing new items.
+ */
+export function rankBiasedOverlap(a: string[], b: string[], persistence = DEFAULT_RBO_PERSISTENCE): number {
+  if (persistence <= 0 || persistence >= 1) {
+    throw new Error(`RBO persistence must be in (0, 1), received ${persistence}`);
+  }
+
+  const depth = Math.max(a.length, b.length);
+  if (depth === 0) return 0;
+
+  const seenA = new Set<string>();
+  const seenB = new Set<string>();
+  let overlap = 0;
+  let weightedAgreement = 0;
+
+  for (let d = 1; d <= depth; d++) {
+    const itemA = a[d - 1];
+    const itemB = b[d - 1];
+
+    if (itemA !== undefined) {
+      if (seenB.has(itemA)) overlap += 1;
+      seenA.add(itemA);
+    }
+    if (itemB !== undefined) {
+      if (seenA.has(itemB)) overlap += 1;
+      seenB.add(itemB);
+    }
+
+    weightedAgreement += (overlap / d) * persistence ** d;
+  }
+
+  return (overlap / depth) * persistence ** depth + ((1 - persistence) / persistence) * weightedAgreement;
+}
+
+/**
+ * Kendall tau-a over the items both lists share. Returns null when fewer than
+ * two items are shared, since no pair ordering can be compared.
+ */
+export function kendallTauShared(a: string[], b: string[]): { value: number; sharedCount: number } | null {
+  const positionsB = new Map(b.map((item, index) => [item, index]));
+  const shared = a.filter((item) => positionsB.has(item));
+
+  if (shared.length < 2) return null;
+
+  let concordant = 0;
+  let discordant = 0;
+  for (let i = 0; i < shared.length; i++) {
+    for (let j = i + 1; j < shared.length; j++) {
+      // `shared` follows list A's order, so the pair is concordant when B agrees.
+      if (positionsB.get(shared[i])! < positionsB.get(shared[j])!) {
+        concordant += 1;
+      } else {
+        discordant += 1;
+      }
+    }
+  }
+
+  const pairs = (shared.length * (shared.length - 1)) / 2;
+  return { value: (concordant - discordant) / pairs, sharedCount: shared.length };
+}
+
+/**
+ * Weighted Jaccard similarity where each URL is weighted by 1/rank in each list
+ * (0 when absent): sum of element-wise minima over sum of element-wise maxima.
+ */
+export function rankWeightedJaccard(a: string[], b: string[]): number {
+  const weightsA = new Map(a.map((item, index) => [item, 1 / (index + 1)]));
+  const weightsB = new Map(b.map((item, index) => [item, 1 / (index + 1)]));
+  const items = new Set([...weightsA.keys(), ...weightsB.keys()]);
+
+  let minSum = 0;
+  let maxSum = 0;
+  for (const item of items) {
+    const weightA = weightsA.get(item) ?? 0;
+    const weightB = weightsB.get(item) ?? 0;
+    minSum += Math.min(weightA, weightB);
+    maxSum += Math.max(weightA, weightB);
+  }
+
+  return maxSum === 0 ? 0 : minSum / maxSum;
+}
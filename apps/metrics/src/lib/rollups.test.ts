@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import type { AnnotatedResultView, BenchmarkQuery } from "@truthlayer/schema";
+import type { MetricComputation } from "./computations";
+import { computeMetricRollups, toMetricGroupRecordInputs } from "./rollups";
+
+const HEALTH_A = "11111111-1111-1111-1111-111111111111";
+const HEALTH_B = "22222222-2222-2222-2222-222222222222";
+const POLITICS = "33333333-3333-3333-3333-333333333333";
+const UNLISTED = "44444444-4444-4444-4444-444444444444";
+
+const queries: BenchmarkQuery[] = [
+  { id: HEALTH_A, query: "flu vaccine safety", topic: "health", tags: ["medical", "news"] },
+  { id: HEALTH_B, query: "intermittent fasting", topic: "health", tags: ["medical"] },
+  { id: POLITICS, query: "election results", topic: "politics", tags: ["news"] }
+];
+
+function results(runId: string, queryId: string, count: number, collectedAt: Date): AnnotatedResultView[] {
+  return Array.from({ length: count }, (_, index) => ({
+    runId,
+    annotationId: `${runId}-${index}`,
+    queryId,
+    engine: "perplexity",
+    normalizedUrl: `https://example.com/${runId}/${index}`,
+    domain: "example.com",
+    rank: index + 1,
+    factualConsistency: "aligned",
+    domainType: "news",
+    collectedAt
+  }));
+}
+
+function metric(runId: string, queryId: string, value: number, collectedAt: Date): MetricComputation {
+  return {
+    runId,
+    queryId,
+    engine: "perplexity",
+    metricType: "factual_alignment",
+    value,
+    delta: null,
+    comparedToRunId: null,
+    collectedAt,
+    windowStart: collectedAt,
+    windowEnd: collectedAt
+  };
+}
+
+const day1 = new Date("2025-03-01T09:00:00Z");
+const day2 = new Date("2025-03-02T09:00:00Z");
+
+const records = [
+  ...results("run-a1", HEALTH_A, 3, day1),
+  ...results("run-b1", HEALTH_B, 1, day1),
+  ...results("run-a2", HEALTH_A, 2, day2),
+  ...results("run-x1", UNLISTED, 5, day1)
+];
+const series = [
+  metric("run-a1", HEALTH_A, 1, day1),
+  metric("run-b1", HEALTH_B, 0, day1),
+  metric("run-a2", HEALTH_A, 0.5, day2),
+  metric("run-x1", UNLISTED, 0, day1)
+];
+
+function find(rollups: ReturnType<typeof computeMetricRollups>, groupBy: string, groupKey: string, runDate: string) {
+  return rollups.find(
+    (rollup) =>
+      rollup.groupBy === groupBy && rollup.groupKey === groupKey && rollup.runDate.toISOString() === runDate
+  );
+}
+
+const RUN_DATE_1 = "2025-03-01T00:00:00.000Z";
+const RUN_DATE_2 = "2025-03-02T00:00:00.000Z";
+
+describe("computeMetricRollups", () => {
+  it("weights each query by its result count within a topic or tag", () => {
+    const rollups = computeMetricRollups(records, series, queries);
+
+    const healthDay1 = find(rollups, "topic", "health", RUN_DATE_1)!;
+    expect(healthDay1.value).toBeCloseTo((1 * 3 + 0 * 1) / 4, 10);
+    expect(healthDay1.totalWeight).toBe(4);
+    expect(healthDay1.queryIds.sort()).toEqual([HEALTH_A, HEALTH_B]);
+    expect(healthDay1.delta).toBeNull();
+
+    expect(find(rollups, "tag", "medical", RUN_DATE_1)!.value).toBeCloseTo(0.75, 10);
+    expect(find(rollups, "tag", "news", RUN_DATE_1)!.value).toBe(1);
+  });
+
+  it("tracks deltas across run dates and skips unknown or partial data", () => {
+    const rollups = computeMetricRollups(records, series, queries);
+
+    const healthDay2 = find(rollups, "topic", "health", RUN_DATE_2)!;
+    expect(healthDay2.value).toBe(0.5);
+    expect(healthDay2.delta).toBeCloseTo(-0.25, 10);
+
+    expect(rollups.some((rollup) => rollup.groupKey === "politics")).toBe(false);
+    expect(rollups.every((rollup) => !rollup.queryIds.includes(UNLISTED))).toBe(true);
+
+    const covered = computeMetricRollups(records, series, queries, {
+      coverageStart: new Date(RUN_DATE_2)
+    });
+    expect(new Set(covered.map((rollup) => rollup.runDate.toISOString()))).toEqual(new Set([RUN_DATE_2]));
+    expect(find(covered, "topic", "health", RUN_DATE_2)!.delta).toBeNull();
+
+    const seeded = computeMetricRollups(records, series, queries, {
+      coverageStart: new Date(RUN_DATE_2),
+      storedRollups: toMetricGroupRecordInputs(rollups, new Date(RUN_DATE_1))
+    });
+    expect(find(seeded, "topic", "health", RUN_DATE_2)!.delta).toBeCloseTo(-0.25, 10);
+  });
+
+  it("builds stable record ids per group and run date", () => {
+    const rollups = computeMetricRollups(records, series, queries);
+    const first = toMetricGroupRecordInputs(rollups, new Date("2025-03-03T00:00:00Z"));
+    const second = toMetricGroupRecordInputs(rollups, new Date("2025-03-04T00:00:00Z"));
+
+    expect(first.map((record) => record.id)).toEqual(second.map((record) => record.id));
+    expect(new Set(first.map((record) => record.id)).size).toBe(first.length);
+    expect(first.find((record) => record.groupKey === "health")).toMatchObject({
+      groupBy: "topic",
+      engine: "perplexity",
+      queryCount: 2
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { hashToUUID } from "@truthlayer/schema";
+import type { AnnotatedResultView, BenchmarkQuery, MetricGroupBy, MetricRecord } from "@truthlayer/schema";
+import type { MetricGroupRecordInput } from "@truthlayer/storage";
+import type { MetricComputation } from "./computations";
+
+/**
+ * Topic- and tag-level rollups of the per-query metric series. Each rollup is the
+ * average of one metric across every query in the group on a UTC run date,
+ * weighted by how many results backed each query's value. Runs from different
+ * vantage profiles all count toward the same rollup.
+ */
+
+type MetricType = MetricRecord["metricType"];
+
+export interface MetricRollup {
+  groupBy: MetricGroupBy;
+  groupKey: string;
+  engine: string | null;
+  metricType: MetricType;
+  runDate: Date;
+  value: number;
+  delta: number | null;
+  queryIds: string[];
+  totalWeight: number;
+}
+
+interface RollupAccumulator {
+  groupBy: MetricGroupBy;
+  groupKey: string;
+  engine: string | null;
+  metricType: MetricType;
+  runDate: Date;
+  weightedSum: number;
+  totalWeight: number;
+  queryIds: Set<string>;
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function weightKey(runId: string, queryId: string, engine: string | null): string {
+  return `${runId}|${queryId}|${engine ?? ""}`;
+}
+
+/** Result counts per run x query, both overall and per engine. */
+function resultWeights(records: AnnotatedResultView[]): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const record of records) {
+    for (const key of [
+      weightKey(record.runId, record.queryId, null),
+      weightKey(record.runId, record.queryId, record.engine)
+    ]) {
+      weights.set(key, (weights.get(key) ?? 0) + 1);
+    }
+  }
+  return weights;
+}
+
+function rollupSeriesKey(rollup: Pick<MetricRollup, "groupBy" | "groupKey" | "engine" | "metricType">): string {
+  return [rollup.groupBy, rollup.groupKey, rollup.engine ?? "", rollup.metricType].join("|");
+}
+
+function groupsForQuery(query: BenchmarkQuery): { groupBy: MetricGroupBy; groupKey: string }[] {
+  return [
+    { groupBy: "topic", groupKey: query.topic },
+    ...Array.from(new Set(query.tags)).map((tag) => ({ groupBy: "tag" as const, groupKey: tag }))
+  ];
+}
+
+export interface MetricRollupOptions {
+  /** Run dates starting before this instant are only partly loaded and are skipped. */
+  coverageStart?: Date;
+  /**
+   * Rollups stored by earlier runs. The first run date of each series takes its
+   * delta from the latest of these before it, so recomputing a date does not
+   * reset its delta to null.
+   */
+  storedRollups?: MetricGroupRecordInput[];
+}
+
+/**
+ * Rolls `series` up by topic and by tag. Metrics for queries missing from
+ * `queries` are skipped. Deltas compare each rollup with the previous run date
+ * of the same group, engine and metric type, computed here or stored.
+ */
+export function computeMetricRollups(
+  records: AnnotatedResultView[],
+  series: MetricComputation[],
+  queries: BenchmarkQuery[],
+  options: MetricRollupOptions = {}
+): MetricRollup[] {
+  const queriesById = new Map(queries.map((query) => [query.id, query]));
+  const weights = resultWeights(records);
+  const accumulators = new Map<string, RollupAccumulator>();
+
+  for (const metric of series) {
+    const query = queriesById.get(metric.queryId);
+    if (!query || !Number.isFinite(metric.value)) continue;
+
+    const weight = weights.get(weightKey(metric.runId, metric.queryId, metric.engine)) || 1;
+    const runDate = startOfUtcDay(metric.collectedAt);
+    if (options.coverageStart && runDate < options.coverageStart) continue;
+
+    for (const { groupBy, groupKey } of groupsForQuery(query)) {
+      const key = [groupBy, groupKey, metric.engine ?? "", metric.metricType, runDate.toISOString()].join("|");
+      let accumulator = accumulators.get(key);
+      if (!accumulator) {
+        accumulator = {
+          groupBy,
+          groupKey,
+          engine: metric.engine,
+          metricType: metric.metricType,
+          runDate,
+          weightedSum: 0,
+          totalWeight: 0,
+          queryIds: new Set()
+        };
+        accumulators.set(key, accumulator);
+      }
+      accumulator.weightedSum += metric.value * weight;
+      accumulator.totalWeight += weight;
+      accumulator.queryIds.add(metric.queryId);
+    }
+  }
+
+  const storedBySeries = new Map<string, MetricGroupRecordInput[]>();
+  for (const stored of options.storedRollups ?? []) {
+    const seriesKey = rollupSeriesKey(stored);
+    storedBySeries.set(seriesKey, [...(storedBySeries.get(seriesKey) ?? []), stored]);
+  }
+
+  const storedPrior = (seriesKey: string, runDate: Date): number | undefined => {
+    let latest: MetricGroupRecordInput | undefined;
+    for (const stored of storedBySeries.get(seriesKey) ?? []) {
+      if (stored.runDate < runDate && (!latest || stored.runDate > latest.runDate)) latest = stored;
+    }
+    return latest?.value;
+  };
+
+  const rollups = Array.from(accumulators.values()).sort((a, b) => a.runDate.getTime() - b.runDate.getTime());
+  const previousBySeries = new Map<string, number>();
+
+  return rollups.map((accumulator) => {
+    const seriesKey = rollupSeriesKey(accumulator);
+    const value = accumulator.weightedSum / accumulator.totalWeight;
+    const prior = previousBySeries.get(seriesKey) ?? storedPrior(seriesKey, accumulator.runDate);
+    previousBySeries.set(seriesKey, value);
+
+    return {
+      groupBy: accumulator.groupBy,
+      groupKey: accumulator.groupKey,
+      engine: accumulator.engine,
+      metricType: accumulator.metricType,
+      runDate: accumulator.runDate,
+      value,
+      delta: prior === undefined ? null : value - prior,
+      queryIds: Array.from(accumulator.queryIds),
+      totalWeight: accumulator.totalWeight
+    };
+  });
+}
+
+export function toMetricGroupRecordInputs(rollups: MetricRollup[], createdAt: Date): MetricGroupRecordInput[] {
+  return rollups.map((rollup) => ({
+    id: hashToUUID(
+      [
+        "rollup",
+        rollup.groupBy,
+        rollup.groupKey,
+        rollup.engine ?? "all",
+        rollup.metricType,
+        rollup.runDate.toISOString()
+      ].join("|")
+    ),
+    groupBy: rollup.groupBy,
+    groupKey: rollup.groupKey,
+    engine: rollup.engine,
+    metricType: rollup.metricType,
+    runDate: rollup.runDate,
+    value: rollup.value,
+    delta: rollup.delta,
+    queryCount: rollup.queryIds.length,
+    totalWeight: rollup.totalWeight,
+    extra: {
+      queryIds: rollup.queryIds
+    },
+    createdAt
+  }));
+}
@@ -0,0 +1,234 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AnnotatedResultView } from "@truthlayer/schema";
+import type {
+  FetchRecentMetricRecordsOptions,
+  MetricAnomalyRecordInput,
+  MetricGroupRecordInput,
+  MetricRecordInput,
+  MetricWindowRecordInput,
+  StorageClient
+} from "@truthlayer/storage";
+import type { MetricsConfig } from "../lib/config";
+import { createMetricsRunner } from "./metrics-runner";
+
+vi.mock("@truthlayer/storage", () => ({ createStorageClient: () => ({}) }));
+vi.mock("../lib/exporter", () => ({
+  exportMetricSeries: async () => ({ csvPath: "metrics.csv", parquetPath: "metrics.parquet" })
+}));
+
+const QUERY_ID = "11111111-1111-1111-1111-111111111111";
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+const config = {
+  runId: "metrics-run",
+  storageUrl: "memory://",
+  exportDir: "data/metrics",
+  benchmarkQuerySetPath: "/nonexistent/benchmark-queries.json",
+  windowSize: 3,
+  rollingStep: "daily",
+  rboPersistence: 0.9,
+  bootstrapIterations: 0,
+  significanceLevel: 0.05,
+  anomalyThreshold: 3.5,
+  anomalyMinHistory: 5,
+  anomalyBaselineRuns: 30
+} as MetricsConfig;
+
+function createStorage() {
+  const state = {
+    results: [] as AnnotatedResultView[],
+    metrics: [] as MetricRecordInput[],
+    metricWindows: [] as MetricWindowRecordInput[],
+    metricGroups: [] as MetricGroupRecordInput[],
+    anomalies: [] as MetricAnomalyRecordInput[]
+  };
+  const storage = {
+    async fetchAnnotatedResults({ since }: { since?: Date }) {
+      return state.results.filter((result) => !since || result.collectedAt >= since);
+    },
+    fetchCitations: async () => [],
+    fetchSerpFeatures: async () => [],
+    insertMetricRecords: async () => {},
+    async upsertMetricWindowRecords(records: MetricWindowRecordInput[]) {
+      const ids = new Set(records.map((record) => record.id));
+      state.metricWindows = [...state.metricWindows.filter((record) => !ids.has(record.id)), ...records];
+    },
+    async fetchMetricWindowRecords({ since }: { since?: Date }) {
+      return state.metricWindows.filter((record) => !since || record.windowEnd >= since);
+    },
+    async upsertMetricGroupRecords(records: MetricGroupRecordInput[]) {
+      const ids = new Set(records.map((record) => record.id));
+      state.metricGroups = [...state.metricGroups.filter((record) => !ids.has(record.id)), ...records];
+    },
+    async fetchMetricGroupRecords({ groupBy }: { groupBy: string }) {
+      return state.metricGroups.filter((record) => record.groupBy === groupBy);
+    },
+    async fetchRecentMetricRecords(metricType: string, limit: number | null, options: FetchRecentMetricRecordsOptions = {}) {
+      return state.metrics
+        .filter((record) => record.metricType === metricType)
+        .filter((record) => !options.since || record.collectedAt >= options.since)
+        .sort((a, b) => b.collectedAt.getTime() - a.collectedAt.getTime())
+        .slice(0, limit ?? undefined);
+    },
+    async upsertMetricAnomalies(records: MetricAnomalyRecordInput[]) {
+      state.anomalies.push(...records);
+    },
+    close: async () => {}
+  };
+  return { state, storage: storage as unknown as StorageClient };
+}
+
+/** One run per day; every other day also returns a domain seen the day before. */
+function dailyRun(day: number): AnnotatedResultView[] {
+  const collectedAt = new Date(Date.UTC(2025, 0, day, 6));
+  const domains = [`day-${day}.example`, ...(day % 2 ? [`day-${day - 1}.example`] : [])];
+  return domains.map((domain, index) => ({
+    runId: `run-${day}`,
+    annotationId: `run-${day}-${index}`,
+    queryId: QUERY_ID,
+    engine: "google",
+    normalizedUrl: `https://${domain}/`,
+    domain,
+    rank: index + 1,
+    factualConsistency: "aligned",
+    domainType: "news",
+    collectedAt
+  }));
+}
+
+function diversityWindows(windows: MetricWindowRecordInput[]) {
+  return windows
+    .filter((window) => window.metricType === "domain_diversity" && window.engine === null)
+    .sort((a, b) => a.windowEnd.getTime() - b.windowEnd.getTime());
+}
+
+describe("createMetricsRunner", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("writes a rolling window per step with deltas, even without a run today", async () => {
+    const { state, storage } = createStorage();
+    for (let day = 3; day <= 9; day++) state.results.push(...dailyRun(day));
+
+    vi.setSystemTime(new Date("2025-01-10T12:00:00Z"));
+    await createMetricsRunner({ config, logger, storage }).execute();
+
+    const windows = diversityWindows(state.metricWindows);
+    expect(windows.map((window) => window.windowEnd.toISOString().slice(0, 10))).toEqual([
+      "2025-01-04",
+      "2025-01-05",
+      "2025-01-06",
+      "2025-01-07",
+      "2025-01-08",
+      "2025-01-09",
+      "2025-01-10"
+    ]);
+    expect(windows[0].delta).toBeNull();
+    windows.slice(1).forEach((window, index) => {
+      expect(window.delta).toBe(window.value - windows[index].value);
+    });
+  });
+
+  it("keeps the delta of the earliest recomputed window from the stored one before it", async () => {
+    const { state, storage } = createStorage();
+    for (let day = 3; day <= 9; day++) state.results.push(...dailyRun(day));
+    vi.setSystemTime(new Date("2025-01-10T12:00:00Z"));
+    await createMetricsRunner({ config, logger, storage }).execute();
+    const before = diversityWindows(state.metricWindows);
+
+    state.results.push(...dailyRun(13));
+    vi.setSystemTime(new Date("2025-01-14T12:00:00Z"));
+    await createMetricsRunner({ config, logger, storage }).execute();
+
+    const after = diversityWindows(state.metricWindows);
+    const earliestRecomputed = after.find((window) => window.windowEnd.toISOString().startsWith("2025-01-08"));
+    const stored = before.find((window) => window.windowEnd.toISOString().startsWith("2025-01-08"));
+    expect(earliestRecomputed?.createdAt.toISOString()).toBe("2025-01-14T12:00:00.000Z");
+    expect(earliestRecomputed?.delta).not.toBeNull();
+    expect(earliestRecomputed?.delta).toBe(stored?.delta);
+    expect(after.at(-1)?.windowEnd.toISOString().slice(0, 10)).toBe("2025-01-14");
+  });
+
+  it("keeps the delta of the earliest recomputed rollup from the stored one before it", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "metrics-runner-"));
+    const benchmarkQuerySetPath = path.join(dir, "queries.json");
+    await fs.writeFile(
+      benchmarkQuerySetPath,
+      JSON.stringify([{ id: QUERY_ID, query: "is coffee healthy", topic: "health", tags: [] }])
+    );
+    const { state, storage } = createStorage();
+    const healthDiversity = (runDate: string) =>
+      state.metricGroups.find(
+        (record) =>
+          record.groupKey === "health" &&
+          record.metricType === "domain_diversity" &&
+          record.engine === null &&
+          record.runDate.toISOString().startsWith(runDate)
+      );
+
+    try {
+      for (let day = 3; day <= 9; day++) state.results.push(...dailyRun(day));
+      vi.setSystemTime(new Date("2025-01-10T12:00:00Z"));
+      await createMetricsRunner({ config: { ...config, benchmarkQuerySetPath }, logger, storage }).execute();
+      const stored = healthDiversity("2025-01-09")!;
+      expect(stored.delta).toBe(stored.value - healthDiversity("2025-01-08")!.value);
+
+      state.results.push(...dailyRun(10));
+      vi.setSystemTime(new Date("2025-01-11T12:00:00Z"));
+      await createMetricsRunner({ config: { ...config, benchmarkQuerySetPath }, logger, storage }).execute();
+
+      // 2025-01-09 is now the earliest run date in range and is written again
+      const recomputed = healthDiversity("2025-01-09")!;
+      expect(recomputed.createdAt.toISOString()).toBe("2025-01-11T12:00:00.000Z");
+      expect(recomputed.delta).toBe(stored.delta);
+      expect(healthDiversity("2025-01-10")!.delta).toBe(healthDiversity("2025-01-10")!.value - recomputed.value);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("builds anomaly baselines from every stored run in range, however many other series there are", async () => {
+    const { state, storage } = createStorage();
+    const record = (queryId: string, day: number, index = 0): MetricRecordInput => ({
+      id: `${queryId}-${day}-${index}`,
+      crawlRunId: `run-${day}-${index}`,
+      queryId,
+      engine: null,
+      metricType: "domain_diversity",
+      value: 2,
+      delta: null,
+      comparedToRunId: null,
+      collectedAt: new Date(Date.UTC(2025, 0, day, 6)),
+      createdAt: new Date(Date.UTC(2025, 0, day, 6))
+    });
+    for (let day = 1; day <= 6; day++) state.metrics.push(record(QUERY_ID, day));
+    // Newer rows of other queries outnumber any fixed row cap
+    for (let index = 0; index < 6000; index++) {
+      state.metrics.push(record("22222222-2222-2222-2222-222222222222", 8, index));
+    }
+    state.results.push(
+      ...Array.from({ length: 8 }, (_, index) => ({
+        ...dailyRun(9)[0],
+        annotationId: `spike-${index}`,
+        normalizedUrl: `https://spike-${index}.example/`,
+        domain: `spike-${index}.example`,
+        rank: index + 1
+      }))
+    );
+
+    vi.setSystemTime(new Date("2025-01-10T12:00:00Z"));
+    await createMetricsRunner({ config, logger, storage }).execute();
+
+    const anomaly = state.anomalies.find((entry) => entry.metricType === "domain_diversity" && entry.engine === null);
+    expect(anomaly).toMatchObject({ queryId: QUERY_ID, value: 8, baseline: 2, historyCount: 6 });
+  });
+});
@@ -2,8 +2,20 @@ import { subDays } from "date-fns";
 import { createStorageClient, StorageClient } from "@truthlayer/storage";
 import { MetricsConfig } from "../lib/config";
 import { Logger } from "../lib/logger";
-import { computeMetricSeries, toMetricRecordInputs } from "../lib/computations";
+import {
+  computeMetricSeries,
+  computeRollingMetricSeries,
+  STEP_DAYS,
+  toMetricRecordInputs,
+  toMetricWindowRecordInputs
+} from "../lib/computations";
+import { detectMetricAnomalies, MetricObservation, toMetricAnomalyRecordInputs } from "../lib/anomalies";
 import { exportMetricSeries } from "../lib/exporter";
+import { loadQueries } from "../lib/query-loader";
+import { computeMetricRollups, toMetricGroupRecordInputs } from "../lib/rollups";
+
+// Earlier rolling windows recomputed alongside the newest one on every run
+const ROLLING_WINDOW_HISTORY = 7;
 
 interface MetricsRunner {
   id: string;
@@ -25,9 +37,15 @@ export function createMetricsRunner({ config, logger, storage }: CreateMetricsRu
       const storageClient = storage ?? createStorageClient({ url: config.storageUrl });
 
       const since = subDays(new Date(), Math.max(1, config.windowSize));
+      // Rolling windows end on earlier days too, so they need runs from before `since`
+      const historySince = subDays(since, STEP_DAYS[config.rollingStep] * ROLLING_WINDOW_HISTORY);
 
       try {
-        const annotatedResults = await storageClient.fetchAnnotatedResults({ since });
+        const historyResults = await storageClient.fetchAnnotatedResults({
+          since: historySince,
+          minExtractionConfidence: config.minExtractionConfidence
+        });
+        const annotatedResults = historyResults.filter((result) => result.collectedAt >= since);
 
         if (!annotatedResults.length) {
           logger.warn("no annotated results available for metrics computation", {
@@ -36,7 +54,17 @@ export function createMetricsRunner({ config, logger, storage }: CreateMetricsRu
           return;
         }
 
-        const metricSeries = computeMetricSeries(annotatedResults, config.windowSize);
+        const citations = await storageClient.fetchCitations({ since: historySince });
+        const serpFeatures = await storageClient.fetchSerpFeatures({ since: historySince });
+
+        const historySeries = computeMetricSeries(historyResults, config.windowSize, {
+          citations,
+          serpFeatures,
+          rboPersistence: config.rboPersistence,
+          bootstrapIterations: config.bootstrapIterations,
+          significanceLevel: config.significanceLevel
+        });
+        const metricSeries = historySeries.filter((metric) => metric.collectedAt >= since);
 
         if (!metricSeries.length) {
           logger.warn("no metrics generated from annotated results", {
@@ -49,10 +77,82 @@ export function createMetricsRunner({ config, logger, storage }: CreateMetricsRu
         const metricRecords = toMetricRecordInputs(metricSeries, createdAt);
         await storageClient.insertMetricRecords(metricRecords);
 
+        const storedWindows = await storageClient.fetchMetricWindowRecords({
+          step: config.rollingStep,
+          queryIds: Array.from(new Set(historyResults.map((result) => result.queryId))),
+          since: subDays(historySince, STEP_DAYS[config.rollingStep])
+        });
+        const windowSeries = computeRollingMetricSeries(historyResults, historySeries, {
+          windowSizeDays: config.windowSize,
+          step: config.rollingStep,
+          coverageStart: historySince,
+          storedWindows
+        });
+        await storageClient.upsertMetricWindowRecords(toMetricWindowRecordInputs(windowSeries, createdAt));
+
+        const queries = await loadQueries(config.benchmarkQuerySetPath).catch((error) => {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+          logger.warn("benchmark query set not found; skipping topic and tag rollups", {
+            path: config.benchmarkQuerySetPath
+          });
+          return [];
+        });
+        const storedRollups = queries.length
+          ? [
+              ...(await storageClient.fetchMetricGroupRecords({ groupBy: "topic", since: historySince })),
+              ...(await storageClient.fetchMetricGroupRecords({ groupBy: "tag", since: historySince }))
+            ]
+          : [];
+        const rollups = computeMetricRollups(annotatedResults, metricSeries, queries, {
+          coverageStart: since,
+          storedRollups
+        });
+        await storageClient.upsertMetricGroupRecords(toMetricGroupRecordInputs(rollups, createdAt));
+
+        // Enough stored history for every series to reach its full baseline, one run per step
+        const anomalySince = subDays(since, config.anomalyBaselineRuns * STEP_DAYS[config.rollingStep]);
+        const metricTypes = Array.from(new Set(metricSeries.map((metric) => metric.metricType)));
+        const history: MetricObservation[] = [];
+        for (const metricType of metricTypes) {
+          const records = await storageClient.fetchRecentMetricRecords(metricType, null, { since: anomalySince });
+          history.push(
+            ...records
+              .filter((record) => record.crawlRunId !== null)
+              .map((record) => ({
+                ...record,
+                runId: record.crawlRunId!,
+                vantageId: typeof record.extra?.vantageId === "string" ? record.extra.vantageId : null
+              }))
+          );
+        }
+
+        const anomalies = detectMetricAnomalies(metricSeries, history, {
+          threshold: config.anomalyThreshold,
+          minHistory: config.anomalyMinHistory,
+          baselineRuns: config.anomalyBaselineRuns
+        });
+        await storageClient.upsertMetricAnomalies(toMetricAnomalyRecordInputs(anomalies, createdAt));
+
+        for (const anomaly of anomalies) {
+          logger.warn("metric anomaly detected", {
+            queryId: anomaly.queryId,
+            engine: anomaly.engine,
+            metricType: anomaly.metricType,
+            runId: anomaly.runId,
+            value: anomaly.value,
+            baseline: anomaly.baseline,
+            score: anomaly.score,
+            severity: anomaly.severity
+          });
+        }
+
         const exportResult = await exportMetricSeries(metricSeries, config.exportDir, id);
 
         logger.info("metrics computation complete", {
           metricsCount: metricSeries.length,
+          windowMetricsCount: windowSeries.length,
+          rollupCount: rollups.length,
+          anomalyCount: anomalies.length,
           csvPath: exportResult.csvPath,
           parquetPath: exportResult.parquetPath
         });
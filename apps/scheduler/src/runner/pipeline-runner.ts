@@ -2,7 +2,7 @@ import { createHash, randomUUID } from "node:crypto";
 import { promises as fs } from "node:fs";
 import path from "node:path";
 import pRetry from "p-retry";
-import { createCollectorApp } from "@truthlayer/collector";
+import { createCollectorApp, registrableDomain, summarizeWorkItems } from "@truthlayer/collector";
 import { createAnnotationApp } from "@truthlayer/annotation";
 import { createMetricsApp } from "@truthlayer/metrics";
 import { BenchmarkQuerySetSchema, MetricTypeEnum, DatasetTypeEnum, PipelineRunStatusEnum, PipelineStageEnum } from "@truthlayer/schema";
@@ -163,7 +163,9 @@ async function ingestCollectorOutputs(
         const timestampValue = typeof record.timestamp === "string" ? record.timestamp : undefined;
         const timestamp = timestampValue ? new Date(timestampValue) : new Date();
 
-        const crawlKey = `${queryId}|${engine}`;
+        const vantageId = typeof record.vantageId === "string" ? record.vantageId : null;
+
+        const crawlKey = `${queryId}|${engine}|${vantageId ?? ""}`;
         let crawlRun = crawlRunMap.get(crawlKey);
         if (!crawlRun) {
           const crawlRunId = typeof record.crawlRunId === "string" ? record.crawlRunId : randomUUID();
@@ -178,7 +180,8 @@ async function ingestCollectorOutputs(
             error: null,
             resultCount: 0,
             createdAt: timestamp,
-            updatedAt: timestamp
+            updatedAt: timestamp,
+            vantageId
           } satisfies CrawlRunRecordInput;
           crawlRunMap.set(crawlKey, crawlRun);
         }
@@ -201,6 +204,9 @@ async function ingestCollectorOutputs(
           ? record.rawHtmlPath
           : path.join(collectorOutputDir, "raw_html", `${engine}-${queryId}.html`);
 
+        const extractionConfidence =
+          typeof record.extractionConfidence === "number" ? record.extractionConfidence : null;
+
         const createdAtValue = typeof record.createdAt === "string" ? new Date(record.createdAt) : timestamp;
         const updatedAtValue = typeof record.updatedAt === "string" ? new Date(record.updatedAt) : timestamp;
 
@@ -215,11 +221,21 @@ async function ingestCollectorOutputs(
           url,
           normalizedUrl,
           domain,
+          registrableDomain:
+            typeof record.registrableDomain === "string" ? record.registrableDomain : registrableDomain(domain),
           timestamp,
           hash,
           rawHtmlPath,
           createdAt: createdAtValue,
-          updatedAt: updatedAtValue
+          updatedAt: updatedAtValue,
+          source: typeof record.source === "string" ? record.source : null,
+          extractionConfidence,
+          extractionWarnings: typeof record.extractionWarnings === "string" ? record.extractionWarnings : null,
+          metadata: typeof record.metadata === "string" ? record.metadata : null,
+          parserVersion: typeof record.parserVersion === "string" ? record.parserVersion : null,
+          visibilityWeight: typeof record.visibilityWeight === "number" ? record.visibilityWeight : null,
+          vantageId,
+          page: typeof record.page === "number" ? record.page : null
         };
 
         searchResults.push(searchResult);
@@ -239,6 +255,20 @@ async function ingestCollectorOutputs(
       if (dedupedCrawlRuns.length < crawlRuns.length) {
         console.log(`[Scheduler] Deduped crawl runs: ${crawlRuns.length} → ${dedupedCrawlRuns.length}`);
       }
+
+      // Output files only hold results; a run's work items say whether it failed
+      const outcomes = summarizeWorkItems(
+        await storage.fetchWorkItems({ crawlRunIds: dedupedCrawlRuns.map((crawlRun) => crawlRun.id) })
+      );
+      for (const crawlRun of dedupedCrawlRuns) {
+        const outcome = outcomes.get(crawlRun.id);
+        if (!outcome) continue;
+        crawlRun.status = outcome.status;
+        crawlRun.error = outcome.error;
+        if (outcome.status === "pending" || outcome.status === "running") {
+          crawlRun.completedAt = null;
+        }
+      }
       
       console.log(`[Scheduler] Calling recordCrawlRuns with ${dedupedCrawlRuns.length} records...`);
       try {
@@ -255,10 +285,10 @@ async function ingestCollectorOutputs(
 
     if (searchResults.length) {
       // Deduplicate at scheduler level before passing to storage
-      // This prevents ON CONFLICT errors when multiple files contain the same (query_id, engine, url)
+      // This prevents ON CONFLICT errors when multiple files contain the same (query_id, engine, url, vantage_id, crawl_run_id)
       const dedupMap = new Map<string, SearchResultInput>();
       searchResults.forEach(r => {
-        const key = `${r.queryId}-${r.engine}-${r.url}`;
+        const key = `${r.queryId}-${r.engine}-${r.url}-${r.vantageId ?? ""}-${r.crawlRunId ?? ""}`;
         dedupMap.set(key, r); // Keep last occurrence
       });
       
@@ -454,10 +484,11 @@ async function generateTransparencyReport(
   logger: Logger
 ) {
   try {
+    // The report covers cross-engine aggregates only; per-engine rows carry an engine value.
     const [domainMetrics, overlapMetrics, factualMetrics] = await Promise.all([
-      storage.fetchRecentMetricRecords(MetricTypeEnum.enum.domain_diversity, 100),
-      storage.fetchRecentMetricRecords(MetricTypeEnum.enum.engine_overlap, 100),
-      storage.fetchRecentMetricRecords(MetricTypeEnum.enum.factual_alignment, 100)
+      storage.fetchRecentMetricRecords(MetricTypeEnum.enum.domain_diversity, 100, { engine: null }),
+      storage.fetchRecentMetricRecords(MetricTypeEnum.enum.engine_overlap, 100, { engine: null }),
+      storage.fetchRecentMetricRecords(MetricTypeEnum.enum.factual_alignment, 100, { engine: null })
     ]);
 
     const queryMeta = await loadBenchmarkMetadata();
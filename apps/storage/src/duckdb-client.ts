@@ -20,11 +20,33 @@ import {
   AnnotationAggregateRecordInput,
   AnnotationRecordInput,
   SearchResultInput,
+  SearchResultUrlRecord,
+  SearchResultUrlUpdate,
+  FetchSearchResultUrlsOptions,
   CrawlRunRecordInput,
   FetchAnnotatedResultsOptions,
   FetchPendingAnnotationsOptions,
   FetchAnnotationAggregateOptions,
   MetricRecordInput,
+  MetricWindowRecordInput,
+  FetchMetricWindowRecordsOptions,
+  FetchRecentMetricRecordsOptions,
+  MetricGroupRecordInput,
+  FetchMetricGroupRecordsOptions,
+  MetricAnomalyRecordInput,
+  FetchMetricAnomaliesOptions,
+  CitationRecordInput,
+  FetchCitationsOptions,
+  SerpFeatureRecordInput,
+  FetchSerpFeaturesOptions,
+  SelectorHealthRecordInput,
+  FetchSelectorHealthOptions,
+  RobotsDecisionRecordInput,
+  FetchRobotsDecisionsOptions,
+  WorkItemRecordInput,
+  FetchWorkItemsOptions,
+  CircuitBreakerRecordInput,
+  FetchCircuitBreakersOptions,
   DatasetExportOptions,
   DatasetExportResult,
   PipelineRunRecordInput,
@@ -153,10 +175,34 @@ export class DuckDBStorageClient implements StorageClient {
           hash VARCHAR NOT NULL,
           raw_html_path VARCHAR NOT NULL,
           created_at TIMESTAMP NOT NULL,
-          updated_at TIMESTAMP NOT NULL
+          updated_at TIMESTAMP NOT NULL,
+          source VARCHAR,
+          extraction_confidence DOUBLE,
+          extraction_warnings JSON,
+          metadata JSON,
+          registrable_domain VARCHAR,
+          parser_version VARCHAR,
+          visibility_weight DOUBLE,
+          vantage_id VARCHAR,
+          page INTEGER
         )
       `
     );
+
+    // Databases created before these columns existed lack them.
+    for (const column of [
+      "source VARCHAR",
+      "extraction_confidence DOUBLE",
+      "extraction_warnings JSON",
+      "metadata JSON",
+      "registrable_domain VARCHAR",
+      "parser_version VARCHAR",
+      "visibility_weight DOUBLE",
+      "vantage_id VARCHAR",
+      "page INTEGER"
+    ]) {
+      await run(conn, `ALTER TABLE search_results ADD COLUMN IF NOT EXISTS ${column}`);
+    }
   }
 
   private async ensureCrawlRunsTable(conn: duckdb.Connection) {
@@ -174,10 +220,13 @@ export class DuckDBStorageClient implements StorageClient {
           error VARCHAR,
           result_count INTEGER NOT NULL,
           created_at TIMESTAMP NOT NULL,
-          updated_at TIMESTAMP NOT NULL
+          updated_at TIMESTAMP NOT NULL,
+          vantage_id VARCHAR
         )
       `
     );
+
+    await run(conn, "ALTER TABLE crawl_runs ADD COLUMN IF NOT EXISTS vantage_id VARCHAR");
   }
 
   private async ensureDatasetVersionsTable(conn: duckdb.Connection) {
@@ -257,6 +306,7 @@ export class DuckDBStorageClient implements StorageClient {
     const conn = await this.getConnection();
     try {
       await this.ensureAnnotationTable(conn);
+      await this.ensureSearchResultsTable(conn);
 
       const conditions: string[] = [];
       const params: unknown[] = [];
@@ -294,7 +344,16 @@ export class DuckDBStorageClient implements StorageClient {
             sr.hash,
             sr.raw_html_path AS rawHtmlPath,
             sr.created_at AS createdAt,
-            sr.updated_at AS updatedAt
+            sr.updated_at AS updatedAt,
+            sr.source,
+            sr.extraction_confidence AS extractionConfidence,
+            CAST(sr.extraction_warnings AS VARCHAR) AS extractionWarnings,
+            CAST(sr.metadata AS VARCHAR) AS metadata,
+            sr.registrable_domain AS registrableDomain,
+            sr.parser_version AS parserVersion,
+            sr.visibility_weight AS visibilityWeight,
+            sr.vantage_id AS vantageId,
+            sr.page
           FROM search_results sr
           LEFT JOIN annotations ann ON ann.search_result_id = sr.id
           WHERE ann.id IS NULL
@@ -382,7 +441,9 @@ export class DuckDBStorageClient implements StorageClient {
     try {
       await this.ensureSearchResultsTable(conn);
 
-      const placeholders = records.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+      const placeholders = records
+        .map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)")
+        .join(", ");
       const params: unknown[] = [];
 
       for (const record of records) {
@@ -401,7 +462,16 @@ export class DuckDBStorageClient implements StorageClient {
           record.hash,
           record.rawHtmlPath,
           record.createdAt.toISOString(),
-          record.updatedAt.toISOString()
+          record.updatedAt.toISOString(),
+          record.source ?? null,
+          record.extractionConfidence ?? null,
+          record.extractionWarnings ?? null,
+          record.metadata ?? null,
+          record.registrableDomain ?? null,
+          record.parserVersion ?? null,
+          record.visibilityWeight ?? null,
+          record.vantageId ?? null,
+          record.page ?? null
         );
       }
 
@@ -423,7 +493,16 @@ export class DuckDBStorageClient implements StorageClient {
             hash,
             raw_html_path,
             created_at,
-            updated_at
+            updated_at,
+            source,
+            extraction_confidence,
+            extraction_warnings,
+            metadata,
+            registrable_domain,
+            parser_version,
+            visibility_weight,
+            vantage_id,
+            page
           ) VALUES ${placeholders}
           ON CONFLICT(id) DO UPDATE SET
             crawl_run_id = excluded.crawl_run_id,
@@ -439,7 +518,82 @@ export class DuckDBStorageClient implements StorageClient {
             hash = excluded.hash,
             raw_html_path = excluded.raw_html_path,
             created_at = excluded.created_at,
-            updated_at = excluded.updated_at
+            updated_at = excluded.updated_at,
+            source = excluded.source,
+            extraction_confidence = excluded.extraction_confidence,
+            extraction_warnings = excluded.extraction_warnings,
+            metadata = excluded.metadata,
+            registrable_domain = excluded.registrable_domain,
+            parser_version = excluded.parser_version,
+            visibility_weight = excluded.visibility_weight,
+            vantage_id = excluded.vantage_id,
+            page = excluded.page
+        `,
+        params
+      );
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async fetchSearchResultUrls(options: FetchSearchResultUrlsOptions): Promise<SearchResultUrlRecord[]> {
+    const conn = await this.getConnection();
+    try {
+      await this.ensureSearchResultsTable(conn);
+
+      const params: unknown[] = [];
+      let whereClause = "";
+      if (options.afterId) {
+        whereClause = "WHERE id > ?";
+        params.push(options.afterId);
+      }
+      const limitClause = options.limit ? `LIMIT ${options.limit}` : "";
+
+      return await all<SearchResultUrlRecord>(
+        conn,
+        `
+          SELECT
+            id,
+            engine,
+            url,
+            normalized_url AS normalizedUrl,
+            domain,
+            registrable_domain AS registrableDomain
+          FROM search_results
+          ${whereClause}
+          ORDER BY id ASC
+          ${limitClause}
+        `,
+        params
+      );
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async updateSearchResultUrls(updates: SearchResultUrlUpdate[]): Promise<void> {
+    if (!updates.length) return;
+
+    const conn = await this.getConnection();
+    try {
+      await this.ensureSearchResultsTable(conn);
+
+      const placeholders = updates.map(() => "(?, ?, ?, ?)").join(", ");
+      const params: unknown[] = [];
+      for (const update of updates) {
+        params.push(update.id, update.normalizedUrl, update.domain, update.registrableDomain);
+      }
+
+      await run(
+        conn,
+        `
+          UPDATE search_results
+          SET
+            normalized_url = v.normalized_url,
+            domain = v.domain,
+            registrable_domain = v.registrable_domain
+          FROM (VALUES ${placeholders}) AS v(id, normalized_url, domain, registrable_domain)
+          WHERE search_results.id = v.id
         `,
         params
       );
@@ -455,7 +609,7 @@ export class DuckDBStorageClient implements StorageClient {
     try {
       await this.ensureCrawlRunsTable(conn);
 
-      const placeholders = records.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+      const placeholders = records.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
       const params: unknown[] = [];
 
       for (const record of records) {
@@ -470,7 +624,8 @@ export class DuckDBStorageClient implements StorageClient {
           record.error,
           record.resultCount,
           record.createdAt.toISOString(),
-          record.updatedAt.toISOString()
+          record.updatedAt.toISOString(),
+          record.vantageId ?? null
         );
       }
 
@@ -488,7 +643,8 @@ export class DuckDBStorageClient implements StorageClient {
             error,
             result_count,
             created_at,
-            updated_at
+            updated_at,
+            vantage_id
           ) VALUES ${placeholders}
           ON CONFLICT(id) DO UPDATE SET
             batch_id = excluded.batch_id,
@@ -500,7 +656,8 @@ export class DuckDBStorageClient implements StorageClient {
             error = excluded.error,
             result_count = excluded.result_count,
             created_at = excluded.created_at,
-            updated_at = excluded.updated_at
+            updated_at = excluded.updated_at,
+            vantage_id = excluded.vantage_id
         `,
         params
       );
@@ -512,6 +669,8 @@ export class DuckDBStorageClient implements StorageClient {
   async fetchAnnotatedResults(options: FetchAnnotatedResultsOptions): Promise<AnnotatedResultView[]> {
     const conn = await this.getConnection();
     try {
+      await this.ensureSearchResultsTable(conn);
+
       const conditions: string[] = [];
       const params: unknown[] = [];
 
@@ -542,6 +701,17 @@ export class DuckDBStorageClient implements StorageClient {
         params.push(...options.runIds);
       }
 
+      if (options.sources && options.sources.length) {
+        const placeholders = options.sources.map(() => "?").join(", ");
+        conditions.push(`sr.source IN (${placeholders})`);
+        params.push(...options.sources);
+      }
+
+      if (options.minExtractionConfidence !== undefined) {
+        conditions.push("(sr.extraction_confidence IS NULL OR sr.extraction_confidence >= ?)");
+        params.push(options.minExtractionConfidence);
+      }
+
       const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
 
       const rows = await all<{
@@ -556,6 +726,11 @@ export class DuckDBStorageClient implements StorageClient {
         factual_consistency: string;
         domain_type: string;
         collected_at: string | Date;
+        source: string | null;
+        extraction_confidence: number | null;
+        registrable_domain: string | null;
+        visibility_weight: number | null;
+        vantage_id: string | null;
       }>(
         conn,
         `
@@ -570,7 +745,12 @@ export class DuckDBStorageClient implements StorageClient {
             sr.rank,
             ann.factual_consistency,
             ann.domain_type,
-            sr.timestamp AS collected_at
+            sr.timestamp AS collected_at,
+            sr.source,
+            sr.extraction_confidence,
+            sr.registrable_domain,
+            sr.visibility_weight,
+            sr.vantage_id
           FROM annotations ann
           JOIN search_results sr ON sr.id = ann.search_result_id
           LEFT JOIN crawl_runs cr ON cr.id = sr.crawl_run_id
@@ -592,7 +772,12 @@ export class DuckDBStorageClient implements StorageClient {
           rank: row.rank,
           factualConsistency: row.factual_consistency,
           domainType: row.domain_type,
-          collectedAt: row.collected_at
+          collectedAt: row.collected_at,
+          source: row.source,
+          extractionConfidence: row.extraction_confidence,
+          registrableDomain: row.registrable_domain,
+          visibilityWeight: row.visibility_weight,
+          vantageId: row.vantage_id
         })
       );
     } finally {
@@ -776,7 +961,8 @@ export class DuckDBStorageClient implements StorageClient {
 
   async fetchRecentMetricRecords(
     metricType: MetricRecordInput["metricType"],
-    limit: number
+    limit: number | null,
+    options: FetchRecentMetricRecordsOptions = {}
   ): Promise<MetricRecordInput[]> {
     const conn = await this.getConnection();
     try {
@@ -799,6 +985,22 @@ export class DuckDBStorageClient implements StorageClient {
         `
       );
 
+      const conditions = ["metric_type = ?"];
+      const params: unknown[] = [metricType];
+      if (options.engine === null) {
+        conditions.push("engine IS NULL");
+      } else if (options.engine !== undefined) {
+        conditions.push("engine = ?");
+        params.push(options.engine);
+      }
+      if (options.since) {
+        conditions.push("collected_at >= ?");
+        params.push(options.since.toISOString());
+      }
+      if (limit !== null) {
+        params.push(limit);
+      }
+
       const rows = await all<{
         id: string;
         crawl_run_id: string | null;
@@ -816,11 +1018,11 @@ export class DuckDBStorageClient implements StorageClient {
         `
           SELECT *
           FROM metric_records
-          WHERE metric_type = ?
+          WHERE ${conditions.join(" AND ")}
           ORDER BY collected_at DESC
-          LIMIT ?
+          ${limit !== null ? "LIMIT ?" : ""}
         `,
-        [metricType, limit]
+        params
       );
 
       return rows.map((row) => ({
@@ -841,20 +1043,23 @@ export class DuckDBStorageClient implements StorageClient {
     }
   }
 
-  private async ensureAnnotationAggregatesTable(conn: duckdb.Connection) {
+  private async ensureMetricWindowTable(conn: duckdb.Connection) {
     await run(
       conn,
       `
-        CREATE TABLE IF NOT EXISTS annotation_aggregates (
+        CREATE TABLE IF NOT EXISTS metric_window_records (
           id VARCHAR PRIMARY KEY,
-          run_id VARCHAR NOT NULL,
           query_id VARCHAR NOT NULL,
           engine VARCHAR,
-          domain_type VARCHAR NOT NULL,
-          factual_consistency VARCHAR NOT NULL,
-          count INTEGER NOT NULL,
-          total_annotations INTEGER NOT NULL,
-          collected_at TIMESTAMP NOT NULL,
+          metric_type VARCHAR NOT NULL,
+          step VARCHAR NOT NULL,
+          window_days INTEGER NOT NULL,
+          window_start TIMESTAMP NOT NULL,
+          window_end TIMESTAMP NOT NULL,
+          run_count INTEGER NOT NULL,
+          value DOUBLE NOT NULL,
+          moving_average DOUBLE NOT NULL,
+          delta DOUBLE,
           extra JSON,
           created_at TIMESTAMP NOT NULL
         )
@@ -862,27 +1067,29 @@ export class DuckDBStorageClient implements StorageClient {
     );
   }
 
-  async upsertAnnotationAggregates(records: AnnotationAggregateRecordInput[]): Promise<void> {
+  async upsertMetricWindowRecords(records: MetricWindowRecordInput[]): Promise<void> {
     if (!records.length) return;
 
     const conn = await this.getConnection();
     try {
-      await this.ensureAnnotationAggregatesTable(conn);
+      await this.ensureMetricWindowTable(conn);
 
-      const placeholders = records.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+      const placeholders = records.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
       const params: unknown[] = [];
-
       for (const record of records) {
         params.push(
           record.id,
-          record.runId,
           record.queryId,
           record.engine,
-          record.domainType,
-          record.factualConsistency,
-          record.count,
-          record.totalAnnotations,
-          record.collectedAt.toISOString(),
+          record.metricType,
+          record.step,
+          record.windowDays,
+          record.windowStart.toISOString(),
+          record.windowEnd.toISOString(),
+          record.runCount,
+          record.value,
+          record.movingAverage,
+          record.delta,
           record.extra ? JSON.stringify(record.extra) : null,
           record.createdAt.toISOString()
         );
@@ -891,28 +1098,28 @@ export class DuckDBStorageClient implements StorageClient {
       await run(
         conn,
         `
-          INSERT INTO annotation_aggregates (
+          INSERT INTO metric_window_records (
             id,
-            run_id,
             query_id,
             engine,
-            domain_type,
-            factual_consistency,
-            count,
-            total_annotations,
-            collected_at,
+            metric_type,
+            step,
+            window_days,
+            window_start,
+            window_end,
+            run_count,
+            value,
+            moving_average,
+            delta,
             extra,
             created_at
           ) VALUES ${placeholders}
           ON CONFLICT(id) DO UPDATE SET
-            run_id = excluded.run_id,
-            query_id = excluded.query_id,
-            engine = excluded.engine,
-            domain_type = excluded.domain_type,
-            factual_consistency = excluded.factual_consistency,
-            count = excluded.count,
-            total_annotations = excluded.total_annotations,
-            collected_at = excluded.collected_at,
+            window_start = excluded.window_start,
+            run_count = excluded.run_count,
+            value = excluded.value,
+            moving_average = excluded.moving_average,
+            delta = excluded.delta,
             extra = excluded.extra,
             created_at = excluded.created_at
         `,
@@ -923,459 +1130,1574 @@ export class DuckDBStorageClient implements StorageClient {
     }
   }
 
-  async fetchAnnotationAggregates(options: FetchAnnotationAggregateOptions): Promise<AnnotationAggregateRecord[]> {
+  async fetchMetricWindowRecords(options: FetchMetricWindowRecordsOptions): Promise<MetricWindowRecordInput[]> {
     const conn = await this.getConnection();
     try {
-      await this.ensureAnnotationAggregatesTable(conn);
+      await this.ensureMetricWindowTable(conn);
 
       const conditions: string[] = [];
       const params: unknown[] = [];
 
-      if (options.runIds && options.runIds.length) {
-        const placeholders = options.runIds.map(() => "?").join(", ");
-        conditions.push(`run_id IN (${placeholders})`);
-        params.push(...options.runIds);
+      if (options.metricType) {
+        conditions.push("metric_type = ?");
+        params.push(options.metricType);
+      }
+
+      if (options.step) {
+        conditions.push("step = ?");
+        params.push(options.step);
       }
 
       if (options.queryIds && options.queryIds.length) {
-        const placeholders = options.queryIds.map(() => "?").join(", ");
-        conditions.push(`query_id IN (${placeholders})`);
+        conditions.push(`query_id IN (${options.queryIds.map(() => "?").join(", ")})`);
         params.push(...options.queryIds);
       }
 
-      if (options.engines && options.engines.length) {
-        const placeholders = options.engines.map(() => "?").join(", ");
-        conditions.push(`COALESCE(engine, '') IN (${placeholders})`);
-        params.push(...options.engines);
+      if (options.engine === null) {
+        conditions.push("engine IS NULL");
+      } else if (options.engine !== undefined) {
+        conditions.push("engine = ?");
+        params.push(options.engine);
       }
 
-      if (options.domainTypes && options.domainTypes.length) {
-        const placeholders = options.domainTypes.map(() => "?").join(", ");
-        conditions.push(`domain_type IN (${placeholders})`);
-        params.push(...options.domainTypes);
+      if (options.since) {
+        conditions.push("window_end >= ?");
+        params.push(options.since.toISOString());
       }
 
       const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+      const limitClause = options.limit ? "LIMIT ?" : "";
+      if (options.limit) params.push(options.limit);
 
       const rows = await all<{
         id: string;
-        run_id: string;
         query_id: string;
         engine: string | null;
-        domain_type: string;
-        factual_consistency: string;
-        count: number;
-        total_annotations: number;
-        collected_at: string | Date;
+        metric_type: string;
+        step: string;
+        window_days: number;
+        window_start: string | Date;
+        window_end: string | Date;
+        run_count: number;
+        value: number;
+        moving_average: number;
+        delta: number | null;
         extra: string | null;
         created_at: string | Date;
       }>(
         conn,
         `
           SELECT *
-          FROM annotation_aggregates
+          FROM metric_window_records
           ${whereClause}
+          ORDER BY window_end DESC
+          ${limitClause}
         `,
         params
       );
 
-      return rows.map((row) =>
-        AnnotationAggregateRecordSchema.parse({
-          id: row.id,
-          runId: row.run_id,
-          queryId: row.query_id,
-          engine: row.engine,
-          domainType: row.domain_type,
-          factualConsistency: row.factual_consistency,
-          count: row.count,
-          totalAnnotations: row.total_annotations,
-          collectedAt: row.collected_at,
-          extra: row.extra ? JSON.parse(row.extra) : undefined,
-          createdAt: row.created_at
-        })
-      );
+      return rows.map((row) => ({
+        id: row.id,
+        queryId: row.query_id,
+        engine: row.engine,
+        metricType: row.metric_type as MetricWindowRecordInput["metricType"],
+        step: row.step as MetricWindowRecordInput["step"],
+        windowDays: row.window_days,
+        windowStart: new Date(row.window_start),
+        windowEnd: new Date(row.window_end),
+        runCount: row.run_count,
+        value: row.value,
+        movingAverage: row.moving_average,
+        delta: row.delta,
+        extra: row.extra ? JSON.parse(row.extra) : undefined,
+        createdAt: new Date(row.created_at)
+      }));
     } finally {
       await closeConnection(conn);
     }
   }
 
-  async exportDataset(options: DatasetExportOptions): Promise<DatasetExportResult> {
-    const format = options.format ?? DatasetFormatEnum.enum.parquet;
-    if (format !== DatasetFormatEnum.enum.parquet) {
-      throw new Error(`DuckDB exporter currently supports only Parquet format. Requested: ${format}`);
-    }
+  private async ensureMetricGroupTable(conn: duckdb.Connection) {
+    await run(
+      conn,
+      `
+        CREATE TABLE IF NOT EXISTS metric_group_records (
+          id VARCHAR PRIMARY KEY,
+          group_by VARCHAR NOT NULL,
+          group_key VARCHAR NOT NULL,
+          engine VARCHAR,
+          metric_type VARCHAR NOT NULL,
+          run_date TIMESTAMP NOT NULL,
+          value DOUBLE NOT NULL,
+          delta DOUBLE,
+          query_count INTEGER NOT NULL,
+          total_weight DOUBLE NOT NULL,
+          extra JSON,
+          created_at TIMESTAMP NOT NULL
+        )
+      `
+    );
+  }
 
-    const timestamp = new Date();
-    const safeDatasetDir = path.join(options.outputDir, options.datasetType);
-    const fileName = `${options.datasetType}-${timestamp.toISOString().replace(/[:.]/g, "-")}.parquet`;
-    const filePath = path.join(safeDatasetDir, fileName);
-    ensureDirectoryExists(filePath);
+  async upsertMetricGroupRecords(records: MetricGroupRecordInput[]): Promise<void> {
+    if (!records.length) return;
 
     const conn = await this.getConnection();
+    try {
+      await this.ensureMetricGroupTable(conn);
 
-    const filters = options.filters ?? {};
-    const sanitize = (value: string) => value.replace(/'/g, "''");
+      const placeholders = records.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+      const params: unknown[] = [];
+      for (const record of records) {
+        params.push(
+          record.id,
+          record.groupBy,
+          record.groupKey,
+          record.engine,
+          record.metricType,
+          record.runDate.toISOString(),
+          record.value,
+          record.delta,
+          record.queryCount,
+          record.totalWeight,
+          record.extra ? JSON.stringify(record.extra) : null,
+          record.createdAt.toISOString()
+        );
+      }
 
-    const buildWhereClause = (tableAlias: string) => {
-      const clauses: string[] = [];
+      await run(
+        conn,
+        `
+          INSERT INTO metric_group_records (
+            id,
+            group_by,
+            group_key,
+            engine,
+            metric_type,
+            run_date,
+            value,
+            delta,
+            query_count,
+            total_weight,
+            extra,
+            created_at
+          ) VALUES ${placeholders}
+          ON CONFLICT(id) DO UPDATE SET
+            value = excluded.value,
+            delta = excluded.delta,
+            query_count = excluded.query_count,
+            total_weight = excluded.total_weight,
+            extra = excluded.extra,
+            created_at = excluded.created_at
+        `,
+        params
+      );
+    } finally {
+      await closeConnection(conn);
+    }
+  }
 
-      if (filters.queryIds && filters.queryIds.length) {
-        const values = filters.queryIds.map((value) => `'${sanitize(value)}'`).join(", ");
-        clauses.push(`${tableAlias}.query_id IN (${values})`);
+  async fetchMetricGroupRecords(options: FetchMetricGroupRecordsOptions): Promise<MetricGroupRecordInput[]> {
+    const conn = await this.getConnection();
+    try {
+      await this.ensureMetricGroupTable(conn);
+
+      const conditions: string[] = ["group_by = ?"];
+      const params: unknown[] = [options.groupBy];
+
+      if (options.groupKeys && options.groupKeys.length) {
+        conditions.push(`group_key IN (${options.groupKeys.map(() => "?").join(", ")})`);
+        params.push(...options.groupKeys);
       }
 
-      if (filters.engines && filters.engines.length) {
-        const values = filters.engines.map((value) => `'${sanitize(value)}'`).join(", ");
-        clauses.push(`${tableAlias}.engine IN (${values})`);
+      if (options.metricType) {
+        conditions.push("metric_type = ?");
+        params.push(options.metricType);
       }
 
-      if (filters.since) {
-        clauses.push(`${tableAlias}.timestamp >= '${filters.since.toISOString()}'`);
+      if (options.engine === null) {
+        conditions.push("engine IS NULL");
+      } else if (options.engine !== undefined) {
+        conditions.push("engine = ?");
+        params.push(options.engine);
       }
 
-      if (filters.until) {
-        clauses.push(`${tableAlias}.timestamp <= '${filters.until.toISOString()}'`);
+      if (options.since) {
+        conditions.push("run_date >= ?");
+        params.push(options.since.toISOString());
       }
 
-      return clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
-    };
+      const limitClause = options.limit ? "LIMIT ?" : "";
+      if (options.limit) params.push(options.limit);
 
-    try {
-      let query: string;
-      let summaryQuery: string;
+      const rows = await all<{
+        id: string;
+        group_by: string;
+        group_key: string;
+        engine: string | null;
+        metric_type: string;
+        run_date: string | Date;
+        value: number;
+        delta: number | null;
+        query_count: number;
+        total_weight: number;
+        extra: string | null;
+        created_at: string | Date;
+      }>(
+        conn,
+        `
+          SELECT *
+          FROM metric_group_records
+          WHERE ${conditions.join(" AND ")}
+          ORDER BY run_date DESC
+          ${limitClause}
+        `,
+        params
+      );
 
-      switch (options.datasetType) {
-        case DatasetTypeEnum.enum.search_results: {
-          await this.ensureSearchResultsTable(conn);
-          const whereClause = buildWhereClause("search_results");
-          query = `SELECT * FROM search_results ${whereClause}`;
-          summaryQuery = `
-            SELECT
-              COUNT(*) AS count,
-              COUNT(DISTINCT query_id) AS distinct_queries,
-              COUNT(DISTINCT engine) AS distinct_engines,
-              MIN(timestamp) AS min_ts,
-              MAX(timestamp) AS max_ts
-            FROM search_results
-            ${whereClause}
-          `;
-          break;
-        }
-        case DatasetTypeEnum.enum.annotated_results: {
-          await this.ensureAnnotationTable(conn);
-          await this.ensureSearchResultsTable(conn);
-          const whereClause = buildWhereClause("sr");
-          query = `
-            SELECT
-              ann.id AS annotation_id,
-              sr.id AS search_result_id,
-              sr.query_id,
-              sr.engine,
-              sr.rank,
-              sr.title,
-              sr.snippet,
-              sr.url,
-              sr.normalized_url,
-              sr.domain,
-              sr.timestamp,
-              sr.hash,
-              sr.raw_html_path,
-              ann.domain_type,
-              ann.factual_consistency,
-              ann.confidence,
-              ann.prompt_version,
-              ann.model_id,
-              ann.extra,
-              sr.crawl_run_id,
-              sr.created_at,
-              sr.updated_at,
-              ann.created_at AS annotated_at
-            FROM annotations ann
-            JOIN search_results sr ON sr.id = ann.search_result_id
-            ${whereClause}
-          `;
-          summaryQuery = `
-            SELECT
-              COUNT(*) AS count,
-              COUNT(DISTINCT sr.query_id) AS distinct_queries,
-              COUNT(DISTINCT sr.engine) AS distinct_engines,
-              MIN(sr.timestamp) AS min_ts,
-              MAX(sr.timestamp) AS max_ts
-            FROM annotations ann
-            JOIN search_results sr ON sr.id = ann.search_result_id
-            ${whereClause}
-          `;
-          break;
-        }
-        case DatasetTypeEnum.enum.metrics: {
-          const clauses: string[] = [];
-          if (filters.queryIds && filters.queryIds.length) {
-            const values = filters.queryIds.map((value) => `'${sanitize(value)}'`).join(", ");
-            clauses.push(`query_id IN (${values})`);
-          }
-          if (filters.engines && filters.engines.length) {
-            const values = filters.engines.map((value) => `'${sanitize(value)}'`).join(", ");
-            clauses.push(`COALESCE(engine, '') IN (${values})`);
-          }
-          if (filters.since) {
-            clauses.push(`collected_at >= '${filters.since.toISOString()}'`);
-          }
-          if (filters.until) {
-            clauses.push(`collected_at <= '${filters.until.toISOString()}'`);
-          }
-          const whereClause = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
-          await run(
-            conn,
-            `
-              CREATE TABLE IF NOT EXISTS metric_records (
-                id VARCHAR PRIMARY KEY,
-                crawl_run_id VARCHAR,
-                query_id VARCHAR NOT NULL,
-                engine VARCHAR,
-                metric_type VARCHAR NOT NULL,
-                value DOUBLE NOT NULL,
-                delta DOUBLE,
-                compared_to_run_id VARCHAR,
-                collected_at TIMESTAMP NOT NULL,
-                extra JSON,
-                created_at TIMESTAMP NOT NULL
-              )
-            `
-          );
-          query = `SELECT * FROM metric_records ${whereClause}`;
-          summaryQuery = `
-            SELECT
-              COUNT(*) AS count,
-              COUNT(DISTINCT query_id) AS distinct_queries,
-              COUNT(DISTINCT engine) AS distinct_engines,
-              MIN(collected_at) AS min_ts,
-              MAX(collected_at) AS max_ts
-            FROM metric_records
-            ${whereClause}
-          `;
-          break;
-        }
-        default:
-          throw new Error(`Unsupported dataset type: ${options.datasetType}`);
+      return rows.map((row) => ({
+        id: row.id,
+        groupBy: row.group_by as MetricGroupRecordInput["groupBy"],
+        groupKey: row.group_key,
+        engine: row.engine,
+        metricType: row.metric_type as MetricGroupRecordInput["metricType"],
+        runDate: new Date(row.run_date),
+        value: row.value,
+        delta: row.delta,
+        queryCount: row.query_count,
+        totalWeight: row.total_weight,
+        extra: row.extra ? JSON.parse(row.extra) : undefined,
+        createdAt: new Date(row.created_at)
+      }));
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  private async ensureMetricAnomalyTable(conn: duckdb.Connection) {
+    await run(
+      conn,
+      `
+        CREATE TABLE IF NOT EXISTS metric_anomalies (
+          id VARCHAR PRIMARY KEY,
+          crawl_run_id VARCHAR NOT NULL,
+          query_id VARCHAR NOT NULL,
+          engine VARCHAR,
+          metric_type VARCHAR NOT NULL,
+          value DOUBLE NOT NULL,
+          baseline DOUBLE NOT NULL,
+          scale DOUBLE NOT NULL,
+          score DOUBLE NOT NULL,
+          lower_bound DOUBLE NOT NULL,
+          upper_bound DOUBLE NOT NULL,
+          direction VARCHAR NOT NULL,
+          severity VARCHAR NOT NULL,
+          history_count INTEGER NOT NULL,
+          collected_at TIMESTAMP NOT NULL,
+          extra JSON,
+          created_at TIMESTAMP NOT NULL
+        )
+      `
+    );
+  }
+
+  async upsertMetricAnomalies(records: MetricAnomalyRecordInput[]): Promise<void> {
+    if (!records.length) return;
+
+    const conn = await this.getConnection();
+    try {
+      await this.ensureMetricAnomalyTable(conn);
+
+      const placeholders = records
+        .map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)")
+        .join(", ");
+      const params: unknown[] = [];
+      for (const record of records) {
+        params.push(
+          record.id,
+          record.crawlRunId,
+          record.queryId,
+          record.engine,
+          record.metricType,
+          record.value,
+          record.baseline,
+          record.scale,
+          record.score,
+          record.lowerBound,
+          record.upperBound,
+          record.direction,
+          record.severity,
+          record.historyCount,
+          record.collectedAt.toISOString(),
+          record.extra ? JSON.stringify(record.extra) : null,
+          record.createdAt.toISOString()
+        );
       }
 
-      await run(conn, `COPY (${query}) TO '${filePath}' (FORMAT '${format}')`);
+      await run(
+        conn,
+        `
+          INSERT INTO metric_anomalies (
+            id,
+            crawl_run_id,
+            query_id,
+            engine,
+            metric_type,
+            value,
+            baseline,
+            scale,
+            score,
+            lower_bound,
+            upper_bound,
+            direction,
+            severity,
+            history_count,
+            collected_at,
+            extra,
+            created_at
+          ) VALUES ${placeholders}
+          ON CONFLICT(id) DO UPDATE SET
+            value = excluded.value,
+            baseline = excluded.baseline,
+            scale = excluded.scale,
+            score = excluded.score,
+            lower_bound = excluded.lower_bound,
+            upper_bound = excluded.upper_bound,
+            direction = excluded.direction,
+            severity = excluded.severity,
+            history_count = excluded.history_count,
+            extra = excluded.extra,
+            created_at = excluded.created_at
+        `,
+        params
+      );
+    } finally {
+      await closeConnection(conn);
+    }
+  }
 
-      const summaryRows = await all<{
-        count: number;
-        distinct_queries: number;
-        distinct_engines: number;
-        min_ts: string | Date | null;
-        max_ts: string | Date | null;
-      }>(conn, summaryQuery);
+  async fetchMetricAnomalies(options: FetchMetricAnomaliesOptions): Promise<MetricAnomalyRecordInput[]> {
+    const conn = await this.getConnection();
+    try {
+      await this.ensureMetricAnomalyTable(conn);
 
-      const summary = summaryRows[0] ?? {
-        count: 0,
-        distinct_queries: 0,
-        distinct_engines: 0,
-        min_ts: null,
-        max_ts: null
-      };
+      const conditions: string[] = [];
+      const params: unknown[] = [];
 
-      await this.ensureDatasetVersionsTable(conn);
+      if (options.queryIds && options.queryIds.length) {
+        conditions.push(`query_id IN (${options.queryIds.map(() => "?").join(", ")})`);
+        params.push(...options.queryIds);
+      }
+
+      if (options.engine === null) {
+        conditions.push("engine IS NULL");
+      } else if (options.engine !== undefined) {
+        conditions.push("engine = ?");
+        params.push(options.engine);
+      }
+
+      if (options.metricType) {
+        conditions.push("metric_type = ?");
+        params.push(options.metricType);
+      }
+
+      if (options.severity) {
+        conditions.push("severity = ?");
+        params.push(options.severity);
+      }
+
+      if (options.since) {
+        conditions.push("collected_at >= ?");
+        params.push(options.since.toISOString());
+      }
+
+      const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+      const limitClause = options.limit ? "LIMIT ?" : "";
+      if (options.limit) params.push(options.limit);
+
+      const rows = await all<{
+        id: string;
+        crawl_run_id: string;
+        query_id: string;
+        engine: string | null;
+        metric_type: string;
+        value: number;
+        baseline: number;
+        scale: number;
+        score: number;
+        lower_bound: number;
+        upper_bound: number;
+        direction: string;
+        severity: string;
+        history_count: number;
+        collected_at: string | Date;
+        extra: string | null;
+        created_at: string | Date;
+      }>(
+        conn,
+        `
+          SELECT *
+          FROM metric_anomalies
+          ${whereClause}
+          ORDER BY collected_at DESC
+          ${limitClause}
+        `,
+        params
+      );
+
+      return rows.map((row) => ({
+        id: row.id,
+        crawlRunId: row.crawl_run_id,
+        queryId: row.query_id,
+        engine: row.engine,
+        metricType: row.metric_type as MetricAnomalyRecordInput["metricType"],
+        value: row.value,
+        baseline: row.baseline,
+        scale: row.scale,
+        score: row.score,
+        lowerBound: row.lower_bound,
+        upperBound: row.upper_bound,
+        direction: row.direction as MetricAnomalyRecordInput["direction"],
+        severity: row.severity as MetricAnomalyRecordInput["severity"],
+        historyCount: row.history_count,
+        collectedAt: new Date(row.collected_at),
+        extra: row.extra ? JSON.parse(row.extra) : undefined,
+        createdAt: new Date(row.created_at)
+      }));
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  private async ensureAnnotationAggregatesTable(conn: duckdb.Connection) {
+    await run(
+      conn,
+      `
+        CREATE TABLE IF NOT EXISTS annotation_aggregates (
+          id VARCHAR PRIMARY KEY,
+          run_id VARCHAR NOT NULL,
+          query_id VARCHAR NOT NULL,
+          engine VARCHAR,
+          domain_type VARCHAR NOT NULL,
+          factual_consistency VARCHAR NOT NULL,
+          count INTEGER NOT NULL,
+          total_annotations INTEGER NOT NULL,
+          collected_at TIMESTAMP NOT NULL,
+          extra JSON,
+          created_at TIMESTAMP NOT NULL
+        )
+      `
+    );
+  }
+
+  async upsertAnnotationAggregates(records: AnnotationAggregateRecordInput[]): Promise<void> {
+    if (!records.length) return;
+
+    const conn = await this.getConnection();
+    try {
+      await this.ensureAnnotationAggregatesTable(conn);
+
+      const placeholders = records.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+      const params: unknown[] = [];
+
+      for (const record of records) {
+        params.push(
+          record.id,
+          record.runId,
+          record.queryId,
+          record.engine,
+          record.domainType,
+          record.factualConsistency,
+          record.count,
+          record.totalAnnotations,
+          record.collectedAt.toISOString(),
+          record.extra ? JSON.stringify(record.extra) : null,
+          record.createdAt.toISOString()
+        );
+      }
+
+      await run(
+        conn,
+        `
+          INSERT INTO annotation_aggregates (
+            id,
+            run_id,
+            query_id,
+            engine,
+            domain_type,
+            factual_consistency,
+            count,
+            total_annotations,
+            collected_at,
+            extra,
+            created_at
+          ) VALUES ${placeholders}
+          ON CONFLICT(id) DO UPDATE SET
+            run_id = excluded.run_id,
+            query_id = excluded.query_id,
+            engine = excluded.engine,
+            domain_type = excluded.domain_type,
+            factual_consistency = excluded.factual_consistency,
+            count = excluded.count,
+            total_annotations = excluded.total_annotations,
+            collected_at = excluded.collected_at,
+            extra = excluded.extra,
+            created_at = excluded.created_at
+        `,
+        params
+      );
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async fetchAnnotationAggregates(options: FetchAnnotationAggregateOptions): Promise<AnnotationAggregateRecord[]> {
+    const conn = await this.getConnection();
+    try {
+      await this.ensureAnnotationAggregatesTable(conn);
+
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      if (options.runIds && options.runIds.length) {
+        const placeholders = options.runIds.map(() => "?").join(", ");
+        conditions.push(`run_id IN (${placeholders})`);
+        params.push(...options.runIds);
+      }
+
+      if (options.queryIds && options.queryIds.length) {
+        const placeholders = options.queryIds.map(() => "?").join(", ");
+        conditions.push(`query_id IN (${placeholders})`);
+        params.push(...options.queryIds);
+      }
+
+      if (options.engines && options.engines.length) {
+        const placeholders = options.engines.map(() => "?").join(", ");
+        conditions.push(`COALESCE(engine, '') IN (${placeholders})`);
+        params.push(...options.engines);
+      }
+
+      if (options.domainTypes && options.domainTypes.length) {
+        const placeholders = options.domainTypes.map(() => "?").join(", ");
+        conditions.push(`domain_type IN (${placeholders})`);
+        params.push(...options.domainTypes);
+      }
+
+      const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+      const rows = await all<{
+        id: string;
+        run_id: string;
+        query_id: string;
+        engine: string | null;
+        domain_type: string;
+        factual_consistency: string;
+        count: number;
+        total_annotations: number;
+        collected_at: string | Date;
+        extra: string | null;
+        created_at: string | Date;
+      }>(
+        conn,
+        `
+          SELECT *
+          FROM annotation_aggregates
+          ${whereClause}
+        `,
+        params
+      );
+
+      return rows.map((row) =>
+        AnnotationAggregateRecordSchema.parse({
+          id: row.id,
+          runId: row.run_id,
+          queryId: row.query_id,
+          engine: row.engine,
+          domainType: row.domain_type,
+          factualConsistency: row.factual_consistency,
+          count: row.count,
+          totalAnnotations: row.total_annotations,
+          collectedAt: row.collected_at,
+          extra: row.extra ? JSON.parse(row.extra) : undefined,
+          createdAt: row.created_at
+        })
+      );
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async exportDataset(options: DatasetExportOptions): Promise<DatasetExportResult> {
+    const format = options.format ?? DatasetFormatEnum.enum.parquet;
+    if (format !== DatasetFormatEnum.enum.parquet) {
+      throw new Error(`DuckDB exporter currently supports only Parquet format. Requested: ${format}`);
+    }
+
+    const timestamp = new Date();
+    const safeDatasetDir = path.join(options.outputDir, options.datasetType);
+    const fileName = `${options.datasetType}-${timestamp.toISOString().replace(/[:.]/g, "-")}.parquet`;
+    const filePath = path.join(safeDatasetDir, fileName);
+    ensureDirectoryExists(filePath);
+
+    const conn = await this.getConnection();
+
+    const filters = options.filters ?? {};
+    const sanitize = (value: string) => value.replace(/'/g, "''");
+
+    const buildWhereClause = (tableAlias: string) => {
+      const clauses: string[] = [];
+
+      if (filters.queryIds && filters.queryIds.length) {
+        const values = filters.queryIds.map((value) => `'${sanitize(value)}'`).join(", ");
+        clauses.push(`${tableAlias}.query_id IN (${values})`);
+      }
+
+      if (filters.engines && filters.engines.length) {
+        const values = filters.engines.map((value) => `'${sanitize(value)}'`).join(", ");
+        clauses.push(`${tableAlias}.engine IN (${values})`);
+      }
+
+      if (filters.since) {
+        clauses.push(`${tableAlias}.timestamp >= '${filters.since.toISOString()}'`);
+      }
+
+      if (filters.until) {
+        clauses.push(`${tableAlias}.timestamp <= '${filters.until.toISOString()}'`);
+      }
+
+      return clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+    };
+
+    try {
+      let query: string;
+      let summaryQuery: string;
+
+      switch (options.datasetType) {
+        case DatasetTypeEnum.enum.search_results: {
+          await this.ensureSearchResultsTable(conn);
+          const whereClause = buildWhereClause("search_results");
+          query = `SELECT * FROM search_results ${whereClause}`;
+          summaryQuery = `
+            SELECT
+              COUNT(*) AS count,
+              COUNT(DISTINCT query_id) AS distinct_queries,
+              COUNT(DISTINCT engine) AS distinct_engines,
+              MIN(timestamp) AS min_ts,
+              MAX(timestamp) AS max_ts
+            FROM search_results
+            ${whereClause}
+          `;
+          break;
+        }
+        case DatasetTypeEnum.enum.annotated_results: {
+          await this.ensureAnnotationTable(conn);
+          await this.ensureSearchResultsTable(conn);
+          const whereClause = buildWhereClause("sr");
+          query = `
+            SELECT
+              ann.id AS annotation_id,
+              sr.id AS search_result_id,
+              sr.query_id,
+              sr.engine,
+              sr.rank,
+              sr.title,
+              sr.snippet,
+              sr.url,
+              sr.normalized_url,
+              sr.domain,
+              sr.timestamp,
+              sr.hash,
+              sr.raw_html_path,
+              ann.domain_type,
+              ann.factual_consistency,
+              ann.confidence,
+              ann.prompt_version,
+              ann.model_id,
+              ann.extra,
+              sr.crawl_run_id,
+              sr.created_at,
+              sr.updated_at,
+              ann.created_at AS annotated_at
+            FROM annotations ann
+            JOIN search_results sr ON sr.id = ann.search_result_id
+            ${whereClause}
+          `;
+          summaryQuery = `
+            SELECT
+              COUNT(*) AS count,
+              COUNT(DISTINCT sr.query_id) AS distinct_queries,
+              COUNT(DISTINCT sr.engine) AS distinct_engines,
+              MIN(sr.timestamp) AS min_ts,
+              MAX(sr.timestamp) AS max_ts
+            FROM annotations ann
+            JOIN search_results sr ON sr.id = ann.search_result_id
+            ${whereClause}
+          `;
+          break;
+        }
+        case DatasetTypeEnum.enum.metrics: {
+          const clauses: string[] = [];
+          if (filters.queryIds && filters.queryIds.length) {
+            const values = filters.queryIds.map((value) => `'${sanitize(value)}'`).join(", ");
+            clauses.push(`query_id IN (${values})`);
+          }
+          if (filters.engines && filters.engines.length) {
+            const values = filters.engines.map((value) => `'${sanitize(value)}'`).join(", ");
+            clauses.push(`COALESCE(engine, '') IN (${values})`);
+          }
+          if (filters.since) {
+            clauses.push(`collected_at >= '${filters.since.toISOString()}'`);
+          }
+          if (filters.until) {
+            clauses.push(`collected_at <= '${filters.until.toISOString()}'`);
+          }
+          const whereClause = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+          await run(
+            conn,
+            `
+              CREATE TABLE IF NOT EXISTS metric_records (
+                id VARCHAR PRIMARY KEY,
+                crawl_run_id VARCHAR,
+                query_id VARCHAR NOT NULL,
+                engine VARCHAR,
+                metric_type VARCHAR NOT NULL,
+                value DOUBLE NOT NULL,
+                delta DOUBLE,
+                compared_to_run_id VARCHAR,
+                collected_at TIMESTAMP NOT NULL,
+                extra JSON,
+                created_at TIMESTAMP NOT NULL
+              )
+            `
+          );
+          query = `SELECT * FROM metric_records ${whereClause}`;
+          summaryQuery = `
+            SELECT
+              COUNT(*) AS count,
+              COUNT(DISTINCT query_id) AS distinct_queries,
+              COUNT(DISTINCT engine) AS distinct_engines,
+              MIN(collected_at) AS min_ts,
+              MAX(collected_at) AS max_ts
+            FROM metric_records
+            ${whereClause}
+          `;
+          break;
+        }
+        default:
+          throw new Error(`Unsupported dataset type: ${options.datasetType}`);
+      }
+
+      await run(conn, `COPY (${query}) TO '${filePath}' (FORMAT '${format}')`);
+
+      const summaryRows = await all<{
+        count: number;
+        distinct_queries: number;
+        distinct_engines: number;
+        min_ts: string | Date | null;
+        max_ts: string | Date | null;
+      }>(conn, summaryQuery);
+
+      const summary = summaryRows[0] ?? {
+        count: 0,
+        distinct_queries: 0,
+        distinct_engines: 0,
+        min_ts: null,
+        max_ts: null
+      };
+
+      await this.ensureDatasetVersionsTable(conn);
+
+      const versionRecord = {
+        id: randomUUID(),
+        dataset_type: options.datasetType,
+        format,
+        path: filePath,
+        run_id: options.runId ?? null,
+        record_count: summary.count,
+        metadata: JSON.stringify({
+          datasetType: options.datasetType,
+          filters,
+          runId: options.runId ?? null,
+          distinctQueries: summary.distinct_queries,
+          distinctEngines: summary.distinct_engines,
+          timeRange: {
+            from: summary.min_ts ? new Date(summary.min_ts).toISOString() : null,
+            to: summary.max_ts ? new Date(summary.max_ts).toISOString() : null
+          },
+          generatedAt: timestamp.toISOString()
+        }),
+        created_at: timestamp.toISOString()
+      } as const;
+
+      await run(
+        conn,
+        `
+          INSERT INTO dataset_versions (
+            id,
+            dataset_type,
+            format,
+            path,
+            run_id,
+            record_count,
+            metadata,
+            created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `,
+        [
+          versionRecord.id,
+          versionRecord.dataset_type,
+          versionRecord.format,
+          versionRecord.path,
+          versionRecord.run_id,
+          versionRecord.record_count,
+          versionRecord.metadata,
+          versionRecord.created_at
+        ]
+      );
+
+      const parsedVersion = DatasetVersionSchema.parse({
+        id: versionRecord.id,
+        datasetType: options.datasetType,
+        format,
+        path: versionRecord.path,
+        runId: options.runId ?? null,
+        recordCount: summary.count,
+        metadata: JSON.parse(versionRecord.metadata),
+        createdAt: timestamp
+      });
+
+      return {
+        version: parsedVersion,
+        filePath
+      };
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async close(): Promise<void> {
+    await closeDatabase(this.db);
+  }
+
+  async recordPipelineRun(input: PipelineRunRecordInput): Promise<void> {
+    const conn = await this.getConnection();
+    try {
+      await this.ensurePipelineTables(conn);
+      await run(
+        conn,
+        `
+          INSERT INTO pipeline_runs (
+            id,
+            status,
+            started_at,
+            completed_at,
+            error,
+            metadata,
+            created_at,
+            updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET
+            status = excluded.status,
+            started_at = excluded.started_at,
+            completed_at = excluded.completed_at,
+            error = excluded.error,
+            metadata = excluded.metadata,
+            created_at = excluded.created_at,
+            updated_at = excluded.updated_at
+        `,
+        [
+          input.id,
+          input.status,
+          input.startedAt.toISOString(),
+          input.completedAt ? input.completedAt.toISOString() : null,
+          input.error,
+          JSON.stringify(input.metadata ?? {}),
+          input.createdAt.toISOString(),
+          input.updatedAt.toISOString()
+        ]
+      );
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async recordPipelineStage(input: PipelineStageLogInput): Promise<void> {
+    const conn = await this.getConnection();
+    try {
+      await this.ensurePipelineTables(conn);
+      await run(
+        conn,
+        `
+          INSERT INTO pipeline_stage_logs (
+            id,
+            run_id,
+            stage,
+            status,
+            attempts,
+            started_at,
+            completed_at,
+            error,
+            metadata,
+            created_at,
+            updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET
+            run_id = excluded.run_id,
+            stage = excluded.stage,
+            status = excluded.status,
+            attempts = excluded.attempts,
+            started_at = excluded.started_at,
+            completed_at = excluded.completed_at,
+            error = excluded.error,
+            metadata = excluded.metadata,
+            created_at = excluded.created_at,
+            updated_at = excluded.updated_at
+        `,
+        [
+          input.id,
+          input.runId,
+          input.stage,
+          input.status,
+          input.attempts,
+          input.startedAt.toISOString(),
+          input.completedAt ? input.completedAt.toISOString() : null,
+          input.error,
+          JSON.stringify(input.metadata ?? {}),
+          input.createdAt.toISOString(),
+          input.updatedAt.toISOString()
+        ]
+      );
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async fetchPipelineRuns(options: FetchPipelineRunOptions = {}): Promise<PipelineRun[]> {
+    const conn = await this.getConnection();
+    try {
+      await this.ensurePipelineTables(conn);
+      const limit = options.limit ?? 50;
+      const rows = await all<{
+        id: string;
+        status: string;
+        started_at: string | Date;
+        completed_at: string | Date | null;
+        error: string | null;
+        metadata: string | null;
+        created_at: string | Date;
+        updated_at: string | Date;
+      }>(
+        conn,
+        `
+          SELECT *
+          FROM pipeline_runs
+          ORDER BY started_at DESC
+          LIMIT ?
+        `,
+        [limit]
+      );
+
+      return rows.map((row) => ({
+        id: row.id,
+        status: row.status as PipelineRun["status"],
+        startedAt: new Date(row.started_at),
+        completedAt: row.completed_at ? new Date(row.completed_at) : null,
+        error: row.error,
+        metadata: row.metadata ? JSON.parse(row.metadata) : {},
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at)
+      }));
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async fetchPipelineStages(runId: string): Promise<PipelineStageLog[]> {
+    const conn = await this.getConnection();
+    try {
+      await this.ensurePipelineTables(conn);
+      const rows = await all<{
+        id: string;
+        run_id: string;
+        stage: string;
+        status: string;
+        attempts: number;
+        started_at: string | Date;
+        completed_at: string | Date | null;
+        error: string | null;
+        metadata: string | null;
+        created_at: string | Date;
+        updated_at: string | Date;
+      }>(
+        conn,
+        `
+          SELECT *
+          FROM pipeline_stage_logs
+          WHERE run_id = ?
+          ORDER BY started_at ASC
+        `,
+        [runId]
+      );
+
+      return rows.map((row) => ({
+        id: row.id,
+        runId: row.run_id,
+        stage: row.stage as PipelineStageLog["stage"],
+        status: row.status as PipelineRun["status"],
+        attempts: row.attempts,
+        startedAt: new Date(row.started_at),
+        completedAt: row.completed_at ? new Date(row.completed_at) : null,
+        error: row.error,
+        metadata: row.metadata ? JSON.parse(row.metadata) : {},
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at)
+      }));
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async recordAuditSamples(samples: AuditSampleRecordInput[]): Promise<void> {
+    if (!samples.length) return;
+    const conn = await this.getConnection();
+    try {
+      await this.ensurePipelineTables(conn);
+      const placeholders = samples.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+      const params: unknown[] = [];
+      for (const sample of samples) {
+        params.push(
+          sample.id,
+          sample.runId,
+          sample.annotationId,
+          sample.queryId,
+          sample.engine,
+          sample.reviewer,
+          sample.status,
+          sample.notes,
+          sample.createdAt.toISOString(),
+          sample.updatedAt.toISOString()
+        );
+      }
+      await run(
+        conn,
+        `
+          INSERT INTO audit_samples (
+            id,
+            run_id,
+            annotation_id,
+            query_id,
+            engine,
+            reviewer,
+            status,
+            notes,
+            created_at,
+            updated_at
+          ) VALUES ${placeholders}
+          ON CONFLICT(id) DO UPDATE SET
+            run_id = excluded.run_id,
+            annotation_id = excluded.annotation_id,
+            query_id = excluded.query_id,
+            engine = excluded.engine,
+            reviewer = excluded.reviewer,
+            status = excluded.status,
+            notes = excluded.notes,
+            created_at = excluded.created_at,
+            updated_at = excluded.updated_at
+        `,
+        params
+      );
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async fetchAuditSamples(runId: string): Promise<AuditSampleRecordInput[]> {
+    const conn = await this.getConnection();
+    try {
+      await this.ensurePipelineTables(conn);
+      const rows = await all<{
+        id: string;
+        run_id: string;
+        annotation_id: string;
+        query_id: string;
+        engine: string;
+        reviewer: string | null;
+        status: string;
+        notes: string | null;
+        created_at: string | Date;
+        updated_at: string | Date;
+      }>(
+        conn,
+        `
+          SELECT *
+          FROM audit_samples
+          WHERE run_id = ?
+        `,
+        [runId]
+      );
+
+      return rows.map((row) => ({
+        id: row.id,
+        runId: row.run_id,
+        annotationId: row.annotation_id,
+        queryId: row.query_id,
+        engine: row.engine,
+        reviewer: row.reviewer,
+        status: row.status as "pending" | "approved" | "flagged",
+        notes: row.notes,
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at)
+      }));
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async upsertViewpoints(records: import("./types").ViewpointRecordInput[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const conn = await openConnection(this.db);
+    try {
+      // Create table if not exists
+      await run(
+        conn,
+        `
+          CREATE TABLE IF NOT EXISTS viewpoints (
+            id VARCHAR PRIMARY KEY,
+            query_id VARCHAR NOT NULL,
+            crawl_run_id VARCHAR,
+            engine VARCHAR NOT NULL,
+            num_results INTEGER NOT NULL DEFAULT 0,
+            summary TEXT,
+            citations_count INTEGER DEFAULT 0,
+            overlap_hash VARCHAR,
+            collected_at TIMESTAMP NOT NULL,
+            created_at TIMESTAMP NOT NULL,
+            updated_at TIMESTAMP NOT NULL,
+            UNIQUE(query_id, crawl_run_id, engine)
+          )
+        `
+      );
+
+      // DuckDB doesn't support ON CONFLICT with UNIQUE constraints well,
+      // so we'll delete and insert
+      for (const record of records) {
+        await run(
+          conn,
+          `
+            DELETE FROM viewpoints
+            WHERE query_id = ? AND crawl_run_id = ? AND engine = ?
+          `,
+          [record.queryId, record.crawlRunId, record.engine]
+        );
+
+        await run(
+          conn,
+          `
+            INSERT INTO viewpoints (
+              id, query_id, crawl_run_id, engine, num_results, summary,
+              citations_count, overlap_hash, collected_at, created_at, updated_at
+            )
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `,
+          [
+            record.id,
+            record.queryId,
+            record.crawlRunId,
+            record.engine,
+            record.numResults,
+            record.summary,
+            record.citationsCount,
+            record.overlapHash,
+            record.collectedAt.toISOString(),
+            record.createdAt.toISOString(),
+            record.updatedAt.toISOString()
+          ]
+        );
+      }
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async fetchViewpointsByQuery(options: import("./types").FetchViewpointsByQueryOptions): Promise<import("./types").ViewpointRecordInput[]> {
+    const conn = await openConnection(this.db);
+    try {
+      // Ensure table exists
+      await run(
+        conn,
+        `
+          CREATE TABLE IF NOT EXISTS viewpoints (
+            id VARCHAR PRIMARY KEY,
+            query_id VARCHAR NOT NULL,
+            crawl_run_id VARCHAR,
+            engine VARCHAR NOT NULL,
+            num_results INTEGER NOT NULL DEFAULT 0,
+            summary TEXT,
+            citations_count INTEGER DEFAULT 0,
+            overlap_hash VARCHAR,
+            collected_at TIMESTAMP NOT NULL,
+            created_at TIMESTAMP NOT NULL,
+            updated_at TIMESTAMP NOT NULL
+          )
+        `
+      );
+
+      const conditions: string[] = ["query_id = ?"];
+      const params: any[] = [options.queryId];
+
+      if (options.runId) {
+        conditions.push("crawl_run_id = ?");
+        params.push(options.runId);
+      }
 
-      const versionRecord = {
-        id: randomUUID(),
-        dataset_type: options.datasetType,
-        format,
-        path: filePath,
-        run_id: options.runId ?? null,
-        record_count: summary.count,
-        metadata: JSON.stringify({
-          datasetType: options.datasetType,
-          filters,
-          runId: options.runId ?? null,
-          distinctQueries: summary.distinct_queries,
-          distinctEngines: summary.distinct_engines,
-          timeRange: {
-            from: summary.min_ts ? new Date(summary.min_ts).toISOString() : null,
-            to: summary.max_ts ? new Date(summary.max_ts).toISOString() : null
-          },
-          generatedAt: timestamp.toISOString()
-        }),
-        created_at: timestamp.toISOString()
-      } as const;
+      if (options.engines && options.engines.length > 0) {
+        const placeholders = options.engines.map(() => "?").join(", ");
+        conditions.push(`engine IN (${placeholders})`);
+        params.push(...options.engines);
+      }
 
-      await run(
+      const rows = await all<{
+        id: string;
+        query_id: string;
+        crawl_run_id: string | null;
+        engine: string;
+        num_results: number;
+        summary: string | null;
+        citations_count: number;
+        overlap_hash: string | null;
+        collected_at: string | Date;
+        created_at: string | Date;
+        updated_at: string | Date;
+      }>(
         conn,
         `
-          INSERT INTO dataset_versions (
-            id,
-            dataset_type,
-            format,
-            path,
-            run_id,
-            record_count,
-            metadata,
-            created_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          SELECT *
+          FROM viewpoints
+          WHERE ${conditions.join(" AND ")}
+          ORDER BY engine, collected_at DESC
         `,
-        [
-          versionRecord.id,
-          versionRecord.dataset_type,
-          versionRecord.format,
-          versionRecord.path,
-          versionRecord.run_id,
-          versionRecord.record_count,
-          versionRecord.metadata,
-          versionRecord.created_at
-        ]
+        params
       );
 
-      const parsedVersion = DatasetVersionSchema.parse({
-        id: versionRecord.id,
-        datasetType: options.datasetType,
-        format,
-        path: versionRecord.path,
-        runId: options.runId ?? null,
-        recordCount: summary.count,
-        metadata: JSON.parse(versionRecord.metadata),
-        createdAt: timestamp
-      });
-
-      return {
-        version: parsedVersion,
-        filePath
-      };
+      return rows.map((row) => ({
+        id: row.id,
+        queryId: row.query_id,
+        crawlRunId: row.crawl_run_id,
+        engine: row.engine,
+        numResults: row.num_results,
+        summary: row.summary,
+        citationsCount: row.citations_count,
+        overlapHash: row.overlap_hash,
+        collectedAt: new Date(row.collected_at),
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at)
+      }));
     } finally {
       await closeConnection(conn);
     }
   }
 
-  async close(): Promise<void> {
-    await closeDatabase(this.db);
+  private async ensureCitationsTable(conn: duckdb.Connection) {
+    await run(
+      conn,
+      `
+        CREATE TABLE IF NOT EXISTS citations (
+          id VARCHAR PRIMARY KEY,
+          query_id VARCHAR NOT NULL,
+          crawl_run_id VARCHAR,
+          engine VARCHAR NOT NULL,
+          citation_index INTEGER NOT NULL,
+          url VARCHAR NOT NULL,
+          normalized_url VARCHAR NOT NULL,
+          domain VARCHAR NOT NULL,
+          sentences JSON,
+          collected_at TIMESTAMP NOT NULL,
+          created_at TIMESTAMP NOT NULL,
+          updated_at TIMESTAMP NOT NULL,
+          registrable_domain VARCHAR
+        )
+      `
+    );
+    await run(conn, "ALTER TABLE citations ADD COLUMN IF NOT EXISTS registrable_domain VARCHAR");
   }
 
-  async recordPipelineRun(input: PipelineRunRecordInput): Promise<void> {
+  async upsertCitations(records: CitationRecordInput[]): Promise<void> {
+    if (!records.length) return;
+
     const conn = await this.getConnection();
     try {
-      await this.ensurePipelineTables(conn);
+      await this.ensureCitationsTable(conn);
+
+      const placeholders = records.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+      const params: unknown[] = [];
+      for (const record of records) {
+        params.push(
+          record.id,
+          record.queryId,
+          record.crawlRunId,
+          record.engine,
+          record.citationIndex,
+          record.url,
+          record.normalizedUrl,
+          record.domain,
+          JSON.stringify(record.sentences),
+          record.collectedAt.toISOString(),
+          record.createdAt.toISOString(),
+          record.updatedAt.toISOString(),
+          record.registrableDomain ?? null
+        );
+      }
+
       await run(
         conn,
         `
-          INSERT INTO pipeline_runs (
+          INSERT INTO citations (
             id,
-            status,
-            started_at,
-            completed_at,
-            error,
-            metadata,
+            query_id,
+            crawl_run_id,
+            engine,
+            citation_index,
+            url,
+            normalized_url,
+            domain,
+            sentences,
+            collected_at,
             created_at,
-            updated_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            updated_at,
+            registrable_domain
+          ) VALUES ${placeholders}
           ON CONFLICT(id) DO UPDATE SET
-            status = excluded.status,
-            started_at = excluded.started_at,
-            completed_at = excluded.completed_at,
-            error = excluded.error,
-            metadata = excluded.metadata,
-            created_at = excluded.created_at,
+            url = excluded.url,
+            normalized_url = excluded.normalized_url,
+            domain = excluded.domain,
+            registrable_domain = excluded.registrable_domain,
+            sentences = excluded.sentences,
+            collected_at = excluded.collected_at,
             updated_at = excluded.updated_at
         `,
-        [
-          input.id,
-          input.status,
-          input.startedAt.toISOString(),
-          input.completedAt ? input.completedAt.toISOString() : null,
-          input.error,
-          JSON.stringify(input.metadata ?? {}),
-          input.createdAt.toISOString(),
-          input.updatedAt.toISOString()
-        ]
+        params
+      );
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async fetchCitations(options: FetchCitationsOptions): Promise<CitationRecordInput[]> {
+    const conn = await this.getConnection();
+    try {
+      await this.ensureCitationsTable(conn);
+
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      if (options.queryIds && options.queryIds.length) {
+        conditions.push(`query_id IN (${options.queryIds.map(() => "?").join(", ")})`);
+        params.push(...options.queryIds);
+      }
+
+      if (options.runIds && options.runIds.length) {
+        conditions.push(`crawl_run_id IN (${options.runIds.map(() => "?").join(", ")})`);
+        params.push(...options.runIds);
+      }
+
+      if (options.engines && options.engines.length) {
+        conditions.push(`engine IN (${options.engines.map(() => "?").join(", ")})`);
+        params.push(...options.engines);
+      }
+
+      if (options.since) {
+        conditions.push("collected_at >= ?");
+        params.push(options.since.toISOString());
+      }
+
+      const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+      const rows = await all<{
+        id: string;
+        query_id: string;
+        crawl_run_id: string | null;
+        engine: string;
+        citation_index: number;
+        url: string;
+        normalized_url: string;
+        domain: string;
+        registrable_domain: string | null;
+        sentences: string | null;
+        collected_at: string | Date;
+        created_at: string | Date;
+        updated_at: string | Date;
+      }>(
+        conn,
+        `
+          SELECT *
+          FROM citations
+          ${whereClause}
+          ORDER BY collected_at DESC, citation_index ASC
+        `,
+        params
       );
+
+      return rows.map((row) => ({
+        id: row.id,
+        queryId: row.query_id,
+        crawlRunId: row.crawl_run_id,
+        engine: row.engine,
+        citationIndex: row.citation_index,
+        url: row.url,
+        normalizedUrl: row.normalized_url,
+        domain: row.domain,
+        registrableDomain: row.registrable_domain,
+        sentences: row.sentences ? JSON.parse(row.sentences) : [],
+        collectedAt: new Date(row.collected_at),
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at)
+      }));
     } finally {
       await closeConnection(conn);
     }
   }
 
-  async recordPipelineStage(input: PipelineStageLogInput): Promise<void> {
-    const conn = await this.getConnection();
-    try {
-      await this.ensurePipelineTables(conn);
+  private async ensureSerpFeaturesTable(conn: duckdb.Connection) {
+    await run(
+      conn,
+      `
+        CREATE TABLE IF NOT EXISTS serp_features (
+          id VARCHAR PRIMARY KEY,
+          query_id VARCHAR NOT NULL,
+          crawl_run_id VARCHAR,
+          engine VARCHAR NOT NULL,
+          feature_type VARCHAR NOT NULL,
+          position INTEGER NOT NULL,
+          title VARCHAR,
+          urls JSON,
+          collected_at TIMESTAMP NOT NULL,
+          created_at TIMESTAMP NOT NULL,
+          updated_at TIMESTAMP NOT NULL
+        )
+      `
+    );
+  }
+
+  async upsertSerpFeatures(records: SerpFeatureRecordInput[]): Promise<void> {
+    if (!records.length) return;
+
+    const conn = await this.getConnection();
+    try {
+      await this.ensureSerpFeaturesTable(conn);
+
+      const placeholders = records.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+      const params: unknown[] = [];
+      for (const record of records) {
+        params.push(
+          record.id,
+          record.queryId,
+          record.crawlRunId,
+          record.engine,
+          record.featureType,
+          record.position,
+          record.title ?? null,
+          JSON.stringify(record.urls),
+          record.collectedAt.toISOString(),
+          record.createdAt.toISOString(),
+          record.updatedAt.toISOString()
+        );
+      }
+
       await run(
         conn,
         `
-          INSERT INTO pipeline_stage_logs (
+          INSERT INTO serp_features (
             id,
-            run_id,
-            stage,
-            status,
-            attempts,
-            started_at,
-            completed_at,
-            error,
-            metadata,
+            query_id,
+            crawl_run_id,
+            engine,
+            feature_type,
+            position,
+            title,
+            urls,
+            collected_at,
             created_at,
             updated_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ) VALUES ${placeholders}
           ON CONFLICT(id) DO UPDATE SET
-            run_id = excluded.run_id,
-            stage = excluded.stage,
-            status = excluded.status,
-            attempts = excluded.attempts,
-            started_at = excluded.started_at,
-            completed_at = excluded.completed_at,
-            error = excluded.error,
-            metadata = excluded.metadata,
-            created_at = excluded.created_at,
+            feature_type = excluded.feature_type,
+            position = excluded.position,
+            title = excluded.title,
+            urls = excluded.urls,
+            collected_at = excluded.collected_at,
             updated_at = excluded.updated_at
         `,
-        [
-          input.id,
-          input.runId,
-          input.stage,
-          input.status,
-          input.attempts,
-          input.startedAt.toISOString(),
-          input.completedAt ? input.completedAt.toISOString() : null,
-          input.error,
-          JSON.stringify(input.metadata ?? {}),
-          input.createdAt.toISOString(),
-          input.updatedAt.toISOString()
-        ]
+        params
       );
     } finally {
       await closeConnection(conn);
     }
   }
 
-  async fetchPipelineRuns(options: FetchPipelineRunOptions = {}): Promise<PipelineRun[]> {
+  async fetchSerpFeatures(options: FetchSerpFeaturesOptions): Promise<SerpFeatureRecordInput[]> {
     const conn = await this.getConnection();
     try {
-      await this.ensurePipelineTables(conn);
-      const limit = options.limit ?? 50;
+      await this.ensureSerpFeaturesTable(conn);
+
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      if (options.queryIds && options.queryIds.length) {
+        conditions.push(`query_id IN (${options.queryIds.map(() => "?").join(", ")})`);
+        params.push(...options.queryIds);
+      }
+
+      if (options.runIds && options.runIds.length) {
+        conditions.push(`crawl_run_id IN (${options.runIds.map(() => "?").join(", ")})`);
+        params.push(...options.runIds);
+      }
+
+      if (options.engines && options.engines.length) {
+        conditions.push(`engine IN (${options.engines.map(() => "?").join(", ")})`);
+        params.push(...options.engines);
+      }
+
+      if (options.since) {
+        conditions.push("collected_at >= ?");
+        params.push(options.since.toISOString());
+      }
+
+      const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
       const rows = await all<{
         id: string;
-        status: string;
-        started_at: string | Date;
-        completed_at: string | Date | null;
-        error: string | null;
-        metadata: string | null;
+        query_id: string;
+        crawl_run_id: string | null;
+        engine: string;
+        feature_type: string;
+        position: number;
+        title: string | null;
+        urls: string | null;
+        collected_at: string | Date;
         created_at: string | Date;
         updated_at: string | Date;
       }>(
         conn,
         `
           SELECT *
-          FROM pipeline_runs
-          ORDER BY started_at DESC
-          LIMIT ?
+          FROM serp_features
+          ${whereClause}
+          ORDER BY collected_at DESC, position ASC
         `,
-        [limit]
+        params
       );
 
       return rows.map((row) => ({
         id: row.id,
-        status: row.status as PipelineRun["status"],
-        startedAt: new Date(row.started_at),
-        completedAt: row.completed_at ? new Date(row.completed_at) : null,
-        error: row.error,
-        metadata: row.metadata ? JSON.parse(row.metadata) : {},
+        queryId: row.query_id,
+        crawlRunId: row.crawl_run_id,
+        engine: row.engine,
+        featureType: row.feature_type,
+        position: row.position,
+        title: row.title,
+        urls: row.urls ? JSON.parse(row.urls) : [],
+        collectedAt: new Date(row.collected_at),
         createdAt: new Date(row.created_at),
         updatedAt: new Date(row.updated_at)
       }));
@@ -1384,44 +2706,133 @@ export class DuckDBStorageClient implements StorageClient {
     }
   }
 
-  async fetchPipelineStages(runId: string): Promise<PipelineStageLog[]> {
+  private async ensureSelectorHealthTable(conn: duckdb.Connection) {
+    await run(
+      conn,
+      `
+        CREATE TABLE IF NOT EXISTS selector_health (
+          engine VARCHAR NOT NULL,
+          selector_group VARCHAR NOT NULL,
+          selector VARCHAR NOT NULL,
+          bucket_date TIMESTAMP NOT NULL,
+          success_count INTEGER NOT NULL DEFAULT 0,
+          fail_count INTEGER NOT NULL DEFAULT 0,
+          last_success_at TIMESTAMP,
+          last_failure_at TIMESTAMP,
+          config_version VARCHAR,
+          updated_at TIMESTAMP NOT NULL,
+          PRIMARY KEY (engine, selector_group, selector, bucket_date)
+        )
+      `
+    );
+  }
+
+  async recordSelectorHealth(records: SelectorHealthRecordInput[]): Promise<void> {
+    if (!records.length) return;
+
     const conn = await this.getConnection();
     try {
-      await this.ensurePipelineTables(conn);
+      await this.ensureSelectorHealthTable(conn);
+
+      const placeholders = records.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+      const params: unknown[] = [];
+      for (const record of records) {
+        params.push(
+          record.engine,
+          record.selectorGroup,
+          record.selector,
+          record.bucketDate.toISOString(),
+          record.successCount,
+          record.failCount,
+          record.lastSuccessAt ? record.lastSuccessAt.toISOString() : null,
+          record.lastFailureAt ? record.lastFailureAt.toISOString() : null,
+          record.configVersion,
+          record.updatedAt.toISOString()
+        );
+      }
+
+      await run(
+        conn,
+        `
+          INSERT INTO selector_health (
+            engine,
+            selector_group,
+            selector,
+            bucket_date,
+            success_count,
+            fail_count,
+            last_success_at,
+            last_failure_at,
+            config_version,
+            updated_at
+          ) VALUES ${placeholders}
+          ON CONFLICT(engine, selector_group, selector, bucket_date) DO UPDATE SET
+            success_count = success_count + excluded.success_count,
+            fail_count = fail_count + excluded.fail_count,
+            last_success_at = COALESCE(excluded.last_success_at, last_success_at),
+            last_failure_at = COALESCE(excluded.last_failure_at, last_failure_at),
+            config_version = excluded.config_version,
+            updated_at = excluded.updated_at
+        `,
+        params
+      );
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async fetchSelectorHealth(options: FetchSelectorHealthOptions): Promise<SelectorHealthRecordInput[]> {
+    const conn = await this.getConnection();
+    try {
+      await this.ensureSelectorHealthTable(conn);
+
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      if (options.engines && options.engines.length) {
+        conditions.push(`engine IN (${options.engines.map(() => "?").join(", ")})`);
+        params.push(...options.engines);
+      }
+
+      if (options.since) {
+        conditions.push("bucket_date >= ?");
+        params.push(options.since.toISOString());
+      }
+
+      const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
       const rows = await all<{
-        id: string;
-        run_id: string;
-        stage: string;
-        status: string;
-        attempts: number;
-        started_at: string | Date;
-        completed_at: string | Date | null;
-        error: string | null;
-        metadata: string | null;
-        created_at: string | Date;
+        engine: string;
+        selector_group: string;
+        selector: string;
+        bucket_date: string | Date;
+        success_count: number;
+        fail_count: number;
+        last_success_at: string | Date | null;
+        last_failure_at: string | Date | null;
+        config_version: string | null;
         updated_at: string | Date;
       }>(
         conn,
         `
           SELECT *
-          FROM pipeline_stage_logs
-          WHERE run_id = ?
-          ORDER BY started_at ASC
+          FROM selector_health
+          ${whereClause}
+          ORDER BY bucket_date DESC, engine ASC, selector_group ASC, selector ASC
         `,
-        [runId]
+        params
       );
 
       return rows.map((row) => ({
-        id: row.id,
-        runId: row.run_id,
-        stage: row.stage as PipelineStageLog["stage"],
-        status: row.status as PipelineRun["status"],
-        attempts: row.attempts,
-        startedAt: new Date(row.started_at),
-        completedAt: row.completed_at ? new Date(row.completed_at) : null,
-        error: row.error,
-        metadata: row.metadata ? JSON.parse(row.metadata) : {},
-        createdAt: new Date(row.created_at),
+        engine: row.engine,
+        selectorGroup: row.selector_group,
+        selector: row.selector,
+        bucketDate: new Date(row.bucket_date),
+        successCount: row.success_count,
+        failCount: row.fail_count,
+        lastSuccessAt: row.last_success_at ? new Date(row.last_success_at) : null,
+        lastFailureAt: row.last_failure_at ? new Date(row.last_failure_at) : null,
+        configVersion: row.config_version,
         updatedAt: new Date(row.updated_at)
       }));
     } finally {
@@ -1429,51 +2840,221 @@ export class DuckDBStorageClient implements StorageClient {
     }
   }
 
-  async recordAuditSamples(samples: AuditSampleRecordInput[]): Promise<void> {
-    if (!samples.length) return;
+  private async ensureRobotsDecisionsTable(conn: duckdb.Connection) {
+    await run(
+      conn,
+      `
+        CREATE TABLE IF NOT EXISTS robots_decisions (
+          id VARCHAR PRIMARY KEY,
+          crawl_run_id VARCHAR,
+          engine VARCHAR NOT NULL,
+          url VARCHAR NOT NULL,
+          user_agent VARCHAR NOT NULL,
+          allowed BOOLEAN NOT NULL,
+          robots_status VARCHAR NOT NULL,
+          matched_agent VARCHAR,
+          matched_rule VARCHAR,
+          crawl_delay_ms INTEGER,
+          decided_at TIMESTAMP NOT NULL
+        )
+      `
+    );
+  }
+
+  async recordRobotsDecisions(records: RobotsDecisionRecordInput[]): Promise<void> {
+    if (!records.length) return;
+
+    const conn = await this.getConnection();
+    try {
+      await this.ensureRobotsDecisionsTable(conn);
+
+      const placeholders = records.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+      const params: unknown[] = [];
+      for (const record of records) {
+        params.push(
+          record.id,
+          record.crawlRunId,
+          record.engine,
+          record.url,
+          record.userAgent,
+          record.allowed,
+          record.robotsStatus,
+          record.matchedAgent,
+          record.matchedRule,
+          record.crawlDelayMs,
+          record.decidedAt.toISOString()
+        );
+      }
+
+      await run(
+        conn,
+        `
+          INSERT INTO robots_decisions (
+            id,
+            crawl_run_id,
+            engine,
+            url,
+            user_agent,
+            allowed,
+            robots_status,
+            matched_agent,
+            matched_rule,
+            crawl_delay_ms,
+            decided_at
+          ) VALUES ${placeholders}
+          ON CONFLICT(id) DO NOTHING
+        `,
+        params
+      );
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  async fetchRobotsDecisions(options: FetchRobotsDecisionsOptions): Promise<RobotsDecisionRecordInput[]> {
+    const conn = await this.getConnection();
+    try {
+      await this.ensureRobotsDecisionsTable(conn);
+
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      if (options.runIds && options.runIds.length) {
+        conditions.push(`crawl_run_id IN (${options.runIds.map(() => "?").join(", ")})`);
+        params.push(...options.runIds);
+      }
+
+      if (options.engines && options.engines.length) {
+        conditions.push(`engine IN (${options.engines.map(() => "?").join(", ")})`);
+        params.push(...options.engines);
+      }
+
+      if (options.since) {
+        conditions.push("decided_at >= ?");
+        params.push(options.since.toISOString());
+      }
+
+      const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+      const rows = await all<{
+        id: string;
+        crawl_run_id: string | null;
+        engine: string;
+        url: string;
+        user_agent: string;
+        allowed: boolean;
+        robots_status: string;
+        matched_agent: string | null;
+        matched_rule: string | null;
+        crawl_delay_ms: number | null;
+        decided_at: string | Date;
+      }>(
+        conn,
+        `
+          SELECT *
+          FROM robots_decisions
+          ${whereClause}
+          ORDER BY decided_at DESC, engine ASC
+        `,
+        params
+      );
+
+      return rows.map((row) => ({
+        id: row.id,
+        crawlRunId: row.crawl_run_id,
+        engine: row.engine,
+        url: row.url,
+        userAgent: row.user_agent,
+        allowed: row.allowed,
+        robotsStatus: row.robots_status,
+        matchedAgent: row.matched_agent,
+        matchedRule: row.matched_rule,
+        crawlDelayMs: row.crawl_delay_ms,
+        decidedAt: new Date(row.decided_at)
+      }));
+    } finally {
+      await closeConnection(conn);
+    }
+  }
+
+  private async ensureWorkItemsTable(conn: duckdb.Connection) {
+    await run(
+      conn,
+      `
+        CREATE TABLE IF NOT EXISTS collection_work_items (
+          id VARCHAR PRIMARY KEY,
+          run_id VARCHAR NOT NULL,
+          crawl_run_id VARCHAR NOT NULL,
+          query_id VARCHAR NOT NULL,
+          engine VARCHAR NOT NULL,
+          vantage_id VARCHAR,
+          status VARCHAR NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          result_count INTEGER NOT NULL DEFAULT 0,
+          error VARCHAR,
+          started_at TIMESTAMP,
+          completed_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL,
+          updated_at TIMESTAMP NOT NULL
+        )
+      `
+    );
+  }
+
+  async upsertWorkItems(records: WorkItemRecordInput[]): Promise<void> {
+    if (!records.length) return;
+
     const conn = await this.getConnection();
     try {
-      await this.ensurePipelineTables(conn);
-      const placeholders = samples.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+      await this.ensureWorkItemsTable(conn);
+
+      const placeholders = records.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
       const params: unknown[] = [];
-      for (const sample of samples) {
+      for (const record of records) {
         params.push(
-          sample.id,
-          sample.runId,
-          sample.annotationId,
-          sample.queryId,
-          sample.engine,
-          sample.reviewer,
-          sample.status,
-          sample.notes,
-          sample.createdAt.toISOString(),
-          sample.updatedAt.toISOString()
+          record.id,
+          record.runId,
+          record.crawlRunId,
+          record.queryId,
+          record.engine,
+          record.vantageId,
+          record.status,
+          record.attempts,
+          record.resultCount,
+          record.error,
+          record.startedAt ? record.startedAt.toISOString() : null,
+          record.completedAt ? record.completedAt.toISOString() : null,
+          record.createdAt.toISOString(),
+          record.updatedAt.toISOString()
         );
       }
+
       await run(
         conn,
         `
-          INSERT INTO audit_samples (
+          INSERT INTO collection_work_items (
             id,
             run_id,
-            annotation_id,
+            crawl_run_id,
             query_id,
             engine,
-            reviewer,
+            vantage_id,
             status,
-            notes,
+            attempts,
+            result_count,
+            error,
+            started_at,
+            completed_at,
             created_at,
             updated_at
           ) VALUES ${placeholders}
           ON CONFLICT(id) DO UPDATE SET
-            run_id = excluded.run_id,
-            annotation_id = excluded.annotation_id,
-            query_id = excluded.query_id,
-            engine = excluded.engine,
-            reviewer = excluded.reviewer,
             status = excluded.status,
-            notes = excluded.notes,
-            created_at = excluded.created_at,
+            attempts = excluded.attempts,
+            result_count = excluded.result_count,
+            error = excluded.error,
+            started_at = excluded.started_at,
+            completed_at = excluded.completed_at,
             updated_at = excluded.updated_at
         `,
         params
@@ -1483,40 +3064,70 @@ export class DuckDBStorageClient implements StorageClient {
     }
   }
 
-  async fetchAuditSamples(runId: string): Promise<AuditSampleRecordInput[]> {
+  async fetchWorkItems(options: FetchWorkItemsOptions): Promise<WorkItemRecordInput[]> {
     const conn = await this.getConnection();
     try {
-      await this.ensurePipelineTables(conn);
+      await this.ensureWorkItemsTable(conn);
+
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      if (options.runIds && options.runIds.length) {
+        conditions.push(`run_id IN (${options.runIds.map(() => "?").join(", ")})`);
+        params.push(...options.runIds);
+      }
+
+      if (options.crawlRunIds && options.crawlRunIds.length) {
+        conditions.push(`crawl_run_id IN (${options.crawlRunIds.map(() => "?").join(", ")})`);
+        params.push(...options.crawlRunIds);
+      }
+
+      if (options.statuses && options.statuses.length) {
+        conditions.push(`status IN (${options.statuses.map(() => "?").join(", ")})`);
+        params.push(...options.statuses);
+      }
+
+      const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
       const rows = await all<{
         id: string;
         run_id: string;
-        annotation_id: string;
+        crawl_run_id: string;
         query_id: string;
         engine: string;
-        reviewer: string | null;
-        status: string;
-        notes: string | null;
+        vantage_id: string | null;
+        status: WorkItemRecordInput["status"];
+        attempts: number;
+        result_count: number;
+        error: string | null;
+        started_at: string | Date | null;
+        completed_at: string | Date | null;
         created_at: string | Date;
         updated_at: string | Date;
       }>(
         conn,
         `
           SELECT *
-          FROM audit_samples
-          WHERE run_id = ?
+          FROM collection_work_items
+          ${whereClause}
+          ORDER BY created_at ASC, id ASC
         `,
-        [runId]
+        params
       );
 
       return rows.map((row) => ({
         id: row.id,
         runId: row.run_id,
-        annotationId: row.annotation_id,
+        crawlRunId: row.crawl_run_id,
         queryId: row.query_id,
         engine: row.engine,
-        reviewer: row.reviewer,
-        status: row.status as "pending" | "approved" | "flagged",
-        notes: row.notes,
+        vantageId: row.vantage_id,
+        status: row.status,
+        attempts: Number(row.attempts),
+        resultCount: Number(row.result_count),
+        error: row.error,
+        startedAt: row.started_at ? new Date(row.started_at) : null,
+        completedAt: row.completed_at ? new Date(row.completed_at) : null,
         createdAt: new Date(row.created_at),
         updatedAt: new Date(row.updated_at)
       }));
@@ -1525,144 +3136,127 @@ export class DuckDBStorageClient implements StorageClient {
     }
   }
 
-  async upsertViewpoints(records: import("./types").ViewpointRecordInput[]): Promise<void> {
-    if (records.length === 0) return;
+  private async ensureCircuitBreakersTable(conn: duckdb.Connection) {
+    await run(
+      conn,
+      `
+        CREATE TABLE IF NOT EXISTS engine_circuit_breakers (
+          engine VARCHAR NOT NULL,
+          proxy VARCHAR NOT NULL,
+          state VARCHAR NOT NULL,
+          failure_count INTEGER NOT NULL DEFAULT 0,
+          consecutive_opens INTEGER NOT NULL DEFAULT 0,
+          last_reason VARCHAR,
+          last_error VARCHAR,
+          opened_at TIMESTAMP,
+          retry_at TIMESTAMP,
+          updated_at TIMESTAMP NOT NULL,
+          PRIMARY KEY (engine, proxy)
+        )
+      `
+    );
+  }
 
-    const conn = await openConnection(this.db);
+  async upsertCircuitBreakers(records: CircuitBreakerRecordInput[]): Promise<void> {
+    if (!records.length) return;
+
+    const conn = await this.getConnection();
     try {
-      // Create table if not exists
-      await run(
-        conn,
-        `
-          CREATE TABLE IF NOT EXISTS viewpoints (
-            id VARCHAR PRIMARY KEY,
-            query_id VARCHAR NOT NULL,
-            crawl_run_id VARCHAR,
-            engine VARCHAR NOT NULL,
-            num_results INTEGER NOT NULL DEFAULT 0,
-            summary TEXT,
-            citations_count INTEGER DEFAULT 0,
-            overlap_hash VARCHAR,
-            collected_at TIMESTAMP NOT NULL,
-            created_at TIMESTAMP NOT NULL,
-            updated_at TIMESTAMP NOT NULL,
-            UNIQUE(query_id, crawl_run_id, engine)
-          )
-        `
-      );
+      await this.ensureCircuitBreakersTable(conn);
 
-      // DuckDB doesn't support ON CONFLICT with UNIQUE constraints well,
-      // so we'll delete and insert
+      const placeholders = records.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+      const params: unknown[] = [];
       for (const record of records) {
-        await run(
-          conn,
-          `
-            DELETE FROM viewpoints
-            WHERE query_id = ? AND crawl_run_id = ? AND engine = ?
-          `,
-          [record.queryId, record.crawlRunId, record.engine]
-        );
-
-        await run(
-          conn,
-          `
-            INSERT INTO viewpoints (
-              id, query_id, crawl_run_id, engine, num_results, summary,
-              citations_count, overlap_hash, collected_at, created_at, updated_at
-            )
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-          `,
-          [
-            record.id,
-            record.queryId,
-            record.crawlRunId,
-            record.engine,
-            record.numResults,
-            record.summary,
-            record.citationsCount,
-            record.overlapHash,
-            record.collectedAt.toISOString(),
-            record.createdAt.toISOString(),
-            record.updatedAt.toISOString()
-          ]
+        params.push(
+          record.engine,
+          record.proxy,
+          record.state,
+          record.failureCount,
+          record.consecutiveOpens,
+          record.lastReason,
+          record.lastError,
+          record.openedAt ? record.openedAt.toISOString() : null,
+          record.retryAt ? record.retryAt.toISOString() : null,
+          record.updatedAt.toISOString()
         );
       }
-    } finally {
-      await closeConnection(conn);
-    }
-  }
 
-  async fetchViewpointsByQuery(options: import("./types").FetchViewpointsByQueryOptions): Promise<import("./types").ViewpointRecordInput[]> {
-    const conn = await openConnection(this.db);
-    try {
-      // Ensure table exists
       await run(
         conn,
         `
-          CREATE TABLE IF NOT EXISTS viewpoints (
-            id VARCHAR PRIMARY KEY,
-            query_id VARCHAR NOT NULL,
-            crawl_run_id VARCHAR,
-            engine VARCHAR NOT NULL,
-            num_results INTEGER NOT NULL DEFAULT 0,
-            summary TEXT,
-            citations_count INTEGER DEFAULT 0,
-            overlap_hash VARCHAR,
-            collected_at TIMESTAMP NOT NULL,
-            created_at TIMESTAMP NOT NULL,
-            updated_at TIMESTAMP NOT NULL
-          )
-        `
+          INSERT INTO engine_circuit_breakers (
+            engine,
+            proxy,
+            state,
+            failure_count,
+            consecutive_opens,
+            last_reason,
+            last_error,
+            opened_at,
+            retry_at,
+            updated_at
+          ) VALUES ${placeholders}
+          ON CONFLICT(engine, proxy) DO UPDATE SET
+            state = excluded.state,
+            failure_count = excluded.failure_count,
+            consecutive_opens = excluded.consecutive_opens,
+            last_reason = excluded.last_reason,
+            last_error = excluded.last_error,
+            opened_at = excluded.opened_at,
+            retry_at = excluded.retry_at,
+            updated_at = excluded.updated_at
+        `,
+        params
       );
+    } finally {
+      await closeConnection(conn);
+    }
+  }
 
-      const conditions: string[] = ["query_id = ?"];
-      const params: any[] = [options.queryId];
-
-      if (options.runId) {
-        conditions.push("crawl_run_id = ?");
-        params.push(options.runId);
-      }
+  async fetchCircuitBreakers(options: FetchCircuitBreakersOptions): Promise<CircuitBreakerRecordInput[]> {
+    const conn = await this.getConnection();
+    try {
+      await this.ensureCircuitBreakersTable(conn);
 
-      if (options.engines && options.engines.length > 0) {
-        const placeholders = options.engines.map(() => "?").join(", ");
-        conditions.push(`engine IN (${placeholders})`);
+      const params: unknown[] = [];
+      let whereClause = "";
+      if (options.engines && options.engines.length) {
+        whereClause = `WHERE engine IN (${options.engines.map(() => "?").join(", ")})`;
         params.push(...options.engines);
       }
 
       const rows = await all<{
-        id: string;
-        query_id: string;
-        crawl_run_id: string | null;
         engine: string;
-        num_results: number;
-        summary: string | null;
-        citations_count: number;
-        overlap_hash: string | null;
-        collected_at: string | Date;
-        created_at: string | Date;
+        proxy: string;
+        state: CircuitBreakerRecordInput["state"];
+        failure_count: number;
+        consecutive_opens: number;
+        last_reason: string | null;
+        last_error: string | null;
+        opened_at: string | Date | null;
+        retry_at: string | Date | null;
         updated_at: string | Date;
       }>(
         conn,
         `
           SELECT *
-          FROM viewpoints
-          WHERE ${conditions.join(" AND ")}
-          ORDER BY engine, collected_at DESC
+          FROM engine_circuit_breakers
+          ${whereClause}
+          ORDER BY engine ASC, proxy ASC
         `,
         params
       );
 
       return rows.map((row) => ({
-        id: row.id,
-        queryId: row.query_id,
-        crawlRunId: row.crawl_run_id,
         engine: row.engine,
-        numResults: row.num_results,
-        summary: row.summary,
-        citationsCount: row.citations_count,
-        overlapHash: row.overlap_hash,
-        collectedAt: new Date(row.collected_at),
-        createdAt: new Date(row.created_at),
+        proxy: row.proxy,
+        state: row.state,
+        failureCount: Number(row.failure_count),
+        consecutiveOpens: Number(row.consecutive_opens),
+        lastReason: row.last_reason,
+        lastError: row.last_error,
+        openedAt: row.opened_at ? new Date(row.opened_at) : null,
+        retryAt: row.retry_at ? new Date(row.retry_at) : null,
         updatedAt: new Date(row.updated_at)
       }));
     } finally {
@@ -21,11 +21,33 @@ import {
   AnnotationAggregateRecordInput,
   AnnotationRecordInput,
   SearchResultInput,
+  SearchResultUrlRecord,
+  SearchResultUrlUpdate,
+  FetchSearchResultUrlsOptions,
   CrawlRunRecordInput,
   FetchAnnotatedResultsOptions,
   FetchPendingAnnotationsOptions,
   FetchAnnotationAggregateOptions,
   MetricRecordInput,
+  MetricWindowRecordInput,
+  FetchMetricWindowRecordsOptions,
+  FetchRecentMetricRecordsOptions,
+  MetricGroupRecordInput,
+  FetchMetricGroupRecordsOptions,
+  MetricAnomalyRecordInput,
+  FetchMetricAnomaliesOptions,
+  CitationRecordInput,
+  FetchCitationsOptions,
+  SerpFeatureRecordInput,
+  FetchSerpFeaturesOptions,
+  SelectorHealthRecordInput,
+  FetchSelectorHealthOptions,
+  RobotsDecisionRecordInput,
+  FetchRobotsDecisionsOptions,
+  WorkItemRecordInput,
+  FetchWorkItemsOptions,
+  CircuitBreakerRecordInput,
+  FetchCircuitBreakersOptions,
   DatasetExportOptions,
   DatasetExportResult,
   AuditSampleRecordInput,
@@ -40,6 +62,9 @@ interface InMemoryStorageState {
   annotations: AnnotationRecord[];
   annotatedResults: AnnotatedResultView[];
   metrics: MetricRecordInput[];
+  metricWindows: MetricWindowRecordInput[];
+  metricGroups: MetricGroupRecordInput[];
+  metricAnomalies: MetricAnomalyRecordInput[];
   annotationAggregates: AnnotationAggregateRecord[];
   crawlRuns: CrawlRunRecordInput[];
   datasetVersions: DatasetVersion[];
@@ -47,6 +72,12 @@ interface InMemoryStorageState {
   pipelineStages: PipelineStageLog[];
   auditSamples: AuditSampleRecordInput[];
   viewpoints: import("./types").ViewpointRecordInput[];
+  citations: CitationRecordInput[];
+  serpFeatures: SerpFeatureRecordInput[];
+  selectorHealth: SelectorHealthRecordInput[];
+  robotsDecisions: RobotsDecisionRecordInput[];
+  workItems: WorkItemRecordInput[];
+  circuitBreakers: CircuitBreakerRecordInput[];
 }
 
 export function createInMemoryStorageClient(initialState?: Partial<InMemoryStorageState>): StorageClient {
@@ -61,13 +92,22 @@ export function createInMemoryStorageClient(initialState?: Partial<InMemoryStora
       ? initialState.annotatedResults.map((result) => AnnotatedResultViewSchema.parse(result))
       : [],
     metrics: initialState?.metrics ? [...initialState.metrics] : [],
+    metricWindows: initialState?.metricWindows ? [...initialState.metricWindows] : [],
+    metricGroups: initialState?.metricGroups ? [...initialState.metricGroups] : [],
+    metricAnomalies: initialState?.metricAnomalies ? [...initialState.metricAnomalies] : [],
     annotationAggregates: initialState?.annotationAggregates ? [...initialState.annotationAggregates] : [],
     crawlRuns: initialState?.crawlRuns ? [...initialState.crawlRuns] : [],
     datasetVersions: initialState?.datasetVersions ? [...initialState.datasetVersions] : [],
     pipelineRuns: initialState?.pipelineRuns ? [...initialState.pipelineRuns] : [],
     pipelineStages: initialState?.pipelineStages ? [...initialState.pipelineStages] : [],
     auditSamples: initialState?.auditSamples ? [...initialState.auditSamples] : [],
-    viewpoints: initialState?.viewpoints ? [...initialState.viewpoints] : []
+    viewpoints: initialState?.viewpoints ? [...initialState.viewpoints] : [],
+    citations: initialState?.citations ? [...initialState.citations] : [],
+    serpFeatures: initialState?.serpFeatures ? [...initialState.serpFeatures] : [],
+    selectorHealth: initialState?.selectorHealth ? [...initialState.selectorHealth] : [],
+    robotsDecisions: initialState?.robotsDecisions ? [...initialState.robotsDecisions] : [],
+    workItems: initialState?.workItems ? [...initialState.workItems] : [],
+    circuitBreakers: initialState?.circuitBreakers ? [...initialState.circuitBreakers] : []
   };
 
   return {
@@ -115,10 +155,15 @@ export function createInMemoryStorageClient(initialState?: Partial<InMemoryStora
             engine: parsed.engine,
             normalizedUrl: searchResult.normalizedUrl,
             domain: searchResult.domain,
+            registrableDomain: searchResult.registrableDomain ?? null,
             rank: searchResult.rank,
             factualConsistency: parsed.factualConsistency,
             domainType: parsed.domainType,
-            collectedAt: searchResult.timestamp
+            collectedAt: searchResult.timestamp,
+            source: searchResult.source ?? null,
+            extractionConfidence: searchResult.extractionConfidence ?? null,
+            visibilityWeight: searchResult.visibilityWeight ?? null,
+            vantageId: searchResult.vantageId ?? null
           });
 
           const existingResultIndex = state.annotatedResults.findIndex(
@@ -149,6 +194,45 @@ export function createInMemoryStorageClient(initialState?: Partial<InMemoryStora
       }
     },
 
+    async fetchSearchResultUrls(options: FetchSearchResultUrlsOptions): Promise<SearchResultUrlRecord[]> {
+      const afterId = options.afterId;
+      const rows = state.searchResults
+        .filter((result) => afterId === undefined || result.id > afterId)
+        .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+        .map(({ id, engine, url, normalizedUrl, domain, registrableDomain }) => ({
+          id,
+          engine,
+          url,
+          normalizedUrl,
+          domain,
+          registrableDomain: registrableDomain ?? null
+        }));
+      return options.limit !== undefined ? rows.slice(0, options.limit) : rows;
+    },
+
+    async updateSearchResultUrls(updates: SearchResultUrlUpdate[]): Promise<void> {
+      for (const update of updates) {
+        const result = state.searchResults.find((item) => item.id === update.id);
+        if (!result) continue;
+        result.normalizedUrl = update.normalizedUrl;
+        result.domain = update.domain;
+        result.registrableDomain = update.registrableDomain;
+
+        // Annotated views are denormalized copies, so keep them in step.
+        const annotationIds = new Set(
+          state.annotations
+            .filter((annotation) => annotation.searchResultId === update.id)
+            .map((annotation) => annotation.id)
+        );
+        for (const view of state.annotatedResults) {
+          if (!annotationIds.has(view.annotationId)) continue;
+          view.normalizedUrl = update.normalizedUrl;
+          view.domain = update.domain;
+          view.registrableDomain = update.registrableDomain;
+        }
+      }
+    },
+
     async recordCrawlRuns(records: CrawlRunRecordInput[]): Promise<void> {
       for (const record of records) {
         const existingIndex = state.crawlRuns.findIndex((run) => run.id === record.id);
@@ -166,6 +250,14 @@ export function createInMemoryStorageClient(initialState?: Partial<InMemoryStora
         if (options.until && result.collectedAt > options.until) return false;
         if (options.queryIds && options.queryIds.length && !options.queryIds.includes(result.queryId)) return false;
         if (options.runIds && options.runIds.length && !options.runIds.includes(result.runId)) return false;
+        if (options.sources && options.sources.length && !options.sources.includes(result.source ?? "")) return false;
+        if (
+          options.minExtractionConfidence !== undefined &&
+          result.extractionConfidence != null &&
+          result.extractionConfidence < options.minExtractionConfidence
+        ) {
+          return false;
+        }
         return true;
       });
     },
@@ -234,12 +326,78 @@ export function createInMemoryStorageClient(initialState?: Partial<InMemoryStora
 
     async fetchRecentMetricRecords(
       metricType: MetricRecordInput["metricType"],
-      limit: number
+      limit: number | null,
+      options: FetchRecentMetricRecordsOptions = {}
     ): Promise<MetricRecordInput[]> {
       return state.metrics
         .filter((record) => record.metricType === metricType)
+        .filter((record) => options.engine === undefined || record.engine === options.engine)
+        .filter((record) => !options.since || record.collectedAt >= options.since)
         .sort((a, b) => b.collectedAt.getTime() - a.collectedAt.getTime())
-        .slice(0, limit);
+        .slice(0, limit ?? undefined);
+    },
+
+    async upsertMetricWindowRecords(records: MetricWindowRecordInput[]): Promise<void> {
+      if (!records.length) return;
+      const ids = new Set(records.map((record) => record.id));
+      state.metricWindows = state.metricWindows.filter((record) => !ids.has(record.id));
+      state.metricWindows.push(...records);
+    },
+
+    async fetchMetricWindowRecords(options: FetchMetricWindowRecordsOptions): Promise<MetricWindowRecordInput[]> {
+      const records = state.metricWindows
+        .filter((record) => {
+          if (options.metricType && record.metricType !== options.metricType) return false;
+          if (options.step && record.step !== options.step) return false;
+          if (options.queryIds && options.queryIds.length && !options.queryIds.includes(record.queryId)) return false;
+          if (options.engine !== undefined && record.engine !== options.engine) return false;
+          if (options.since && record.windowEnd < options.since) return false;
+          return true;
+        })
+        .sort((a, b) => b.windowEnd.getTime() - a.windowEnd.getTime());
+      return options.limit ? records.slice(0, options.limit) : records;
+    },
+
+    async upsertMetricGroupRecords(records: MetricGroupRecordInput[]): Promise<void> {
+      if (!records.length) return;
+      const ids = new Set(records.map((record) => record.id));
+      state.metricGroups = state.metricGroups.filter((record) => !ids.has(record.id));
+      state.metricGroups.push(...records);
+    },
+
+    async fetchMetricGroupRecords(options: FetchMetricGroupRecordsOptions): Promise<MetricGroupRecordInput[]> {
+      const records = state.metricGroups
+        .filter((record) => {
+          if (record.groupBy !== options.groupBy) return false;
+          if (options.groupKeys && options.groupKeys.length && !options.groupKeys.includes(record.groupKey)) return false;
+          if (options.metricType && record.metricType !== options.metricType) return false;
+          if (options.engine !== undefined && record.engine !== options.engine) return false;
+          if (options.since && record.runDate < options.since) return false;
+          return true;
+        })
+        .sort((a, b) => b.runDate.getTime() - a.runDate.getTime());
+      return options.limit ? records.slice(0, options.limit) : records;
+    },
+
+    async upsertMetricAnomalies(records: MetricAnomalyRecordInput[]): Promise<void> {
+      if (!records.length) return;
+      const ids = new Set(records.map((record) => record.id));
+      state.metricAnomalies = state.metricAnomalies.filter((record) => !ids.has(record.id));
+      state.metricAnomalies.push(...records);
+    },
+
+    async fetchMetricAnomalies(options: FetchMetricAnomaliesOptions): Promise<MetricAnomalyRecordInput[]> {
+      const records = state.metricAnomalies
+        .filter((record) => {
+          if (options.queryIds && options.queryIds.length && !options.queryIds.includes(record.queryId)) return false;
+          if (options.engine !== undefined && record.engine !== options.engine) return false;
+          if (options.metricType && record.metricType !== options.metricType) return false;
+          if (options.severity && record.severity !== options.severity) return false;
+          if (options.since && record.collectedAt < options.since) return false;
+          return true;
+        })
+        .sort((a, b) => b.collectedAt.getTime() - a.collectedAt.getTime());
+      return options.limit ? records.slice(0, options.limit) : records;
     },
 
     async exportDataset(options: DatasetExportOptions): Promise<DatasetExportResult> {
@@ -380,6 +538,139 @@ export function createInMemoryStorageClient(initialState?: Partial<InMemoryStora
         .sort((a, b) => b.collectedAt.getTime() - a.collectedAt.getTime());
     },
 
+    async upsertCitations(records: CitationRecordInput[]): Promise<void> {
+      if (!records.length) return;
+      const ids = new Set(records.map((record) => record.id));
+      state.citations = state.citations.filter((record) => !ids.has(record.id));
+      state.citations.push(...records);
+    },
+
+    async fetchCitations(options: FetchCitationsOptions): Promise<CitationRecordInput[]> {
+      return state.citations
+        .filter((citation) => {
+          if (options.queryIds && options.queryIds.length && !options.queryIds.includes(citation.queryId)) return false;
+          if (options.runIds && options.runIds.length && !options.runIds.includes(citation.crawlRunId ?? "")) return false;
+          if (options.engines && options.engines.length && !options.engines.includes(citation.engine)) return false;
+          if (options.since && citation.collectedAt < options.since) return false;
+          return true;
+        })
+        .sort((a, b) => b.collectedAt.getTime() - a.collectedAt.getTime() || a.citationIndex - b.citationIndex);
+    },
+
+    async upsertSerpFeatures(records: SerpFeatureRecordInput[]): Promise<void> {
+      if (!records.length) return;
+      const ids = new Set(records.map((record) => record.id));
+      state.serpFeatures = state.serpFeatures.filter((record) => !ids.has(record.id));
+      state.serpFeatures.push(...records);
+    },
+
+    async fetchSerpFeatures(options: FetchSerpFeaturesOptions): Promise<SerpFeatureRecordInput[]> {
+      return state.serpFeatures
+        .filter((feature) => {
+          if (options.queryIds && options.queryIds.length && !options.queryIds.includes(feature.queryId)) return false;
+          if (options.runIds && options.runIds.length && !options.runIds.includes(feature.crawlRunId ?? "")) return false;
+          if (options.engines && options.engines.length && !options.engines.includes(feature.engine)) return false;
+          if (options.since && feature.collectedAt < options.since) return false;
+          return true;
+        })
+        .sort((a, b) => b.collectedAt.getTime() - a.collectedAt.getTime() || a.position - b.position);
+    },
+
+    async recordSelectorHealth(records: SelectorHealthRecordInput[]): Promise<void> {
+      for (const record of records) {
+        const index = state.selectorHealth.findIndex(
+          (existing) =>
+            existing.engine === record.engine &&
+            existing.selectorGroup === record.selectorGroup &&
+            existing.selector === record.selector &&
+            existing.bucketDate.getTime() === record.bucketDate.getTime()
+        );
+        if (index === -1) {
+          state.selectorHealth.push({ ...record });
+          continue;
+        }
+        const existing = state.selectorHealth[index];
+        state.selectorHealth[index] = {
+          ...record,
+          successCount: existing.successCount + record.successCount,
+          failCount: existing.failCount + record.failCount,
+          lastSuccessAt: record.lastSuccessAt ?? existing.lastSuccessAt,
+          lastFailureAt: record.lastFailureAt ?? existing.lastFailureAt
+        };
+      }
+    },
+
+    async fetchSelectorHealth(options: FetchSelectorHealthOptions): Promise<SelectorHealthRecordInput[]> {
+      return state.selectorHealth
+        .filter((record) => {
+          if (options.engines && options.engines.length && !options.engines.includes(record.engine)) return false;
+          if (options.since && record.bucketDate < options.since) return false;
+          return true;
+        })
+        .sort(
+          (a, b) =>
+            b.bucketDate.getTime() - a.bucketDate.getTime() ||
+            a.engine.localeCompare(b.engine) ||
+            a.selectorGroup.localeCompare(b.selectorGroup) ||
+            a.selector.localeCompare(b.selector)
+        );
+    },
+
+    async recordRobotsDecisions(records: RobotsDecisionRecordInput[]): Promise<void> {
+      for (const record of records) {
+        if (state.robotsDecisions.some((existing) => existing.id === record.id)) continue;
+        state.robotsDecisions.push({ ...record });
+      }
+    },
+
+    async fetchRobotsDecisions(options: FetchRobotsDecisionsOptions): Promise<RobotsDecisionRecordInput[]> {
+      return state.robotsDecisions
+        .filter((record) => {
+          if (options.runIds && options.runIds.length && !options.runIds.includes(record.crawlRunId ?? "")) return false;
+          if (options.engines && options.engines.length && !options.engines.includes(record.engine)) return false;
+          if (options.since && record.decidedAt < options.since) return false;
+          return true;
+        })
+        .sort((a, b) => b.decidedAt.getTime() - a.decidedAt.getTime() || a.engine.localeCompare(b.engine));
+    },
+
+    async upsertWorkItems(records: WorkItemRecordInput[]): Promise<void> {
+      if (!records.length) return;
+      const ids = new Set(records.map((record) => record.id));
+      state.workItems = state.workItems.filter((record) => !ids.has(record.id));
+      state.workItems.push(...records.map((record) => ({ ...record })));
+    },
+
+    async fetchWorkItems(options: FetchWorkItemsOptions): Promise<WorkItemRecordInput[]> {
+      return state.workItems
+        .filter((record) => {
+          if (options.runIds && options.runIds.length && !options.runIds.includes(record.runId)) return false;
+          if (options.crawlRunIds && options.crawlRunIds.length && !options.crawlRunIds.includes(record.crawlRunId)) {
+            return false;
+          }
+          if (options.statuses && options.statuses.length && !options.statuses.includes(record.status)) return false;
+          return true;
+        })
+        .map((record) => ({ ...record }))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id));
+    },
+
+    async upsertCircuitBreakers(records: CircuitBreakerRecordInput[]): Promise<void> {
+      for (const record of records) {
+        state.circuitBreakers = state.circuitBreakers.filter(
+          (existing) => existing.engine !== record.engine || existing.proxy !== record.proxy
+        );
+        state.circuitBreakers.push({ ...record });
+      }
+    },
+
+    async fetchCircuitBreakers(options: FetchCircuitBreakersOptions): Promise<CircuitBreakerRecordInput[]> {
+      return state.circuitBreakers
+        .filter((record) => !options.engines || !options.engines.length || options.engines.includes(record.engine))
+        .map((record) => ({ ...record }))
+        .sort((a, b) => a.engine.localeCompare(b.engine) || a.proxy.localeCompare(b.proxy));
+    },
+
     async close(): Promise<void> {
       // no-op for in-memory storage
     }
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { createStorageClient } from "./index";
+import type { MetricRecordInput } from "./types";
+
+describe("fetchRecentMetricRecords", () => {
+  it("applies the limit after the engine filter", async () => {
+    const storage = createStorageClient({ url: "memory://" });
+    const queryId = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+
+    // Each run writes one aggregate row and one row per engine
+    const records: MetricRecordInput[] = [];
+    for (let run = 0; run < 5; run++) {
+      const collectedAt = new Date(Date.UTC(2025, 0, run + 1));
+      for (const engine of [null, "google", "bing", "brave"]) {
+        records.push({
+          id: `${run}-${engine ?? "all"}`,
+          crawlRunId: `run-${run}`,
+          queryId,
+          engine,
+          metricType: "domain_diversity",
+          value: run,
+          delta: null,
+          comparedToRunId: null,
+          collectedAt,
+          createdAt: collectedAt
+        });
+      }
+    }
+    await storage.insertMetricRecords(records);
+
+    const aggregates = await storage.fetchRecentMetricRecords("domain_diversity", 3, { engine: null });
+    expect(aggregates.map((record) => [record.engine, record.crawlRunId])).toEqual([
+      [null, "run-4"],
+      [null, "run-3"],
+      [null, "run-2"]
+    ]);
+
+    const bing = await storage.fetchRecentMetricRecords("domain_diversity", 2, { engine: "bing" });
+    expect(bing.map((record) => [record.engine, record.crawlRunId])).toEqual([
+      ["bing", "run-4"],
+      ["bing", "run-3"]
+    ]);
+
+    expect(await storage.fetchRecentMetricRecords("domain_diversity", 10)).toHaveLength(10);
+
+    const recent = await storage.fetchRecentMetricRecords("domain_diversity", null, {
+      engine: "google",
+      since: new Date(Date.UTC(2025, 0, 3))
+    });
+    expect(recent.map((record) => record.crawlRunId)).toEqual(["run-4", "run-3", "run-2"]);
+
+    await storage.close();
+  });
+});
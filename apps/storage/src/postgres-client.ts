@@ -25,11 +25,33 @@ import {
   AnnotationAggregateRecordInput,
   AnnotationRecordInput,
   SearchResultInput,
+  SearchResultUrlRecord,
+  SearchResultUrlUpdate,
+  FetchSearchResultUrlsOptions,
   CrawlRunRecordInput,
   FetchAnnotatedResultsOptions,
   FetchPendingAnnotationsOptions,
   FetchAnnotationAggregateOptions,
   MetricRecordInput,
+  MetricWindowRecordInput,
+  FetchMetricWindowRecordsOptions,
+  FetchRecentMetricRecordsOptions,
+  MetricGroupRecordInput,
+  FetchMetricGroupRecordsOptions,
+  MetricAnomalyRecordInput,
+  FetchMetricAnomaliesOptions,
+  CitationRecordInput,
+  FetchCitationsOptions,
+  SerpFeatureRecordInput,
+  FetchSerpFeaturesOptions,
+  SelectorHealthRecordInput,
+  FetchSelectorHealthOptions,
+  RobotsDecisionRecordInput,
+  FetchRobotsDecisionsOptions,
+  WorkItemRecordInput,
+  FetchWorkItemsOptions,
+  CircuitBreakerRecordInput,
+  FetchCircuitBreakersOptions,
   DatasetExportOptions,
   DatasetExportResult,
   AuditSampleRecordInput,
@@ -53,6 +75,145 @@ const METRIC_COLUMNS = [
   "created_at"
 ];
 
+const METRIC_WINDOW_COLUMNS = [
+  "id",
+  "query_id",
+  "engine",
+  "metric_type",
+  "step",
+  "window_days",
+  "window_start",
+  "window_end",
+  "run_count",
+  "value",
+  "moving_average",
+  "delta",
+  "extra",
+  "created_at"
+];
+
+const METRIC_GROUP_COLUMNS = [
+  "id",
+  "group_by",
+  "group_key",
+  "engine",
+  "metric_type",
+  "run_date",
+  "value",
+  "delta",
+  "query_count",
+  "total_weight",
+  "extra",
+  "created_at"
+];
+
+const CITATION_COLUMNS = [
+  "id",
+  "query_id",
+  "crawl_run_id",
+  "engine",
+  "citation_index",
+  "url",
+  "normalized_url",
+  "domain",
+  "registrable_domain",
+  "sentences",
+  "collected_at",
+  "created_at",
+  "updated_at"
+];
+
+const SERP_FEATURE_COLUMNS = [
+  "id",
+  "query_id",
+  "crawl_run_id",
+  "engine",
+  "feature_type",
+  "position",
+  "title",
+  "urls",
+  "collected_at",
+  "created_at",
+  "updated_at"
+];
+
+const SELECTOR_HEALTH_COLUMNS = [
+  "engine",
+  "selector_group",
+  "selector",
+  "bucket_date",
+  "success_count",
+  "fail_count",
+  "last_success_at",
+  "last_failure_at",
+  "config_version",
+  "updated_at"
+];
+
+const ROBOTS_DECISION_COLUMNS = [
+  "id",
+  "crawl_run_id",
+  "engine",
+  "url",
+  "user_agent",
+  "allowed",
+  "robots_status",
+  "matched_agent",
+  "matched_rule",
+  "crawl_delay_ms",
+  "decided_at"
+];
+
+const WORK_ITEM_COLUMNS = [
+  "id",
+  "run_id",
+  "crawl_run_id",
+  "query_id",
+  "engine",
+  "vantage_id",
+  "status",
+  "attempts",
+  "result_count",
+  "error",
+  "started_at",
+  "completed_at",
+  "created_at",
+  "updated_at"
+];
+
+const CIRCUIT_BREAKER_COLUMNS = [
+  "engine",
+  "proxy",
+  "state",
+  "failure_count",
+  "consecutive_opens",
+  "last_reason",
+  "last_error",
+  "opened_at",
+  "retry_at",
+  "updated_at"
+];
+
+const METRIC_ANOMALY_COLUMNS = [
+  "id",
+  "crawl_run_id",
+  "query_id",
+  "engine",
+  "metric_type",
+  "value",
+  "baseline",
+  "scale",
+  "score",
+  "lower_bound",
+  "upper_bound",
+  "direction",
+  "severity",
+  "history_count",
+  "collected_at",
+  "extra",
+  "created_at"
+];
+
 const AUDIT_SAMPLE_COLUMNS = [
   "id",
   "run_id",
@@ -71,17 +232,17 @@ function buildTimestampSlug(date: Date): string {
 }
 
 /**
- * Deduplicates search results by (query_id, engine, url) to prevent
- * "ON CONFLICT DO UPDATE command cannot affect row a second time" errors.
+ * Deduplicates search results by (query_id, engine, url, vantage_id, crawl_run_id)
+ * to prevent "ON CONFLICT DO UPDATE command cannot affect row a second time" errors.
  * Keeps the last occurrence of each duplicate.
  * 
  * @param results - Array of search result records
- * @returns Deduplicated array with unique (query_id, engine, url) tuples
+ * @returns Deduplicated array with unique (query_id, engine, url, vantage_id, crawl_run_id) tuples
  */
 function deduplicateSearchResults(results: SearchResultInput[]): SearchResultInput[] {
   const map = new Map<string, SearchResultInput>();
   for (const r of results) {
-    const key = `${r.queryId}-${r.engine}-${r.url}`;
+    const key = `${r.queryId}-${r.engine}-${r.url}-${r.vantageId ?? ""}-${r.crawlRunId ?? ""}`;
     map.set(key, r);
   }
   return Array.from(map.values());
@@ -226,8 +387,11 @@ function formatCsvValue(value: unknown): string {
 }
 
 export class PostgresStorageClient implements StorageClient {
-  private readonly pool: Pool;
+  private readonly pool: InstanceType<typeof Pool>;
   private metricTableEnsured = false;
+  private metricWindowTableEnsured = false;
+  private metricGroupTableEnsured = false;
+  private metricAnomalyTableEnsured = false;
   private aggregateTableEnsured = false;
   private annotationTableEnsured = false;
   private searchResultsTableEnsured = false;
@@ -235,6 +399,12 @@ export class PostgresStorageClient implements StorageClient {
   private datasetVersionsTableEnsured = false;
   private auditSamplesTableEnsured = false;
   private viewpointsTableEnsured = false;
+  private citationsTableEnsured = false;
+  private serpFeaturesTableEnsured = false;
+  private selectorHealthTableEnsured = false;
+  private robotsDecisionsTableEnsured = false;
+  private workItemsTableEnsured = false;
+  private circuitBreakersTableEnsured = false;
 
   constructor(connectionString: string) {
     this.pool = new Pool({ connectionString });
@@ -319,14 +489,41 @@ export class PostgresStorageClient implements StorageClient {
         hash TEXT NOT NULL,
         raw_html_path TEXT NOT NULL,
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        source TEXT,
+        extraction_confidence REAL,
+        extraction_warnings JSONB,
+        metadata JSONB,
+        registrable_domain TEXT,
+        parser_version TEXT,
+        visibility_weight REAL,
+        vantage_id TEXT,
+        page INTEGER
       )
     `);
+
+    // Tables created before these columns existed lack them.
+    await this.pool.query(`
+      ALTER TABLE search_results
+        ADD COLUMN IF NOT EXISTS source TEXT,
+        ADD COLUMN IF NOT EXISTS extraction_confidence REAL,
+        ADD COLUMN IF NOT EXISTS extraction_warnings JSONB,
+        ADD COLUMN IF NOT EXISTS metadata JSONB,
+        ADD COLUMN IF NOT EXISTS registrable_domain TEXT,
+        ADD COLUMN IF NOT EXISTS parser_version TEXT,
+        ADD COLUMN IF NOT EXISTS visibility_weight REAL,
+        ADD COLUMN IF NOT EXISTS vantage_id TEXT,
+        ADD COLUMN IF NOT EXISTS page INTEGER
+    `);
     
-    // Create unique index on (query_id, engine, url) to prevent logical duplicates
+    // One row per (query_id, engine, url), vantage and crawl run, so a later crawl
+    // or a re-extraction (under its own crawl run) never overwrites another run's
+    // rows. Rows without a vantage share the NULL slot.
+    await this.pool.query(`DROP INDEX IF EXISTS search_results_unique_idx`);
+    await this.pool.query(`DROP INDEX IF EXISTS search_results_vantage_unique_idx`);
     await this.pool.query(`
-      CREATE UNIQUE INDEX IF NOT EXISTS search_results_unique_idx
-        ON search_results (query_id, engine, url)
+      CREATE UNIQUE INDEX IF NOT EXISTS search_results_crawl_run_unique_idx
+        ON search_results (query_id, engine, url, vantage_id, crawl_run_id) NULLS NOT DISTINCT
     `);
     
     this.searchResultsTableEnsured = true;
@@ -346,9 +543,11 @@ export class PostgresStorageClient implements StorageClient {
         error TEXT,
         result_count INTEGER NOT NULL,
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        vantage_id TEXT
       )
     `);
+    await this.pool.query(`ALTER TABLE crawl_runs ADD COLUMN IF NOT EXISTS vantage_id TEXT`);
     this.crawlRunsTableEnsured = true;
   }
 
@@ -369,6 +568,202 @@ export class PostgresStorageClient implements StorageClient {
     this.datasetVersionsTableEnsured = true;
   }
 
+  private async ensureMetricWindowTable() {
+    if (this.metricWindowTableEnsured) return;
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS metric_window_records (
+        id UUID PRIMARY KEY,
+        query_id UUID NOT NULL,
+        engine TEXT,
+        metric_type TEXT NOT NULL,
+        step TEXT NOT NULL,
+        window_days INTEGER NOT NULL,
+        window_start TIMESTAMPTZ NOT NULL,
+        window_end TIMESTAMPTZ NOT NULL,
+        run_count INTEGER NOT NULL,
+        value DOUBLE PRECISION NOT NULL,
+        moving_average DOUBLE PRECISION NOT NULL,
+        delta DOUBLE PRECISION,
+        extra JSONB,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    this.metricWindowTableEnsured = true;
+  }
+
+  private async ensureCitationsTable() {
+    if (this.citationsTableEnsured) return;
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS citations (
+        id UUID PRIMARY KEY,
+        query_id UUID NOT NULL,
+        crawl_run_id UUID,
+        engine TEXT NOT NULL,
+        citation_index INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        normalized_url TEXT NOT NULL,
+        domain TEXT NOT NULL,
+        registrable_domain TEXT,
+        sentences JSONB NOT NULL DEFAULT '[]'::jsonb,
+        collected_at TIMESTAMPTZ NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await this.pool.query(`ALTER TABLE citations ADD COLUMN IF NOT EXISTS registrable_domain TEXT`);
+    this.citationsTableEnsured = true;
+  }
+
+  private async ensureSerpFeaturesTable() {
+    if (this.serpFeaturesTableEnsured) return;
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS serp_features (
+        id UUID PRIMARY KEY,
+        query_id UUID NOT NULL,
+        crawl_run_id UUID,
+        engine TEXT NOT NULL,
+        feature_type TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        title TEXT,
+        urls JSONB NOT NULL DEFAULT '[]'::jsonb,
+        collected_at TIMESTAMPTZ NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    this.serpFeaturesTableEnsured = true;
+  }
+
+  private async ensureSelectorHealthTable() {
+    if (this.selectorHealthTableEnsured) return;
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS selector_health (
+        engine TEXT NOT NULL,
+        selector_group TEXT NOT NULL,
+        selector TEXT NOT NULL,
+        bucket_date TIMESTAMPTZ NOT NULL,
+        success_count INTEGER NOT NULL DEFAULT 0,
+        fail_count INTEGER NOT NULL DEFAULT 0,
+        last_success_at TIMESTAMPTZ,
+        last_failure_at TIMESTAMPTZ,
+        config_version TEXT,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (engine, selector_group, selector, bucket_date)
+      )
+    `);
+    this.selectorHealthTableEnsured = true;
+  }
+
+  private async ensureRobotsDecisionsTable() {
+    if (this.robotsDecisionsTableEnsured) return;
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS robots_decisions (
+        id UUID PRIMARY KEY,
+        crawl_run_id UUID,
+        engine TEXT NOT NULL,
+        url TEXT NOT NULL,
+        user_agent TEXT NOT NULL,
+        allowed BOOLEAN NOT NULL,
+        robots_status TEXT NOT NULL,
+        matched_agent TEXT,
+        matched_rule TEXT,
+        crawl_delay_ms INTEGER,
+        decided_at TIMESTAMPTZ NOT NULL
+      )
+    `);
+    this.robotsDecisionsTableEnsured = true;
+  }
+
+  private async ensureWorkItemsTable() {
+    if (this.workItemsTableEnsured) return;
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS collection_work_items (
+        id UUID PRIMARY KEY,
+        run_id TEXT NOT NULL,
+        crawl_run_id UUID NOT NULL,
+        query_id UUID NOT NULL,
+        engine TEXT NOT NULL,
+        vantage_id TEXT,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        result_count INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        started_at TIMESTAMPTZ,
+        completed_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL
+      )
+    `);
+    this.workItemsTableEnsured = true;
+  }
+
+  private async ensureCircuitBreakersTable() {
+    if (this.circuitBreakersTableEnsured) return;
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS engine_circuit_breakers (
+        engine TEXT NOT NULL,
+        proxy TEXT NOT NULL DEFAULT '',
+        state TEXT NOT NULL,
+        failure_count INTEGER NOT NULL DEFAULT 0,
+        consecutive_opens INTEGER NOT NULL DEFAULT 0,
+        last_reason TEXT,
+        last_error TEXT,
+        opened_at TIMESTAMPTZ,
+        retry_at TIMESTAMPTZ,
+        updated_at TIMESTAMPTZ NOT NULL,
+        PRIMARY KEY (engine, proxy)
+      )
+    `);
+    this.circuitBreakersTableEnsured = true;
+  }
+
+  private async ensureMetricGroupTable() {
+    if (this.metricGroupTableEnsured) return;
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS metric_group_records (
+        id UUID PRIMARY KEY,
+        group_by TEXT NOT NULL,
+        group_key TEXT NOT NULL,
+        engine TEXT,
+        metric_type TEXT NOT NULL,
+        run_date TIMESTAMPTZ NOT NULL,
+        value DOUBLE PRECISION NOT NULL,
+        delta DOUBLE PRECISION,
+        query_count INTEGER NOT NULL,
+        total_weight DOUBLE PRECISION NOT NULL,
+        extra JSONB,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    this.metricGroupTableEnsured = true;
+  }
+
+  private async ensureMetricAnomalyTable() {
+    if (this.metricAnomalyTableEnsured) return;
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS metric_anomalies (
+        id UUID PRIMARY KEY,
+        crawl_run_id UUID NOT NULL,
+        query_id UUID NOT NULL,
+        engine TEXT,
+        metric_type TEXT NOT NULL,
+        value DOUBLE PRECISION NOT NULL,
+        baseline DOUBLE PRECISION NOT NULL,
+        scale DOUBLE PRECISION NOT NULL,
+        score DOUBLE PRECISION NOT NULL,
+        lower_bound DOUBLE PRECISION NOT NULL,
+        upper_bound DOUBLE PRECISION NOT NULL,
+        direction TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        history_count INTEGER NOT NULL,
+        collected_at TIMESTAMPTZ NOT NULL,
+        extra JSONB,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    this.metricAnomalyTableEnsured = true;
+  }
+
   private async ensureViewpointsTable() {
     if (this.viewpointsTableEnsured) return;
     await this.pool.query(`
@@ -487,6 +882,15 @@ export class PostgresStorageClient implements StorageClient {
       raw_html_path: string;
       created_at: Date;
       updated_at: Date;
+      source: string | null;
+      extraction_confidence: number | null;
+      extraction_warnings: string | null;
+      metadata: string | null;
+      registrable_domain: string | null;
+      parser_version: string | null;
+      visibility_weight: number | null;
+      vantage_id: string | null;
+      page: number | null;
     }>(
       `
         SELECT
@@ -504,7 +908,16 @@ export class PostgresStorageClient implements StorageClient {
           sr.hash,
           sr.raw_html_path,
           sr.created_at,
-          sr.updated_at
+          sr.updated_at,
+          sr.source,
+          sr.extraction_confidence,
+          sr.extraction_warnings::text,
+          sr.metadata::text,
+          sr.registrable_domain,
+          sr.parser_version,
+          sr.visibility_weight,
+          sr.vantage_id,
+          sr.page
         FROM search_results sr
         LEFT JOIN annotations ann ON ann.search_result_id = sr.id
         WHERE ann.id IS NULL
@@ -531,7 +944,16 @@ export class PostgresStorageClient implements StorageClient {
         hash: row.hash,
         rawHtmlPath: row.raw_html_path,
         createdAt: row.created_at,
-        updatedAt: row.updated_at
+        updatedAt: row.updated_at,
+        source: row.source,
+        extractionConfidence: row.extraction_confidence,
+        extractionWarnings: row.extraction_warnings,
+        metadata: row.metadata,
+        registrableDomain: row.registrable_domain,
+        parserVersion: row.parser_version,
+        visibilityWeight: row.visibility_weight,
+        vantageId: row.vantage_id,
+        page: row.page
       })
     );
   }
@@ -606,7 +1028,7 @@ export class PostgresStorageClient implements StorageClient {
 
     console.info(`[Storage] insertSearchResults called with ${records.length} records`);
 
-    // Deduplicate by (query_id, engine, url) to prevent ON CONFLICT errors
+    // Deduplicate by the unique key to prevent ON CONFLICT errors
     const deduped = deduplicateSearchResults(records);
     
     console.info(
@@ -634,7 +1056,16 @@ export class PostgresStorageClient implements StorageClient {
       "hash",
       "raw_html_path",
       "created_at",
-      "updated_at"
+      "updated_at",
+      "source",
+      "extraction_confidence",
+      "extraction_warnings",
+      "metadata",
+      "registrable_domain",
+      "parser_version",
+      "visibility_weight",
+      "vantage_id",
+      "page"
     ];
 
     const params: unknown[] = [];
@@ -658,7 +1089,16 @@ export class PostgresStorageClient implements StorageClient {
         record.hash,
         record.rawHtmlPath,
         record.createdAt.toISOString(),
-        record.updatedAt.toISOString()
+        record.updatedAt.toISOString(),
+        record.source ?? null,
+        record.extractionConfidence ?? null,
+        record.extractionWarnings ?? null,
+        record.metadata ?? null,
+        record.registrableDomain ?? null,
+        record.parserVersion ?? null,
+        record.visibilityWeight ?? null,
+        record.vantageId ?? null,
+        record.page ?? null
       );
     });
 
@@ -670,7 +1110,7 @@ export class PostgresStorageClient implements StorageClient {
           INSERT INTO search_results (
             ${columns.join(", ")}
           ) VALUES ${placeholders.join(", ")}
-          ON CONFLICT (query_id, engine, url)
+          ON CONFLICT (query_id, engine, url, vantage_id, crawl_run_id)
           DO UPDATE SET
             id = EXCLUDED.id,
           crawl_run_id = EXCLUDED.crawl_run_id,
@@ -682,7 +1122,15 @@ export class PostgresStorageClient implements StorageClient {
           timestamp = EXCLUDED.timestamp,
           hash = EXCLUDED.hash,
           raw_html_path = EXCLUDED.raw_html_path,
-          updated_at = EXCLUDED.updated_at
+          updated_at = EXCLUDED.updated_at,
+          source = EXCLUDED.source,
+          extraction_confidence = EXCLUDED.extraction_confidence,
+          extraction_warnings = EXCLUDED.extraction_warnings,
+          metadata = EXCLUDED.metadata,
+          registrable_domain = EXCLUDED.registrable_domain,
+          parser_version = EXCLUDED.parser_version,
+          visibility_weight = EXCLUDED.visibility_weight,
+          page = EXCLUDED.page
         `,
         params
       );
@@ -693,6 +1141,70 @@ export class PostgresStorageClient implements StorageClient {
     }
   }
 
+  async fetchSearchResultUrls(options: FetchSearchResultUrlsOptions): Promise<SearchResultUrlRecord[]> {
+    await this.ensureSearchResultsTable();
+
+    const params: unknown[] = [];
+    let whereClause = "";
+    if (options.afterId) {
+      params.push(options.afterId);
+      whereClause = `WHERE id > $${params.length}`;
+    }
+    const limitClause = options.limit ? `LIMIT ${options.limit}` : "";
+
+    const { rows } = await this.pool.query<{
+      id: string;
+      engine: string;
+      url: string;
+      normalized_url: string;
+      domain: string;
+      registrable_domain: string | null;
+    }>(
+      `
+        SELECT id::text, engine, url, normalized_url, domain, registrable_domain
+        FROM search_results
+        ${whereClause}
+        ORDER BY id ASC
+        ${limitClause}
+      `,
+      params
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      engine: row.engine,
+      url: row.url,
+      normalizedUrl: row.normalized_url,
+      domain: row.domain,
+      registrableDomain: row.registrable_domain
+    }));
+  }
+
+  async updateSearchResultUrls(updates: SearchResultUrlUpdate[]): Promise<void> {
+    if (!updates.length) return;
+    await this.ensureSearchResultsTable();
+
+    const params: unknown[] = [];
+    const placeholders = updates.map((update, index) => {
+      const offset = index * 4;
+      params.push(update.id, update.normalizedUrl, update.domain, update.registrableDomain);
+      return `($${offset + 1}::uuid, $${offset + 2}, $${offset + 3}, $${offset + 4})`;
+    });
+
+    await this.pool.query(
+      `
+        UPDATE search_results AS sr
+        SET
+          normalized_url = v.normalized_url,
+          domain = v.domain,
+          registrable_domain = v.registrable_domain
+        FROM (VALUES ${placeholders.join(", ")}) AS v(id, normalized_url, domain, registrable_domain)
+        WHERE sr.id = v.id
+      `,
+      params
+    );
+  }
+
   async recordCrawlRuns(records: CrawlRunRecordInput[]): Promise<void> {
     if (!records.length) return;
     await this.ensureCrawlRunsTable();
@@ -721,7 +1233,8 @@ export class PostgresStorageClient implements StorageClient {
       "error",
       "result_count",
       "created_at",
-      "updated_at"
+      "updated_at",
+      "vantage_id"
     ];
 
     const params: unknown[] = [];
@@ -741,7 +1254,8 @@ export class PostgresStorageClient implements StorageClient {
         record.error,
         record.resultCount,
         record.createdAt.toISOString(),
-        record.updatedAt.toISOString()
+        record.updatedAt.toISOString(),
+        record.vantageId ?? null
       );
     });
 
@@ -761,13 +1275,16 @@ export class PostgresStorageClient implements StorageClient {
           error = EXCLUDED.error,
           result_count = EXCLUDED.result_count,
           created_at = EXCLUDED.created_at,
-          updated_at = EXCLUDED.updated_at
+          updated_at = EXCLUDED.updated_at,
+          vantage_id = EXCLUDED.vantage_id
       `,
       params
     );
   }
 
   async fetchAnnotatedResults(options: FetchAnnotatedResultsOptions): Promise<AnnotatedResultView[]> {
+    await this.ensureSearchResultsTable();
+
     const conditions: string[] = [];
     const params: unknown[] = [];
 
@@ -803,6 +1320,21 @@ export class PostgresStorageClient implements StorageClient {
       );
     }
 
+    if (options.sources && options.sources.length) {
+      const placeholders = options.sources
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`sr.source IN (${placeholders})`);
+    }
+
+    if (options.minExtractionConfidence !== undefined) {
+      params.push(options.minExtractionConfidence);
+      conditions.push(`(sr.extraction_confidence IS NULL OR sr.extraction_confidence >= $${params.length})`);
+    }
+
     const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
 
     const { rows } = await this.pool.query<{
@@ -817,6 +1349,11 @@ export class PostgresStorageClient implements StorageClient {
       factual_consistency: string;
       domain_type: string;
       collected_at: Date;
+      source: string | null;
+      extraction_confidence: number | null;
+      registrable_domain: string | null;
+      visibility_weight: number | null;
+      vantage_id: string | null;
     }>(
       `
         SELECT
@@ -830,7 +1367,12 @@ export class PostgresStorageClient implements StorageClient {
           sr.rank,
           ann.factual_consistency,
           ann.domain_type,
-          sr.timestamp AS collected_at
+          sr.timestamp AS collected_at,
+          sr.source,
+          sr.extraction_confidence,
+          sr.registrable_domain,
+          sr.visibility_weight,
+          sr.vantage_id
         FROM annotations ann
         JOIN search_results sr ON sr.id = ann.search_result_id
         LEFT JOIN crawl_runs cr ON cr.id = sr.crawl_run_id
@@ -852,7 +1394,12 @@ export class PostgresStorageClient implements StorageClient {
         rank: row.rank,
         factualConsistency: row.factual_consistency,
         domainType: row.domain_type,
-        collectedAt: row.collected_at
+        collectedAt: row.collected_at,
+        source: row.source,
+        extractionConfidence: row.extraction_confidence,
+        registrableDomain: row.registrable_domain,
+        visibilityWeight: row.visibility_weight,
+        vantageId: row.vantage_id
       })
     );
   }
@@ -994,9 +1541,26 @@ export class PostgresStorageClient implements StorageClient {
 
   async fetchRecentMetricRecords(
     metricType: MetricRecordInput["metricType"],
-    limit: number
+    limit: number | null,
+    options: FetchRecentMetricRecordsOptions = {}
   ): Promise<MetricRecordInput[]> {
     await this.ensureMetricTable();
+    const conditions = ["metric_type = $1"];
+    const params: unknown[] = [metricType];
+    if (options.engine === null) {
+      conditions.push("engine IS NULL");
+    } else if (options.engine !== undefined) {
+      params.push(options.engine);
+      conditions.push(`engine = $${params.length}`);
+    }
+    if (options.since) {
+      params.push(options.since);
+      conditions.push(`collected_at >= $${params.length}`);
+    }
+    if (limit !== null) {
+      params.push(limit);
+    }
+
     const { rows } = await this.pool.query<{
       id: string;
       crawl_run_id: string | null;
@@ -1013,11 +1577,11 @@ export class PostgresStorageClient implements StorageClient {
       `
         SELECT *
         FROM metric_records
-        WHERE metric_type = $1
+        WHERE ${conditions.join(" AND ")}
         ORDER BY collected_at DESC
-        LIMIT $2
+        ${limit !== null ? `LIMIT $${params.length}` : ""}
       `,
-      [metricType, limit]
+      params
     );
 
     return rows.map((row) => ({
@@ -1035,390 +1599,1424 @@ export class PostgresStorageClient implements StorageClient {
     }));
   }
 
-  async exportDataset(options: DatasetExportOptions): Promise<DatasetExportResult> {
-    await this.ensureDatasetVersionsTable();
+  async upsertMetricWindowRecords(records: MetricWindowRecordInput[]): Promise<void> {
+    if (!records.length) return;
+    await this.ensureMetricWindowTable();
 
-    const format = options.format ?? DatasetFormatEnum.enum.parquet;
-    if (!DatasetFormatEnum.options.includes(format)) {
-      throw new Error(`Unsupported dataset format for Postgres export: ${format}`);
-    }
+    const placeholders: string[] = [];
+    const params: unknown[] = [];
 
-    await fs.mkdir(options.outputDir, { recursive: true });
+    records.forEach((record, index) => {
+      const offset = index * METRIC_WINDOW_COLUMNS.length;
+      placeholders.push(
+        `(${METRIC_WINDOW_COLUMNS.map((_, columnIndex) => `$${offset + columnIndex + 1}`).join(", ")})`
+      );
 
-    const filters = (options.filters ?? {}) as NonNullable<DatasetExportOptions["filters"]>;
-    const params: unknown[] = [];
+      params.push(
+        record.id,
+        record.queryId,
+        record.engine,
+        record.metricType,
+        record.step,
+        record.windowDays,
+        record.windowStart.toISOString(),
+        record.windowEnd.toISOString(),
+        record.runCount,
+        record.value,
+        record.movingAverage,
+        record.delta,
+        record.extra ?? {},
+        record.createdAt.toISOString()
+      );
+    });
 
-    const buildWhereClause = (
-      alias: string,
-      timestampColumn: string,
-      allowNullEngine = false
-    ): string => {
-      const conditions: string[] = [];
+    await this.pool.query(
+      `
+        INSERT INTO metric_window_records (
+          ${METRIC_WINDOW_COLUMNS.join(",")}
+        ) VALUES ${placeholders.join(", ")}
+        ON CONFLICT (id)
+        DO UPDATE SET
+          window_start = EXCLUDED.window_start,
+          run_count = EXCLUDED.run_count,
+          value = EXCLUDED.value,
+          moving_average = EXCLUDED.moving_average,
+          delta = EXCLUDED.delta,
+          extra = EXCLUDED.extra,
+          created_at = EXCLUDED.created_at
+      `,
+      params
+    );
+  }
 
-      if (filters.queryIds && filters.queryIds.length) {
-        const placeholders = filters.queryIds.map(() => `$${params.length + 1}`).join(", ");
-        params.push(...filters.queryIds);
-        conditions.push(`${alias}.query_id IN (${placeholders})`);
-      }
+  async fetchMetricWindowRecords(options: FetchMetricWindowRecordsOptions): Promise<MetricWindowRecordInput[]> {
+    await this.ensureMetricWindowTable();
 
-      if (filters.engines && filters.engines.length) {
-        const column = allowNullEngine ? `COALESCE(${alias}.engine, '')` : `${alias}.engine`;
-        const placeholders = filters.engines.map(() => `$${params.length + 1}`).join(", ");
-        params.push(...filters.engines);
-        conditions.push(`${column} IN (${placeholders})`);
-      }
+    const conditions: string[] = [];
+    const params: unknown[] = [];
 
-      if (filters.since) {
-        params.push(filters.since.toISOString());
-        conditions.push(`${alias}.${timestampColumn} >= $${params.length}`);
-      }
+    if (options.metricType) {
+      params.push(options.metricType);
+      conditions.push(`metric_type = $${params.length}`);
+    }
 
-      if (filters.until) {
-        params.push(filters.until.toISOString());
-        conditions.push(`${alias}.${timestampColumn} <= $${params.length}`);
-      }
+    if (options.step) {
+      params.push(options.step);
+      conditions.push(`step = $${params.length}`);
+    }
 
-      return conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
-    };
+    if (options.queryIds && options.queryIds.length) {
+      const placeholders = options.queryIds
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`query_id IN (${placeholders})`);
+    }
 
-    let query = "";
-    let summaryQuery = "";
-    let whereClause = "";
+    if (options.engine === null) {
+      conditions.push("engine IS NULL");
+    } else if (options.engine !== undefined) {
+      params.push(options.engine);
+      conditions.push(`engine = $${params.length}`);
+    }
 
-    switch (options.datasetType) {
-      case DatasetTypeEnum.enum.search_results: {
-        await this.ensureSearchResultsTable();
-        whereClause = buildWhereClause("sr", "timestamp");
-        query = `
-          SELECT
-            sr.id,
-            sr.crawl_run_id,
-            sr.query_id,
-            sr.engine,
-            sr.rank,
-            sr.title,
-            sr.snippet,
-            sr.url,
-            sr.normalized_url,
-            sr.domain,
-            sr.timestamp,
-            sr.hash,
-            sr.raw_html_path,
-            sr.created_at,
-            sr.updated_at
-          FROM search_results sr
-          ${whereClause}
-          ORDER BY sr.timestamp ASC, sr.query_id ASC, sr.engine ASC, sr.rank ASC
-        `;
-        summaryQuery = `
-          SELECT
-            COUNT(*) AS count,
-            COUNT(DISTINCT sr.query_id) AS distinct_queries,
-            COUNT(DISTINCT sr.engine) AS distinct_engines,
-            MIN(sr.timestamp) AS min_ts,
-            MAX(sr.timestamp) AS max_ts
-          FROM search_results sr
-          ${whereClause}
-        `;
-        break;
-      }
-      case DatasetTypeEnum.enum.annotated_results: {
-        await this.ensureAnnotationTable();
-        await this.ensureSearchResultsTable();
-        whereClause = buildWhereClause("sr", "timestamp");
-        query = `
-          SELECT
-            ann.id AS annotation_id,
-            sr.id AS search_result_id,
-            sr.query_id,
-            sr.engine,
-            sr.rank,
-            sr.title,
-            sr.snippet,
-            sr.url,
-            sr.normalized_url,
-            sr.domain,
-            sr.timestamp,
-            sr.hash,
-            sr.raw_html_path,
-            ann.domain_type,
-            ann.factual_consistency,
-            ann.confidence,
-            ann.prompt_version,
-            ann.model_id,
-            ann.extra,
-            sr.crawl_run_id,
-            sr.created_at,
-            sr.updated_at,
-            ann.created_at AS annotated_at
-          FROM annotations ann
-          JOIN search_results sr ON sr.id = ann.search_result_id
-          ${whereClause}
-          ORDER BY sr.timestamp ASC, sr.query_id ASC, sr.engine ASC, sr.rank ASC
-        `;
-        summaryQuery = `
-          SELECT
-            COUNT(*) AS count,
-            COUNT(DISTINCT sr.query_id) AS distinct_queries,
-            COUNT(DISTINCT sr.engine) AS distinct_engines,
-            MIN(sr.timestamp) AS min_ts,
-            MAX(sr.timestamp) AS max_ts
-          FROM annotations ann
-          JOIN search_results sr ON sr.id = ann.search_result_id
-          ${whereClause}
-        `;
-        break;
-      }
-      case DatasetTypeEnum.enum.metrics: {
-        await this.ensureMetricTable();
-        whereClause = buildWhereClause("mr", "collected_at", true);
-        query = `
-          SELECT
-            mr.id,
-            mr.crawl_run_id,
-            mr.query_id,
-            mr.engine,
-            mr.metric_type,
-            mr.value,
-            mr.delta,
-            mr.compared_to_run_id,
-            mr.collected_at,
-            mr.extra,
-            mr.created_at
-          FROM metric_records mr
-          ${whereClause}
-          ORDER BY mr.collected_at ASC
-        `;
-        summaryQuery = `
-          SELECT
-            COUNT(*) AS count,
-            COUNT(DISTINCT mr.query_id) AS distinct_queries,
-            COUNT(DISTINCT COALESCE(mr.engine, '')) AS distinct_engines,
-            MIN(mr.collected_at) AS min_ts,
-            MAX(mr.collected_at) AS max_ts
-          FROM metric_records mr
-          ${whereClause}
-        `;
-        break;
-      }
-      default:
-        throw new Error(`Unsupported dataset type for Postgres export: ${options.datasetType}`);
+    if (options.since) {
+      params.push(options.since.toISOString());
+      conditions.push(`window_end >= $${params.length}`);
     }
 
-    const queryParams = [...params];
-    const queryResult = await this.pool.query<Record<string, unknown>>(query, queryParams);
-    const normalizedRows = queryResult.rows.map((row) => normalizeRow(row));
-    const fieldDefs = queryResult.fields ?? [];
+    const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    let limitClause = "";
+    if (options.limit) {
+      params.push(options.limit);
+      limitClause = `LIMIT $${params.length}`;
+    }
 
-    const summaryParams = [...params];
-    const { rows: summaryRows } = await this.pool.query<{
-      count: string | number;
-      distinct_queries: string | number | null;
-      distinct_engines: string | number | null;
-      min_ts: Date | null;
-      max_ts: Date | null;
-    }>(summaryQuery, summaryParams);
+    const { rows } = await this.pool.query<{
+      id: string;
+      query_id: string;
+      engine: string | null;
+      metric_type: string;
+      step: string;
+      window_days: number;
+      window_start: Date;
+      window_end: Date;
+      run_count: number;
+      value: number;
+      moving_average: number;
+      delta: number | null;
+      extra: Record<string, unknown> | null;
+      created_at: Date;
+    }>(
+      `
+        SELECT *
+        FROM metric_window_records
+        ${whereClause}
+        ORDER BY window_end DESC
+        ${limitClause}
+      `,
+      params
+    );
 
-    const summary = summaryRows[0] ?? {
-      count: 0,
-      distinct_queries: 0,
-      distinct_engines: 0,
-      min_ts: null,
-      max_ts: null
-    };
+    return rows.map((row) => ({
+      id: row.id,
+      queryId: row.query_id,
+      engine: row.engine,
+      metricType: row.metric_type as MetricWindowRecordInput["metricType"],
+      step: row.step as MetricWindowRecordInput["step"],
+      windowDays: row.window_days,
+      windowStart: row.window_start,
+      windowEnd: row.window_end,
+      runCount: row.run_count,
+      value: row.value,
+      movingAverage: row.moving_average,
+      delta: row.delta,
+      extra: row.extra ?? undefined,
+      createdAt: row.created_at
+    }));
+  }
 
-    const recordCount = Number(summary.count ?? 0);
-    const distinctQueries = Number(summary.distinct_queries ?? 0);
-    const distinctEngines = Number(summary.distinct_engines ?? 0);
-    const minTimestamp = summary.min_ts ? new Date(summary.min_ts) : null;
-    const maxTimestamp = summary.max_ts ? new Date(summary.max_ts) : null;
+  async upsertMetricGroupRecords(records: MetricGroupRecordInput[]): Promise<void> {
+    if (!records.length) return;
+    await this.ensureMetricGroupTable();
 
-    const timestamp = new Date();
-    const slug = buildTimestampSlug(timestamp);
-    const extension =
-      format === DatasetFormatEnum.enum.json ? "jsonl" : format === DatasetFormatEnum.enum.csv ? "csv" : "parquet";
-    const fileName = `${options.datasetType}-${slug}.${extension}`;
-    const filePath = path.join(options.outputDir, fileName);
+    const placeholders: string[] = [];
+    const params: unknown[] = [];
 
-    switch (format) {
-      case DatasetFormatEnum.enum.parquet: {
-        await writeParquetFromRows(normalizedRows, fieldDefs, filePath);
-        break;
+    records.forEach((record, index) => {
+      const offset = index * METRIC_GROUP_COLUMNS.length;
+      placeholders.push(
+        `(${METRIC_GROUP_COLUMNS.map((_, columnIndex) => `$${offset + columnIndex + 1}`).join(", ")})`
+      );
+
+      params.push(
+        record.id,
+        record.groupBy,
+        record.groupKey,
+        record.engine,
+        record.metricType,
+        record.runDate.toISOString(),
+        record.value,
+        record.delta,
+        record.queryCount,
+        record.totalWeight,
+        record.extra ?? {},
+        record.createdAt.toISOString()
+      );
+    });
+
+    await this.pool.query(
+      `
+        INSERT INTO metric_group_records (
+          ${METRIC_GROUP_COLUMNS.join(",")}
+        ) VALUES ${placeholders.join(", ")}
+        ON CONFLICT (id)
+        DO UPDATE SET
+          value = EXCLUDED.value,
+          delta = EXCLUDED.delta,
+          query_count = EXCLUDED.query_count,
+          total_weight = EXCLUDED.total_weight,
+          extra = EXCLUDED.extra,
+          created_at = EXCLUDED.created_at
+      `,
+      params
+    );
+  }
+
+  async fetchMetricGroupRecords(options: FetchMetricGroupRecordsOptions): Promise<MetricGroupRecordInput[]> {
+    await this.ensureMetricGroupTable();
+
+    const params: unknown[] = [options.groupBy];
+    const conditions: string[] = ["group_by = $1"];
+
+    if (options.groupKeys && options.groupKeys.length) {
+      const placeholders = options.groupKeys
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`group_key IN (${placeholders})`);
+    }
+
+    if (options.metricType) {
+      params.push(options.metricType);
+      conditions.push(`metric_type = $${params.length}`);
+    }
+
+    if (options.engine === null) {
+      conditions.push("engine IS NULL");
+    } else if (options.engine !== undefined) {
+      params.push(options.engine);
+      conditions.push(`engine = $${params.length}`);
+    }
+
+    if (options.since) {
+      params.push(options.since.toISOString());
+      conditions.push(`run_date >= $${params.length}`);
+    }
+
+    let limitClause = "";
+    if (options.limit) {
+      params.push(options.limit);
+      limitClause = `LIMIT $${params.length}`;
+    }
+
+    const { rows } = await this.pool.query<{
+      id: string;
+      group_by: string;
+      group_key: string;
+      engine: string | null;
+      metric_type: string;
+      run_date: Date;
+      value: number;
+      delta: number | null;
+      query_count: number;
+      total_weight: number;
+      extra: Record<string, unknown> | null;
+      created_at: Date;
+    }>(
+      `
+        SELECT *
+        FROM metric_group_records
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY run_date DESC
+        ${limitClause}
+      `,
+      params
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      groupBy: row.group_by as MetricGroupRecordInput["groupBy"],
+      groupKey: row.group_key,
+      engine: row.engine,
+      metricType: row.metric_type as MetricGroupRecordInput["metricType"],
+      runDate: row.run_date,
+      value: row.value,
+      delta: row.delta,
+      queryCount: row.query_count,
+      totalWeight: row.total_weight,
+      extra: row.extra ?? undefined,
+      createdAt: row.created_at
+    }));
+  }
+
+  async upsertMetricAnomalies(records: MetricAnomalyRecordInput[]): Promise<void> {
+    if (!records.length) return;
+    await this.ensureMetricAnomalyTable();
+
+    const placeholders: string[] = [];
+    const params: unknown[] = [];
+
+    records.forEach((record, index) => {
+      const offset = index * METRIC_ANOMALY_COLUMNS.length;
+      placeholders.push(
+        `(${METRIC_ANOMALY_COLUMNS.map((_, columnIndex) => `$${offset + columnIndex + 1}`).join(", ")})`
+      );
+
+      params.push(
+        record.id,
+        record.crawlRunId,
+        record.queryId,
+        record.engine,
+        record.metricType,
+        record.value,
+        record.baseline,
+        record.scale,
+        record.score,
+        record.lowerBound,
+        record.upperBound,
+        record.direction,
+        record.severity,
+        record.historyCount,
+        record.collectedAt.toISOString(),
+        record.extra ?? {},
+        record.createdAt.toISOString()
+      );
+    });
+
+    await this.pool.query(
+      `
+        INSERT INTO metric_anomalies (
+          ${METRIC_ANOMALY_COLUMNS.join(",")}
+        ) VALUES ${placeholders.join(", ")}
+        ON CONFLICT (id)
+        DO UPDATE SET
+          value = EXCLUDED.value,
+          baseline = EXCLUDED.baseline,
+          scale = EXCLUDED.scale,
+          score = EXCLUDED.score,
+          lower_bound = EXCLUDED.lower_bound,
+          upper_bound = EXCLUDED.upper_bound,
+          direction = EXCLUDED.direction,
+          severity = EXCLUDED.severity,
+          history_count = EXCLUDED.history_count,
+          extra = EXCLUDED.extra,
+          created_at = EXCLUDED.created_at
+      `,
+      params
+    );
+  }
+
+  async fetchMetricAnomalies(options: FetchMetricAnomaliesOptions): Promise<MetricAnomalyRecordInput[]> {
+    await this.ensureMetricAnomalyTable();
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.queryIds && options.queryIds.length) {
+      const placeholders = options.queryIds
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`query_id IN (${placeholders})`);
+    }
+
+    if (options.engine === null) {
+      conditions.push("engine IS NULL");
+    } else if (options.engine !== undefined) {
+      params.push(options.engine);
+      conditions.push(`engine = $${params.length}`);
+    }
+
+    if (options.metricType) {
+      params.push(options.metricType);
+      conditions.push(`metric_type = $${params.length}`);
+    }
+
+    if (options.severity) {
+      params.push(options.severity);
+      conditions.push(`severity = $${params.length}`);
+    }
+
+    if (options.since) {
+      params.push(options.since.toISOString());
+      conditions.push(`collected_at >= $${params.length}`);
+    }
+
+    const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    let limitClause = "";
+    if (options.limit) {
+      params.push(options.limit);
+      limitClause = `LIMIT $${params.length}`;
+    }
+
+    const { rows } = await this.pool.query<{
+      id: string;
+      crawl_run_id: string;
+      query_id: string;
+      engine: string | null;
+      metric_type: string;
+      value: number;
+      baseline: number;
+      scale: number;
+      score: number;
+      lower_bound: number;
+      upper_bound: number;
+      direction: string;
+      severity: string;
+      history_count: number;
+      collected_at: Date;
+      extra: Record<string, unknown> | null;
+      created_at: Date;
+    }>(
+      `
+        SELECT *
+        FROM metric_anomalies
+        ${whereClause}
+        ORDER BY collected_at DESC
+        ${limitClause}
+      `,
+      params
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      crawlRunId: row.crawl_run_id,
+      queryId: row.query_id,
+      engine: row.engine,
+      metricType: row.metric_type as MetricAnomalyRecordInput["metricType"],
+      value: row.value,
+      baseline: row.baseline,
+      scale: row.scale,
+      score: row.score,
+      lowerBound: row.lower_bound,
+      upperBound: row.upper_bound,
+      direction: row.direction as MetricAnomalyRecordInput["direction"],
+      severity: row.severity as MetricAnomalyRecordInput["severity"],
+      historyCount: row.history_count,
+      collectedAt: row.collected_at,
+      extra: row.extra ?? undefined,
+      createdAt: row.created_at
+    }));
+  }
+
+  async exportDataset(options: DatasetExportOptions): Promise<DatasetExportResult> {
+    await this.ensureDatasetVersionsTable();
+
+    const format = options.format ?? DatasetFormatEnum.enum.parquet;
+    if (!DatasetFormatEnum.options.includes(format)) {
+      throw new Error(`Unsupported dataset format for Postgres export: ${format}`);
+    }
+
+    await fs.mkdir(options.outputDir, { recursive: true });
+
+    const filters = (options.filters ?? {}) as NonNullable<DatasetExportOptions["filters"]>;
+    const params: unknown[] = [];
+
+    const buildWhereClause = (
+      alias: string,
+      timestampColumn: string,
+      allowNullEngine = false
+    ): string => {
+      const conditions: string[] = [];
+
+      if (filters.queryIds && filters.queryIds.length) {
+        const placeholders = filters.queryIds.map(() => `$${params.length + 1}`).join(", ");
+        params.push(...filters.queryIds);
+        conditions.push(`${alias}.query_id IN (${placeholders})`);
       }
-      case DatasetFormatEnum.enum.csv: {
-        const headers = fieldDefs.map((field) => field.name);
-        const effectiveHeaders = headers.length
-          ? headers
-          : normalizedRows.length
-            ? Object.keys(normalizedRows[0])
-            : [];
-        const lines: string[] = [];
-        if (effectiveHeaders.length) {
-          lines.push(effectiveHeaders.join(","));
-          for (const row of normalizedRows) {
-            const values = effectiveHeaders.map((header) =>
-              formatCsvValue((row as Record<string, unknown>)[header])
-            );
-            lines.push(values.join(","));
-          }
-        }
-        await fs.writeFile(filePath, lines.length ? `${lines.join("\n")}\n` : "");
-        break;
+
+      if (filters.engines && filters.engines.length) {
+        const column = allowNullEngine ? `COALESCE(${alias}.engine, '')` : `${alias}.engine`;
+        const placeholders = filters.engines.map(() => `$${params.length + 1}`).join(", ");
+        params.push(...filters.engines);
+        conditions.push(`${column} IN (${placeholders})`);
       }
-      case DatasetFormatEnum.enum.json: {
-        const jsonLines = normalizedRows.map((row) => JSON.stringify(row)).join("\n");
-        await fs.writeFile(filePath, jsonLines ? `${jsonLines}\n` : "");
-        break;
+
+      if (filters.since) {
+        params.push(filters.since.toISOString());
+        conditions.push(`${alias}.${timestampColumn} >= $${params.length}`);
       }
-      default:
-        throw new Error(`Unsupported dataset format for Postgres export: ${format}`);
-    }
 
-    const metadata = {
-      datasetType: options.datasetType,
-      filters: {
-        ...filters,
-        since: filters.since ? filters.since.toISOString() : undefined,
-        until: filters.until ? filters.until.toISOString() : undefined
-      },
-      runId: options.runId ?? null,
-      distinctQueries,
-      distinctEngines,
-      timeRange: {
-        from: minTimestamp ? minTimestamp.toISOString() : null,
-        to: maxTimestamp ? maxTimestamp.toISOString() : null
-      },
-      generatedAt: timestamp.toISOString()
-    } as const;
+      if (filters.until) {
+        params.push(filters.until.toISOString());
+        conditions.push(`${alias}.${timestampColumn} <= $${params.length}`);
+      }
+
+      return conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    };
+
+    let query = "";
+    let summaryQuery = "";
+    let whereClause = "";
+
+    switch (options.datasetType) {
+      case DatasetTypeEnum.enum.search_results: {
+        await this.ensureSearchResultsTable();
+        whereClause = buildWhereClause("sr", "timestamp");
+        query = `
+          SELECT
+            sr.id,
+            sr.crawl_run_id,
+            sr.query_id,
+            sr.engine,
+            sr.rank,
+            sr.title,
+            sr.snippet,
+            sr.url,
+            sr.normalized_url,
+            sr.domain,
+            sr.timestamp,
+            sr.hash,
+            sr.raw_html_path,
+            sr.created_at,
+            sr.updated_at
+          FROM search_results sr
+          ${whereClause}
+          ORDER BY sr.timestamp ASC, sr.query_id ASC, sr.engine ASC, sr.rank ASC
+        `;
+        summaryQuery = `
+          SELECT
+            COUNT(*) AS count,
+            COUNT(DISTINCT sr.query_id) AS distinct_queries,
+            COUNT(DISTINCT sr.engine) AS distinct_engines,
+            MIN(sr.timestamp) AS min_ts,
+            MAX(sr.timestamp) AS max_ts
+          FROM search_results sr
+          ${whereClause}
+        `;
+        break;
+      }
+      case DatasetTypeEnum.enum.annotated_results: {
+        await this.ensureAnnotationTable();
+        await this.ensureSearchResultsTable();
+        whereClause = buildWhereClause("sr", "timestamp");
+        query = `
+          SELECT
+            ann.id AS annotation_id,
+            sr.id AS search_result_id,
+            sr.query_id,
+            sr.engine,
+            sr.rank,
+            sr.title,
+            sr.snippet,
+            sr.url,
+            sr.normalized_url,
+            sr.domain,
+            sr.timestamp,
+            sr.hash,
+            sr.raw_html_path,
+            ann.domain_type,
+            ann.factual_consistency,
+            ann.confidence,
+            ann.prompt_version,
+            ann.model_id,
+            ann.extra,
+            sr.crawl_run_id,
+            sr.created_at,
+            sr.updated_at,
+            ann.created_at AS annotated_at
+          FROM annotations ann
+          JOIN search_results sr ON sr.id = ann.search_result_id
+          ${whereClause}
+          ORDER BY sr.timestamp ASC, sr.query_id ASC, sr.engine ASC, sr.rank ASC
+        `;
+        summaryQuery = `
+          SELECT
+            COUNT(*) AS count,
+            COUNT(DISTINCT sr.query_id) AS distinct_queries,
+            COUNT(DISTINCT sr.engine) AS distinct_engines,
+            MIN(sr.timestamp) AS min_ts,
+            MAX(sr.timestamp) AS max_ts
+          FROM annotations ann
+          JOIN search_results sr ON sr.id = ann.search_result_id
+          ${whereClause}
+        `;
+        break;
+      }
+      case DatasetTypeEnum.enum.metrics: {
+        await this.ensureMetricTable();
+        whereClause = buildWhereClause("mr", "collected_at", true);
+        query = `
+          SELECT
+            mr.id,
+            mr.crawl_run_id,
+            mr.query_id,
+            mr.engine,
+            mr.metric_type,
+            mr.value,
+            mr.delta,
+            mr.compared_to_run_id,
+            mr.collected_at,
+            mr.extra,
+            mr.created_at
+          FROM metric_records mr
+          ${whereClause}
+          ORDER BY mr.collected_at ASC
+        `;
+        summaryQuery = `
+          SELECT
+            COUNT(*) AS count,
+            COUNT(DISTINCT mr.query_id) AS distinct_queries,
+            COUNT(DISTINCT COALESCE(mr.engine, '')) AS distinct_engines,
+            MIN(mr.collected_at) AS min_ts,
+            MAX(mr.collected_at) AS max_ts
+          FROM metric_records mr
+          ${whereClause}
+        `;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported dataset type for Postgres export: ${options.datasetType}`);
+    }
+
+    const queryParams = [...params];
+    const queryResult = await this.pool.query<Record<string, unknown>>(query, queryParams);
+    const normalizedRows = queryResult.rows.map((row) => normalizeRow(row));
+    const fieldDefs = queryResult.fields ?? [];
+
+    const summaryParams = [...params];
+    const { rows: summaryRows } = await this.pool.query<{
+      count: string | number;
+      distinct_queries: string | number | null;
+      distinct_engines: string | number | null;
+      min_ts: Date | null;
+      max_ts: Date | null;
+    }>(summaryQuery, summaryParams);
+
+    const summary = summaryRows[0] ?? {
+      count: 0,
+      distinct_queries: 0,
+      distinct_engines: 0,
+      min_ts: null,
+      max_ts: null
+    };
+
+    const recordCount = Number(summary.count ?? 0);
+    const distinctQueries = Number(summary.distinct_queries ?? 0);
+    const distinctEngines = Number(summary.distinct_engines ?? 0);
+    const minTimestamp = summary.min_ts ? new Date(summary.min_ts) : null;
+    const maxTimestamp = summary.max_ts ? new Date(summary.max_ts) : null;
+
+    const timestamp = new Date();
+    const slug = buildTimestampSlug(timestamp);
+    const extension =
+      format === DatasetFormatEnum.enum.json ? "jsonl" : format === DatasetFormatEnum.enum.csv ? "csv" : "parquet";
+    const fileName = `${options.datasetType}-${slug}.${extension}`;
+    const filePath = path.join(options.outputDir, fileName);
+
+    switch (format) {
+      case DatasetFormatEnum.enum.parquet: {
+        await writeParquetFromRows(normalizedRows, fieldDefs, filePath);
+        break;
+      }
+      case DatasetFormatEnum.enum.csv: {
+        const headers = fieldDefs.map((field) => field.name);
+        const effectiveHeaders = headers.length
+          ? headers
+          : normalizedRows.length
+            ? Object.keys(normalizedRows[0])
+            : [];
+        const lines: string[] = [];
+        if (effectiveHeaders.length) {
+          lines.push(effectiveHeaders.join(","));
+          for (const row of normalizedRows) {
+            const values = effectiveHeaders.map((header) =>
+              formatCsvValue((row as Record<string, unknown>)[header])
+            );
+            lines.push(values.join(","));
+          }
+        }
+        await fs.writeFile(filePath, lines.length ? `${lines.join("\n")}\n` : "");
+        break;
+      }
+      case DatasetFormatEnum.enum.json: {
+        const jsonLines = normalizedRows.map((row) => JSON.stringify(row)).join("\n");
+        await fs.writeFile(filePath, jsonLines ? `${jsonLines}\n` : "");
+        break;
+      }
+      default:
+        throw new Error(`Unsupported dataset format for Postgres export: ${format}`);
+    }
+
+    const metadata = {
+      datasetType: options.datasetType,
+      filters: {
+        ...filters,
+        since: filters.since ? filters.since.toISOString() : undefined,
+        until: filters.until ? filters.until.toISOString() : undefined
+      },
+      runId: options.runId ?? null,
+      distinctQueries,
+      distinctEngines,
+      timeRange: {
+        from: minTimestamp ? minTimestamp.toISOString() : null,
+        to: maxTimestamp ? maxTimestamp.toISOString() : null
+      },
+      generatedAt: timestamp.toISOString()
+    } as const;
+
+    const versionId = randomUUID();
+
+    await this.pool.query(
+      `
+        INSERT INTO dataset_versions (
+          id,
+          dataset_type,
+          format,
+          path,
+          run_id,
+          record_count,
+          metadata,
+          created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `,
+      [
+        versionId,
+        options.datasetType,
+        format,
+        filePath,
+        options.runId ?? null,
+        recordCount,
+        metadata,
+        timestamp.toISOString()
+      ]
+    );
+
+    const version = DatasetVersionSchema.parse({
+      id: versionId,
+      datasetType: options.datasetType,
+      format,
+      path: filePath,
+      runId: options.runId ?? null,
+      recordCount,
+      metadata,
+      createdAt: timestamp
+    });
+
+    return {
+      version,
+      filePath
+    };
+  }
+
+  async upsertAnnotationAggregates(records: AnnotationAggregateRecordInput[]): Promise<void> {
+    if (!records.length) return;
+    await this.ensureAnnotationAggregateTable();
+
+    const placeholders: string[] = [];
+    const params: unknown[] = [];
+    const columns = [
+      "id",
+      "run_id",
+      "query_id",
+      "engine",
+      "domain_type",
+      "factual_consistency",
+      "count",
+      "total_annotations",
+      "collected_at",
+      "extra",
+      "created_at"
+    ];
+
+    records.forEach((record, index) => {
+      const offset = index * columns.length;
+      placeholders.push(`(${columns.map((_, columnIndex) => `$${offset + columnIndex + 1}`).join(", ")})`);
+      params.push(
+        record.id,
+        record.runId,
+        record.queryId,
+        record.engine,
+        record.domainType,
+        record.factualConsistency,
+        record.count,
+        record.totalAnnotations,
+        record.collectedAt.toISOString(),
+        record.extra ?? {},
+        record.createdAt.toISOString()
+      );
+    });
+
+    await this.pool.query(
+      `
+        INSERT INTO annotation_aggregates (
+          ${columns.join(",")}
+        ) VALUES ${placeholders.join(", ")}
+        ON CONFLICT (id)
+        DO UPDATE SET
+          run_id = EXCLUDED.run_id,
+          query_id = EXCLUDED.query_id,
+          engine = EXCLUDED.engine,
+          domain_type = EXCLUDED.domain_type,
+          factual_consistency = EXCLUDED.factual_consistency,
+          count = EXCLUDED.count,
+          total_annotations = EXCLUDED.total_annotations,
+          collected_at = EXCLUDED.collected_at,
+          extra = EXCLUDED.extra,
+          created_at = EXCLUDED.created_at
+      `,
+      params
+    );
+  }
+
+  async fetchAnnotationAggregates(options: FetchAnnotationAggregateOptions): Promise<AnnotationAggregateRecord[]> {
+    await this.ensureAnnotationAggregateTable();
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.runIds && options.runIds.length) {
+      const placeholders = options.runIds
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`run_id IN (${placeholders})`);
+    }
+
+    if (options.queryIds && options.queryIds.length) {
+      const placeholders = options.queryIds
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`query_id IN (${placeholders})`);
+    }
+
+    if (options.engines && options.engines.length) {
+      const placeholders = options.engines
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`COALESCE(engine, '') IN (${placeholders})`);
+    }
+
+    if (options.domainTypes && options.domainTypes.length) {
+      const placeholders = options.domainTypes
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`domain_type IN (${placeholders})`);
+    }
+
+    const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const { rows } = await this.pool.query<{
+      id: string;
+      run_id: string;
+      query_id: string;
+      engine: string | null;
+      domain_type: string;
+      factual_consistency: string;
+      count: number;
+      total_annotations: number;
+      collected_at: Date;
+      extra: Record<string, unknown> | null;
+      created_at: Date;
+    }>(
+      `
+        SELECT *
+        FROM annotation_aggregates
+        ${whereClause}
+      `,
+      params
+    );
+
+    return rows.map((row) =>
+      AnnotationAggregateRecordSchema.parse({
+        id: row.id,
+        runId: row.run_id,
+        queryId: row.query_id,
+        engine: row.engine,
+        domainType: row.domain_type,
+        factualConsistency: row.factual_consistency,
+        count: row.count,
+        totalAnnotations: row.total_annotations,
+        collectedAt: row.collected_at,
+        extra: row.extra ?? undefined,
+        createdAt: row.created_at
+      })
+    );
+  }
+
+  async recordAuditSamples(samples: AuditSampleRecordInput[]): Promise<void> {
+    if (!samples.length) return;
+    await this.ensureAuditSamplesTable();
+
+    const params: unknown[] = [];
+    const placeholders: string[] = [];
+
+    samples.forEach((sample, index) => {
+      const offset = index * AUDIT_SAMPLE_COLUMNS.length;
+      placeholders.push(
+        `(${AUDIT_SAMPLE_COLUMNS.map((_, columnIndex) => `$${offset + columnIndex + 1}`).join(", ")})`
+      );
+      params.push(
+        sample.id,
+        sample.runId,
+        sample.annotationId,
+        sample.queryId,
+        sample.engine,
+        sample.reviewer,
+        sample.status,
+        sample.notes,
+        sample.createdAt.toISOString(),
+        sample.updatedAt.toISOString()
+      );
+    });
+
+    await this.pool.query(
+      `
+        INSERT INTO audit_samples (
+          ${AUDIT_SAMPLE_COLUMNS.join(",")}
+        ) VALUES ${placeholders.join(", ")}
+        ON CONFLICT (id)
+        DO UPDATE SET
+          run_id = EXCLUDED.run_id,
+          annotation_id = EXCLUDED.annotation_id,
+          query_id = EXCLUDED.query_id,
+          engine = EXCLUDED.engine,
+          reviewer = EXCLUDED.reviewer,
+          status = EXCLUDED.status,
+          notes = EXCLUDED.notes,
+          created_at = EXCLUDED.created_at,
+          updated_at = EXCLUDED.updated_at
+      `,
+      params
+    );
+  }
+
+  async fetchAuditSamples(runId: string): Promise<AuditSampleRecordInput[]> {
+    await this.ensureAuditSamplesTable();
+    const { rows } = await this.pool.query<{
+      id: string;
+      run_id: string;
+      annotation_id: string;
+      query_id: string;
+      engine: string;
+      reviewer: string | null;
+      status: string;
+      notes: string | null;
+      created_at: Date;
+      updated_at: Date;
+    }>(
+      `
+        SELECT *
+        FROM audit_samples
+        WHERE run_id = $1
+        ORDER BY created_at ASC
+      `,
+      [runId]
+    );
+
+    return rows.map((row) => {
+      const parsed = AuditSampleSchema.parse({
+        id: row.id,
+        runId: row.run_id,
+        annotationId: row.annotation_id,
+        queryId: row.query_id,
+        engine: row.engine,
+        reviewer: row.reviewer,
+        status: row.status,
+        notes: row.notes,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+      });
+
+      return {
+        id: parsed.id,
+        runId: parsed.runId,
+        annotationId: parsed.annotationId,
+        queryId: parsed.queryId,
+        engine: parsed.engine,
+        reviewer: parsed.reviewer,
+        status: parsed.status,
+        notes: parsed.notes,
+        createdAt: parsed.createdAt,
+        updatedAt: parsed.updatedAt
+      } satisfies AuditSampleRecordInput;
+    });
+  }
+
+  async recordPipelineRun(input: PipelineRunRecordInput): Promise<void> {
+    await this.ensurePipelineTables();
+    await this.pool.query(
+      `
+        INSERT INTO pipeline_runs (
+          id,
+          status,
+          started_at,
+          completed_at,
+          error,
+          metadata,
+          created_at,
+          updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (id)
+        DO UPDATE SET
+          status = EXCLUDED.status,
+          started_at = EXCLUDED.started_at,
+          completed_at = EXCLUDED.completed_at,
+          error = EXCLUDED.error,
+          metadata = EXCLUDED.metadata,
+          created_at = EXCLUDED.created_at,
+          updated_at = EXCLUDED.updated_at
+      `,
+      [
+        input.id,
+        input.status,
+        input.startedAt.toISOString(),
+        input.completedAt ? input.completedAt.toISOString() : null,
+        input.error,
+        input.metadata ?? {},
+        input.createdAt.toISOString(),
+        input.updatedAt.toISOString()
+      ]
+    );
+  }
+
+  async recordPipelineStage(input: PipelineStageLogInput): Promise<void> {
+    await this.ensurePipelineTables();
+    await this.pool.query(
+      `
+        INSERT INTO pipeline_stage_logs (
+          id,
+          run_id,
+          stage,
+          status,
+          attempts,
+          started_at,
+          completed_at,
+          error,
+          metadata,
+          created_at,
+          updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        ON CONFLICT (id)
+        DO UPDATE SET
+          run_id = EXCLUDED.run_id,
+          stage = EXCLUDED.stage,
+          status = EXCLUDED.status,
+          attempts = EXCLUDED.attempts,
+          started_at = EXCLUDED.started_at,
+          completed_at = EXCLUDED.completed_at,
+          error = EXCLUDED.error,
+          metadata = EXCLUDED.metadata,
+          created_at = EXCLUDED.created_at,
+          updated_at = EXCLUDED.updated_at
+      `,
+      [
+        input.id,
+        input.runId,
+        input.stage,
+        input.status,
+        input.attempts,
+        input.startedAt.toISOString(),
+        input.completedAt ? input.completedAt.toISOString() : null,
+        input.error,
+        input.metadata ?? {},
+        input.createdAt.toISOString(),
+        input.updatedAt.toISOString()
+      ]
+    );
+  }
+
+  async fetchPipelineRuns(options: FetchPipelineRunOptions = {}): Promise<PipelineRun[]> {
+    await this.ensurePipelineTables();
+    const limit = options.limit ?? 50;
+    const { rows } = await this.pool.query<{
+      id: string;
+      status: string;
+      started_at: Date;
+      completed_at: Date | null;
+      error: string | null;
+      metadata: Record<string, unknown> | null;
+      created_at: Date;
+      updated_at: Date;
+    }>(
+      `
+        SELECT *
+        FROM pipeline_runs
+        ORDER BY started_at DESC
+        LIMIT $1
+      `,
+      [limit]
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      status: row.status as PipelineRun["status"],
+      startedAt: row.started_at,
+      completedAt: row.completed_at,
+      error: row.error,
+      metadata: row.metadata ?? {},
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  async fetchPipelineStages(runId: string): Promise<PipelineStageLog[]> {
+    await this.ensurePipelineTables();
+    const { rows } = await this.pool.query<{
+      id: string;
+      run_id: string;
+      stage: string;
+      status: string;
+      attempts: number;
+      started_at: Date;
+      completed_at: Date | null;
+      error: string | null;
+      metadata: Record<string, unknown> | null;
+      created_at: Date;
+      updated_at: Date;
+    }>(
+      `
+        SELECT *
+        FROM pipeline_stage_logs
+        WHERE run_id = $1
+        ORDER BY started_at ASC
+      `,
+      [runId]
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      runId: row.run_id,
+      stage: row.stage as PipelineStageLog["stage"],
+      status: row.status as PipelineRun["status"],
+      attempts: row.attempts,
+      startedAt: row.started_at,
+      completedAt: row.completed_at,
+      error: row.error,
+      metadata: row.metadata ?? {},
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  }
 
-    const versionId = randomUUID();
+  async upsertViewpoints(records: import("./types").ViewpointRecordInput[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.ensureViewpointsTable();
+
+    const values = records.map((r) => [
+      r.id,
+      r.queryId,
+      r.crawlRunId,
+      r.engine,
+      r.numResults,
+      r.summary ?? null,
+      r.citationsCount,
+      r.overlapHash ?? null,
+      r.collectedAt.toISOString(),
+      r.createdAt.toISOString(),
+      r.updatedAt.toISOString()
+    ]);
+
+    const placeholders = values
+      .map((_, i) => {
+        const base = i * 11;
+        return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9}, $${base + 10}, $${base + 11})`;
+      })
+      .join(", ");
+
+    const flatValues = values.flat();
 
     await this.pool.query(
       `
-        INSERT INTO dataset_versions (
-          id,
-          dataset_type,
-          format,
-          path,
-          run_id,
-          record_count,
-          metadata,
-          created_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        INSERT INTO viewpoints (
+          id, query_id, crawl_run_id, engine, num_results, summary,
+          citations_count, overlap_hash, collected_at, created_at, updated_at
+        )
+        VALUES ${placeholders}
+        ON CONFLICT (query_id, crawl_run_id, engine)
+        DO UPDATE SET
+          num_results = EXCLUDED.num_results,
+          summary = EXCLUDED.summary,
+          citations_count = EXCLUDED.citations_count,
+          overlap_hash = EXCLUDED.overlap_hash,
+          collected_at = EXCLUDED.collected_at,
+          updated_at = EXCLUDED.updated_at
       `,
-      [
-        versionId,
-        options.datasetType,
-        format,
-        filePath,
-        options.runId ?? null,
-        recordCount,
-        metadata,
-        timestamp.toISOString()
-      ]
+      flatValues
     );
+  }
 
-    const version = DatasetVersionSchema.parse({
-      id: versionId,
-      datasetType: options.datasetType,
-      format,
-      path: filePath,
-      runId: options.runId ?? null,
-      recordCount,
-      metadata,
-      createdAt: timestamp
+  async fetchViewpointsByQuery(options: import("./types").FetchViewpointsByQueryOptions): Promise<import("./types").ViewpointRecordInput[]> {
+    await this.ensureViewpointsTable();
+
+    const conditions: string[] = ["query_id = $1"];
+    const params: any[] = [options.queryId];
+
+    if (options.runId) {
+      conditions.push("crawl_run_id = $2");
+      params.push(options.runId);
+    }
+
+    if (options.engines && options.engines.length > 0) {
+      const enginePlaceholders = options.engines.map((_, i) => `$${params.length + i + 1}`).join(", ");
+      conditions.push(`engine IN (${enginePlaceholders})`);
+      params.push(...options.engines);
+    }
+
+    const { rows } = await this.pool.query<{
+      id: string;
+      query_id: string;
+      crawl_run_id: string | null;
+      engine: string;
+      num_results: number;
+      summary: string | null;
+      citations_count: number;
+      overlap_hash: string | null;
+      collected_at: Date;
+      created_at: Date;
+      updated_at: Date;
+    }>(
+      `
+        SELECT *
+        FROM viewpoints
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY engine, collected_at DESC
+      `,
+      params
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      queryId: row.query_id,
+      crawlRunId: row.crawl_run_id,
+      engine: row.engine,
+      numResults: row.num_results,
+      summary: row.summary,
+      citationsCount: row.citations_count,
+      overlapHash: row.overlap_hash,
+      collectedAt: row.collected_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  async upsertCitations(records: CitationRecordInput[]): Promise<void> {
+    if (!records.length) return;
+    await this.ensureCitationsTable();
+
+    const placeholders: string[] = [];
+    const params: unknown[] = [];
+
+    records.forEach((record, index) => {
+      const offset = index * CITATION_COLUMNS.length;
+      placeholders.push(`(${CITATION_COLUMNS.map((_, columnIndex) => `$${offset + columnIndex + 1}`).join(", ")})`);
+
+      params.push(
+        record.id,
+        record.queryId,
+        record.crawlRunId,
+        record.engine,
+        record.citationIndex,
+        record.url,
+        record.normalizedUrl,
+        record.domain,
+        record.registrableDomain ?? null,
+        JSON.stringify(record.sentences),
+        record.collectedAt.toISOString(),
+        record.createdAt.toISOString(),
+        record.updatedAt.toISOString()
+      );
     });
 
-    return {
-      version,
-      filePath
-    };
+    await this.pool.query(
+      `
+        INSERT INTO citations (
+          ${CITATION_COLUMNS.join(",")}
+        ) VALUES ${placeholders.join(", ")}
+        ON CONFLICT (id)
+        DO UPDATE SET
+          url = EXCLUDED.url,
+          normalized_url = EXCLUDED.normalized_url,
+          domain = EXCLUDED.domain,
+          registrable_domain = EXCLUDED.registrable_domain,
+          sentences = EXCLUDED.sentences,
+          collected_at = EXCLUDED.collected_at,
+          updated_at = EXCLUDED.updated_at
+      `,
+      params
+    );
+  }
+
+  async fetchCitations(options: FetchCitationsOptions): Promise<CitationRecordInput[]> {
+    await this.ensureCitationsTable();
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.queryIds && options.queryIds.length) {
+      const placeholders = options.queryIds
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`query_id IN (${placeholders})`);
+    }
+
+    if (options.runIds && options.runIds.length) {
+      const placeholders = options.runIds
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`crawl_run_id IN (${placeholders})`);
+    }
+
+    if (options.engines && options.engines.length) {
+      const placeholders = options.engines
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`engine IN (${placeholders})`);
+    }
+
+    if (options.since) {
+      params.push(options.since.toISOString());
+      conditions.push(`collected_at >= $${params.length}`);
+    }
+
+    const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const { rows } = await this.pool.query<{
+      id: string;
+      query_id: string;
+      crawl_run_id: string | null;
+      engine: string;
+      citation_index: number;
+      url: string;
+      normalized_url: string;
+      domain: string;
+      registrable_domain: string | null;
+      sentences: string[] | null;
+      collected_at: Date;
+      created_at: Date;
+      updated_at: Date;
+    }>(
+      `
+        SELECT *
+        FROM citations
+        ${whereClause}
+        ORDER BY collected_at DESC, citation_index ASC
+      `,
+      params
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      queryId: row.query_id,
+      crawlRunId: row.crawl_run_id,
+      engine: row.engine,
+      citationIndex: row.citation_index,
+      url: row.url,
+      normalizedUrl: row.normalized_url,
+      domain: row.domain,
+      registrableDomain: row.registrable_domain,
+      sentences: row.sentences ?? [],
+      collectedAt: row.collected_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
   }
 
-  async upsertAnnotationAggregates(records: AnnotationAggregateRecordInput[]): Promise<void> {
+  async upsertSerpFeatures(records: SerpFeatureRecordInput[]): Promise<void> {
     if (!records.length) return;
-    await this.ensureAnnotationAggregateTable();
+    await this.ensureSerpFeaturesTable();
 
     const placeholders: string[] = [];
     const params: unknown[] = [];
-    const columns = [
-      "id",
-      "run_id",
-      "query_id",
-      "engine",
-      "domain_type",
-      "factual_consistency",
-      "count",
-      "total_annotations",
-      "collected_at",
-      "extra",
-      "created_at"
-    ];
 
     records.forEach((record, index) => {
-      const offset = index * columns.length;
-      placeholders.push(`(${columns.map((_, columnIndex) => `$${offset + columnIndex + 1}`).join(", ")})`);
+      const offset = index * SERP_FEATURE_COLUMNS.length;
+      placeholders.push(`(${SERP_FEATURE_COLUMNS.map((_, columnIndex) => `$${offset + columnIndex + 1}`).join(", ")})`);
+
       params.push(
         record.id,
-        record.runId,
         record.queryId,
+        record.crawlRunId,
         record.engine,
-        record.domainType,
-        record.factualConsistency,
-        record.count,
-        record.totalAnnotations,
+        record.featureType,
+        record.position,
+        record.title ?? null,
+        JSON.stringify(record.urls),
         record.collectedAt.toISOString(),
-        record.extra ?? {},
-        record.createdAt.toISOString()
+        record.createdAt.toISOString(),
+        record.updatedAt.toISOString()
       );
     });
 
     await this.pool.query(
       `
-        INSERT INTO annotation_aggregates (
-          ${columns.join(",")}
+        INSERT INTO serp_features (
+          ${SERP_FEATURE_COLUMNS.join(",")}
         ) VALUES ${placeholders.join(", ")}
         ON CONFLICT (id)
         DO UPDATE SET
-          run_id = EXCLUDED.run_id,
-          query_id = EXCLUDED.query_id,
-          engine = EXCLUDED.engine,
-          domain_type = EXCLUDED.domain_type,
-          factual_consistency = EXCLUDED.factual_consistency,
-          count = EXCLUDED.count,
-          total_annotations = EXCLUDED.total_annotations,
+          feature_type = EXCLUDED.feature_type,
+          position = EXCLUDED.position,
+          title = EXCLUDED.title,
+          urls = EXCLUDED.urls,
           collected_at = EXCLUDED.collected_at,
-          extra = EXCLUDED.extra,
-          created_at = EXCLUDED.created_at
+          updated_at = EXCLUDED.updated_at
       `,
       params
     );
   }
 
-  async fetchAnnotationAggregates(options: FetchAnnotationAggregateOptions): Promise<AnnotationAggregateRecord[]> {
-    await this.ensureAnnotationAggregateTable();
+  async fetchSerpFeatures(options: FetchSerpFeaturesOptions): Promise<SerpFeatureRecordInput[]> {
+    await this.ensureSerpFeaturesTable();
 
     const conditions: string[] = [];
     const params: unknown[] = [];
 
-    if (options.runIds && options.runIds.length) {
-      const placeholders = options.runIds
+    if (options.queryIds && options.queryIds.length) {
+      const placeholders = options.queryIds
         .map((value) => {
           params.push(value);
           return `$${params.length}`;
         })
         .join(", ");
-      conditions.push(`run_id IN (${placeholders})`);
+      conditions.push(`query_id IN (${placeholders})`);
     }
 
-    if (options.queryIds && options.queryIds.length) {
-      const placeholders = options.queryIds
+    if (options.runIds && options.runIds.length) {
+      const placeholders = options.runIds
         .map((value) => {
           params.push(value);
           return `$${params.length}`;
         })
         .join(", ");
-      conditions.push(`query_id IN (${placeholders})`);
+      conditions.push(`crawl_run_id IN (${placeholders})`);
     }
 
     if (options.engines && options.engines.length) {
@@ -1428,411 +3026,465 @@ export class PostgresStorageClient implements StorageClient {
           return `$${params.length}`;
         })
         .join(", ");
-      conditions.push(`COALESCE(engine, '') IN (${placeholders})`);
+      conditions.push(`engine IN (${placeholders})`);
     }
 
-    if (options.domainTypes && options.domainTypes.length) {
-      const placeholders = options.domainTypes
-        .map((value) => {
-          params.push(value);
-          return `$${params.length}`;
-        })
-        .join(", ");
-      conditions.push(`domain_type IN (${placeholders})`);
+    if (options.since) {
+      params.push(options.since.toISOString());
+      conditions.push(`collected_at >= $${params.length}`);
     }
 
     const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
 
     const { rows } = await this.pool.query<{
       id: string;
-      run_id: string;
       query_id: string;
-      engine: string | null;
-      domain_type: string;
-      factual_consistency: string;
-      count: number;
-      total_annotations: number;
+      crawl_run_id: string | null;
+      engine: string;
+      feature_type: string;
+      position: number;
+      title: string | null;
+      urls: string[] | null;
       collected_at: Date;
-      extra: Record<string, unknown> | null;
       created_at: Date;
+      updated_at: Date;
     }>(
       `
         SELECT *
-        FROM annotation_aggregates
+        FROM serp_features
         ${whereClause}
+        ORDER BY collected_at DESC, position ASC
       `,
       params
     );
 
-    return rows.map((row) =>
-      AnnotationAggregateRecordSchema.parse({
-        id: row.id,
-        runId: row.run_id,
-        queryId: row.query_id,
-        engine: row.engine,
-        domainType: row.domain_type,
-        factualConsistency: row.factual_consistency,
-        count: row.count,
-        totalAnnotations: row.total_annotations,
-        collectedAt: row.collected_at,
-        extra: row.extra ?? undefined,
-        createdAt: row.created_at
-      })
-    );
+    return rows.map((row) => ({
+      id: row.id,
+      queryId: row.query_id,
+      crawlRunId: row.crawl_run_id,
+      engine: row.engine,
+      featureType: row.feature_type,
+      position: row.position,
+      title: row.title,
+      urls: row.urls ?? [],
+      collectedAt: row.collected_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
   }
 
-  async recordAuditSamples(samples: AuditSampleRecordInput[]): Promise<void> {
-    if (!samples.length) return;
-    await this.ensureAuditSamplesTable();
+  async recordSelectorHealth(records: SelectorHealthRecordInput[]): Promise<void> {
+    if (!records.length) return;
+    await this.ensureSelectorHealthTable();
 
-    const params: unknown[] = [];
     const placeholders: string[] = [];
+    const params: unknown[] = [];
 
-    samples.forEach((sample, index) => {
-      const offset = index * AUDIT_SAMPLE_COLUMNS.length;
+    records.forEach((record, index) => {
+      const offset = index * SELECTOR_HEALTH_COLUMNS.length;
       placeholders.push(
-        `(${AUDIT_SAMPLE_COLUMNS.map((_, columnIndex) => `$${offset + columnIndex + 1}`).join(", ")})`
+        `(${SELECTOR_HEALTH_COLUMNS.map((_, columnIndex) => `$${offset + columnIndex + 1}`).join(", ")})`
       );
+
       params.push(
-        sample.id,
-        sample.runId,
-        sample.annotationId,
-        sample.queryId,
-        sample.engine,
-        sample.reviewer,
-        sample.status,
-        sample.notes,
-        sample.createdAt.toISOString(),
-        sample.updatedAt.toISOString()
+        record.engine,
+        record.selectorGroup,
+        record.selector,
+        record.bucketDate.toISOString(),
+        record.successCount,
+        record.failCount,
+        record.lastSuccessAt ? record.lastSuccessAt.toISOString() : null,
+        record.lastFailureAt ? record.lastFailureAt.toISOString() : null,
+        record.configVersion,
+        record.updatedAt.toISOString()
       );
     });
 
     await this.pool.query(
       `
-        INSERT INTO audit_samples (
-          ${AUDIT_SAMPLE_COLUMNS.join(",")}
+        INSERT INTO selector_health (
+          ${SELECTOR_HEALTH_COLUMNS.join(",")}
         ) VALUES ${placeholders.join(", ")}
-        ON CONFLICT (id)
+        ON CONFLICT (engine, selector_group, selector, bucket_date)
         DO UPDATE SET
-          run_id = EXCLUDED.run_id,
-          annotation_id = EXCLUDED.annotation_id,
-          query_id = EXCLUDED.query_id,
-          engine = EXCLUDED.engine,
-          reviewer = EXCLUDED.reviewer,
-          status = EXCLUDED.status,
-          notes = EXCLUDED.notes,
-          created_at = EXCLUDED.created_at,
+          success_count = selector_health.success_count + EXCLUDED.success_count,
+          fail_count = selector_health.fail_count + EXCLUDED.fail_count,
+          last_success_at = COALESCE(EXCLUDED.last_success_at, selector_health.last_success_at),
+          last_failure_at = COALESCE(EXCLUDED.last_failure_at, selector_health.last_failure_at),
+          config_version = EXCLUDED.config_version,
           updated_at = EXCLUDED.updated_at
       `,
       params
     );
   }
 
-  async fetchAuditSamples(runId: string): Promise<AuditSampleRecordInput[]> {
-    await this.ensureAuditSamplesTable();
+  async fetchSelectorHealth(options: FetchSelectorHealthOptions): Promise<SelectorHealthRecordInput[]> {
+    await this.ensureSelectorHealthTable();
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.engines && options.engines.length) {
+      const placeholders = options.engines
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`engine IN (${placeholders})`);
+    }
+
+    if (options.since) {
+      params.push(options.since.toISOString());
+      conditions.push(`bucket_date >= $${params.length}`);
+    }
+
+    const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
     const { rows } = await this.pool.query<{
-      id: string;
-      run_id: string;
-      annotation_id: string;
-      query_id: string;
       engine: string;
-      reviewer: string | null;
-      status: string;
-      notes: string | null;
-      created_at: Date;
+      selector_group: string;
+      selector: string;
+      bucket_date: Date;
+      success_count: number;
+      fail_count: number;
+      last_success_at: Date | null;
+      last_failure_at: Date | null;
+      config_version: string | null;
       updated_at: Date;
     }>(
       `
         SELECT *
-        FROM audit_samples
-        WHERE run_id = $1
-        ORDER BY created_at ASC
+        FROM selector_health
+        ${whereClause}
+        ORDER BY bucket_date DESC, engine ASC, selector_group ASC, selector ASC
       `,
-      [runId]
+      params
     );
 
-    return rows.map((row) => {
-      const parsed = AuditSampleSchema.parse({
-        id: row.id,
-        runId: row.run_id,
-        annotationId: row.annotation_id,
-        queryId: row.query_id,
-        engine: row.engine,
-        reviewer: row.reviewer,
-        status: row.status,
-        notes: row.notes,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at
-      });
+    return rows.map((row) => ({
+      engine: row.engine,
+      selectorGroup: row.selector_group,
+      selector: row.selector,
+      bucketDate: row.bucket_date,
+      successCount: row.success_count,
+      failCount: row.fail_count,
+      lastSuccessAt: row.last_success_at,
+      lastFailureAt: row.last_failure_at,
+      configVersion: row.config_version,
+      updatedAt: row.updated_at
+    }));
+  }
 
-      return {
-        id: parsed.id,
-        runId: parsed.runId,
-        annotationId: parsed.annotationId,
-        queryId: parsed.queryId,
-        engine: parsed.engine,
-        reviewer: parsed.reviewer,
-        status: parsed.status,
-        notes: parsed.notes,
-        createdAt: parsed.createdAt,
-        updatedAt: parsed.updatedAt
-      } satisfies AuditSampleRecordInput;
+  async recordRobotsDecisions(records: RobotsDecisionRecordInput[]): Promise<void> {
+    if (!records.length) return;
+    await this.ensureRobotsDecisionsTable();
+
+    const placeholders: string[] = [];
+    const params: unknown[] = [];
+
+    records.forEach((record, index) => {
+      const offset = index * ROBOTS_DECISION_COLUMNS.length;
+      placeholders.push(
+        `(${ROBOTS_DECISION_COLUMNS.map((_, columnIndex) => `$${offset + columnIndex + 1}`).join(", ")})`
+      );
+
+      params.push(
+        record.id,
+        record.crawlRunId,
+        record.engine,
+        record.url,
+        record.userAgent,
+        record.allowed,
+        record.robotsStatus,
+        record.matchedAgent,
+        record.matchedRule,
+        record.crawlDelayMs,
+        record.decidedAt.toISOString()
+      );
     });
-  }
 
-  async recordPipelineRun(input: PipelineRunRecordInput): Promise<void> {
-    await this.ensurePipelineTables();
     await this.pool.query(
       `
-        INSERT INTO pipeline_runs (
-          id,
-          status,
-          started_at,
-          completed_at,
-          error,
-          metadata,
-          created_at,
-          updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-        ON CONFLICT (id)
-        DO UPDATE SET
-          status = EXCLUDED.status,
-          started_at = EXCLUDED.started_at,
-          completed_at = EXCLUDED.completed_at,
-          error = EXCLUDED.error,
-          metadata = EXCLUDED.metadata,
-          created_at = EXCLUDED.created_at,
-          updated_at = EXCLUDED.updated_at
+        INSERT INTO robots_decisions (
+          ${ROBOTS_DECISION_COLUMNS.join(",")}
+        ) VALUES ${placeholders.join(", ")}
+        ON CONFLICT (id) DO NOTHING
+      `,
+      params
+    );
+  }
+
+  async fetchRobotsDecisions(options: FetchRobotsDecisionsOptions): Promise<RobotsDecisionRecordInput[]> {
+    await this.ensureRobotsDecisionsTable();
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.runIds && options.runIds.length) {
+      const placeholders = options.runIds
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`crawl_run_id IN (${placeholders})`);
+    }
+
+    if (options.engines && options.engines.length) {
+      const placeholders = options.engines
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`engine IN (${placeholders})`);
+    }
+
+    if (options.since) {
+      params.push(options.since.toISOString());
+      conditions.push(`decided_at >= $${params.length}`);
+    }
+
+    const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const { rows } = await this.pool.query<{
+      id: string;
+      crawl_run_id: string | null;
+      engine: string;
+      url: string;
+      user_agent: string;
+      allowed: boolean;
+      robots_status: string;
+      matched_agent: string | null;
+      matched_rule: string | null;
+      crawl_delay_ms: number | null;
+      decided_at: Date;
+    }>(
+      `
+        SELECT *
+        FROM robots_decisions
+        ${whereClause}
+        ORDER BY decided_at DESC, engine ASC
       `,
-      [
-        input.id,
-        input.status,
-        input.startedAt.toISOString(),
-        input.completedAt ? input.completedAt.toISOString() : null,
-        input.error,
-        input.metadata ?? {},
-        input.createdAt.toISOString(),
-        input.updatedAt.toISOString()
-      ]
+      params
     );
+
+    return rows.map((row) => ({
+      id: row.id,
+      crawlRunId: row.crawl_run_id,
+      engine: row.engine,
+      url: row.url,
+      userAgent: row.user_agent,
+      allowed: row.allowed,
+      robotsStatus: row.robots_status,
+      matchedAgent: row.matched_agent,
+      matchedRule: row.matched_rule,
+      crawlDelayMs: row.crawl_delay_ms,
+      decidedAt: row.decided_at
+    }));
   }
 
-  async recordPipelineStage(input: PipelineStageLogInput): Promise<void> {
-    await this.ensurePipelineTables();
+  async upsertWorkItems(records: WorkItemRecordInput[]): Promise<void> {
+    if (!records.length) return;
+    await this.ensureWorkItemsTable();
+
+    const placeholders: string[] = [];
+    const params: unknown[] = [];
+
+    records.forEach((record, index) => {
+      const offset = index * WORK_ITEM_COLUMNS.length;
+      placeholders.push(`(${WORK_ITEM_COLUMNS.map((_, columnIndex) => `$${offset + columnIndex + 1}`).join(", ")})`);
+
+      params.push(
+        record.id,
+        record.runId,
+        record.crawlRunId,
+        record.queryId,
+        record.engine,
+        record.vantageId,
+        record.status,
+        record.attempts,
+        record.resultCount,
+        record.error,
+        record.startedAt ? record.startedAt.toISOString() : null,
+        record.completedAt ? record.completedAt.toISOString() : null,
+        record.createdAt.toISOString(),
+        record.updatedAt.toISOString()
+      );
+    });
+
     await this.pool.query(
       `
-        INSERT INTO pipeline_stage_logs (
-          id,
-          run_id,
-          stage,
-          status,
-          attempts,
-          started_at,
-          completed_at,
-          error,
-          metadata,
-          created_at,
-          updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        INSERT INTO collection_work_items (
+          ${WORK_ITEM_COLUMNS.join(",")}
+        ) VALUES ${placeholders.join(", ")}
         ON CONFLICT (id)
         DO UPDATE SET
-          run_id = EXCLUDED.run_id,
-          stage = EXCLUDED.stage,
           status = EXCLUDED.status,
           attempts = EXCLUDED.attempts,
+          result_count = EXCLUDED.result_count,
+          error = EXCLUDED.error,
           started_at = EXCLUDED.started_at,
           completed_at = EXCLUDED.completed_at,
-          error = EXCLUDED.error,
-          metadata = EXCLUDED.metadata,
-          created_at = EXCLUDED.created_at,
           updated_at = EXCLUDED.updated_at
       `,
-      [
-        input.id,
-        input.runId,
-        input.stage,
-        input.status,
-        input.attempts,
-        input.startedAt.toISOString(),
-        input.completedAt ? input.completedAt.toISOString() : null,
-        input.error,
-        input.metadata ?? {},
-        input.createdAt.toISOString(),
-        input.updatedAt.toISOString()
-      ]
+      params
     );
   }
 
-  async fetchPipelineRuns(options: FetchPipelineRunOptions = {}): Promise<PipelineRun[]> {
-    await this.ensurePipelineTables();
-    const limit = options.limit ?? 50;
-    const { rows } = await this.pool.query<{
-      id: string;
-      status: string;
-      started_at: Date;
-      completed_at: Date | null;
-      error: string | null;
-      metadata: Record<string, unknown> | null;
-      created_at: Date;
-      updated_at: Date;
-    }>(
-      `
-        SELECT *
-        FROM pipeline_runs
-        ORDER BY started_at DESC
-        LIMIT $1
-      `,
-      [limit]
-    );
+  async fetchWorkItems(options: FetchWorkItemsOptions): Promise<WorkItemRecordInput[]> {
+    await this.ensureWorkItemsTable();
 
-    return rows.map((row) => ({
-      id: row.id,
-      status: row.status as PipelineRun["status"],
-      startedAt: row.started_at,
-      completedAt: row.completed_at,
-      error: row.error,
-      metadata: row.metadata ?? {},
-      createdAt: row.created_at,
-      updatedAt: row.updated_at
-    }));
-  }
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const addInCondition = (column: string, values: string[] | undefined) => {
+      if (!values || !values.length) return;
+      const placeholders = values
+        .map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        })
+        .join(", ");
+      conditions.push(`${column} IN (${placeholders})`);
+    };
+
+    addInCondition("run_id", options.runIds);
+    addInCondition("crawl_run_id", options.crawlRunIds);
+    addInCondition("status", options.statuses);
+
+    const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
 
-  async fetchPipelineStages(runId: string): Promise<PipelineStageLog[]> {
-    await this.ensurePipelineTables();
     const { rows } = await this.pool.query<{
       id: string;
       run_id: string;
-      stage: string;
-      status: string;
+      crawl_run_id: string;
+      query_id: string;
+      engine: string;
+      vantage_id: string | null;
+      status: WorkItemRecordInput["status"];
       attempts: number;
-      started_at: Date;
-      completed_at: Date | null;
+      result_count: number;
       error: string | null;
-      metadata: Record<string, unknown> | null;
+      started_at: Date | null;
+      completed_at: Date | null;
       created_at: Date;
       updated_at: Date;
     }>(
       `
         SELECT *
-        FROM pipeline_stage_logs
-        WHERE run_id = $1
-        ORDER BY started_at ASC
+        FROM collection_work_items
+        ${whereClause}
+        ORDER BY created_at ASC, id ASC
       `,
-      [runId]
+      params
     );
 
     return rows.map((row) => ({
       id: row.id,
       runId: row.run_id,
-      stage: row.stage as PipelineStageLog["stage"],
-      status: row.status as PipelineRun["status"],
+      crawlRunId: row.crawl_run_id,
+      queryId: row.query_id,
+      engine: row.engine,
+      vantageId: row.vantage_id,
+      status: row.status,
       attempts: row.attempts,
+      resultCount: row.result_count,
+      error: row.error,
       startedAt: row.started_at,
       completedAt: row.completed_at,
-      error: row.error,
-      metadata: row.metadata ?? {},
       createdAt: row.created_at,
       updatedAt: row.updated_at
     }));
   }
 
-  async upsertViewpoints(records: import("./types").ViewpointRecordInput[]): Promise<void> {
-    if (records.length === 0) return;
-    await this.ensureViewpointsTable();
+  async upsertCircuitBreakers(records: CircuitBreakerRecordInput[]): Promise<void> {
+    if (!records.length) return;
+    await this.ensureCircuitBreakersTable();
 
-    const values = records.map((r) => [
-      r.id,
-      r.queryId,
-      r.crawlRunId,
-      r.engine,
-      r.numResults,
-      r.summary ?? null,
-      r.citationsCount,
-      r.overlapHash ?? null,
-      r.collectedAt.toISOString(),
-      r.createdAt.toISOString(),
-      r.updatedAt.toISOString()
-    ]);
+    const placeholders: string[] = [];
+    const params: unknown[] = [];
 
-    const placeholders = values
-      .map((_, i) => {
-        const base = i * 11;
-        return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9}, $${base + 10}, $${base + 11})`;
-      })
-      .join(", ");
+    records.forEach((record, index) => {
+      const offset = index * CIRCUIT_BREAKER_COLUMNS.length;
+      placeholders.push(`(${CIRCUIT_BREAKER_COLUMNS.map((_, columnIndex) => `$${offset + columnIndex + 1}`).join(", ")})`);
 
-    const flatValues = values.flat();
+      params.push(
+        record.engine,
+        record.proxy,
+        record.state,
+        record.failureCount,
+        record.consecutiveOpens,
+        record.lastReason,
+        record.lastError,
+        record.openedAt ? record.openedAt.toISOString() : null,
+        record.retryAt ? record.retryAt.toISOString() : null,
+        record.updatedAt.toISOString()
+      );
+    });
 
     await this.pool.query(
       `
-        INSERT INTO viewpoints (
-          id, query_id, crawl_run_id, engine, num_results, summary,
-          citations_count, overlap_hash, collected_at, created_at, updated_at
-        )
-        VALUES ${placeholders}
-        ON CONFLICT (query_id, crawl_run_id, engine)
+        INSERT INTO engine_circuit_breakers (
+          ${CIRCUIT_BREAKER_COLUMNS.join(",")}
+        ) VALUES ${placeholders.join(", ")}
+        ON CONFLICT (engine, proxy)
         DO UPDATE SET
-          num_results = EXCLUDED.num_results,
-          summary = EXCLUDED.summary,
-          citations_count = EXCLUDED.citations_count,
-          overlap_hash = EXCLUDED.overlap_hash,
-          collected_at = EXCLUDED.collected_at,
+          state = EXCLUDED.state,
+          failure_count = EXCLUDED.failure_count,
+          consecutive_opens = EXCLUDED.consecutive_opens,
+          last_reason = EXCLUDED.last_reason,
+          last_error = EXCLUDED.last_error,
+          opened_at = EXCLUDED.opened_at,
+          retry_at = EXCLUDED.retry_at,
           updated_at = EXCLUDED.updated_at
       `,
-      flatValues
+      params
     );
   }
 
-  async fetchViewpointsByQuery(options: import("./types").FetchViewpointsByQueryOptions): Promise<import("./types").ViewpointRecordInput[]> {
-    await this.ensureViewpointsTable();
-
-    const conditions: string[] = ["query_id = $1"];
-    const params: any[] = [options.queryId];
-
-    if (options.runId) {
-      conditions.push("crawl_run_id = $2");
-      params.push(options.runId);
-    }
+  async fetchCircuitBreakers(options: FetchCircuitBreakersOptions): Promise<CircuitBreakerRecordInput[]> {
+    await this.ensureCircuitBreakersTable();
 
-    if (options.engines && options.engines.length > 0) {
-      const enginePlaceholders = options.engines.map((_, i) => `$${params.length + i + 1}`).join(", ");
-      conditions.push(`engine IN (${enginePlaceholders})`);
+    const params: unknown[] = [];
+    let whereClause = "";
+    if (options.engines && options.engines.length) {
       params.push(...options.engines);
+      whereClause = `WHERE engine IN (${options.engines.map((_, index) => `$${index + 1}`).join(", ")})`;
     }
 
     const { rows } = await this.pool.query<{
-      id: string;
-      query_id: string;
-      crawl_run_id: string | null;
       engine: string;
-      num_results: number;
-      summary: string | null;
-      citations_count: number;
-      overlap_hash: string | null;
-      collected_at: Date;
-      created_at: Date;
+      proxy: string;
+      state: CircuitBreakerRecordInput["state"];
+      failure_count: number;
+      consecutive_opens: number;
+      last_reason: string | null;
+      last_error: string | null;
+      opened_at: Date | null;
+      retry_at: Date | null;
       updated_at: Date;
     }>(
       `
         SELECT *
-        FROM viewpoints
-        WHERE ${conditions.join(" AND ")}
-        ORDER BY engine, collected_at DESC
+        FROM engine_circuit_breakers
+        ${whereClause}
+        ORDER BY engine ASC, proxy ASC
       `,
       params
     );
 
     return rows.map((row) => ({
-      id: row.id,
-      queryId: row.query_id,
-      crawlRunId: row.crawl_run_id,
       engine: row.engine,
-      numResults: row.num_results,
-      summary: row.summary,
-      citationsCount: row.citations_count,
-      overlapHash: row.overlap_hash,
-      collectedAt: row.collected_at,
-      createdAt: row.created_at,
+      proxy: row.proxy,
+      state: row.state,
+      failureCount: row.failure_count,
+      consecutiveOpens: row.consecutive_opens,
+      lastReason: row.last_reason,
+      lastError: row.last_error,
+      openedAt: row.opened_at,
+      retryAt: row.retry_at,
       updatedAt: row.updated_at
     }));
   }
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { createStorageClient } from "./index";
-import type { SearchResultInput } from "./types";
+import { createPostgresStorageClient } from "./postgres-client";
+import type { AnnotationRecordInput, SearchResultInput } from "./types";
 
 describe("insertSearchResults + fetchPendingAnnotations", () => {
   it("inserts search results and returns them as pending annotations", async () => {
@@ -55,3 +56,132 @@ describe("insertSearchResults + fetchPendingAnnotations", () => {
     await storage.close();
   });
 });
+
+describe("extraction quality", () => {
+  it("keeps source and confidence and filters annotated results by them", async () => {
+    const storage = createStorageClient({ url: "memory://" });
+    const now = new Date("2024-01-01T00:00:00.000Z");
+    const queryId = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+
+    const result = (index: number, extraction: Partial<SearchResultInput>): SearchResultInput => ({
+      id: `00000000-0000-0000-0000-00000000000${index}`,
+      crawlRunId: "cccccccc-cccc-cccc-cccc-cccccccccccc",
+      queryId,
+      engine: "perplexity",
+      rank: index,
+      title: `Result ${index}`,
+      url: `https://example.com/${index}`,
+      normalizedUrl: `https://example.com/${index}`,
+      domain: "example.com",
+      timestamp: now,
+      hash: String(index).repeat(64),
+      rawHtmlPath: "data/raw_html/perplexity/run-1/result.html",
+      createdAt: now,
+      updatedAt: now,
+      ...extraction
+    });
+
+    await storage.insertSearchResults([
+      result(1, { source: "html", extractionConfidence: 0.9, extractionWarnings: "[]" }),
+      result(2, {
+        source: "html",
+        extractionConfidence: 0.2,
+        extractionWarnings: JSON.stringify(["few results extracted"])
+      }),
+      result(3, { source: "api" })
+    ]);
+
+    const pending = await storage.fetchPendingAnnotations({});
+    expect(pending.find((item) => item.rank === 2)).toMatchObject({
+      source: "html",
+      extractionConfidence: 0.2,
+      extractionWarnings: '["few results extracted"]'
+    });
+
+    const annotations: AnnotationRecordInput[] = pending.map((item, index) => ({
+      id: `dddddddd-dddd-dddd-dddd-00000000000${index + 1}`,
+      searchResultId: item.id,
+      queryId,
+      engine: item.engine,
+      domainType: "news",
+      factualConsistency: "aligned",
+      confidence: null,
+      promptVersion: "v1",
+      modelId: "test",
+      createdAt: now,
+      updatedAt: now
+    }));
+    await storage.insertAnnotationRecords(annotations);
+
+    const confident = await storage.fetchAnnotatedResults({ minExtractionConfidence: 0.5 });
+    expect(confident.map((item) => item.rank).sort()).toEqual([1, 3]);
+
+    const scraped = await storage.fetchAnnotatedResults({ sources: ["html"] });
+    expect(scraped.map((item) => item.extractionConfidence).sort()).toEqual([0.2, 0.9]);
+
+    await storage.close();
+  });
+});
+
+describe("re-extracted search results", () => {
+  const now = new Date("2024-01-01T00:00:00.000Z");
+  const queryId = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+  // The original crawl, a newer crawl, and a re-extraction of the original crawl
+  const crawlRunIds = [
+    "11111111-1111-1111-1111-111111111111",
+    "22222222-2222-2222-2222-222222222222",
+    "33333333-3333-3333-3333-333333333333"
+  ];
+
+  const result = (index: number): SearchResultInput => ({
+    id: `00000000-0000-0000-0000-00000000000${index + 1}`,
+    crawlRunId: crawlRunIds[index],
+    queryId,
+    engine: "perplexity",
+    rank: index + 1,
+    title: `Result from run ${index}`,
+    url: "https://example.com/",
+    normalizedUrl: "https://example.com/",
+    domain: "example.com",
+    timestamp: now,
+    hash: String(index).repeat(64),
+    rawHtmlPath: "data/raw_html/perplexity/run-1/result.html",
+    parserVersion: index === 2 ? "perplexity-html@2" : "perplexity-html@1",
+    createdAt: now,
+    updatedAt: now
+  });
+
+  it("keeps the rows of other crawls for the same URL", async () => {
+    const storage = createStorageClient({ url: "memory://" });
+    await storage.insertSearchResults([result(0), result(1)]);
+    await storage.insertSearchResults([result(2)]);
+
+    const rows = await storage.fetchPendingAnnotations({});
+    expect(rows.map((row) => [row.id, row.crawlRunId]).sort()).toEqual(
+      [0, 1, 2].map((index) => [result(index).id, crawlRunIds[index]])
+    );
+
+    await storage.close();
+  });
+
+  it("gives each crawl run its own uniqueness slot on Postgres", async () => {
+    const storage = createPostgresStorageClient("postgres://localhost/truthlayer");
+    const queries: Array<{ text: string; params?: unknown[] }> = [];
+    (storage as any).pool = {
+      query: async (text: string, params?: unknown[]) => {
+        queries.push({ text, params });
+        return { rows: [] };
+      },
+      end: async () => {}
+    };
+
+    await storage.insertSearchResults([result(1), result(2)]);
+
+    const index = queries.find((query) => query.text.includes("CREATE UNIQUE INDEX"));
+    expect(index?.text).toContain("(query_id, engine, url, vantage_id, crawl_run_id)");
+    const insert = queries.find((query) => query.text.includes("INSERT INTO search_results"));
+    expect(insert?.text).toContain("ON CONFLICT (query_id, engine, url, vantage_id, crawl_run_id)");
+    // Neither row is dropped as a duplicate of the other
+    expect(insert?.params).toEqual(expect.arrayContaining([result(1).id, result(2).id]));
+  });
+});
@@ -4,6 +4,10 @@ import type {
   AnnotationRecord,
   SearchResult,
   MetricRecord,
+  MetricWindowStep,
+  MetricGroupBy,
+  MetricAnomalyDirection,
+  MetricAnomalySeverity,
   DatasetVersion,
   PipelineRun,
   PipelineStageLog
@@ -25,6 +29,13 @@ export interface FetchAnnotatedResultsOptions {
   domainTypes?: DomainType[];
   factualConsistency?: FactualConsistency[];
   engines?: string[];
+  /** Collection sources to keep (e.g. "api", "html"). */
+  sources?: string[];
+  /**
+   * Drops results whose extraction confidence is below this value. Results
+   * without a recorded confidence are kept.
+   */
+  minExtractionConfidence?: number;
 }
 
 export interface FetchAlternativeSourcesOptions {
@@ -68,11 +79,50 @@ export interface SearchResultInput {
   url: string;
   normalizedUrl: string;
   domain: string;
+  /** eTLD+1 of `domain`; null for IP addresses and bare public suffixes. */
+  registrableDomain?: string | null;
   timestamp: Date;
   hash: string;
   rawHtmlPath: string;
   createdAt: Date;
   updatedAt: Date;
+  source?: string | null;
+  extractionConfidence?: number | null;
+  /** JSON-encoded array of extractor warnings, as produced by the collector. */
+  extractionWarnings?: string | null;
+  /** JSON-encoded engine metadata (summaries, citations, ...). */
+  metadata?: string | null;
+  /** Version of the extractor that produced the row, e.g. `perplexity-html@2`. */
+  parserVersion?: string | null;
+  /** Share of the result a reader sees without scrolling (0-1); null when no page geometry was captured. */
+  visibilityWeight?: number | null;
+  /** Vantage profile the result was collected under; null for collection without one. */
+  vantageId?: string | null;
+  /** Results page (1-based) the result was found on. */
+  page?: number | null;
+}
+
+/** The URL columns of a stored search result, read when re-canonicalizing URLs. */
+export interface SearchResultUrlRecord {
+  id: string;
+  engine: string;
+  url: string;
+  normalizedUrl: string;
+  domain: string;
+  registrableDomain: string | null;
+}
+
+export interface FetchSearchResultUrlsOptions {
+  /** Keyset cursor: only rows whose id sorts after this one. */
+  afterId?: string;
+  limit?: number;
+}
+
+export interface SearchResultUrlUpdate {
+  id: string;
+  normalizedUrl: string;
+  domain: string;
+  registrableDomain: string | null;
 }
 
 export interface CrawlRunRecordInput {
@@ -80,13 +130,15 @@ export interface CrawlRunRecordInput {
   batchId: string;
   queryId: string;
   engine: string;
-  status: "pending" | "running" | "completed" | "failed";
+  /** `blocked` when an engine served bot checks or 429s rather than failing outright. */
+  status: "pending" | "running" | "completed" | "failed" | "blocked";
   startedAt: Date;
   completedAt: Date | null;
   error: string | null;
   resultCount: number;
   createdAt: Date;
   updatedAt: Date;
+  vantageId?: string | null;
 }
 
 export interface MetricRecordInput {
@@ -103,6 +155,108 @@ export interface MetricRecordInput {
   createdAt: Date;
 }
 
+/**
+ * A metric aggregated over every run in a trailing window, kept apart from the
+ * per-run rows in `metric_records`.
+ */
+export interface MetricWindowRecordInput {
+  id: string;
+  queryId: string;
+  engine: string | null;
+  metricType: MetricType;
+  step: MetricWindowStep;
+  windowDays: number;
+  windowStart: Date;
+  windowEnd: Date;
+  runCount: number;
+  value: number;
+  movingAverage: number;
+  delta: number | null;
+  extra?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface FetchRecentMetricRecordsOptions {
+  /** `null` restricts to cross-engine aggregates; omit to return every engine. */
+  engine?: string | null;
+  /** Only records collected at or after this instant. */
+  since?: Date;
+}
+
+export interface FetchMetricWindowRecordsOptions {
+  metricType?: MetricType;
+  step?: MetricWindowStep;
+  queryIds?: string[];
+  /** `null` restricts to cross-engine aggregates; omit to return every engine. */
+  engine?: string | null;
+  since?: Date;
+  limit?: number;
+}
+
+/**
+ * A metric rolled up across every benchmark query sharing a topic or tag on one
+ * run date (UTC), as a weighted average of the per-query values.
+ */
+export interface MetricGroupRecordInput {
+  id: string;
+  groupBy: MetricGroupBy;
+  groupKey: string;
+  engine: string | null;
+  metricType: MetricType;
+  runDate: Date;
+  value: number;
+  delta: number | null;
+  queryCount: number;
+  totalWeight: number;
+  extra?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface FetchMetricGroupRecordsOptions {
+  groupBy: MetricGroupBy;
+  groupKeys?: string[];
+  metricType?: MetricType;
+  /** `null` restricts to cross-engine aggregates; omit to return every engine. */
+  engine?: string | null;
+  since?: Date;
+  limit?: number;
+}
+
+/**
+ * A metric value flagged as outside the robust (median/MAD) baseline of its
+ * query x engine x metric type series. Ids are deterministic per flagged run,
+ * so re-running detection updates rather than duplicates.
+ */
+export interface MetricAnomalyRecordInput {
+  id: string;
+  crawlRunId: string;
+  queryId: string;
+  engine: string | null;
+  metricType: MetricType;
+  value: number;
+  baseline: number;
+  scale: number;
+  score: number;
+  lowerBound: number;
+  upperBound: number;
+  direction: MetricAnomalyDirection;
+  severity: MetricAnomalySeverity;
+  historyCount: number;
+  collectedAt: Date;
+  extra?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface FetchMetricAnomaliesOptions {
+  queryIds?: string[];
+  /** `null` restricts to cross-engine aggregates; omit to return every engine. */
+  engine?: string | null;
+  metricType?: MetricType;
+  severity?: MetricAnomalySeverity;
+  since?: Date;
+  limit?: number;
+}
+
 export interface AnnotationAggregateRecordInput {
   id: string;
   runId: string;
@@ -204,15 +358,190 @@ export interface FetchViewpointsByQueryOptions {
   engines?: string[];
 }
 
+export interface CitationRecordInput {
+  id: string;
+  queryId: string;
+  crawlRunId: string | null;
+  engine: string;
+  citationIndex: number;
+  url: string;
+  normalizedUrl: string;
+  domain: string;
+  registrableDomain?: string | null;
+  sentences: string[];
+  collectedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FetchCitationsOptions {
+  queryIds?: string[];
+  runIds?: string[];
+  engines?: string[];
+  since?: Date;
+}
+
+export interface SerpFeatureRecordInput {
+  id: string;
+  queryId: string;
+  crawlRunId: string | null;
+  engine: string;
+  featureType: string;
+  position: number;
+  title?: string | null;
+  urls: string[];
+  collectedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FetchSerpFeaturesOptions {
+  queryIds?: string[];
+  runIds?: string[];
+  engines?: string[];
+  since?: Date;
+}
+
+/**
+ * Daily success/failure counts for one CSS selector, so targets can order their
+ * fallbacks by recent success rate across runs. Recording adds to the counts
+ * already stored for the same engine, group, selector and day.
+ */
+export interface SelectorHealthRecordInput {
+  engine: string;
+  /** What the selector extracts within the engine, e.g. "results" or "answer". */
+  selectorGroup: string;
+  selector: string;
+  /** UTC day the outcomes were observed on. */
+  bucketDate: Date;
+  successCount: number;
+  failCount: number;
+  lastSuccessAt: Date | null;
+  lastFailureAt: Date | null;
+  configVersion: string | null;
+  updatedAt: Date;
+}
+
+export interface FetchSelectorHealthOptions {
+  engines?: string[];
+  since?: Date;
+}
+
+/**
+ * One robots.txt decision the collector made before fetching a page, kept so
+ * the crawl's compliance can be audited afterwards.
+ */
+export interface RobotsDecisionRecordInput {
+  id: string;
+  crawlRunId: string | null;
+  engine: string;
+  url: string;
+  userAgent: string;
+  allowed: boolean;
+  /**
+   * How robots.txt was obtained: "parsed" (fetched and applied), "unavailable"
+   * (4xx, so everything is allowed), "unreachable" (5xx or network error, so
+   * everything is disallowed) or "disabled" (robots checks were turned off).
+   */
+  robotsStatus: string;
+  /** The user-agent line of the group that applied, or null when none did. */
+  matchedAgent: string | null;
+  /** The deciding rule, e.g. "disallow: /private", or null when no rule matched. */
+  matchedRule: string | null;
+  crawlDelayMs: number | null;
+  decidedAt: Date;
+}
+
+export interface FetchRobotsDecisionsOptions {
+  runIds?: string[];
+  engines?: string[];
+  since?: Date;
+}
+
+export type WorkItemStatus = "pending" | "running" | "succeeded" | "failed" | "blocked";
+
+/**
+ * One unit of a collector run: a query collected from one engine (under one
+ * vantage). The table is the run's checkpoint: a resumed run skips the items
+ * that succeeded and retries the rest.
+ */
+export interface WorkItemRecordInput {
+  id: string;
+  /** The collector run the item belongs to; what a run is resumed by. */
+  runId: string;
+  crawlRunId: string;
+  queryId: string;
+  engine: string;
+  vantageId: string | null;
+  status: WorkItemStatus;
+  /** Collection attempts so far, across resumes. */
+  attempts: number;
+  resultCount: number;
+  /** The last attempt's error, when it failed. */
+  error: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FetchWorkItemsOptions {
+  runIds?: string[];
+  crawlRunIds?: string[];
+  statuses?: WorkItemStatus[];
+}
+
+export type CircuitBreakerState = "closed" | "open" | "half_open";
+
+/**
+ * An engine's circuit breaker, per proxy. It opens after repeated bot checks
+ * or 429s and keeps the engine paused until `retryAt`; the collector saves it
+ * so the next run honours the pause and the dashboard can show it.
+ */
+export interface CircuitBreakerRecordInput {
+  engine: string;
+  /** The proxy hosts the engine is reached through, without credentials; "" when reached directly. */
+  proxy: string;
+  state: CircuitBreakerState;
+  /** Blocks counted in the current window. */
+  failureCount: number;
+  /** Times the breaker has opened without a success in between; each doubles the cooldown. */
+  consecutiveOpens: number;
+  /** What the last block was, e.g. "bot_check" or "rate_limited". */
+  lastReason: string | null;
+  lastError: string | null;
+  openedAt: Date | null;
+  /** When an open breaker lets a trial request through. */
+  retryAt: Date | null;
+  updatedAt: Date;
+}
+
+export interface FetchCircuitBreakersOptions {
+  engines?: string[];
+}
+
 export interface StorageClient {
   fetchPendingAnnotations(options: FetchPendingAnnotationsOptions): Promise<SearchResult[]>;
   insertAnnotationRecords(records: AnnotationRecordInput[]): Promise<void>;
   insertSearchResults(records: SearchResultInput[]): Promise<void>;
+  fetchSearchResultUrls(options: FetchSearchResultUrlsOptions): Promise<SearchResultUrlRecord[]>;
+  updateSearchResultUrls(updates: SearchResultUrlUpdate[]): Promise<void>;
   recordCrawlRuns(records: CrawlRunRecordInput[]): Promise<void>;
   fetchAnnotatedResults(options: FetchAnnotatedResultsOptions): Promise<AnnotatedResultView[]>;
   fetchAlternativeSources(options: FetchAlternativeSourcesOptions): Promise<AnnotatedResultView[]>;
   insertMetricRecords(records: MetricRecordInput[]): Promise<void>;
-  fetchRecentMetricRecords(metricType: MetricType, limit: number): Promise<MetricRecordInput[]>;
+  /** The newest `limit` records of a metric (all when `null`), counted after the filters. */
+  fetchRecentMetricRecords(
+    metricType: MetricType,
+    limit: number | null,
+    options?: FetchRecentMetricRecordsOptions
+  ): Promise<MetricRecordInput[]>;
+  upsertMetricWindowRecords(records: MetricWindowRecordInput[]): Promise<void>;
+  fetchMetricWindowRecords(options: FetchMetricWindowRecordsOptions): Promise<MetricWindowRecordInput[]>;
+  upsertMetricGroupRecords(records: MetricGroupRecordInput[]): Promise<void>;
+  fetchMetricGroupRecords(options: FetchMetricGroupRecordsOptions): Promise<MetricGroupRecordInput[]>;
+  upsertMetricAnomalies(records: MetricAnomalyRecordInput[]): Promise<void>;
+  fetchMetricAnomalies(options: FetchMetricAnomaliesOptions): Promise<MetricAnomalyRecordInput[]>;
   upsertAnnotationAggregates(records: AnnotationAggregateRecordInput[]): Promise<void>;
   fetchAnnotationAggregates(options: FetchAnnotationAggregateOptions): Promise<AnnotationAggregateRecord[]>;
   exportDataset(options: DatasetExportOptions): Promise<DatasetExportResult>;
@@ -224,5 +553,17 @@ export interface StorageClient {
   fetchAuditSamples(runId: string): Promise<AuditSampleRecordInput[]>;
   upsertViewpoints(records: ViewpointRecordInput[]): Promise<void>;
   fetchViewpointsByQuery(options: FetchViewpointsByQueryOptions): Promise<ViewpointRecordInput[]>;
+  upsertCitations(records: CitationRecordInput[]): Promise<void>;
+  fetchCitations(options: FetchCitationsOptions): Promise<CitationRecordInput[]>;
+  upsertSerpFeatures(records: SerpFeatureRecordInput[]): Promise<void>;
+  fetchSerpFeatures(options: FetchSerpFeaturesOptions): Promise<SerpFeatureRecordInput[]>;
+  recordSelectorHealth(records: SelectorHealthRecordInput[]): Promise<void>;
+  fetchSelectorHealth(options: FetchSelectorHealthOptions): Promise<SelectorHealthRecordInput[]>;
+  recordRobotsDecisions(records: RobotsDecisionRecordInput[]): Promise<void>;
+  fetchRobotsDecisions(options: FetchRobotsDecisionsOptions): Promise<RobotsDecisionRecordInput[]>;
+  upsertWorkItems(records: WorkItemRecordInput[]): Promise<void>;
+  fetchWorkItems(options: FetchWorkItemsOptions): Promise<WorkItemRecordInput[]>;
+  upsertCircuitBreakers(records: CircuitBreakerRecordInput[]): Promise<void>;
+  fetchCircuitBreakers(options: FetchCircuitBreakersOptions): Promise<CircuitBreakerRecordInput[]>;
   close(): Promise<void>;
 }
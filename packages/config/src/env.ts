@@ -15,17 +15,29 @@ const EnvSchema = z.object({
   NODE_ENV: z.enum(["development", "test", "production"]).default("development"),
   OPENAI_API_KEY: z.string().min(1).optional(),
   ANTHROPIC_API_KEY: z.string().min(1).optional(),
-  BRAVE_API_KEY: z.string().min(1).optional(),
-  BING_API_KEY: z.string().min(1).optional(),
   PROXY_URL: z.string().min(1).optional(),
   STORAGE_URL: z.string().min(1).optional(),
   BENCHMARK_QUERY_SET_PATH: z.string().min(1).default("config/benchmark-queries.json"),
   COLLECTOR_OUTPUT_DIR: z.string().min(1).default("data/serp"),
   COLLECTOR_MAX_RESULTS: z.coerce.number().int().min(1).max(100).optional(),
+  COLLECTOR_MAX_PAGES: z.coerce.number().int().min(1).max(10).default(10),
   COLLECTOR_USER_AGENT: z.string().min(1).default("TruthLayerBot/0.1 (https://truthlayer.ai)"),
   COLLECTOR_RESPECT_ROBOTS: BooleanFromEnv.optional().default(true),
   COLLECTOR_ROBOTS_CACHE_TTL_MS: z.coerce.number().int().min(60000).max(86400000).default(3600000),
   COLLECTOR_CACHE_TTL_DAYS: z.coerce.number().int().min(1).max(365).default(7),
+  COLLECTOR_STRIP_QUERY_PARAMS: z.string().optional(),
+  COLLECTOR_SELECTOR_CONFIG_PATH: z.string().min(1).default("config/selectors.json"),
+  COLLECTOR_SELECTOR_HEALTH_WINDOW_DAYS: z.coerce.number().int().min(1).max(90).default(7),
+  COLLECTOR_VANTAGE_CONFIG_PATH: z.string().min(1).default("config/vantages.json"),
+  COLLECTOR_ANSWER_ENGINE_CONFIG_PATH: z.string().min(1).default("config/answer-engines.json"),
+  COLLECTOR_ENGINES: z.string().optional(),
+  COLLECTOR_ENGINE_PLUGINS: z.string().optional(),
+  COLLECTOR_WORK_ITEM_ATTEMPTS: z.coerce.number().int().min(1).max(10).default(3),
+  COLLECTOR_BREAKER_THRESHOLD: z.coerce.number().int().min(1).max(100).default(3),
+  COLLECTOR_BREAKER_WINDOW_MS: z.coerce.number().int().min(1000).default(600000),
+  COLLECTOR_BREAKER_COOLDOWN_MS: z.coerce.number().int().min(1000).default(300000),
+  COLLECTOR_BREAKER_MAX_COOLDOWN_MS: z.coerce.number().int().min(1000).default(21600000),
+  COLLECTOR_HOST_RATE_LIMIT_RPS: z.coerce.number().min(0.1).max(50).default(5),
   FORCE_REFRESH: z.enum(["true", "false"]).default("false").transform(v => v === "true"),
   ANNOTATION_CACHE_DIR: z.string().min(1).default("data/cache/annotation"),
   ANNOTATION_MODEL: z.string().min(1).default("gpt-4o-mini"),
@@ -46,9 +58,15 @@ const EnvSchema = z.object({
   SCHEDULER_MANUAL_AUDIT_PERCENT: z.coerce.number().int().min(1).max(100).default(5),
   METRICS_EXPORT_DIR: z.string().min(1).default("data/metrics"),
   METRICS_WINDOW_SIZE: z.coerce.number().int().min(1).max(90).optional(),
-  LOG_LEVEL: z.string().optional(),
-  BRAVE_RATE_LIMIT_RPS: z.coerce.number().min(0.1).max(10).default(1),
-  PERPLEXITY_RATE_LIMIT_RPS: z.coerce.number().min(0.1).max(10).default(2)
+  METRICS_ROLLING_STEP: z.enum(["daily", "weekly"]).optional(),
+  METRICS_RBO_PERSISTENCE: z.coerce.number().gt(0).lt(1).optional(),
+  METRICS_BOOTSTRAP_ITERATIONS: z.coerce.number().int().min(0).max(10000).optional(),
+  METRICS_SIGNIFICANCE_LEVEL: z.coerce.number().gt(0).lt(1).optional(),
+  METRICS_ANOMALY_THRESHOLD: z.coerce.number().positive().optional(),
+  METRICS_ANOMALY_MIN_HISTORY: z.coerce.number().int().min(2).optional(),
+  METRICS_ANOMALY_BASELINE_RUNS: z.coerce.number().int().min(2).max(365).optional(),
+  METRICS_MIN_EXTRACTION_CONFIDENCE: z.coerce.number().min(0).max(1).optional(),
+  LOG_LEVEL: z.string().optional()
 });
 
 export type EnvConfig = z.infer<typeof EnvSchema>;
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { EngineEnum } from "./search-result";
+import { EngineIdSchema } from "./engines";
 
 export const DomainTypeEnum = z.enum([
   "news",
@@ -20,7 +20,7 @@ export const AnnotationRecordSchema = z.object({
   id: z.string().uuid("annotation_id must be a UUID"),
   searchResultId: z.string().uuid("search_result_id must be a UUID"),
   queryId: z.string().uuid("query_id must be a UUID"),
-  engine: EngineEnum,
+  engine: EngineIdSchema,
   domainType: DomainTypeEnum,
   factualConsistency: FactualConsistencyEnum,
   confidence: z.number().min(0).max(1).nullable().default(null),
@@ -36,7 +36,7 @@ export const AnnotationAggregateRecordSchema = z.object({
   id: z.string().uuid("annotation_aggregate_id must be a UUID"),
   runId: z.string().min(1, "run_id is required"),
   queryId: z.string().uuid("query_id must be a UUID"),
-  engine: EngineEnum.nullable(),
+  engine: EngineIdSchema.nullable(),
   domainType: DomainTypeEnum,
   factualConsistency: FactualConsistencyEnum,
   count: z.number().int().min(0),
@@ -53,13 +53,18 @@ export const AnnotatedResultViewSchema = z.object({
   batchId: z.string().min(1).optional(),
   annotationId: z.string().uuid("annotation_id must be a UUID"),
   queryId: z.string().uuid("query_id must be a UUID"),
-  engine: EngineEnum,
+  engine: EngineIdSchema,
   normalizedUrl: z.string().min(1),
   domain: z.string().min(1),
+  registrableDomain: z.string().min(1).nullable().optional(),
   rank: z.number().int().min(1).max(100),
   factualConsistency: FactualConsistencyEnum,
   domainType: DomainTypeEnum,
-  collectedAt: z.coerce.date()
+  collectedAt: z.coerce.date(),
+  source: z.string().nullable().optional(),
+  extractionConfidence: z.number().min(0).max(1).nullable().optional(),
+  visibilityWeight: z.number().min(0).max(1).nullable().optional(),
+  vantageId: z.string().min(1).nullable().optional()
 });
 
 export type AnnotatedResultView = z.infer<typeof AnnotatedResultViewSchema>;
@@ -4,7 +4,9 @@ export const BenchmarkQuerySchema = z.object({
   id: z.string().uuid("benchmark query id must be a UUID"),
   query: z.string().min(1, "query text is required"),
   topic: z.string().min(1, "topic is required"),
-  tags: z.array(z.string()).default([])
+  tags: z.array(z.string()).default([]),
+  /** Vantage profile ids to collect this query under; every configured profile when omitted. */
+  vantages: z.array(z.string().min(1)).optional()
 });
 
 export const BenchmarkQuerySetSchema = z.array(BenchmarkQuerySchema);
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { EngineIdSchema } from "./engines";
+
+/**
+ * Citation Schema - A source cited inside an AI-generated answer
+ *
+ * One record per numbered citation in an engine's answer (currently Perplexity),
+ * with the summary sentence(s) that reference it.
+ *
+ * @see apps/storage/src/types.ts CitationRecordInput
+ */
+export const CitationSchema = z.object({
+  id: z.string().uuid("citation_id must be a UUID"),
+  queryId: z.string().uuid("query_id must be a UUID"),
+  crawlRunId: z.string().uuid("crawl_run_id must be a UUID").nullable(),
+  engine: EngineIdSchema,
+  citationIndex: z.number().int().min(1, "citation_index starts at 1"),
+  url: z.string().url(),
+  normalizedUrl: z.string().url(),
+  domain: z.string().min(1),
+  registrableDomain: z.string().min(1).nullable().optional(),
+  sentences: z.array(z.string()).default([]),
+  collectedAt: z.coerce.date(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date()
+});
+
+export type Citation = z.infer<typeof CitationSchema>;
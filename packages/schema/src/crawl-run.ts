@@ -1,18 +1,19 @@
 import { z } from "zod";
-import { EngineEnum } from "./search-result";
+import { EngineIdSchema } from "./engines";
 
-export const CrawlRunStatusEnum = z.enum(["pending", "running", "completed", "failed"]);
+export const CrawlRunStatusEnum = z.enum(["pending", "running", "completed", "failed", "blocked"]);
 
 export const CrawlRunSchema = z.object({
   id: z.string().uuid("crawl_run_id must be a UUID"),
   batchId: z.string().uuid("batch_id must be a UUID"),
   queryId: z.string().uuid("query_id must be a UUID"),
-  engine: EngineEnum,
+  engine: EngineIdSchema,
   status: CrawlRunStatusEnum,
   startedAt: z.coerce.date(),
   completedAt: z.coerce.date().nullable(),
   error: z.string().nullable(),
   resultCount: z.number().int().min(0),
+  vantageId: z.string().min(1).nullable().optional(),
   createdAt: z.coerce.date(),
   updatedAt: z.coerce.date()
 });
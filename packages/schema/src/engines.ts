@@ -0,0 +1,100 @@
+import { z } from "zod";
+
+/**
+ * Engine ids are open-ended so results from plugin engines validate like the
+ * built-in ones; which engines exist is up to the registry below.
+ */
+export const EngineIdSchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9_-]*$/, "engine id must be lowercase letters, digits, dashes and underscores");
+
+export type EngineId = z.infer<typeof EngineIdSchema>;
+
+/**
+ * Engine Descriptor Schema - What the rest of the system needs to know about a search engine
+ *
+ * `access` says how the collector reaches the engine: an official API, plain
+ * HTML requests, or a headless browser. `pagination` means the collector can
+ * read past the first results page; `locale` means vantage profiles change the
+ * engine's region and language. `rateLimit` holds the defaults the collector
+ * paces the engine with unless configured otherwise.
+ *
+ * @see apps/collector/src/targets/adapter.ts EngineAdapter
+ */
+export const EngineDescriptorSchema = z.object({
+  id: EngineIdSchema,
+  label: z.string().min(1),
+  capabilities: z.object({
+    access: z.enum(["api", "html", "browser"]),
+    pagination: z.boolean(),
+    locale: z.boolean()
+  }),
+  rateLimit: z.object({
+    concurrency: z.number().int().min(1).default(1),
+    /** Pause between consecutive requests for one query. */
+    delayMs: z.number().int().min(0).default(2000),
+    requestsPerSecond: z.number().min(0.1).max(10).default(1)
+  })
+});
+
+export type EngineDescriptor = z.infer<typeof EngineDescriptorSchema>;
+
+export const BUILTIN_ENGINES: EngineDescriptor[] = [
+  {
+    id: "google",
+    label: "Google",
+    capabilities: { access: "api", pagination: true, locale: true },
+    rateLimit: { concurrency: 1, delayMs: 2000, requestsPerSecond: 1 }
+  },
+  {
+    id: "bing",
+    label: "Bing",
+    capabilities: { access: "api", pagination: true, locale: true },
+    rateLimit: { concurrency: 1, delayMs: 2000, requestsPerSecond: 1 }
+  },
+  {
+    id: "perplexity",
+    label: "Perplexity",
+    capabilities: { access: "browser", pagination: false, locale: true },
+    rateLimit: { concurrency: 1, delayMs: 2000, requestsPerSecond: 2 }
+  },
+  {
+    id: "brave",
+    label: "Brave",
+    capabilities: { access: "api", pagination: true, locale: true },
+    rateLimit: { concurrency: 1, delayMs: 2000, requestsPerSecond: 1 }
+  },
+  {
+    id: "duckduckgo",
+    label: "DuckDuckGo",
+    capabilities: { access: "html", pagination: true, locale: true },
+    rateLimit: { concurrency: 1, delayMs: 2000, requestsPerSecond: 1 }
+  }
+];
+
+const registry = new Map<string, EngineDescriptor>(BUILTIN_ENGINES.map((engine) => [engine.id, engine]));
+
+/**
+ * Adds an engine (typically from a collector plugin) to the registry. Ids are
+ * unique: registering the same descriptor again is a no-op (a long-running
+ * scheduler loads its plugins on every run), a different one is an error.
+ */
+export function registerEngine(descriptor: z.input<typeof EngineDescriptorSchema>): EngineDescriptor {
+  const engine = EngineDescriptorSchema.parse(descriptor);
+  const existing = registry.get(engine.id);
+  if (existing) {
+    if (JSON.stringify(existing) === JSON.stringify(engine)) return existing;
+    throw new Error(`Engine ${engine.id} is already registered`);
+  }
+  registry.set(engine.id, engine);
+  return engine;
+}
+
+/** Every registered engine: the built-in ones in their usual order, then plugins in registration order. */
+export function listEngines(): EngineDescriptor[] {
+  return Array.from(registry.values());
+}
+
+export function getEngine(id: string): EngineDescriptor | undefined {
+  return registry.get(id);
+}
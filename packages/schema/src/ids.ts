@@ -0,0 +1,14 @@
+import { createHash } from "crypto";
+
+/**
+ * Deterministic UUID (version 5 layout over a SHA-1 of `value`), so a row
+ * derived from the same inputs always gets the same id and re-running the
+ * step that writes it upserts instead of duplicating.
+ */
+export function hashToUUID(value: string): string {
+  const bytes = createHash("sha1").update(value).digest().subarray(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x50; // set version 5 bits
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // set variant bits
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
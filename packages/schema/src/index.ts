@@ -1,3 +1,4 @@
+export * from "./engines";
 export * from "./search-result";
 export * from "./crawl-run";
 export * from "./metrics";
@@ -8,3 +9,7 @@ export * from "./pipeline-run";
 export * from "./audit-sample";
 export * from "./queryInsight";
 export * from "./viewpoint";
+export * from "./citation";
+export * from "./serp-feature";
+export * from "./vantage";
+export * from "./ids";
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { EngineEnum } from "./search-result";
+import { EngineIdSchema } from "./engines";
 
 export const MetricTypeEnum = z.enum([
   "domain_diversity",
@@ -7,14 +7,43 @@ export const MetricTypeEnum = z.enum([
   "factual_alignment",
   "viewpoint_diversity_score",
   "viewpoint_underrepresented_count",
-  "viewpoint_alternative_sources_available"
+  "viewpoint_alternative_sources_available",
+  "rank_biased_overlap",
+  "rank_kendall_tau",
+  "rank_weighted_jaccard",
+  "domain_entropy",
+  "domain_gini",
+  "domain_hhi",
+  "citation_organic_overlap",
+  "citation_domain_type_divergence",
+  "serp_feature_share",
+  "visibility_weighted_domain_hhi",
+  "visibility_weighted_factual_alignment"
 ]);
 
+/** Spacing between consecutive rolling windows. */
+export const MetricWindowStepEnum = z.enum(["daily", "weekly"]);
+
+export type MetricWindowStep = z.infer<typeof MetricWindowStepEnum>;
+
+/** Benchmark query attribute that metric rollups are grouped by. */
+export const MetricGroupByEnum = z.enum(["topic", "tag"]);
+
+export type MetricGroupBy = z.infer<typeof MetricGroupByEnum>;
+
+/** Which side of the robust baseline an anomalous metric value fell on. */
+export const MetricAnomalyDirectionEnum = z.enum(["drop", "spike"]);
+
+export const MetricAnomalySeverityEnum = z.enum(["warning", "critical"]);
+
+export type MetricAnomalyDirection = z.infer<typeof MetricAnomalyDirectionEnum>;
+export type MetricAnomalySeverity = z.infer<typeof MetricAnomalySeverityEnum>;
+
 export const MetricRecordSchema = z.object({
   id: z.string().uuid("metric_id must be a UUID"),
   crawlRunId: z.string().uuid("crawl_run_id must be a UUID"),
   queryId: z.string().uuid("query_id must be a UUID"),
-  engine: EngineEnum.nullable(),
+  engine: EngineIdSchema.nullable(),
   metricType: MetricTypeEnum,
   value: z.number(),
   extra: z.record(z.any()).optional(),
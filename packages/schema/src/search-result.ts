@@ -1,18 +1,19 @@
 import { z } from "zod";
-
-export const EngineEnum = z.enum(["google", "bing", "perplexity", "brave", "duckduckgo"]);
+import { EngineIdSchema } from "./engines";
 
 export const SearchResultSchema = z.object({
   id: z.string().uuid("search_result_id must be a UUID"),
   crawlRunId: z.string().uuid("crawl_run_id must be a UUID").nullable().default(null),
   queryId: z.string().uuid("query_id must be a UUID"),
-  engine: EngineEnum,
+  engine: EngineIdSchema,
   rank: z.number().int().min(1).max(100),
   title: z.string().min(1),
   snippet: z.string().optional(),
   url: z.string().url(),
   normalizedUrl: z.string().url(),
   domain: z.string().min(1),
+  /** eTLD+1 of `domain`; null for IP addresses and bare public suffixes. */
+  registrableDomain: z.string().min(1).nullable().optional(),
   timestamp: z.coerce.date(),
   hash: z.string().length(64),
   rawHtmlPath: z.string(),
@@ -21,7 +22,18 @@ export const SearchResultSchema = z.object({
   source: z.string().nullable().optional(),
   extractionConfidence: z.number().min(0).max(1).nullable().optional(),
   extractionWarnings: z.string().nullable().optional(),
-  metadata: z.string().nullable().optional()
+  metadata: z.string().nullable().optional(),
+  /** Version of the extractor that produced the row; see the collector's PARSER_VERSIONS. */
+  parserVersion: z.string().nullable().optional(),
+  /**
+   * Pixel-based weight (0-1) of how visible the result was on the rendered page;
+   * only browser targets capture the geometry it is computed from.
+   */
+  visibilityWeight: z.number().min(0).max(1).nullable().optional(),
+  /** Vantage profile the result was collected under; null when collected without one. */
+  vantageId: z.string().min(1).nullable().optional(),
+  /** 1-based results page the result was found on; `rank` runs on across pages. */
+  page: z.number().int().min(1).nullable().optional()
 });
 
 export type SearchResult = z.infer<typeof SearchResultSchema>;
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { EngineIdSchema } from "./engines";
+
+/**
+ * Non-organic blocks on a results page. `ai_overview` covers any AI-generated
+ * answer (Google AI Overviews, Perplexity's answer).
+ */
+export const SerpFeatureTypeEnum = z.enum([
+  "ad",
+  "featured_snippet",
+  "people_also_ask",
+  "knowledge_panel",
+  "news_carousel",
+  "video_carousel",
+  "ai_overview"
+]);
+
+export type SerpFeatureType = z.infer<typeof SerpFeatureTypeEnum>;
+
+/**
+ * SERP Feature Schema - A non-organic block on a collected results page
+ *
+ * One record per feature block. `position` is the block's 1-based slot on the
+ * page counting organic results and features together, in page order, so an ad
+ * above the first organic result has position 1.
+ *
+ * @see apps/storage/src/types.ts SerpFeatureRecordInput
+ */
+export const SerpFeatureSchema = z.object({
+  id: z.string().uuid("serp_feature_id must be a UUID"),
+  queryId: z.string().uuid("query_id must be a UUID"),
+  crawlRunId: z.string().uuid("crawl_run_id must be a UUID").nullable(),
+  engine: EngineIdSchema,
+  featureType: SerpFeatureTypeEnum,
+  position: z.number().int().min(1, "position starts at 1"),
+  title: z.string().nullable().optional(),
+  /** Outbound links inside the block, in page order. */
+  urls: z.array(z.string().url()).default([]),
+  collectedAt: z.coerce.date(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date()
+});
+
+export type SerpFeature = z.infer<typeof SerpFeatureSchema>;
@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { EngineIdSchema } from "./engines";
+
+/**
+ * Vantage Profile Schema - Where a query is collected "from"
+ *
+ * A country and language pair that each target turns into its own locale
+ * parameters (Google `gl`/`hl`, Bing `mkt`, Brave `country`/`search_lang`,
+ * DuckDuckGo `kl`). `engineParams` overrides or adds query parameters per
+ * engine; `proxyUrl` (comma-separated for rotation) routes the browser targets
+ * through the region.
+ */
+export const VantageProfileSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9-]*$/, "vantage id must be lowercase letters, digits and dashes"),
+  /** ISO 3166-1 alpha-2 country code, e.g. "US". */
+  country: z
+    .string()
+    .length(2)
+    .transform((country) => country.toUpperCase()),
+  /** ISO 639-1 language code, e.g. "en". */
+  language: z
+    .string()
+    .min(2)
+    .max(3)
+    .transform((language) => language.toLowerCase()),
+  engineParams: z.record(EngineIdSchema, z.record(z.string(), z.string())).default({}),
+  proxyUrl: z.string().min(1).optional()
+});
+
+export const VantageProfileSetSchema = z
+  .array(VantageProfileSchema)
+  .refine((profiles) => new Set(profiles.map((profile) => profile.id)).size === profiles.length, {
+    message: "vantage ids must be unique"
+  });
+
+export type VantageProfile = z.infer<typeof VantageProfileSchema>;
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { EngineEnum } from "./search-result";
+import { EngineIdSchema } from "./engines";
 
 /**
  * Viewpoint Schema - Per-engine aggregate metadata
@@ -14,7 +14,7 @@ export const ViewpointSchema = z.object({
   id: z.string().uuid("viewpoint_id must be a UUID"),
   queryId: z.string().uuid("query_id must be a UUID"),
   crawlRunId: z.string().uuid("crawl_run_id must be a UUID").nullable(),
-  engine: EngineEnum,
+  engine: EngineIdSchema,
   numResults: z.number().int().min(0, "num_results must be non-negative"),
   summary: z.string().nullable().optional(),
   citationsCount: z.number().int().min(0).default(0),
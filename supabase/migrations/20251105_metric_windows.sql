@@ -0,0 +1,22 @@
+-- Rolling-window metric series
+-- Stores metrics aggregated over every run in a trailing window, separate from per-run metric_records
+
+CREATE TABLE IF NOT EXISTS metric_window_records (
+  id UUID PRIMARY KEY,
+  query_id UUID NOT NULL,
+  engine TEXT,
+  metric_type TEXT NOT NULL,
+  step TEXT NOT NULL,
+  window_days INTEGER NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  window_end TIMESTAMPTZ NOT NULL,
+  run_count INTEGER NOT NULL,
+  value DOUBLE PRECISION NOT NULL,
+  moving_average DOUBLE PRECISION NOT NULL,
+  delta DOUBLE PRECISION,
+  extra JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_metric_window_records_query_type_end
+  ON metric_window_records (query_id, metric_type, step, window_end);
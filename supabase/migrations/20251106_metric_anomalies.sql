@@ -0,0 +1,28 @@
+-- Metric anomalies
+-- Values flagged by the metrics runner as outside the robust median/MAD baseline of their series
+
+CREATE TABLE IF NOT EXISTS metric_anomalies (
+  id UUID PRIMARY KEY,
+  crawl_run_id UUID NOT NULL,
+  query_id UUID NOT NULL,
+  engine TEXT,
+  metric_type TEXT NOT NULL,
+  value DOUBLE PRECISION NOT NULL,
+  baseline DOUBLE PRECISION NOT NULL,
+  scale DOUBLE PRECISION NOT NULL,
+  score DOUBLE PRECISION NOT NULL,
+  lower_bound DOUBLE PRECISION NOT NULL,
+  upper_bound DOUBLE PRECISION NOT NULL,
+  direction TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  history_count INTEGER NOT NULL,
+  collected_at TIMESTAMPTZ NOT NULL,
+  extra JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_metric_anomalies_collected_at
+  ON metric_anomalies (collected_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_metric_anomalies_query_engine_type
+  ON metric_anomalies (query_id, engine, metric_type);
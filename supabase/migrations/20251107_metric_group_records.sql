@@ -0,0 +1,20 @@
+-- Topic- and tag-level metric rollups
+-- Weighted averages of per-query metrics across every benchmark query sharing a topic or tag, per run date
+
+CREATE TABLE IF NOT EXISTS metric_group_records (
+  id UUID PRIMARY KEY,
+  group_by TEXT NOT NULL,
+  group_key TEXT NOT NULL,
+  engine TEXT,
+  metric_type TEXT NOT NULL,
+  run_date TIMESTAMPTZ NOT NULL,
+  value DOUBLE PRECISION NOT NULL,
+  delta DOUBLE PRECISION,
+  query_count INTEGER NOT NULL,
+  total_weight DOUBLE PRECISION NOT NULL,
+  extra JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_metric_group_records_group_type_date
+  ON metric_group_records (group_by, group_key, metric_type, run_date);
@@ -0,0 +1,23 @@
+-- Citations
+-- One row per numbered citation in an AI answer (Perplexity), with the summary sentences that reference it
+
+CREATE TABLE IF NOT EXISTS citations (
+  id UUID PRIMARY KEY,
+  query_id UUID NOT NULL,
+  crawl_run_id UUID,
+  engine TEXT NOT NULL,
+  citation_index INTEGER NOT NULL,
+  url TEXT NOT NULL,
+  normalized_url TEXT NOT NULL,
+  domain TEXT NOT NULL,
+  sentences JSONB NOT NULL DEFAULT '[]'::jsonb,
+  collected_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_citations_query_run
+  ON citations (query_id, crawl_run_id);
+
+CREATE INDEX IF NOT EXISTS idx_citations_domain
+  ON citations (domain);
@@ -0,0 +1,11 @@
+-- Registrable domains (eTLD+1, from the public suffix list) next to the full hostname
+-- Existing rows are filled by `pnpm --filter @truthlayer/collector backfill:urls`
+
+ALTER TABLE search_results
+  ADD COLUMN IF NOT EXISTS registrable_domain TEXT;
+
+ALTER TABLE citations
+  ADD COLUMN IF NOT EXISTS registrable_domain TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_search_results_registrable_domain
+  ON search_results (registrable_domain);
@@ -0,0 +1,4 @@
+-- Extractor version that produced each search result (live crawl or `collector reextract`)
+
+ALTER TABLE search_results
+  ADD COLUMN IF NOT EXISTS parser_version TEXT;
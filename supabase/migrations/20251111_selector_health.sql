@@ -0,0 +1,19 @@
+-- Selector health
+-- Daily success/failure counts per engine CSS selector, used to order selector fallbacks by recent success rate
+
+CREATE TABLE IF NOT EXISTS selector_health (
+  engine TEXT NOT NULL,
+  selector_group TEXT NOT NULL,
+  selector TEXT NOT NULL,
+  bucket_date TIMESTAMPTZ NOT NULL,
+  success_count INTEGER NOT NULL DEFAULT 0,
+  fail_count INTEGER NOT NULL DEFAULT 0,
+  last_success_at TIMESTAMPTZ,
+  last_failure_at TIMESTAMPTZ,
+  config_version TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (engine, selector_group, selector, bucket_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_selector_health_bucket
+  ON selector_health (bucket_date);
@@ -0,0 +1,23 @@
+-- SERP features
+-- Non-organic blocks on a results page (ads, featured snippets, "People also ask", knowledge panels,
+-- news/video carousels, AI answers) with their page position and outbound links
+
+CREATE TABLE IF NOT EXISTS serp_features (
+  id UUID PRIMARY KEY,
+  query_id UUID NOT NULL,
+  crawl_run_id UUID,
+  engine TEXT NOT NULL,
+  feature_type TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  title TEXT,
+  urls JSONB NOT NULL DEFAULT '[]'::jsonb,
+  collected_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_serp_features_query_run
+  ON serp_features (query_id, crawl_run_id);
+
+CREATE INDEX IF NOT EXISTS idx_serp_features_type
+  ON serp_features (engine, feature_type);
@@ -0,0 +1,4 @@
+-- Pixel-based visibility of each result on the rendered page (browser targets only)
+
+ALTER TABLE search_results
+  ADD COLUMN IF NOT EXISTS visibility_weight REAL;
@@ -0,0 +1,13 @@
+-- Vantage profiles: the locale (and optional proxy) a query was collected under
+
+ALTER TABLE search_results
+  ADD COLUMN IF NOT EXISTS vantage_id TEXT;
+
+ALTER TABLE crawl_runs
+  ADD COLUMN IF NOT EXISTS vantage_id TEXT;
+
+-- The same URL may now appear once per vantage. Rows without a vantage keep
+-- sharing a single slot, so NULLs must not be distinct (PostgreSQL 15+).
+DROP INDEX IF EXISTS search_results_unique_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS search_results_vantage_unique_idx
+  ON search_results (query_id, engine, url, vantage_id) NULLS NOT DISTINCT;
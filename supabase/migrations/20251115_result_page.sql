@@ -0,0 +1,4 @@
+-- Results page (1-based) each result was found on; rank runs on across pages
+
+ALTER TABLE search_results
+  ADD COLUMN IF NOT EXISTS page INTEGER;
@@ -0,0 +1,19 @@
+-- Robots decisions
+-- Every robots.txt decision the collector makes before fetching a page, for auditing crawl compliance
+
+CREATE TABLE IF NOT EXISTS robots_decisions (
+  id UUID PRIMARY KEY,
+  crawl_run_id UUID,
+  engine TEXT NOT NULL,
+  url TEXT NOT NULL,
+  user_agent TEXT NOT NULL,
+  allowed BOOLEAN NOT NULL,
+  robots_status TEXT NOT NULL,
+  matched_agent TEXT,
+  matched_rule TEXT,
+  crawl_delay_ms INTEGER,
+  decided_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_robots_decisions_run
+  ON robots_decisions (crawl_run_id, decided_at);
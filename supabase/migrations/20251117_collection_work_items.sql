@@ -0,0 +1,25 @@
+-- Collection work items
+-- One row per query, engine and vantage of a collector run: the run's checkpoint for resuming and retrying
+
+CREATE TABLE IF NOT EXISTS collection_work_items (
+  id UUID PRIMARY KEY,
+  run_id TEXT NOT NULL,
+  crawl_run_id UUID NOT NULL,
+  query_id UUID NOT NULL,
+  engine TEXT NOT NULL,
+  vantage_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  result_count INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_work_items_run
+  ON collection_work_items (run_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_collection_work_items_crawl_run
+  ON collection_work_items (crawl_run_id);
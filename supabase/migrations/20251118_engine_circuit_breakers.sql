@@ -0,0 +1,24 @@
+-- Engine circuit breakers
+-- Per engine and proxy: whether the collector has paused the engine after bot checks or 429s, and until when
+
+CREATE TABLE IF NOT EXISTS engine_circuit_breakers (
+  engine TEXT NOT NULL,
+  proxy TEXT NOT NULL DEFAULT '',
+  state TEXT NOT NULL CHECK (state IN ('closed', 'open', 'half_open')),
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  consecutive_opens INTEGER NOT NULL DEFAULT 0,
+  last_reason TEXT,
+  last_error TEXT,
+  opened_at TIMESTAMPTZ,
+  retry_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (engine, proxy)
+);
+
+-- Blocked engines leave their work items and crawl runs "blocked" rather than "failed"
+ALTER TABLE collection_work_items
+  DROP CONSTRAINT IF EXISTS collection_work_items_status_check;
+
+ALTER TABLE collection_work_items
+  ADD CONSTRAINT collection_work_items_status_check
+  CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'blocked'));
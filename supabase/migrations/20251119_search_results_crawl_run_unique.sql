@@ -0,0 +1,6 @@
+-- Search results are unique per crawl run as well. Re-extracted rows are
+-- written under their own crawl run and must not overwrite the row another
+-- crawl holds for the same URL.
+DROP INDEX IF EXISTS search_results_vantage_unique_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS search_results_crawl_run_unique_idx
+  ON search_results (query_id, engine, url, vantage_id, crawl_run_id) NULLS NOT DISTINCT;